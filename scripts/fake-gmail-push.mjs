@@ -0,0 +1,44 @@
+// Posts a Gmail Pub/Sub push envelope to the local webhook, mimicking what
+// Google sends after `users.watch`.
+//
+// Usage: node scripts/fake-gmail-push.mjs <emailAddress> <historyId> [url]
+import { randomUUID } from 'node:crypto';
+
+const [emailAddress, historyId, url] = process.argv.slice(2);
+
+if (!emailAddress || !historyId) {
+  console.error(
+    'Usage: node scripts/fake-gmail-push.mjs <emailAddress> <historyId> [url]',
+  );
+  process.exit(1);
+}
+
+const target = new URL(
+  url ?? `http://localhost:${process.env.PORT ?? 3000}/push/gmail`,
+);
+if (process.env.GMAIL_PUSH_TOKEN && !target.searchParams.has('token')) {
+  target.searchParams.set('token', process.env.GMAIL_PUSH_TOKEN);
+}
+
+const envelope = {
+  message: {
+    data: Buffer.from(
+      JSON.stringify({ emailAddress, historyId: Number(historyId) }),
+    ).toString('base64'),
+    messageId: randomUUID(),
+    publishTime: new Date().toISOString(),
+  },
+  subscription: 'projects/local/subscriptions/fake-gmail-push',
+};
+
+const response = await fetch(target, {
+  method: 'POST',
+  headers: { 'Content-Type': 'application/json' },
+  body: JSON.stringify(envelope),
+});
+
+console.log(`${response.status} ${response.statusText}`);
+if (!response.ok) {
+  console.log(await response.text());
+  process.exit(1);
+}
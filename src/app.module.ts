@@ -1,9 +1,30 @@
 import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { ScheduleModule } from '@nestjs/schedule';
 import { AppController } from './app.controller';
 import { AppService } from './app.service';
+import { AuthModule } from './auth/auth.module';
+import { DatabaseModule } from './database/database.module';
+import { DocumentsModule } from './documents/documents.module';
+import { ExportsModule } from './exports/exports.module';
+import { PushModule } from './push/push.module';
+import { RulesModule } from './rules/rules.module';
+import { VendorsModule } from './vendors/vendors.module';
+import { ScannerModule } from './scanner/scanner.module';
 
 @Module({
-  imports: [],
+  imports: [
+    ConfigModule.forRoot({ isGlobal: true }),
+    ScheduleModule.forRoot(),
+    DatabaseModule,
+    AuthModule,
+    ScannerModule,
+    PushModule,
+    RulesModule,
+    VendorsModule,
+    ExportsModule,
+    DocumentsModule,
+  ],
   controllers: [AppController],
   providers: [AppService],
 })
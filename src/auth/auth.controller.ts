@@ -0,0 +1,79 @@
+import {
+  BadRequestException,
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Post,
+  Query,
+  Redirect,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { AuthService } from './auth.service';
+import {
+  AccountStatusDto,
+  AuthStatusDto,
+  CallbackQueryDto,
+  LoginQueryDto,
+  LogoutDto,
+} from './dto';
+
+@Controller('auth')
+export class AuthController {
+  constructor(private readonly authService: AuthService) {}
+
+  @Get('login')
+  @Redirect()
+  login(@Query() query: LoginQueryDto): { url: string } {
+    return { url: this.authService.getAuthUrl(query.account) };
+  }
+
+  @Get('callback')
+  async callback(@Query() query: CallbackQueryDto): Promise<AccountStatusDto> {
+    if (query.error) {
+      throw new UnauthorizedException(
+        `Google sign-in was not completed: ${query.error}`,
+      );
+    }
+    if (!query.code) {
+      throw new BadRequestException('Missing authorization code');
+    }
+
+    let accountId: string;
+    try {
+      accountId = await this.authService.handleCallback(query.code);
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      throw new UnauthorizedException(errorMessage);
+    }
+
+    return this.getAccountStatus(accountId);
+  }
+
+  @Get('status')
+  async status(): Promise<AuthStatusDto> {
+    const accountIds = await this.authService.getAccountIds();
+    const accounts = await Promise.all(
+      accountIds.map((accountId) => this.getAccountStatus(accountId)),
+    );
+    return {
+      authenticated: accounts.some((account) => account.authenticated),
+      accounts,
+    };
+  }
+
+  @Post('logout')
+  @HttpCode(HttpStatus.OK)
+  async logout(@Body() body: LogoutDto): Promise<AuthStatusDto> {
+    await this.authService.clearTokens(body.accountId);
+    return this.status();
+  }
+
+  private async getAccountStatus(accountId: string): Promise<AccountStatusDto> {
+    const authenticated = await this.authService.isAuthenticated(accountId);
+    const tokenInfo = await this.authService.getTokenInfo(accountId);
+    return { accountId, authenticated, tokenInfo };
+  }
+}
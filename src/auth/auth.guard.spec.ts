@@ -0,0 +1,50 @@
+import { ExecutionContext, UnauthorizedException } from '@nestjs/common';
+import { AuthGuard } from './auth.guard';
+import { AuthService } from './auth.service';
+
+describe('AuthGuard', () => {
+  const authService = { isAuthenticated: jest.fn() };
+  const guard = new AuthGuard(authService as unknown as AuthService);
+
+  const contextFor = (request: object): ExecutionContext =>
+    ({
+      switchToHttp: () => ({ getRequest: () => request }),
+    }) as ExecutionContext;
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+  });
+
+  it('should allow requests when a valid token exists', async () => {
+    authService.isAuthenticated.mockResolvedValue(true);
+
+    await expect(guard.canActivate(contextFor({ query: {} }))).resolves.toBe(
+      true,
+    );
+    expect(authService.isAuthenticated).toHaveBeenCalledWith(undefined);
+  });
+
+  it('should check the account named in the request', async () => {
+    authService.isAuthenticated.mockResolvedValue(true);
+
+    await guard.canActivate(
+      contextFor({ query: {}, body: { accountId: 'billing@example.com' } }),
+    );
+
+    expect(authService.isAuthenticated).toHaveBeenCalledWith(
+      'billing@example.com',
+    );
+  });
+
+  it('should reject with a re-login hint when no valid token exists', async () => {
+    authService.isAuthenticated.mockResolvedValue(false);
+
+    const rejection = guard.canActivate(
+      contextFor({ query: { accountId: 'billing@example.com' } }),
+    );
+    await expect(rejection).rejects.toThrow(UnauthorizedException);
+    await expect(rejection).rejects.toMatchObject({
+      response: { loginUrl: '/auth/login?account=billing%40example.com' },
+    });
+  });
+});
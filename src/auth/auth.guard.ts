@@ -0,0 +1,42 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  Injectable,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { Request } from 'express';
+import { AuthService } from './auth.service';
+
+export const LOGIN_PATH = '/auth/login';
+
+@Injectable()
+export class AuthGuard implements CanActivate {
+  constructor(private readonly authService: AuthService) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const accountId = this.getAccountId(context.switchToHttp().getRequest());
+
+    const authenticated = await this.authService.isAuthenticated(accountId);
+    if (!authenticated) {
+      const loginUrl = accountId
+        ? `${LOGIN_PATH}?account=${encodeURIComponent(accountId)}`
+        : LOGIN_PATH;
+      throw new UnauthorizedException({
+        statusCode: 401,
+        error: 'Unauthorized',
+        message: accountId
+          ? `No valid Google authorization found for ${accountId}. Sign in again at ${loginUrl}.`
+          : `No valid Google authorization found. Sign in again at ${LOGIN_PATH}.`,
+        loginUrl,
+      });
+    }
+    return true;
+  }
+
+  private getAccountId(request: Request): string | undefined {
+    const body = request.body as { accountId?: unknown } | undefined;
+    const candidate: unknown =
+      request.params?.accountId ?? request.query?.accountId ?? body?.accountId;
+    return typeof candidate === 'string' ? candidate : undefined;
+  }
+}
@@ -0,0 +1,84 @@
+import { ConfigService } from '@nestjs/config';
+import { google } from 'googleapis';
+import { Repository } from 'typeorm';
+import { UserToken } from '../entities';
+import { AuthService } from './auth.service';
+
+function userToken(userId: string, expiryDate: number): UserToken {
+  return {
+    userId,
+    accessToken: 'access',
+    refreshToken: 'refresh',
+    scope: 'gmail',
+    tokenType: 'Bearer',
+    expiryDate,
+  } as UserToken;
+}
+
+describe('AuthService', () => {
+  const oauth2Client = {
+    setCredentials: jest.fn(),
+    refreshAccessToken: jest.fn(),
+  };
+  const userTokenRepository = {
+    find: jest.fn(),
+    findOne: jest.fn(),
+    delete: jest.fn(),
+  };
+  let authService: AuthService;
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    jest
+      .spyOn(google.auth, 'OAuth2')
+      .mockImplementation(
+        () =>
+          oauth2Client as unknown as InstanceType<typeof google.auth.OAuth2>,
+      );
+    authService = new AuthService(
+      { get: jest.fn() } as unknown as ConfigService,
+      userTokenRepository as unknown as Repository<UserToken>,
+    );
+  });
+
+  describe('isAuthenticated', () => {
+    it('should look past an account whose refresh fails', async () => {
+      userTokenRepository.find.mockResolvedValue([
+        userToken('revoked@example.com', Date.now() - 1000),
+        userToken('valid@example.com', Date.now() + 60 * 60 * 1000),
+      ]);
+      oauth2Client.refreshAccessToken.mockRejectedValue(
+        new Error('invalid_grant'),
+      );
+
+      await expect(authService.isAuthenticated()).resolves.toBe(true);
+    });
+
+    it('should report a single account whose refresh fails', async () => {
+      userTokenRepository.findOne.mockResolvedValue(
+        userToken('revoked@example.com', Date.now() - 1000),
+      );
+      oauth2Client.refreshAccessToken.mockRejectedValue(
+        new Error('invalid_grant'),
+      );
+
+      await expect(
+        authService.isAuthenticated('revoked@example.com'),
+      ).resolves.toBe(false);
+    });
+  });
+
+  describe('clearTokens', () => {
+    it('should run disconnect hooks before deleting the tokens', async () => {
+      const hook = jest.fn().mockRejectedValue(new Error('watch not found'));
+      authService.beforeDisconnect(hook);
+
+      await authService.clearTokens('me@example.com');
+
+      expect(hook).toHaveBeenCalledWith('me@example.com');
+      expect(hook.mock.invocationCallOrder[0]).toBeLessThan(
+        userTokenRepository.delete.mock.invocationCallOrder[0],
+      );
+    });
+  });
+});
@@ -3,30 +3,50 @@ import { ConfigService } from '@nestjs/config';
 import { InjectRepository } from '@nestjs/typeorm';
 import { Repository } from 'typeorm';
 import { google } from 'googleapis';
-import { UserToken } from 'src/entities';
+import { UserToken } from '../entities';
 import { OAuth2Client } from 'google-auth-library';
 import { Credentials } from 'google-auth-library';
 import { DeepPartial } from 'typeorm';
+import { TokenInfo } from '../common/interfaces/google-auth.interface';
+
+export type AccountChange = 'connected' | 'disconnected';
+
+export type AccountListener = (
+  change: AccountChange,
+  accountId: string,
+) => void;
+
+export type DisconnectHook = (accountId: string) => Promise<void>;
 
 @Injectable()
 export class AuthService {
   private readonly logger = new Logger(AuthService.name);
-  private oauth2Client: OAuth2Client;
-  private readonly defaultUserId = 'default_user';
+  private readonly accountListeners: AccountListener[] = [];
+  private readonly disconnectHooks: DisconnectHook[] = [];
 
   constructor(
     private configService: ConfigService,
     @InjectRepository(UserToken)
     private userTokenRepository: Repository<UserToken>,
-  ) {
-    this.oauth2Client = new google.auth.OAuth2(
-      this.configService.get('GOOGLE_CLIENT_ID'),
-      this.configService.get('GOOGLE_CLIENT_SECRET'),
-      this.configService.get('GOOGLE_REDIRECT_URI'),
-    );
+  ) {}
+
+  /**
+   * Registers `listener` to hear about accounts connected through the OAuth
+   * callback and accounts logged out, for modules this one cannot import.
+   */
+  onAccountChange(listener: AccountListener): void {
+    this.accountListeners.push(listener);
   }
 
-  getAuthUrl(): string {
+  /**
+   * Registers `hook` to run before an account's tokens are deleted, while
+   * they can still be used to clean up at Google.
+   */
+  beforeDisconnect(hook: DisconnectHook): void {
+    this.disconnectHooks.push(hook);
+  }
+
+  getAuthUrl(loginHint?: string): string {
     const scopesValue = this.configService.get<string>('GOOGLE_SCOPES');
 
     if (!scopesValue) {
@@ -35,102 +55,162 @@ export class AuthService {
 
     const scopes = scopesValue.split(',');
 
-    return this.oauth2Client.generateAuthUrl({
+    return this.createOAuthClient().generateAuthUrl({
       access_type: 'offline',
       scope: scopes,
-      prompt: 'consent',
+      prompt: 'consent select_account',
+      login_hint: loginHint,
     });
   }
 
-  async handleCallback(code: string): Promise<Credentials> {
+  /**
+   * Exchanges the OAuth code for tokens and stores them against the Gmail
+   * address they belong to, so each mailbox becomes its own account.
+   */
+  async handleCallback(code: string): Promise<string> {
     try {
-      const { tokens } = await this.oauth2Client.getToken(code);
+      const oauth2Client = this.createOAuthClient();
+      const { tokens } = await oauth2Client.getToken(code);
+      oauth2Client.setCredentials(tokens);
 
-      await this.saveTokens(tokens);
+      const gmail = google.gmail({ version: 'v1', auth: oauth2Client });
+      const profile = await gmail.users.getProfile({ userId: 'me' });
+      const accountId = profile.data.emailAddress;
+      if (!accountId) {
+        throw new Error('Google did not return the mailbox address');
+      }
 
-      this.oauth2Client.setCredentials(tokens);
+      await this.saveTokens(accountId, tokens);
 
-      this.logger.log('Tokens obtained and saved successfully to database');
-      return tokens;
+      this.logger.log(`Tokens obtained and saved for account ${accountId}`);
+      this.notifyAccountChange('connected', accountId);
+      return accountId;
     } catch (error) {
       this.logger.error('Failed to exchange code for tokens:', error);
       throw new Error('Failed to authenticate with Google');
     }
   }
 
-  async isAuthenticated(): Promise<boolean> {
+  /**
+   * Checks a single account when `accountId` is given, otherwise whether at
+   * least one connected account still has usable tokens.
+   */
+  async isAuthenticated(accountId?: string): Promise<boolean> {
+    let userTokens: (UserToken | null)[];
     try {
-      const userToken: UserToken | null = await this.loadTokens();
-      if (!userToken) return false;
-
-      const tokens: Credentials = {
-        access_token: userToken.accessToken,
-        refresh_token: userToken.refreshToken,
-        scope: userToken.scope,
-        token_type: userToken.tokenType,
-        expiry_date: userToken.expiryDate,
-      };
+      userTokens = accountId
+        ? [await this.loadTokens(accountId)]
+        : await this.userTokenRepository.find();
+    } catch (error) {
+      this.logger.error('Authentication check failed:', error);
+      return false;
+    }
 
-      this.oauth2Client.setCredentials(tokens);
+    // One account whose refresh fails must not hide the others.
+    for (const userToken of userTokens) {
+      if (!userToken) continue;
 
       if (userToken.expiryDate && userToken.expiryDate <= Date.now()) {
-        if (userToken.refreshToken) {
-          await this.refreshTokens();
-          return true;
+        if (!userToken.refreshToken) continue;
+        try {
+          await this.refreshTokens(userToken);
+        } catch {
+          // Already logged by refreshTokens.
+          continue;
         }
-        return false;
       }
 
       return true;
-    } catch (error) {
-      this.logger.error('Authentication check failed:', error);
-      return false;
     }
+
+    return false;
   }
 
-  async getAuthenticated(): Promise<OAuth2Client> {
-    const userToken = await this.loadTokens();
+  async getAuthenticated(accountId: string): Promise<OAuth2Client> {
+    const userToken = await this.loadTokens(accountId);
     if (!userToken) {
-      throw new Error('No authentication tokens found');
+      throw new Error(`No authentication tokens found for ${accountId}`);
     }
 
-    const tokens = {
-      access_token: userToken.accessToken,
-      refresh_token: userToken.refreshToken,
-      scope: userToken.scope,
-      token_type: userToken.tokenType,
-      expiry_date: userToken.expiryDate,
-    };
-
-    this.oauth2Client.setCredentials(tokens);
-
     if (
       userToken.expiryDate &&
       userToken.expiryDate <= Date.now() &&
       userToken.refreshToken
     ) {
-      await this.refreshTokens();
+      return this.refreshTokens(userToken);
     }
 
-    return this.oauth2Client;
+    const oauth2Client = this.createOAuthClient();
+    oauth2Client.setCredentials(this.toCredentials(userToken));
+    return oauth2Client;
   }
 
-  private async refreshTokens(): Promise<void> {
+  async getAccountIds(): Promise<string[]> {
+    const userTokens = await this.userTokenRepository.find({
+      select: ['userId'],
+      order: { createdAt: 'ASC' },
+    });
+    return userTokens.map((userToken) => userToken.userId);
+  }
+
+  // A failing listener must not undo a sign-in or logout that succeeded.
+  private notifyAccountChange(change: AccountChange, accountId: string): void {
+    for (const listener of this.accountListeners) {
+      try {
+        listener(change, accountId);
+      } catch (error) {
+        this.logger.error(
+          `Account listener failed for ${change} ${accountId}:`,
+          error,
+        );
+      }
+    }
+  }
+
+  private createOAuthClient(): OAuth2Client {
+    return new google.auth.OAuth2(
+      this.configService.get('GOOGLE_CLIENT_ID'),
+      this.configService.get('GOOGLE_CLIENT_SECRET'),
+      this.configService.get('GOOGLE_REDIRECT_URI'),
+    );
+  }
+
+  private toCredentials(userToken: UserToken): Credentials {
+    return {
+      access_token: userToken.accessToken,
+      refresh_token: userToken.refreshToken,
+      scope: userToken.scope,
+      token_type: userToken.tokenType,
+      expiry_date: userToken.expiryDate,
+    };
+  }
+
+  private async refreshTokens(userToken: UserToken): Promise<OAuth2Client> {
     try {
-      const { credentials } = await this.oauth2Client.refreshAccessToken();
-      await this.saveTokens(credentials);
-      this.oauth2Client.setCredentials(credentials);
-      this.logger.log('Tokens refreshed successfully');
+      const oauth2Client = this.createOAuthClient();
+      oauth2Client.setCredentials(this.toCredentials(userToken));
+
+      const { credentials } = await oauth2Client.refreshAccessToken();
+      await this.saveTokens(userToken.userId, credentials);
+      oauth2Client.setCredentials(credentials);
+      this.logger.log(`Tokens refreshed successfully for ${userToken.userId}`);
+      return oauth2Client;
     } catch (error) {
-      this.logger.error('Failed to refresh tokens:', error);
+      this.logger.error(
+        `Failed to refresh tokens for ${userToken.userId}:`,
+        error,
+      );
       throw new Error('Failed to refresh authentication tokens');
     }
   }
 
-  private async saveTokens(tokens: Credentials): Promise<void> {
+  private async saveTokens(
+    accountId: string,
+    tokens: Credentials,
+  ): Promise<void> {
     try {
       let userToken: UserToken | null = await this.userTokenRepository.findOne({
-        where: { userId: this.defaultUserId },
+        where: { userId: accountId },
       });
 
       if (userToken) {
@@ -141,7 +221,7 @@ export class AuthService {
         userToken.expiryDate = tokens.expiry_date ?? null;
       } else {
         userToken = this.userTokenRepository.create({
-          userId: this.defaultUserId,
+          userId: accountId,
           accessToken: tokens.access_token,
           refreshToken: tokens.refresh_token,
           scope: tokens.scope,
@@ -151,21 +231,21 @@ export class AuthService {
       }
 
       await this.userTokenRepository.save(userToken);
-      this.logger.log('Tokens saved to database successfully');
+      this.logger.log(`Tokens saved to database for ${accountId}`);
     } catch (error) {
       this.logger.error('Failed to save tokens to database:', error);
       throw new Error('Failed to save authentication tokens');
     }
   }
 
-  private async loadTokens(): Promise<UserToken | null> {
+  private async loadTokens(accountId: string): Promise<UserToken | null> {
     try {
       const userToken = await this.userTokenRepository.findOne({
-        where: { userId: this.defaultUserId },
+        where: { userId: accountId },
       });
 
       if (!userToken) {
-        this.logger.log('No tokens found in database');
+        this.logger.log(`No tokens found in database for ${accountId}`);
         return null;
       }
 
@@ -176,20 +256,54 @@ export class AuthService {
     }
   }
 
-  async clearTokens(): Promise<void> {
+  async clearTokens(accountId: string): Promise<void> {
+    // As with listeners, a failing hook must not block the logout.
+    for (const hook of this.disconnectHooks) {
+      try {
+        await hook(accountId);
+      } catch (error) {
+        this.logger.error(`Disconnect hook failed for ${accountId}:`, error);
+      }
+    }
+
     try {
-      await this.userTokenRepository.delete({ userId: this.defaultUserId });
-      this.logger.log('Tokens cleared from database successfully');
+      await this.userTokenRepository.delete({ userId: accountId });
+      this.logger.log(`Tokens cleared for account ${accountId}`);
     } catch (error) {
       this.logger.error('Failed to clear tokens from database:', error);
       throw new Error('Failed to clear authentication tokens');
     }
+
+    this.notifyAccountChange('disconnected', accountId);
   }
 
-  async getTokenInfo(): Promise<any> {
-    const userToken = await this.loadTokens();
+  /**
+   * Disconnects every account. Only reachable through the `logout:all`
+   * maintenance command, never over HTTP.
+   */
+  async clearAllTokens(): Promise<string[]> {
+    const accountIds = await this.getAccountIds();
+    for (const accountId of accountIds) {
+      await this.clearTokens(accountId);
+    }
+    return accountIds;
+  }
+
+  async getTokenInfo(accountId: string): Promise<TokenInfo | null> {
+    const userToken = await this.loadTokens(accountId);
     if (!userToken) return null;
 
+    return this.toTokenInfo(userToken);
+  }
+
+  async listAccounts(): Promise<TokenInfo[]> {
+    const userTokens = await this.userTokenRepository.find({
+      order: { createdAt: 'ASC' },
+    });
+    return userTokens.map((userToken) => this.toTokenInfo(userToken));
+  }
+
+  private toTokenInfo(userToken: UserToken): TokenInfo {
     return {
       userId: userToken.userId,
       scope: userToken.scope,
@@ -0,0 +1,12 @@
+import { TokenInfo } from '../../common/interfaces/google-auth.interface';
+
+export class AccountStatusDto {
+  accountId: string;
+  authenticated: boolean;
+  tokenInfo: TokenInfo | null;
+}
+
+export class AuthStatusDto {
+  authenticated: boolean;
+  accounts: AccountStatusDto[];
+}
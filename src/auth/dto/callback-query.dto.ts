@@ -0,0 +1,11 @@
+import { IsOptional, IsString } from 'class-validator';
+
+export class CallbackQueryDto {
+  @IsOptional()
+  @IsString()
+  code?: string;
+
+  @IsOptional()
+  @IsString()
+  error?: string;
+}
@@ -0,0 +1,4 @@
+export { AccountStatusDto, AuthStatusDto } from './auth-status.dto';
+export { CallbackQueryDto } from './callback-query.dto';
+export { LoginQueryDto } from './login-query.dto';
+export { LogoutDto } from './logout.dto';
@@ -0,0 +1,7 @@
+import { IsEmail, IsOptional } from 'class-validator';
+
+export class AccountQueryDto {
+  @IsOptional()
+  @IsEmail()
+  accountId?: string;
+}
@@ -0,0 +1,47 @@
+export interface ExtractedField<T> {
+  value: T;
+  confidence: number;
+}
+
+export interface InvoiceFields {
+  invoiceNumber?: ExtractedField<string>;
+  totalAmount?: ExtractedField<number>;
+  netAmount?: ExtractedField<number>;
+  taxAmount?: ExtractedField<number>;
+  currency?: ExtractedField<string>;
+  invoiceDate?: ExtractedField<string>;
+  dueDate?: ExtractedField<string>;
+  vendor?: ExtractedField<string>;
+  sellerVatId?: ExtractedField<string>;
+}
+
+export type EInvoiceFormat = 'ubl' | 'cii' | 'xrechnung' | 'factur-x';
+
+export interface EInvoiceLineItem {
+  description: string;
+  quantity: number | null;
+  unitPrice: number | null;
+  netAmount: number | null;
+}
+
+/** Values read from a structured e-invoice; dates are `YYYY-MM-DD`. */
+export interface EInvoice {
+  format: EInvoiceFormat;
+  invoiceNumber: string | null;
+  issueDate: string | null;
+  dueDate: string | null;
+  currency: string | null;
+  sellerName: string | null;
+  sellerVatId: string | null;
+  netAmount: number | null;
+  taxAmount: number | null;
+  grossAmount: number | null;
+  lineItems: EInvoiceLineItem[];
+}
+
+export interface ExtractedDocument {
+  text: string;
+  textSource: 'pdf' | 'ocr' | 'xml' | null;
+  fields: InvoiceFields;
+  eInvoice: EInvoice | null;
+}
@@ -6,15 +6,35 @@ export interface GoogleTokens {
   expiry_date?: number;
 }
 
+export interface TokenInfo {
+  userId: string;
+  scope: string;
+  tokenType: string;
+  expiryDate: number | null;
+  hasRefreshToken: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
 export interface EmailDetails {
   id: string;
   subject: string;
   from: string;
   date: string;
+  snippet: string;
+  /** Plain-text body, converted from HTML when there is no text part. */
+  bodyText: string;
+  /**
+   * The forwarder's From header when the email forwards another message;
+   * `from`, `subject` and `date` then describe the original message.
+   */
+  forwardedBy: string | null;
   attachments: EmailAttachment[];
 }
 
 export interface EmailAttachment {
+  /** Stable within a message, unlike `attachmentId`, which Gmail reissues. */
+  partId: string;
   filename: string;
   attachmentId: string;
   mimeType?: string | null;
@@ -0,0 +1,10 @@
+export const OCR_PROVIDER = Symbol('OCR_PROVIDER');
+
+export interface OcrResult {
+  text: string;
+  confidence: number;
+}
+
+export interface OcrProvider {
+  recognize(image: Buffer): Promise<OcrResult>;
+}
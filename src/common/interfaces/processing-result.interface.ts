@@ -1,12 +1,65 @@
+export interface ScanOptions {
+  accountId?: string;
+  /** Report what the scan would do without writing anywhere. */
+  dryRun?: boolean;
+  /**
+   * Only emails received in this range, as a backfill does. The Gmail
+   * checkpoint is left alone.
+   */
+  range?: DateRange;
+}
+
+/** From `from` up to, not including, `to`. */
+export interface DateRange {
+  from: Date;
+  to: Date;
+}
+
 export interface ProcessingResult {
+  accountId: string;
   processed: number;
+  /**
+   * Emails that could not be read at all. Unlike failed attachments they
+   * are not queued for retry; only a later search finds them again.
+   */
+  emailFailures: number;
   errors: string[];
   details: ProcessedDocumentResult[];
+  /** What a dry run found, one entry per candidate email. */
+  preview?: EmailPreview[];
 }
 
 export interface ProcessedDocumentResult {
   emailId: string;
   fileName: string;
   driveFileId: string;
-  spreadsheetRow: number;
+  spreadsheetRow: number | null;
+  duplicateOfId: string | null;
+}
+
+export interface EmailPreview {
+  emailId: string;
+  from: string;
+  subject: string;
+  date: string;
+  attachments: AttachmentPreview[];
+}
+
+export interface AttachmentPreview {
+  /** Gmail part id, or `partId/path` for a file inside an archive. */
+  partId: string;
+  filename: string;
+  /** The type detected from the content, or the declared one if skipped. */
+  mimeType: string | null;
+  accepted: boolean;
+  /** Why the file would be skipped, when it would be. */
+  reason: string | null;
+  /** Set when the file would be recorded as a copy of this document. */
+  duplicateOfId: string | null;
+  /** The name the file would be uploaded under, before any `_2` suffix. */
+  fileName: string | null;
+  /** The Drive folders the file would be filed in. */
+  folderPath: string | null;
+  vendor: string | null;
+  category: string | null;
 }
@@ -0,0 +1,7 @@
+export interface SheetSyncResult {
+  /** Documents updated from edits made in the sheet. */
+  applied: number;
+  conflicts: number;
+  /** Rows rewritten because the database held the newer value. */
+  rewritten: number;
+}
@@ -1,7 +1,17 @@
 import { Module } from '@nestjs/common';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { ConfigModule, ConfigService } from '@nestjs/config';
-import { UserToken, ProcessedDocument, ScanLog } from '../entities';
+import {
+  AttachmentState,
+  BackfillJob,
+  ClassificationRule,
+  UserToken,
+  Vendor,
+  ProcessedDocument,
+  ScanLog,
+  SheetConflict,
+  SheetWriteMark,
+} from '../entities';
 
 @Module({
   imports: [
@@ -14,7 +24,17 @@ import { UserToken, ProcessedDocument, ScanLog } from '../entities';
         username: configService.get('DATABASE_USER'),
         password: configService.get('DATABASE_PASSWORD'),
         database: configService.get('DATABASE_NAME'),
-        entities: [UserToken, ProcessedDocument, ScanLog],
+        entities: [
+          UserToken,
+          ProcessedDocument,
+          ScanLog,
+          AttachmentState,
+          ClassificationRule,
+          Vendor,
+          SheetConflict,
+          SheetWriteMark,
+          BackfillJob,
+        ],
         synchronize: configService.get('NODE_ENV') === 'development',
         logging: configService.get('NODE_ENV') === 'development',
         ssl:
@@ -32,7 +52,17 @@ import { UserToken, ProcessedDocument, ScanLog } from '../entities';
       }),
       inject: [ConfigService],
     }),
-    TypeOrmModule.forFeature([UserToken, ProcessedDocument, ScanLog]),
+    TypeOrmModule.forFeature([
+      UserToken,
+      ProcessedDocument,
+      ScanLog,
+      AttachmentState,
+      ClassificationRule,
+      Vendor,
+      SheetConflict,
+      SheetWriteMark,
+      BackfillJob,
+    ]),
   ],
   exports: [TypeOrmModule],
 })
@@ -0,0 +1,22 @@
+import { Controller, Get, Query, UseGuards } from '@nestjs/common';
+import { AuthGuard } from '../auth/auth.guard';
+import { DocumentDto } from '../scanner/dto';
+import { DocumentsService } from './documents.service';
+import { DocumentPageDto, DocumentSearchQueryDto } from './dto';
+
+@Controller('documents')
+@UseGuards(AuthGuard)
+export class DocumentsController {
+  constructor(private readonly documentsService: DocumentsService) {}
+
+  @Get()
+  async search(
+    @Query() query: DocumentSearchQueryDto,
+  ): Promise<DocumentPageDto> {
+    const page = await this.documentsService.search(query);
+    return {
+      items: page.items.map((document) => DocumentDto.fromEntity(document)),
+      nextCursor: page.nextCursor,
+    };
+  }
+}
@@ -0,0 +1,150 @@
+import { Repository } from 'typeorm';
+import { ProcessedDocument } from '../entities';
+import { DocumentsService } from './documents.service';
+
+const ACCOUNT = 'me@example.com';
+
+function document(id: string): ProcessedDocument {
+  return { id, accountId: ACCOUNT } as ProcessedDocument;
+}
+
+describe('DocumentsService', () => {
+  const subQuery = {
+    select: jest.fn(),
+    from: jest.fn(),
+    where: jest.fn(),
+    getQuery: jest.fn(),
+  };
+  const queryBuilder = {
+    andWhere: jest.fn(),
+    subQuery: jest.fn(),
+    orderBy: jest.fn(),
+    addOrderBy: jest.fn(),
+    take: jest.fn(),
+    getMany: jest.fn(),
+  };
+  const processedDocumentRepository = {
+    createQueryBuilder: jest.fn(() => queryBuilder),
+    query: jest.fn(),
+  };
+  let documentsService: DocumentsService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    for (const method of [
+      queryBuilder.andWhere,
+      queryBuilder.orderBy,
+      queryBuilder.addOrderBy,
+      queryBuilder.take,
+    ]) {
+      method.mockReturnValue(queryBuilder);
+    }
+    queryBuilder.subQuery.mockReturnValue(subQuery);
+    subQuery.select.mockReturnValue(subQuery);
+    subQuery.from.mockReturnValue(subQuery);
+    subQuery.where.mockReturnValue(subQuery);
+    subQuery.getQuery.mockReturnValue('(previous)');
+    queryBuilder.getMany.mockResolvedValue([]);
+    documentsService = new DocumentsService(
+      processedDocumentRepository as unknown as Repository<ProcessedDocument>,
+    );
+  });
+
+  const conditions = () =>
+    queryBuilder.andWhere.mock.calls.map(
+      ([condition, parameters]: [string, Record<string, unknown>?]) => [
+        condition,
+        parameters,
+      ],
+    );
+
+  it('should create the search index on startup', async () => {
+    await documentsService.onApplicationBootstrap();
+
+    expect(processedDocumentRepository.query).toHaveBeenCalledWith(
+      `CREATE INDEX IF NOT EXISTS "IDX_processed_documents_search" ON "processed_documents" USING GIN (to_tsvector('simple', "subject" || ' ' || COALESCE("extractedText", '')))`,
+    );
+  });
+
+  it('should not fail startup when the index cannot be created', async () => {
+    processedDocumentRepository.query.mockRejectedValue(new Error('denied'));
+
+    await expect(
+      documentsService.onApplicationBootstrap(),
+    ).resolves.toBeUndefined();
+  });
+
+  it('should apply each filter that is given', async () => {
+    await documentsService.search({
+      accountId: ACCOUNT,
+      sender: 'Billing@Vendor.com',
+      invoiceNumber: 'INV-7',
+      status: 'completed',
+      mimeType: 'application/pdf',
+      emailFrom: '2024-03-01',
+      processedTo: '2024-03-31',
+      q: 'hosting march',
+    });
+
+    expect(conditions()).toEqual([
+      ['doc.accountId = :accountId', { accountId: ACCOUNT }],
+      ['doc.senderEmail = :sender', { sender: 'billing@vendor.com' }],
+      ['doc.invoiceNumber = :invoiceNumber', { invoiceNumber: 'INV-7' }],
+      ['doc.status = :status', { status: 'completed' }],
+      ['doc.mimeType = :mimeType', { mimeType: 'application/pdf' }],
+      [
+        'doc.emailDate >= CAST(:emailDateFrom AS date)',
+        { emailDateFrom: '2024-03-01' },
+      ],
+      [
+        'doc.processedAt < CAST(:processedAtTo AS date) + 1',
+        { processedAtTo: '2024-03-31' },
+      ],
+      [
+        `to_tsvector('simple', doc.subject || ' ' || COALESCE(doc.extractedText, '')) @@ websearch_to_tsquery('simple', :q)`,
+        { q: 'hosting march' },
+      ],
+    ]);
+  });
+
+  it('should sort newest first and return a cursor when more remain', async () => {
+    queryBuilder.getMany.mockResolvedValue([
+      document('doc-3'),
+      document('doc-2'),
+      document('doc-1'),
+    ]);
+
+    const page = await documentsService.search({
+      accountId: ACCOUNT,
+      limit: 2,
+    });
+
+    expect(queryBuilder.orderBy).toHaveBeenCalledWith(
+      'doc.processedAt',
+      'DESC',
+    );
+    expect(queryBuilder.addOrderBy).toHaveBeenCalledWith('doc.id', 'DESC');
+    expect(queryBuilder.take).toHaveBeenCalledWith(3);
+    expect(page.items.map((item) => item.id)).toEqual(['doc-3', 'doc-2']);
+    expect(page.nextCursor).toBe('doc-2');
+  });
+
+  it('should continue after the cursor in the requested order', async () => {
+    queryBuilder.getMany.mockResolvedValue([document('doc-4')]);
+
+    const page = await documentsService.search({
+      accountId: ACCOUNT,
+      sort: 'emailDate',
+      order: 'asc',
+      cursor: 'doc-3',
+    });
+
+    expect(subQuery.select).toHaveBeenCalledWith('previous.emailDate');
+    expect(conditions()).toContainEqual([
+      '(doc.emailDate, doc.id) > ((previous), :cursor)',
+      { cursor: 'doc-3' },
+    ]);
+    expect(queryBuilder.orderBy).toHaveBeenCalledWith('doc.emailDate', 'ASC');
+    expect(page.nextCursor).toBeNull();
+  });
+});
@@ -0,0 +1,143 @@
+import { Injectable, Logger, OnApplicationBootstrap } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository, SelectQueryBuilder } from 'typeorm';
+import { DOCUMENT_SEARCH_INDEX, ProcessedDocument } from '../entities';
+import { DocumentSearchQueryDto } from './dto';
+
+// Invoices arrive in several languages, so words are indexed as written
+// rather than stemmed for one of them.
+const SEARCH_CONFIG = 'simple';
+
+/** The text searched, written against `alias` or the bare table. */
+function searchVector(alias?: string): string {
+  const column = (name: string) => (alias ? `${alias}.${name}` : `"${name}"`);
+  return `to_tsvector('${SEARCH_CONFIG}', ${column('subject')} || ' ' || COALESCE(${column('extractedText')}, ''))`;
+}
+
+export interface DocumentPage {
+  items: ProcessedDocument[];
+  nextCursor: string | null;
+}
+
+@Injectable()
+export class DocumentsService implements OnApplicationBootstrap {
+  private readonly logger = new Logger(DocumentsService.name);
+
+  constructor(
+    @InjectRepository(ProcessedDocument)
+    private processedDocumentRepository: Repository<ProcessedDocument>,
+  ) {}
+
+  async onApplicationBootstrap(): Promise<void> {
+    // Search works without the index, only slower, so a failure here must
+    // not keep the app from starting.
+    try {
+      await this.processedDocumentRepository.query(
+        `CREATE INDEX IF NOT EXISTS "${DOCUMENT_SEARCH_INDEX}" ON "processed_documents" USING GIN (${searchVector()})`,
+      );
+    } catch (error) {
+      this.logger.warn(
+        `Failed to create the document search index: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
+  /**
+   * Finds documents matching the query, one page at a time. Pages are
+   * keyed on the sort column and id of the last document, so they stay
+   * stable while new documents arrive.
+   */
+  async search(query: DocumentSearchQueryDto): Promise<DocumentPage> {
+    const sort = query.sort ?? 'processedAt';
+    const order = query.order === 'asc' ? 'ASC' : 'DESC';
+    const limit = query.limit ?? 20;
+
+    const builder = this.processedDocumentRepository.createQueryBuilder('doc');
+
+    if (query.accountId) {
+      builder.andWhere('doc.accountId = :accountId', {
+        accountId: query.accountId,
+      });
+    }
+    if (query.sender) {
+      builder.andWhere('doc.senderEmail = :sender', {
+        sender: query.sender.toLowerCase(),
+      });
+    }
+    if (query.vendorId) {
+      builder.andWhere('doc.vendorId = :vendorId', {
+        vendorId: query.vendorId,
+      });
+    }
+    if (query.invoiceNumber) {
+      builder.andWhere('doc.invoiceNumber = :invoiceNumber', {
+        invoiceNumber: query.invoiceNumber,
+      });
+    }
+    if (query.status) {
+      builder.andWhere('doc.status = :status', { status: query.status });
+    }
+    if (query.mimeType) {
+      builder.andWhere('doc.mimeType = :mimeType', {
+        mimeType: query.mimeType,
+      });
+    }
+    this.whereBetween(builder, 'emailDate', query.emailFrom, query.emailTo);
+    this.whereBetween(
+      builder,
+      'processedAt',
+      query.processedFrom,
+      query.processedTo,
+    );
+    if (query.q) {
+      builder.andWhere(
+        `${searchVector('doc')} @@ websearch_to_tsquery('${SEARCH_CONFIG}', :q)`,
+        { q: query.q },
+      );
+    }
+
+    if (query.cursor) {
+      const previous = builder
+        .subQuery()
+        .select(`previous.${sort}`)
+        .from(ProcessedDocument, 'previous')
+        .where('previous.id = :cursor')
+        .getQuery();
+      builder.andWhere(
+        `(doc.${sort}, doc.id) ${order === 'DESC' ? '<' : '>'} (${previous}, :cursor)`,
+        { cursor: query.cursor },
+      );
+    }
+
+    const documents = await builder
+      .orderBy(`doc.${sort}`, order)
+      .addOrderBy('doc.id', order)
+      .take(limit + 1)
+      .getMany();
+
+    const items = documents.slice(0, limit);
+    return {
+      items,
+      nextCursor: documents.length > limit ? items[items.length - 1].id : null,
+    };
+  }
+
+  // Bounds are whole days and both are included.
+  private whereBetween(
+    builder: SelectQueryBuilder<ProcessedDocument>,
+    column: 'emailDate' | 'processedAt',
+    from?: string,
+    to?: string,
+  ): void {
+    if (from) {
+      builder.andWhere(`doc.${column} >= CAST(:${column}From AS date)`, {
+        [`${column}From`]: from,
+      });
+    }
+    if (to) {
+      builder.andWhere(`doc.${column} < CAST(:${column}To AS date) + 1`, {
+        [`${column}To`]: to,
+      });
+    }
+  }
+}
@@ -0,0 +1,7 @@
+import { DocumentDto } from '../../scanner/dto';
+
+export class DocumentPageDto {
+  items: DocumentDto[];
+  /** Pass as `cursor` to fetch the next page; null on the last page. */
+  nextCursor: string | null;
+}
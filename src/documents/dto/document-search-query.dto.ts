@@ -0,0 +1,87 @@
+import { Type } from 'class-transformer';
+import {
+  IsEmail,
+  IsIn,
+  IsInt,
+  IsISO8601,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { AccountQueryDto } from '../../common/dto/account-query.dto';
+
+export const DOCUMENT_SORT_FIELDS = ['processedAt', 'emailDate'] as const;
+
+export type DocumentSortField = (typeof DOCUMENT_SORT_FIELDS)[number];
+
+export class DocumentSearchQueryDto extends AccountQueryDto {
+  /** Words to find in the subject or extracted text. */
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  q?: string;
+
+  @IsOptional()
+  @IsEmail()
+  sender?: string;
+
+  @IsOptional()
+  @IsUUID()
+  vendorId?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  invoiceNumber?: string;
+
+  /** First email date to include, as `YYYY-MM-DD`. */
+  @IsOptional()
+  @IsISO8601({ strict: true })
+  emailFrom?: string;
+
+  /** Last email date to include, as `YYYY-MM-DD`. */
+  @IsOptional()
+  @IsISO8601({ strict: true })
+  emailTo?: string;
+
+  @IsOptional()
+  @IsISO8601({ strict: true })
+  processedFrom?: string;
+
+  @IsOptional()
+  @IsISO8601({ strict: true })
+  processedTo?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(50)
+  status?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  mimeType?: string;
+
+  @IsOptional()
+  @IsIn(DOCUMENT_SORT_FIELDS)
+  sort?: DocumentSortField;
+
+  @IsOptional()
+  @IsIn(['asc', 'desc'])
+  order?: 'asc' | 'desc';
+
+  /** `nextCursor` of the previous page, requested with the same sort. */
+  @IsOptional()
+  @IsUUID()
+  cursor?: string;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit?: number;
+}
@@ -0,0 +1,2 @@
+export { DocumentPageDto } from './document-page.dto';
+export { DocumentSearchQueryDto } from './document-search-query.dto';
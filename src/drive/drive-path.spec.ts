@@ -0,0 +1,37 @@
+import { DEFAULT_DRIVE_PATH_TEMPLATE, renderDrivePath } from './drive-path';
+
+describe('renderDrivePath', () => {
+  const values = {
+    date: new Date('2024-03-05T10:00:00Z'),
+    vendor: 'Acme Corp',
+    category: 'Utilities',
+  };
+
+  it('should substitute every token', () => {
+    expect(
+      renderDrivePath('Financial Documents/{year}/{month}/{vendor}', values),
+    ).toEqual(['Financial Documents', '2024', '03', 'Acme Corp']);
+  });
+
+  it('should drop segments that render empty', () => {
+    expect(
+      renderDrivePath(DEFAULT_DRIVE_PATH_TEMPLATE, {
+        ...values,
+        category: null,
+      }),
+    ).toEqual(['Financial Documents', '2024', '03']);
+  });
+
+  it('should keep path separators in values from nesting folders', () => {
+    expect(
+      renderDrivePath('Docs/{vendor}', { ...values, vendor: 'AT&T / Mobile' }),
+    ).toEqual(['Docs', 'AT&T - Mobile']);
+  });
+
+  it('should leave unknown tokens untouched', () => {
+    expect(renderDrivePath('Docs/{quarter}', values)).toEqual([
+      'Docs',
+      '{quarter}',
+    ]);
+  });
+});
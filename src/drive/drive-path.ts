@@ -0,0 +1,46 @@
+export const DEFAULT_DRIVE_PATH_TEMPLATE =
+  'Financial Documents/{category}/{year}/{month}';
+
+export interface DrivePathValues {
+  date: Date;
+  vendor: string;
+  category?: string | null;
+}
+
+const MAX_SEGMENT_LENGTH = 100;
+
+/**
+ * Expands a folder template such as `Financial Documents/{year}/{vendor}`
+ * into folder names, outermost first. Segments that come out empty, like
+ * `{category}` for an uncategorised document, are dropped rather than
+ * creating blank folders.
+ */
+export function renderDrivePath(
+  template: string,
+  values: DrivePathValues,
+): string[] {
+  const tokens: Record<string, string> = {
+    year: String(values.date.getUTCFullYear()),
+    month: String(values.date.getUTCMonth() + 1).padStart(2, '0'),
+    vendor: values.vendor,
+    category: values.category ?? '',
+  };
+
+  return template
+    .split('/')
+    .map((segment) =>
+      segment.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+        name in tokens ? sanitizeSegment(tokens[name]) : placeholder,
+      ),
+    )
+    .map((segment) => segment.trim())
+    .filter((segment) => segment.length > 0);
+}
+
+function sanitizeSegment(value: string): string {
+  return value
+    .replace(/[/\\]/g, '-')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .substring(0, MAX_SEGMENT_LENGTH);
+}
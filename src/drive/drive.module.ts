@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common';
+import { AuthModule } from '../auth/auth.module';
+import { DriveService } from './drive.service';
+
+@Module({
+  imports: [AuthModule],
+  providers: [DriveService],
+  exports: [DriveService],
+})
+export class DriveModule {}
@@ -0,0 +1,95 @@
+import { ConfigService } from '@nestjs/config';
+import { google } from 'googleapis';
+import { AuthService } from '../auth/auth.service';
+import { DriveService } from './drive.service';
+
+describe('DriveService', () => {
+  const authService = { getAuthenticated: jest.fn() };
+  const configService = { get: jest.fn() };
+  const driveClient = {
+    files: { list: jest.fn(), create: jest.fn() },
+  };
+  let driveService: DriveService;
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    jest
+      .spyOn(google, 'drive')
+      .mockReturnValue(
+        driveClient as unknown as ReturnType<typeof google.drive>,
+      );
+    driveService = new DriveService(
+      authService as unknown as AuthService,
+      configService as unknown as ConfigService,
+    );
+  });
+
+  describe('ensureFolderPath', () => {
+    it('should create missing folders inside their parent', async () => {
+      driveClient.files.list.mockResolvedValue({ data: { files: [] } });
+      driveClient.files.create
+        .mockResolvedValueOnce({ data: { id: 'docs' } })
+        .mockResolvedValueOnce({ data: { id: '2024' } });
+
+      await expect(
+        driveService.ensureFolderPath('me@example.com', ['Docs', '2024']),
+      ).resolves.toBe('2024');
+
+      expect(driveClient.files.create).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          requestBody: expect.objectContaining({
+            name: '2024',
+            parents: ['docs'],
+          }) as object,
+        }),
+      );
+    });
+
+    it('should reuse folder ids it has already resolved', async () => {
+      driveClient.files.list
+        .mockResolvedValueOnce({ data: { files: [{ id: 'docs' }] } })
+        .mockResolvedValueOnce({ data: { files: [{ id: '2024' }] } })
+        .mockResolvedValueOnce({ data: { files: [{ id: '2025' }] } });
+
+      await driveService.ensureFolderPath('me@example.com', ['Docs', '2024']);
+      await driveService.ensureFolderPath('me@example.com', ['Docs', '2025']);
+
+      expect(driveClient.files.list).toHaveBeenCalledTimes(3);
+      expect(driveClient.files.list).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          q: expect.stringContaining("'docs' in parents") as string,
+        }),
+      );
+    });
+  });
+
+  describe('findFolderPath', () => {
+    it('should return null for a missing folder without creating it', async () => {
+      driveClient.files.list
+        .mockResolvedValueOnce({ data: { files: [{ id: 'docs' }] } })
+        .mockResolvedValueOnce({ data: { files: [] } });
+
+      await expect(
+        driveService.findFolderPath('me@example.com', ['Docs', '2024']),
+      ).resolves.toBeNull();
+
+      expect(driveClient.files.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('resolveAvailableFilename', () => {
+    it('should suffix names already used in the folder', async () => {
+      driveClient.files.list.mockResolvedValue({
+        data: { files: [{ name: 'acme.pdf' }, { name: 'acme_2.pdf' }] },
+      });
+
+      await expect(
+        driveService.resolveAvailableFilename(
+          'me@example.com',
+          'folder-1',
+          'acme.pdf',
+        ),
+      ).resolves.toBe('acme_3.pdf');
+    });
+  });
+});
@@ -1,23 +1,126 @@
 import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import { google } from 'googleapis';
 import { Readable } from 'stream';
 import { AuthService } from '../auth/auth.service';
+import {
+  DEFAULT_DRIVE_PATH_TEMPLATE,
+  DrivePathValues,
+  renderDrivePath,
+} from './drive-path';
+import {
+  DEFAULT_FILENAME_TEMPLATE,
+  FilenameValues,
+  renderFilename,
+  withNumericSuffix,
+} from './filename-template';
 
 @Injectable()
 export class DriveService {
   private readonly logger = new Logger(DriveService.name);
+  // Folder ids by account, parent and name, so each upload does not have to
+  // look its folders up again.
+  private readonly folderCache = new Map<string, string>();
 
-  constructor(private authService: AuthService) {}
+  constructor(
+    private authService: AuthService,
+    private configService: ConfigService,
+  ) {}
 
+  /**
+   * Resolves the folder a document belongs in according to
+   * `DRIVE_PATH_TEMPLATE`, creating any missing folders on the way.
+   */
+  async resolveDocumentFolder(
+    accountId: string,
+    values: DrivePathValues,
+  ): Promise<string> {
+    return this.ensureFolderPath(accountId, this.getDocumentFolderPath(values));
+  }
+
+  getDocumentFolderPath(values: DrivePathValues): string[] {
+    const template =
+      this.configService.get<string>('DRIVE_PATH_TEMPLATE') ||
+      DEFAULT_DRIVE_PATH_TEMPLATE;
+    return renderDrivePath(template, values);
+  }
+
+  /** Walks a folder path from the drive root, creating folders as needed. */
+  async ensureFolderPath(
+    accountId: string,
+    segments: string[],
+  ): Promise<string> {
+    if (segments.length === 0) {
+      throw new Error('Drive folder path is empty');
+    }
+
+    let parentId = 'root';
+    for (const segment of segments) {
+      const cacheKey = `${accountId}|${parentId}|${segment}`;
+      let folderId = this.folderCache.get(cacheKey);
+      if (!folderId) {
+        folderId = await this.ensureFolderExists(accountId, segment, parentId);
+        this.folderCache.set(cacheKey, folderId);
+      }
+      parentId = folderId;
+    }
+    return parentId;
+  }
+
+  /**
+   * Walks a folder path from the drive root like `ensureFolderPath`, but
+   * creates nothing. Returns null when a folder along the way is missing.
+   */
+  async findFolderPath(
+    accountId: string,
+    segments: string[],
+  ): Promise<string | null> {
+    try {
+      const auth = await this.authService.getAuthenticated(accountId);
+      const drive = google.drive({ version: 'v3', auth });
+
+      let parentId = 'root';
+      for (const segment of segments) {
+        const cacheKey = `${accountId}|${parentId}|${segment}`;
+        let folderId = this.folderCache.get(cacheKey);
+        if (!folderId) {
+          const searchResponse = await drive.files.list({
+            q: `name='${this.escapeQuery(segment)}' and mimeType='application/vnd.google-apps.folder' and trashed=false and '${parentId}' in parents`,
+            spaces: 'drive',
+            fields: 'files(id)',
+          });
+          folderId = searchResponse.data.files?.[0]?.id ?? undefined;
+          if (!folderId) return null;
+          this.folderCache.set(cacheKey, folderId);
+        }
+        parentId = folderId;
+      }
+      return parentId;
+    } catch (error: unknown) {
+      this.logger.error('Failed to find folder:', error);
+      if (error instanceof Error) {
+        throw new Error(`Failed to find Drive folder: ${error.message}`);
+      }
+      throw new Error(`Failed to find Drive folder: ${String(error)}`);
+    }
+  }
+
+  /**
+   * Finds or creates a folder by name, inside `parentId` when given or
+   * anywhere in the drive otherwise.
+   */
   async ensureFolderExists(
+    accountId: string,
     folderName: string = 'Financial Documents',
+    parentId?: string,
   ): Promise<string> {
     try {
-      const auth = await this.authService.getAuthenticated();
+      const auth = await this.authService.getAuthenticated(accountId);
       const drive = google.drive({ version: 'v3', auth });
 
+      const parentClause = parentId ? ` and '${parentId}' in parents` : '';
       const searchResponse = await drive.files.list({
-        q: `name='${folderName}' and mimeType='application/vnd.google-apps.folder' and trashed=false`,
+        q: `name='${this.escapeQuery(folderName)}' and mimeType='application/vnd.google-apps.folder' and trashed=false${parentClause}`,
         spaces: 'drive',
         fields: 'files(id, name)',
       });
@@ -37,6 +140,7 @@ export class DriveService {
         requestBody: {
           name: folderName,
           mimeType: 'application/vnd.google-apps.folder',
+          parents: parentId ? [parentId] : undefined,
         },
         fields: 'id',
       });
@@ -59,13 +163,14 @@ export class DriveService {
   }
 
   async uploadFile(
+    accountId: string,
     fileBuffer: Buffer,
     filename: string,
     mimeType: string,
     folderId: string,
   ): Promise<string> {
     try {
-      const auth = await this.authService.getAuthenticated();
+      const auth = await this.authService.getAuthenticated(accountId);
       const drive = google.drive({ version: 'v3', auth });
 
       const fileMetadata = {
@@ -93,6 +198,7 @@ export class DriveService {
       }
       return fileId;
     } catch (error: unknown) {
+      this.forgetFolders(accountId);
       this.logger.error(`Failed to upload file ${filename}:`, error);
       if (error instanceof Error) {
         throw new Error(`Failed to upload file: ${error.message}`);
@@ -101,56 +207,148 @@ export class DriveService {
     }
   }
 
-  generateStructuredFilename(
-    senderEmail: string,
-    subject: string,
-    date: string,
-    originalFilename: string,
-  ): string {
+  /** Moves a file into `folderId`, doing nothing if it is already there. */
+  async moveFile(
+    accountId: string,
+    fileId: string,
+    folderId: string,
+  ): Promise<boolean> {
     try {
-      const senderName = senderEmail
-        .split('@')[0]
-        .replace(/[^a-zA-Z0-9]/g, '')
-        .substring(0, 20);
+      const auth = await this.authService.getAuthenticated(accountId);
+      const drive = google.drive({ version: 'v3', auth });
+
+      const file = await drive.files.get({ fileId, fields: 'parents' });
+      const parents = file.data.parents ?? [];
+      if (parents.length === 1 && parents[0] === folderId) return false;
 
-      const invoiceNumber = this.extractInvoiceNumber(subject);
+      await drive.files.update({
+        fileId,
+        addParents: folderId,
+        removeParents: parents.filter((id) => id !== folderId).join(','),
+        fields: 'id',
+      });
+      this.logger.log(`Moved file ${fileId} to folder ${folderId}`);
+      return true;
+    } catch (error: unknown) {
+      this.forgetFolders(accountId);
+      this.logger.error(`Failed to move file ${fileId}:`, error);
+      if (error instanceof Error) {
+        throw new Error(`Failed to move file: ${error.message}`);
+      }
+      throw new Error(`Failed to move file: ${String(error)}`);
+    }
+  }
 
-      const dateObj = new Date(date);
-      const formattedDate = dateObj.toISOString().split('T')[0];
+  /** The ids of the folders a file is in. */
+  async getParents(accountId: string, fileId: string): Promise<string[]> {
+    try {
+      const auth = await this.authService.getAuthenticated(accountId);
+      const drive = google.drive({ version: 'v3', auth });
 
-      const extension = originalFilename.split('.').pop() || 'pdf';
+      const file = await drive.files.get({ fileId, fields: 'parents' });
+      return file.data.parents ?? [];
+    } catch (error: unknown) {
+      this.logger.error(`Failed to read folders of file ${fileId}:`, error);
+      if (error instanceof Error) {
+        throw new Error(`Failed to read file folders: ${error.message}`);
+      }
+      throw new Error(`Failed to read file folders: ${String(error)}`);
+    }
+  }
 
-      const structuredName = `${senderName}_${invoiceNumber}_${formattedDate}.${extension}`;
+  async downloadFile(accountId: string, fileId: string): Promise<Buffer> {
+    try {
+      const auth = await this.authService.getAuthenticated(accountId);
+      const drive = google.drive({ version: 'v3', auth });
 
-      this.logger.log(
-        `Generated filename: ${originalFilename} -> ${structuredName}`,
+      const response = await drive.files.get(
+        { fileId, alt: 'media' },
+        { responseType: 'arraybuffer' },
       );
-      return structuredName;
-    } catch (error) {
-      this.logger.error('Failed to generate structured filename:', error);
-
-      const timestamp = new Date().toISOString().split('T')[0];
-      return `${timestamp}_${originalFilename}`;
+      return Buffer.from(response.data as unknown as ArrayBuffer);
+    } catch (error: unknown) {
+      this.logger.error(`Failed to download file ${fileId}:`, error);
+      if (error instanceof Error) {
+        throw new Error(`Failed to download file: ${error.message}`);
+      }
+      throw new Error(`Failed to download file: ${String(error)}`);
     }
   }
 
-  private extractInvoiceNumber(subject: string): string {
-    const patterns = [
-      /invoice[\s#]*(\d+)/i,
-      /inv[\s#]*(\d+)/i,
-      /bill[\s#]*(\d+)/i,
-      /receipt[\s#]*(\d+)/i,
-      /#(\d+)/,
-      /(\d{4,})/,
-    ];
-
-    for (const pattern of patterns) {
-      const match = subject.match(pattern);
-      if (match) {
-        return `INV${match[1]}`;
+  /** Names a document according to `FILENAME_TEMPLATE`. */
+  generateStructuredFilename(values: FilenameValues): string {
+    const template =
+      this.configService.get<string>('FILENAME_TEMPLATE') ||
+      DEFAULT_FILENAME_TEMPLATE;
+    const structuredName = renderFilename(template, values);
+
+    this.logger.log(
+      `Generated filename: ${values.originalFilename} -> ${structuredName}`,
+    );
+    return structuredName;
+  }
+
+  /**
+   * Returns `filename`, or the first `name_2.ext`, `name_3.ext`... that no
+   * file in the folder uses yet.
+   */
+  async resolveAvailableFilename(
+    accountId: string,
+    folderId: string,
+    filename: string,
+  ): Promise<string> {
+    try {
+      const auth = await this.authService.getAuthenticated(accountId);
+      const drive = google.drive({ version: 'v3', auth });
+
+      const dot = filename.lastIndexOf('.');
+      const stem = dot > 0 ? filename.substring(0, dot) : filename;
+
+      const takenNames = new Set<string>();
+      let pageToken: string | undefined;
+      do {
+        const response = await drive.files.list({
+          q: `'${folderId}' in parents and name contains '${this.escapeQuery(stem)}' and trashed=false`,
+          spaces: 'drive',
+          fields: 'nextPageToken, files(name)',
+          pageSize: 1000,
+          pageToken,
+        });
+        for (const file of response.data.files ?? []) {
+          if (file.name) takenNames.add(file.name);
+        }
+        pageToken = response.data.nextPageToken ?? undefined;
+      } while (pageToken);
+
+      const available = withNumericSuffix(filename, takenNames);
+      if (available !== filename) {
+        this.logger.log(`Renamed ${filename} to ${available} to avoid a clash`);
       }
+      return available;
+    } catch (error: unknown) {
+      this.forgetFolders(accountId);
+      this.logger.error(
+        `Failed to check existing names in ${folderId}:`,
+        error,
+      );
+      if (error instanceof Error) {
+        throw new Error(`Failed to check existing files: ${error.message}`);
+      }
+      throw new Error(`Failed to check existing files: ${String(error)}`);
     }
+  }
+
+  /**
+   * Drops an account's cached folders after a failed write, in case one of
+   * them was deleted or trashed in Drive since it was looked up.
+   */
+  private forgetFolders(accountId: string): void {
+    for (const key of this.folderCache.keys()) {
+      if (key.startsWith(`${accountId}|`)) this.folderCache.delete(key);
+    }
+  }
 
-    return `INV${Math.random().toString(36).substr(2, 6).toUpperCase()}`;
+  private escapeQuery(value: string): string {
+    return value.replace(/\\/g, '\\\\').replace(/'/g, "\\'");
   }
 }
@@ -0,0 +1,92 @@
+import {
+  DEFAULT_FILENAME_TEMPLATE,
+  FilenameValues,
+  renderFilename,
+  withNumericSuffix,
+} from './filename-template';
+
+describe('renderFilename', () => {
+  const values: FilenameValues = {
+    vendor: 'Acme Corp',
+    invoiceNumber: '1042',
+    date: new Date('2024-03-05T10:00:00Z'),
+    category: 'Utilities',
+    amount: 99.5,
+    originalFilename: 'Scan 03.PDF',
+    index: 2,
+    messageId: 'msg-1',
+    contentHash: 'abc123',
+  };
+
+  it('should render the default template like the legacy names', () => {
+    expect(renderFilename(DEFAULT_FILENAME_TEMPLATE, values)).toBe(
+      'Acme Corp_INV1042_2024-03-05.pdf',
+    );
+  });
+
+  it('should render every token', () => {
+    expect(
+      renderFilename(
+        '{date}-{category}-{vendor}-{invoice}-{amount}-{original}-{index}',
+        values,
+      ),
+    ).toBe('2024-03-05-Utilities-Acme Corp-1042-99.50-Scan 03-2.pdf');
+  });
+
+  it('should derive the same fallback id for the same message and content', () => {
+    const first = renderFilename(DEFAULT_FILENAME_TEMPLATE, {
+      ...values,
+      invoiceNumber: null,
+    });
+    const second = renderFilename(DEFAULT_FILENAME_TEMPLATE, {
+      ...values,
+      invoiceNumber: null,
+    });
+    const otherContent = renderFilename(DEFAULT_FILENAME_TEMPLATE, {
+      ...values,
+      invoiceNumber: null,
+      contentHash: 'def456',
+    });
+
+    expect(first).toMatch(/^Acme Corp_INV[0-9A-F]{8}_2024-03-05\.pdf$/);
+    expect(second).toBe(first);
+    expect(otherContent).not.toBe(first);
+  });
+
+  it('should collapse separators around empty tokens', () => {
+    expect(
+      renderFilename('{category}_{vendor}_{amount}', {
+        ...values,
+        category: null,
+        amount: null,
+      }),
+    ).toBe('Acme Corp.pdf');
+  });
+
+  it('should leave the date out when the email date is unreadable', () => {
+    expect(
+      renderFilename(DEFAULT_FILENAME_TEMPLATE, {
+        ...values,
+        date: new Date('not a date'),
+      }),
+    ).toBe('Acme Corp_INV1042.pdf');
+  });
+
+  it('should strip characters Drive users cannot type back', () => {
+    expect(renderFilename('{vendor}', { ...values, vendor: 'A/B: "C"' })).toBe(
+      'AB C.pdf',
+    );
+  });
+});
+
+describe('withNumericSuffix', () => {
+  it('should keep a free name unchanged', () => {
+    expect(withNumericSuffix('a.pdf', new Set(['b.pdf']))).toBe('a.pdf');
+  });
+
+  it('should add the first free numeric suffix', () => {
+    expect(withNumericSuffix('a.pdf', new Set(['a.pdf', 'a_2.pdf']))).toBe(
+      'a_3.pdf',
+    );
+  });
+});
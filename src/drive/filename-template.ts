@@ -0,0 +1,100 @@
+import { createHash } from 'crypto';
+
+export const DEFAULT_FILENAME_TEMPLATE = '{vendor}_INV{invoice}_{date}';
+
+export interface FilenameValues {
+  vendor: string;
+  invoiceNumber?: string | null;
+  date: Date;
+  category?: string | null;
+  amount?: number | null;
+  originalFilename: string;
+  /** 1-based position of the attachment among the email's documents. */
+  index: number;
+  messageId: string;
+  contentHash: string;
+}
+
+const MAX_BASENAME_LENGTH = 150;
+
+/**
+ * Renders a filename from a template such as `{date}_{vendor}_{amount}`.
+ * Supported tokens are vendor, invoice, date, category, amount, original
+ * and index; the original file's extension is always kept. A missing
+ * invoice number falls back to an id derived from the message and content,
+ * so re-processing the same attachment gives the same name. An email
+ * without a readable date leaves the date token empty.
+ */
+export function renderFilename(
+  template: string,
+  values: FilenameValues,
+): string {
+  const dot = values.originalFilename.lastIndexOf('.');
+  const originalBase =
+    dot > 0
+      ? values.originalFilename.substring(0, dot)
+      : values.originalFilename;
+  const extension =
+    dot > 0 ? values.originalFilename.substring(dot + 1).toLowerCase() : 'pdf';
+
+  const tokens: Record<string, string> = {
+    vendor: values.vendor.substring(0, 40),
+    invoice: values.invoiceNumber || fallbackId(values),
+    date: isNaN(values.date.getTime())
+      ? ''
+      : values.date.toISOString().split('T')[0],
+    category: values.category ?? '',
+    amount: values.amount != null ? values.amount.toFixed(2) : '',
+    original: originalBase,
+    index: String(values.index),
+  };
+
+  const basename = tidy(
+    template.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+      name in tokens ? sanitize(tokens[name]) : placeholder,
+    ),
+  ).substring(0, MAX_BASENAME_LENGTH);
+
+  return `${basename || fallbackId(values)}.${extension}`;
+}
+
+/**
+ * Appends `_2`, `_3`... before the extension until the name is not taken.
+ */
+export function withNumericSuffix(
+  filename: string,
+  takenNames: Set<string>,
+): string {
+  if (!takenNames.has(filename)) return filename;
+
+  const dot = filename.lastIndexOf('.');
+  const base = dot > 0 ? filename.substring(0, dot) : filename;
+  const extension = dot > 0 ? filename.substring(dot) : '';
+
+  for (let suffix = 2; ; suffix++) {
+    const candidate = `${base}_${suffix}${extension}`;
+    if (!takenNames.has(candidate)) return candidate;
+  }
+}
+
+function fallbackId(values: FilenameValues): string {
+  return createHash('sha256')
+    .update(`${values.messageId}:${values.contentHash}`)
+    .digest('hex')
+    .substring(0, 8)
+    .toUpperCase();
+}
+
+function sanitize(value: string): string {
+  return value
+    .replace(/[\\/:*?"<>|]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/** Collapses separators left behind by empty tokens. */
+function tidy(name: string): string {
+  return name
+    .replace(/([_\- ])[_\- ]+/g, '$1')
+    .replace(/^[_\- .]+|[_\- .]+$/g, '');
+}
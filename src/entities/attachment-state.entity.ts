@@ -0,0 +1,77 @@
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+} from 'typeorm';
+
+export const ATTACHMENT_STAGES = [
+  'pending',
+  'downloaded',
+  'uploaded',
+  'recorded',
+  'logged',
+  'labelled',
+] as const;
+
+export type AttachmentStage = (typeof ATTACHMENT_STAGES)[number];
+
+/**
+ * Tracks one attachment through the scan pipeline. `stage` is the last step
+ * that completed, so a failed attachment resumes where it stopped instead of
+ * uploading or logging twice. `recorded` attachments have their document
+ * saved and wait for the scan's batched sheet write to reach `logged`.
+ */
+@Entity('attachment_states')
+@Index(['accountId', 'emailId', 'partId'], { unique: true })
+export class AttachmentState {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Index()
+  @Column()
+  accountId: string;
+
+  @Column()
+  emailId: string;
+
+  @Column()
+  partId: string;
+
+  @Column()
+  filename: string;
+
+  @Column('varchar', { default: 'pending' })
+  stage: AttachmentStage;
+
+  @Index()
+  @Column({ default: 'pending' })
+  status: string;
+
+  @Column({ default: 0 })
+  attempts: number;
+
+  @Column('text', { nullable: true })
+  lastError: string | null;
+
+  @Column('timestamp', { nullable: true })
+  nextRetryAt: Date | null;
+
+  @Column('varchar', { nullable: true })
+  driveFileId: string | null;
+
+  /** The name given to the file in Drive, as opposed to `filename`. */
+  @Column('varchar', { nullable: true })
+  uploadedFileName: string | null;
+
+  @Column('uuid', { nullable: true })
+  documentId: string | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
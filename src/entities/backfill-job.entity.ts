@@ -0,0 +1,71 @@
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+} from 'typeorm';
+
+export type BackfillStatus = 'running' | 'completed' | 'failed';
+
+export type BackfillWindowStatus =
+  | 'pending'
+  | 'running'
+  | 'completed'
+  | 'failed';
+
+/**
+ * One month of a backfill, from `from` up to but not including `to`, both
+ * `YYYY-MM-DD`. A window is only marked completed once its scan finished
+ * with every email read, so it doubles as the job's checkpoint.
+ */
+export interface BackfillWindow {
+  from: string;
+  to: string;
+  status: BackfillWindowStatus;
+  emailsProcessed: number;
+  documentsProcessed: number;
+  errorsCount: number;
+  completedAt: string | null;
+}
+
+/**
+ * An import of an account's older emails, walked a month at a time, oldest
+ * first. Jobs still `running` when the app stops are resumed on boot.
+ */
+@Entity('backfill_jobs')
+export class BackfillJob {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Index()
+  @Column()
+  accountId: string;
+
+  /** First day to import. */
+  @Column('date')
+  from: string;
+
+  /** Last day to import, included. */
+  @Column('date')
+  to: string;
+
+  @Column('varchar', { default: 'running' })
+  status: BackfillStatus;
+
+  @Column('jsonb')
+  windows: BackfillWindow[];
+
+  @Column('text', { nullable: true })
+  errorDetails: string | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+
+  @Column('timestamp', { nullable: true })
+  completedAt: Date | null;
+}
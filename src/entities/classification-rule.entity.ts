@@ -0,0 +1,52 @@
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+} from 'typeorm';
+
+/**
+ * Assigns a category to attachments that satisfy every condition set on the
+ * rule. Rules without an account apply to all connected accounts.
+ */
+@Entity('classification_rules')
+export class ClassificationRule {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Index()
+  @Column('varchar', { nullable: true })
+  accountId: string | null;
+
+  @Column()
+  name: string;
+
+  @Column()
+  category: string;
+
+  @Column({ default: 0 })
+  priority: number;
+
+  @Column({ default: true })
+  enabled: boolean;
+
+  @Column('varchar', { nullable: true })
+  senderDomain: string | null;
+
+  @Column('varchar', { nullable: true })
+  subjectPattern: string | null;
+
+  @Column('varchar', { nullable: true })
+  filenamePattern: string | null;
+
+  @Column('varchar', { nullable: true })
+  mimeType: string | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
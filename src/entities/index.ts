@@ -1,3 +1,21 @@
-export { UserToken } from './user-token.entity';
-export { ProcessedDocument } from './processed-document.entity';
+export { LEGACY_ACCOUNT_ID, UserToken } from './user-token.entity';
+export {
+  DOCUMENT_SEARCH_INDEX,
+  ProcessedDocument,
+} from './processed-document.entity';
 export { ScanLog } from './scan-log.entity';
+export { AttachmentState, ATTACHMENT_STAGES } from './attachment-state.entity';
+export { ClassificationRule } from './classification-rule.entity';
+export { Vendor } from './vendor.entity';
+export { SheetConflict } from './sheet-conflict.entity';
+export { SheetWriteMark } from './sheet-write-mark.entity';
+export { BackfillJob } from './backfill-job.entity';
+export type { AttachmentStage } from './attachment-state.entity';
+export type {
+  BackfillStatus,
+  BackfillWindow,
+  BackfillWindowStatus,
+} from './backfill-job.entity';
+export type { DocumentSource } from './processed-document.entity';
+export type { ScanMode } from './scan-log.entity';
+export type { SheetConflictWinner } from './sheet-conflict.entity';
@@ -3,30 +3,70 @@ import {
   Column,
   PrimaryGeneratedColumn,
   CreateDateColumn,
+  UpdateDateColumn,
+  Index,
 } from 'typeorm';
+import {
+  EInvoiceFormat,
+  EInvoiceLineItem,
+} from '../common/interfaces/extraction.interface';
+import type { EditableValues } from '../sheets/document-row';
+import { LEGACY_ACCOUNT_ID } from './user-token.entity';
+
+export type DocumentSource = 'attachment' | 'body';
+
+/**
+ * GIN index over the subject and extracted text. TypeORM cannot declare
+ * one, so it is created on startup and only registered here to keep schema
+ * sync from dropping it.
+ */
+export const DOCUMENT_SEARCH_INDEX = 'IDX_processed_documents_search';
 
 @Entity('processed_documents')
+@Index(DOCUMENT_SEARCH_INDEX, { synchronize: false })
+@Index(['accountId', 'processedAt'])
+@Index(['accountId', 'emailDate'])
 export class ProcessedDocument {
   @PrimaryGeneratedColumn('uuid')
   id: string;
 
+  // Rows written before accounts existed get the legacy id.
+  @Index()
+  @Column({ default: LEGACY_ACCOUNT_ID })
+  accountId: string;
+
+  @Index()
   @Column()
   emailId: string;
 
   @Column()
   messageId: string;
 
+  @Index()
   @Column()
   senderEmail: string;
 
   @Column()
   senderName: string;
 
+  /** Who forwarded the email, when the sender is the original's. */
+  @Column('varchar', { nullable: true })
+  forwardedBy: string | null;
+
+  @Index()
+  @Column('uuid', { nullable: true })
+  vendorId: string | null;
+
+  /** Vendor name as corrected in the sheet, shown instead of the vendor's. */
+  @Column('varchar', { nullable: true })
+  vendorName: string | null;
+
   @Column('text')
   subject: string;
 
-  @Column({ nullable: true })
-  invoiceNumber: string;
+  @Index()
+  @Column('varchar', { nullable: true })
+  invoiceNumber: string | null;
 
   @Column()
   emailDate: Date;
@@ -37,6 +77,15 @@ export class ProcessedDocument {
   @Column()
   originalFileName: string;
 
+  /** `body` when the file is a rendering of an attachment-less email. */
+  @Column('varchar', { default: 'attachment' })
+  source: DocumentSource;
+
+  /** The `archive` document this file was extracted from. */
+  @Index()
+  @Column('uuid', { nullable: true })
+  parentDocumentId: string | null;
+
   @Column()
   driveFileId: string;
 
@@ -46,8 +95,8 @@ export class ProcessedDocument {
   @Column()
   spreadsheetId: string;
 
-  @Column({ nullable: true })
-  spreadsheetRow: number;
+  @Column('int', { nullable: true })
+  spreadsheetRow: number | null;
 
   @Column()
   fileSize: string;
@@ -55,9 +104,81 @@ export class ProcessedDocument {
   @Column()
   mimeType: string;
 
+  @Index()
+  @Column('varchar', { length: 64, nullable: true })
+  contentHash: string | null;
+
+  @Column('uuid', { nullable: true })
+  duplicateOfId: string | null;
+
+  @Index()
+  @Column('varchar', { nullable: true })
+  category: string | null;
+
+  @Column('numeric', { precision: 14, scale: 2, nullable: true })
+  totalAmount: string | null;
+
+  @Column('numeric', { precision: 14, scale: 2, nullable: true })
+  netAmount: string | null;
+
+  @Column('numeric', { precision: 14, scale: 2, nullable: true })
+  taxAmount: string | null;
+
+  @Column('varchar', { length: 3, nullable: true })
+  currency: string | null;
+
+  @Column('date', { nullable: true })
+  invoiceDate: string | null;
+
+  @Column('date', { nullable: true })
+  dueDate: string | null;
+
+  @Column('varchar', { nullable: true })
+  extractedVendor: string | null;
+
+  @Column('varchar', { nullable: true })
+  sellerVatId: string | null;
+
+  /** Line items of a structured e-invoice; null for other documents. */
+  @Column('jsonb', { nullable: true })
+  lineItems: EInvoiceLineItem[] | null;
+
+  @Column('varchar', { nullable: true })
+  eInvoiceFormat: EInvoiceFormat | null;
+
+  @Column('jsonb', { nullable: true })
+  extractionConfidence: Record<string, number> | null;
+
+  @Column('text', { nullable: true, select: false })
+  extractedText: string | null;
+
+  @Column('varchar', { nullable: true })
+  textSource: string | null;
+
   @Column({ default: 'completed' })
   status: string;
 
+  /** Set from the sheet's Status column, e.g. `Paid`. */
+  @Column('varchar', { nullable: true })
+  paymentStatus: string | null;
+
+  /**
+   * The editable cells of the document's row as of the last sync, so edits
+   * made in the sheet can be told apart from changes made here.
+   */
+  @Column('jsonb', { nullable: true })
+  sheetValues: EditableValues | null;
+
+  /**
+   * When sheetValues was last written to the row or read back from it. An
+   * edit in the sheet can only have been made after this.
+   */
+  @Column('timestamp', { nullable: true })
+  sheetSyncedAt: Date | null;
+
   @CreateDateColumn()
   processedAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
 }
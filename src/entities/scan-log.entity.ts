@@ -3,16 +3,29 @@ import {
   Column,
   PrimaryGeneratedColumn,
   CreateDateColumn,
+  Index,
 } from 'typeorm';
+import { LEGACY_ACCOUNT_ID } from './user-token.entity';
+
+/** `dry-run` scans only report what a live scan would have done. */
+export type ScanMode = 'live' | 'dry-run';
 
 @Entity('scan_logs')
 export class ScanLog {
   @PrimaryGeneratedColumn('uuid')
   id: string;
 
+  // Rows written before accounts existed get the legacy id.
+  @Index()
+  @Column({ default: LEGACY_ACCOUNT_ID })
+  accountId: string;
+
   @Column()
   status: string;
 
+  @Column('varchar', { default: 'live' })
+  mode: ScanMode;
+
   @Column({ default: 0 })
   emailsProcessed: number;
 
@@ -23,10 +36,10 @@ export class ScanLog {
   errorsCount: number;
 
   @Column('text', { nullable: true })
-  errorDetails: string;
+  errorDetails: string | null;
 
-  @Column({ nullable: true })
-  completedAt: Date;
+  @Column('timestamp', { nullable: true })
+  completedAt: Date | null;
 
   @CreateDateColumn()
   startedAt: Date;
@@ -0,0 +1,48 @@
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  CreateDateColumn,
+  Index,
+} from 'typeorm';
+
+export type SheetConflictWinner = 'sheet' | 'database';
+
+/**
+ * A cell that was changed both in the sheet and in the database between two
+ * syncs. The most recent change wins; the other value is kept here.
+ */
+@Entity('sheet_conflicts')
+export class SheetConflict {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Index()
+  @Column()
+  accountId: string;
+
+  @Index()
+  @Column('uuid')
+  documentId: string;
+
+  @Column()
+  field: string;
+
+  @Column('text')
+  sheetValue: string;
+
+  @Column('text')
+  databaseValue: string;
+
+  @Column('varchar')
+  winner: SheetConflictWinner;
+
+  @Column('timestamp', { nullable: true })
+  sheetModifiedAt: Date | null;
+
+  @Column('timestamp')
+  databaseModifiedAt: Date;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
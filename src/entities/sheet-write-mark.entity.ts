@@ -0,0 +1,19 @@
+import { Entity, Column, PrimaryColumn } from 'typeorm';
+
+/**
+ * Drive's modifiedTime around the service's last write to a spreadsheet.
+ * Drive counts those writes as changes too, so the mark is what tells them
+ * apart from edits made in the sheet.
+ */
+@Entity('sheet_write_marks')
+export class SheetWriteMark {
+  @PrimaryColumn()
+  spreadsheetId: string;
+
+  @Column('timestamp')
+  writtenAt: Date;
+
+  /** The last change before that write which the service did not make. */
+  @Column('timestamp', { nullable: true })
+  editedAt: Date | null;
+}
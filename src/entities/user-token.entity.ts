@@ -6,6 +6,12 @@ import {
   UpdateDateColumn,
 } from 'typeorm';
 
+/**
+ * The id the single account was stored under before several accounts could
+ * be connected. `npm run migrate:account-ids` replaces it with the address.
+ */
+export const LEGACY_ACCOUNT_ID = 'default_user';
+
 @Entity('user_tokens')
 export class UserToken {
   @PrimaryGeneratedColumn('uuid')
@@ -29,6 +35,18 @@ export class UserToken {
   @Column('bigint', { nullable: true })
   expiryDate: number | null;
 
+  @Column('varchar', { nullable: true })
+  scanCron: string | null;
+
+  @Column('int', { nullable: true })
+  scanIntervalMinutes: number | null;
+
+  @Column('varchar', { nullable: true })
+  historyId: string | null;
+
+  @Column('bigint', { nullable: true })
+  watchExpiration: number | null;
+
   @CreateDateColumn()
   createdAt: Date;
 
@@ -0,0 +1,47 @@
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+} from 'typeorm';
+
+/**
+ * A business documents come from. Senders are matched to a vendor by exact
+ * address first, then by domain, so one vendor can cover several mailboxes.
+ */
+@Entity('vendors')
+@Index(['accountId', 'name'], { unique: true })
+export class Vendor {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Index()
+  @Column()
+  accountId: string;
+
+  @Column()
+  name: string;
+
+  @Column('text', { array: true, default: '{}' })
+  addresses: string[];
+
+  @Column('text', { array: true, default: '{}' })
+  domains: string[];
+
+  @Column('varchar', { nullable: true })
+  defaultCategory: string | null;
+
+  @Column('text', { nullable: true })
+  notes: string | null;
+
+  @Column({ default: false })
+  autoCreated: boolean;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
@@ -0,0 +1,77 @@
+import { Workbook } from 'exceljs';
+import { ProcessedDocument } from '../entities';
+import {
+  EXPORT_COLUMNS,
+  ExportColumn,
+  toCsv,
+  toExportRecord,
+  toXlsx,
+} from './document-export';
+
+const COLUMNS: ExportColumn[] = [
+  { key: 'vendor', header: 'Vendor' },
+  { key: 'totalAmount', header: 'Total Amount' },
+];
+
+describe('toExportRecord', () => {
+  it('should prefer the corrected vendor name and convert amounts', () => {
+    const record = toExportRecord(
+      {
+        id: 'doc-1',
+        emailDate: new Date('2024-03-01T10:00:00Z'),
+        senderName: 'Billing',
+        vendorName: 'Vendor Ltd',
+        totalAmount: '119.00',
+        netAmount: null,
+        taxAmount: '19.00',
+      } as ProcessedDocument,
+      'Vendor',
+    );
+
+    expect(Object.keys(record)).toEqual(EXPORT_COLUMNS.map((c) => c.key));
+    expect(record).toMatchObject({
+      documentId: 'doc-1',
+      emailDate: '2024-03-01',
+      vendor: 'Vendor Ltd',
+      totalAmount: 119,
+      netAmount: null,
+      taxAmount: 19,
+    });
+  });
+});
+
+describe('toCsv', () => {
+  it('should quote fields that need it and neutralise formulas', () => {
+    const csv = toCsv(COLUMNS, [
+      { vendor: 'Acme, "The" Co', totalAmount: 10.5 },
+      { vendor: '=HYPERLINK("x")', totalAmount: -3 },
+      { vendor: null, totalAmount: null },
+    ]);
+
+    expect(csv).toBe(
+      '\uFEFFVendor,Total Amount\r\n' +
+        '"Acme, ""The"" Co",10.5\r\n' +
+        `"'=HYPERLINK(""x"")",-3\r\n` +
+        ',\r\n',
+    );
+  });
+});
+
+describe('toXlsx', () => {
+  it('should write a header row and keep amounts numeric', async () => {
+    const content = await toXlsx(COLUMNS, [
+      { vendor: 'Acme', totalAmount: 10.5 },
+    ]);
+
+    const workbook = new Workbook();
+    await workbook.xlsx.load(new Uint8Array(content).buffer);
+    const worksheet = workbook.getWorksheet('Documents');
+
+    expect(worksheet?.getRow(1).values).toEqual([
+      undefined,
+      'Vendor',
+      'Total Amount',
+    ]);
+    expect(worksheet?.getRow(2).values).toEqual([undefined, 'Acme', 10.5]);
+  });
+});
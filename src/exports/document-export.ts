@@ -0,0 +1,123 @@
+import { Workbook } from 'exceljs';
+import { ProcessedDocument } from '../entities';
+
+export const EXPORT_FORMATS = ['csv', 'xlsx', 'json', 'zip'] as const;
+
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+export type ExportValue = string | number | null;
+
+/** A document as exported, keyed by column. */
+export type ExportRecord = Record<string, ExportValue>;
+
+export interface ExportColumn {
+  key: string;
+  header: string;
+}
+
+export const EXPORT_COLUMNS: ExportColumn[] = [
+  { key: 'documentId', header: 'Document ID' },
+  { key: 'emailDate', header: 'Email Date' },
+  { key: 'invoiceDate', header: 'Invoice Date' },
+  { key: 'dueDate', header: 'Due Date' },
+  { key: 'vendor', header: 'Vendor' },
+  { key: 'senderEmail', header: 'Sender Email' },
+  { key: 'invoiceNumber', header: 'Invoice Number' },
+  { key: 'category', header: 'Category' },
+  { key: 'currency', header: 'Currency' },
+  { key: 'netAmount', header: 'Net Amount' },
+  { key: 'taxAmount', header: 'Tax Amount' },
+  { key: 'totalAmount', header: 'Total Amount' },
+  { key: 'paymentStatus', header: 'Status' },
+  { key: 'sellerVatId', header: 'Seller VAT ID' },
+  { key: 'fileName', header: 'File Name' },
+  { key: 'driveFileUrl', header: 'Drive Link' },
+];
+
+const AMOUNT_KEYS = ['netAmount', 'taxAmount', 'totalAmount'];
+
+// Spreadsheet apps run cells starting with these as formulas.
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+/**
+ * Builds the export record of a document. `registryVendorName` is the name
+ * of its vendor, used unless the name was corrected in the sheet.
+ */
+export function toExportRecord(
+  document: ProcessedDocument,
+  registryVendorName: string | null,
+): ExportRecord {
+  return {
+    documentId: document.id,
+    emailDate: toIsoDate(document.emailDate),
+    invoiceDate: document.invoiceDate,
+    dueDate: document.dueDate,
+    vendor: document.vendorName ?? registryVendorName ?? document.senderName,
+    senderEmail: document.senderEmail,
+    invoiceNumber: document.invoiceNumber,
+    category: document.category,
+    currency: document.currency,
+    netAmount: toNumber(document.netAmount),
+    taxAmount: toNumber(document.taxAmount),
+    totalAmount: toNumber(document.totalAmount),
+    paymentStatus: document.paymentStatus,
+    sellerVatId: document.sellerVatId,
+    fileName: document.fileName,
+    driveFileUrl: document.driveFileUrl,
+  };
+}
+
+/**
+ * Writes RFC 4180 CSV with a byte order mark, so spreadsheet apps read it
+ * as UTF-8. Text that would be taken for a formula is prefixed with `'`.
+ */
+export function toCsv(
+  columns: ExportColumn[],
+  records: ExportRecord[],
+): string {
+  const lines = [
+    columns.map((column) => csvField(column.header)),
+    ...records.map((record) =>
+      columns.map((column) => csvField(record[column.key])),
+    ),
+  ].map((fields) => fields.join(','));
+  return `\uFEFF${lines.join('\r\n')}\r\n`;
+}
+
+/** Writes a single-sheet workbook with a frozen, bold header row. */
+export async function toXlsx(
+  columns: ExportColumn[],
+  records: ExportRecord[],
+): Promise<Buffer> {
+  const workbook = new Workbook();
+  const worksheet = workbook.addWorksheet('Documents', {
+    views: [{ state: 'frozen', ySplit: 1 }],
+  });
+  worksheet.columns = columns.map((column) => ({
+    key: column.key,
+    header: column.header,
+    width: Math.max(12, column.header.length + 2),
+    style: AMOUNT_KEYS.includes(column.key) ? { numFmt: '#,##0.00' } : {},
+  }));
+  worksheet.getRow(1).font = { bold: true };
+  worksheet.addRows(records);
+
+  return Buffer.from(await workbook.xlsx.writeBuffer());
+}
+
+function csvField(value: ExportValue | undefined): string {
+  if (value === null || value === undefined) return '';
+  let text = String(value);
+  if (typeof value === 'string' && FORMULA_PREFIX.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function toNumber(value: string | null): number | null {
+  return value === null ? null : Number(value);
+}
+
+function toIsoDate(value: Date | string): string {
+  return new Date(value).toISOString().substring(0, 10);
+}
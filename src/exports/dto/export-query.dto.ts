@@ -0,0 +1,36 @@
+import {
+  IsIn,
+  IsISO8601,
+  IsOptional,
+  IsString,
+  IsUUID,
+  MaxLength,
+} from 'class-validator';
+import { AccountQueryDto } from '../../common/dto/account-query.dto';
+import { EXPORT_FORMATS } from '../document-export';
+import type { ExportFormat } from '../document-export';
+
+export class ExportQueryDto extends AccountQueryDto {
+  @IsOptional()
+  @IsIn(EXPORT_FORMATS)
+  format?: ExportFormat;
+
+  /** First invoice date to include, as `YYYY-MM-DD`. */
+  @IsOptional()
+  @IsISO8601({ strict: true })
+  from?: string;
+
+  /** Last invoice date to include, as `YYYY-MM-DD`. */
+  @IsOptional()
+  @IsISO8601({ strict: true })
+  to?: string;
+
+  @IsOptional()
+  @IsUUID()
+  vendorId?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(50)
+  category?: string;
+}
@@ -0,0 +1 @@
+export { ExportQueryDto } from './export-query.dto';
@@ -0,0 +1,28 @@
+import {
+  Controller,
+  Get,
+  Query,
+  StreamableFile,
+  UseGuards,
+} from '@nestjs/common';
+import { AuthGuard } from '../auth/auth.guard';
+import { ExportQueryDto } from './dto';
+import { ExportsService } from './exports.service';
+
+@Controller('exports')
+@UseGuards(AuthGuard)
+export class ExportsController {
+  constructor(private readonly exportsService: ExportsService) {}
+
+  @Get('documents')
+  async exportDocuments(
+    @Query() query: ExportQueryDto,
+  ): Promise<StreamableFile> {
+    const file = await this.exportsService.exportDocuments(query);
+    return new StreamableFile(file.content, {
+      type: file.contentType,
+      disposition: `attachment; filename="${file.filename}"`,
+      length: file.content.length,
+    });
+  }
+}
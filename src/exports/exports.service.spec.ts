@@ -0,0 +1,162 @@
+import { BadRequestException } from '@nestjs/common';
+import { Repository } from 'typeorm';
+import { DriveService } from '../drive/drive.service';
+import { ProcessedDocument } from '../entities';
+import { expandArchive } from '../extraction/archive';
+import { VendorsService } from '../vendors/vendors.service';
+import { ExportsService, MAX_BUNDLE_DOCUMENTS } from './exports.service';
+
+const ACCOUNT = 'me@example.com';
+
+function document(overrides: Partial<ProcessedDocument>): ProcessedDocument {
+  return {
+    id: 'doc-1',
+    accountId: ACCOUNT,
+    emailDate: new Date('2024-03-01T10:00:00Z'),
+    senderEmail: 'billing@vendor.com',
+    senderName: 'Billing',
+    vendorId: 'vendor-1',
+    vendorName: null,
+    invoiceNumber: '1001',
+    invoiceDate: '2024-02-28',
+    totalAmount: '119.00',
+    netAmount: '100.00',
+    taxAmount: '19.00',
+    fileName: 'invoice.pdf',
+    driveFileId: 'drive-1',
+    ...overrides,
+  } as ProcessedDocument;
+}
+
+describe('ExportsService', () => {
+  const queryBuilder = {
+    where: jest.fn(),
+    andWhere: jest.fn(),
+    orderBy: jest.fn(),
+    addOrderBy: jest.fn(),
+    getMany: jest.fn(),
+  };
+  const processedDocumentRepository = {
+    createQueryBuilder: jest.fn(() => queryBuilder),
+  };
+  const driveService = { downloadFile: jest.fn() };
+  const vendorsService = { findAll: jest.fn() };
+  let exportsService: ExportsService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    for (const [name, method] of Object.entries(queryBuilder)) {
+      if (name !== 'getMany') method.mockReturnValue(queryBuilder);
+    }
+    queryBuilder.getMany.mockResolvedValue([]);
+    vendorsService.findAll.mockResolvedValue([
+      { id: 'vendor-1', name: 'Vendor Ltd' },
+    ]);
+    exportsService = new ExportsService(
+      processedDocumentRepository as unknown as Repository<ProcessedDocument>,
+      driveService as unknown as DriveService,
+      vendorsService as unknown as VendorsService,
+    );
+  });
+
+  it('should apply the date, vendor and category filters', async () => {
+    await exportsService.exportDocuments({
+      accountId: ACCOUNT,
+      from: '2024-01-01',
+      to: '2024-03-31',
+      vendorId: 'vendor-1',
+      category: 'Travel',
+    });
+
+    const conditions = queryBuilder.andWhere.mock.calls.map(
+      ([condition]: [string]) => condition,
+    );
+    expect(conditions).toEqual([
+      'doc.duplicateOfId IS NULL',
+      'doc.accountId = :accountId',
+      'COALESCE(doc.invoiceDate, CAST(doc.emailDate AS date)) >= :from',
+      'COALESCE(doc.invoiceDate, CAST(doc.emailDate AS date)) <= :to',
+      'doc.vendorId = :vendorId',
+      'doc.category = :category',
+    ]);
+  });
+
+  it('should export CSV by default, named after the date range', async () => {
+    queryBuilder.getMany.mockResolvedValue([document({})]);
+
+    const file = await exportsService.exportDocuments({
+      accountId: ACCOUNT,
+      from: '2024-01-01',
+      to: '2024-03-31',
+    });
+
+    expect(file.filename).toBe('documents-2024-01-01-to-2024-03-31.csv');
+    expect(file.contentType).toBe('text/csv; charset=utf-8');
+    const [header, row] = file.content.toString().split('\r\n');
+    expect(header).toContain('Document ID,Email Date,Invoice Date');
+    expect(row).toContain('doc-1,2024-03-01,2024-02-28,,Vendor Ltd');
+  });
+
+  it('should export JSON records', async () => {
+    queryBuilder.getMany.mockResolvedValue([document({})]);
+
+    const file = await exportsService.exportDocuments({
+      accountId: ACCOUNT,
+      format: 'json',
+    });
+
+    expect(file.filename).toBe('documents.json');
+    expect(JSON.parse(file.content.toString())).toEqual([
+      expect.objectContaining({
+        documentId: 'doc-1',
+        vendor: 'Vendor Ltd',
+        totalAmount: 119,
+      }),
+    ]);
+  });
+
+  it('should bundle the Drive files with a manifest', async () => {
+    queryBuilder.getMany.mockResolvedValue([
+      document({}),
+      document({ id: 'doc-2', driveFileId: 'drive-2' }),
+    ]);
+    driveService.downloadFile.mockImplementation((_, fileId: string) =>
+      Promise.resolve(Buffer.from(`%PDF ${fileId}`)),
+    );
+
+    const file = await exportsService.exportDocuments({
+      accountId: ACCOUNT,
+      format: 'zip',
+    });
+
+    expect(file.contentType).toBe('application/zip');
+    const entries = new Map(
+      (await expandArchive(file.content)).map((entry) => [
+        entry.path,
+        entry.content.toString(),
+      ]),
+    );
+    expect(Array.from(entries.keys()).sort()).toEqual([
+      'documents/invoice.pdf',
+      'documents/invoice_2.pdf',
+      'manifest.csv',
+    ]);
+    expect(entries.get('documents/invoice_2.pdf')).toBe('%PDF drive-2');
+    const manifest = entries.get('manifest.csv')?.split('\r\n') ?? [];
+    expect(manifest[0]).toMatch(/^\uFEFFFile,Document ID,/);
+    expect(manifest[2]).toMatch(/^documents\/invoice_2\.pdf,doc-2,/);
+  });
+
+  it('should refuse bundles over the size limit', async () => {
+    queryBuilder.getMany.mockResolvedValue(
+      Array.from({ length: MAX_BUNDLE_DOCUMENTS + 1 }, (_, i) =>
+        document({ id: `doc-${i}` }),
+      ),
+    );
+
+    await expect(
+      exportsService.exportDocuments({ accountId: ACCOUNT, format: 'zip' }),
+    ).rejects.toThrow(BadRequestException);
+    expect(driveService.downloadFile).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,191 @@
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { DriveService } from '../drive/drive.service';
+import { withNumericSuffix } from '../drive/filename-template';
+import { ProcessedDocument } from '../entities';
+import { ArchiveEntry, createZip } from '../extraction/archive';
+import { VendorsService } from '../vendors/vendors.service';
+import {
+  EXPORT_COLUMNS,
+  ExportColumn,
+  ExportRecord,
+  toCsv,
+  toExportRecord,
+  toXlsx,
+} from './document-export';
+import { ExportQueryDto } from './dto';
+
+// Every file of a bundle is held in memory while the ZIP is built.
+export const MAX_BUNDLE_DOCUMENTS = 500;
+
+const MANIFEST_COLUMNS: ExportColumn[] = [
+  { key: 'file', header: 'File' },
+  ...EXPORT_COLUMNS,
+];
+
+export interface ExportFile {
+  filename: string;
+  contentType: string;
+  content: Buffer;
+}
+
+@Injectable()
+export class ExportsService {
+  private readonly logger = new Logger(ExportsService.name);
+
+  constructor(
+    @InjectRepository(ProcessedDocument)
+    private processedDocumentRepository: Repository<ProcessedDocument>,
+    private driveService: DriveService,
+    private vendorsService: VendorsService,
+  ) {}
+
+  /**
+   * Exports the documents matching the query as CSV (the default), XLSX,
+   * JSON, or a ZIP bundle of the files themselves with a CSV manifest.
+   */
+  async exportDocuments(query: ExportQueryDto): Promise<ExportFile> {
+    const documents = await this.findDocuments(query);
+    const vendorNames = await this.vendorNames(query.accountId);
+    const records = documents.map((document) =>
+      toExportRecord(
+        document,
+        (document.vendorId && vendorNames.get(document.vendorId)) || null,
+      ),
+    );
+    const basename = this.basename(query);
+
+    this.logger.log(
+      `Exporting ${documents.length} documents as ${query.format ?? 'csv'}`,
+    );
+
+    switch (query.format) {
+      case 'xlsx':
+        return {
+          filename: `${basename}.xlsx`,
+          contentType:
+            'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+          content: await toXlsx(EXPORT_COLUMNS, records),
+        };
+      case 'json':
+        return {
+          filename: `${basename}.json`,
+          contentType: 'application/json',
+          content: Buffer.from(JSON.stringify(records, null, 2)),
+        };
+      case 'zip':
+        return {
+          filename: `${basename}.zip`,
+          contentType: 'application/zip',
+          content: await this.createBundle(documents, records),
+        };
+      default:
+        return {
+          filename: `${basename}.csv`,
+          contentType: 'text/csv; charset=utf-8',
+          content: Buffer.from(toCsv(EXPORT_COLUMNS, records)),
+        };
+    }
+  }
+
+  /**
+   * Completed documents matching the filters, oldest first. Dates are
+   * compared with the invoice date, or the email date when there is none.
+   */
+  async findDocuments(query: ExportQueryDto): Promise<ProcessedDocument[]> {
+    const builder = this.processedDocumentRepository
+      .createQueryBuilder('doc')
+      .where('doc.status = :status', { status: 'completed' })
+      .andWhere('doc.duplicateOfId IS NULL');
+
+    const documentDate =
+      'COALESCE(doc.invoiceDate, CAST(doc.emailDate AS date))';
+    if (query.accountId) {
+      builder.andWhere('doc.accountId = :accountId', {
+        accountId: query.accountId,
+      });
+    }
+    if (query.from) {
+      builder.andWhere(`${documentDate} >= :from`, { from: query.from });
+    }
+    if (query.to) {
+      builder.andWhere(`${documentDate} <= :to`, { to: query.to });
+    }
+    if (query.vendorId) {
+      builder.andWhere('doc.vendorId = :vendorId', {
+        vendorId: query.vendorId,
+      });
+    }
+    if (query.category) {
+      builder.andWhere('doc.category = :category', {
+        category: query.category,
+      });
+    }
+
+    return builder
+      .orderBy(documentDate, 'ASC')
+      .addOrderBy('doc.emailDate', 'ASC')
+      .getMany();
+  }
+
+  private async createBundle(
+    documents: ProcessedDocument[],
+    records: ExportRecord[],
+  ): Promise<Buffer> {
+    if (documents.length > MAX_BUNDLE_DOCUMENTS) {
+      throw new BadRequestException(
+        `A bundle holds at most ${MAX_BUNDLE_DOCUMENTS} documents; narrow the date range`,
+      );
+    }
+
+    try {
+      const entries: ArchiveEntry[] = [];
+      const manifest: ExportRecord[] = [];
+      const taken = new Set<string>();
+
+      for (const [i, document] of documents.entries()) {
+        const filename = withNumericSuffix(
+          document.fileName.replace(/[/\\]/g, '_'),
+          taken,
+        );
+        taken.add(filename);
+
+        const path = `documents/${filename}`;
+        entries.push({
+          path,
+          content: await this.driveService.downloadFile(
+            document.accountId,
+            document.driveFileId,
+          ),
+        });
+        manifest.push({ file: path, ...records[i] });
+      }
+
+      entries.push({
+        path: 'manifest.csv',
+        content: Buffer.from(toCsv(MANIFEST_COLUMNS, manifest)),
+      });
+      return await createZip(entries);
+    } catch (error) {
+      this.logger.error('Failed to build export bundle:', error);
+      if (error instanceof Error) {
+        throw new Error(`Failed to build export bundle: ${error.message}`);
+      }
+      throw new Error(`Failed to build export bundle: ${String(error)}`);
+    }
+  }
+
+  private basename(query: ExportQueryDto): string {
+    const range =
+      query.from || query.to
+        ? `-${query.from ?? 'start'}-to-${query.to ?? 'today'}`
+        : '';
+    return `documents${range}`;
+  }
+
+  private async vendorNames(accountId?: string): Promise<Map<string, string>> {
+    const vendors = await this.vendorsService.findAll(accountId);
+    return new Map(vendors.map((vendor) => [vendor.id, vendor.name]));
+  }
+}
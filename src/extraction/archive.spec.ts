@@ -0,0 +1,97 @@
+import SevenZip from '7z-wasm';
+import { createZip, expandArchive, MAX_ARCHIVE_ENTRIES } from './archive';
+
+async function createArchive(
+  type: 'zip' | '7z',
+  files: Record<string, string>,
+): Promise<Buffer> {
+  const sevenZip = await SevenZip({ print: () => {}, printErr: () => {} });
+  sevenZip.FS.mkdir('/in');
+  sevenZip.FS.chdir('/in');
+  for (const [path, content] of Object.entries(files)) {
+    const folder = path.substring(0, path.lastIndexOf('/'));
+    if (folder) sevenZip.FS.mkdir(folder);
+    sevenZip.FS.writeFile(path, content);
+  }
+
+  const exitCode = process.exitCode;
+  sevenZip.callMain(['a', `-t${type}`, `/archive.${type}`, '.']);
+  process.exitCode = exitCode;
+  return Buffer.from(sevenZip.FS.readFile(`/archive.${type}`));
+}
+
+describe('expandArchive', () => {
+  it('should extract the files of a ZIP archive', async () => {
+    const archive = await createArchive('zip', {
+      'march.pdf': '%PDF-1.4 march',
+      'april/invoice.pdf': '%PDF-1.4 april',
+    });
+
+    const entries = await expandArchive(archive);
+
+    expect(
+      entries.map((entry) => [entry.path, entry.content.toString()]),
+    ).toEqual([
+      ['april/invoice.pdf', '%PDF-1.4 april'],
+      ['march.pdf', '%PDF-1.4 march'],
+    ]);
+  });
+
+  it('should extract the files of a 7z archive', async () => {
+    const archive = await createArchive('7z', { 'bill.pdf': '%PDF-1.4 bill' });
+
+    const entries = await expandArchive(archive);
+
+    expect(entries).toEqual([
+      { path: 'bill.pdf', content: Buffer.from('%PDF-1.4 bill') },
+    ]);
+  });
+
+  it('should leave out hidden files and resource forks', async () => {
+    const archive = await createArchive('zip', {
+      'bill.pdf': '%PDF-1.4 bill',
+      '.DS_Store': 'x',
+      '__MACOSX/._bill.pdf': 'x',
+    });
+
+    const entries = await expandArchive(archive);
+
+    expect(entries.map((entry) => entry.path)).toEqual(['bill.pdf']);
+  });
+
+  it('should count hidden files towards the entry limit', async () => {
+    const files: Record<string, string> = { 'bill.pdf': '%PDF-1.4 bill' };
+    for (let i = 0; i < MAX_ARCHIVE_ENTRIES; i++) files[`.hidden${i}`] = 'x';
+    const archive = await createArchive('zip', files);
+
+    await expect(expandArchive(archive)).rejects.toThrow(
+      `more than ${MAX_ARCHIVE_ENTRIES}`,
+    );
+  });
+
+  it('should reject content that is not an archive', async () => {
+    await expect(expandArchive(Buffer.from('not a zip'))).rejects.toThrow(
+      'Could not read archive',
+    );
+  });
+});
+
+describe('createZip', () => {
+  it('should pack files and folders into a readable ZIP archive', async () => {
+    const archive = await createZip([
+      { path: 'manifest.csv', content: Buffer.from('File\n') },
+      { path: 'documents/2024-03/a.pdf', content: Buffer.from('%PDF a') },
+      { path: 'documents/2024-03/b.pdf', content: Buffer.from('%PDF b') },
+    ]);
+
+    const entries = await expandArchive(archive);
+
+    expect(
+      entries.map((entry) => [entry.path, entry.content.toString()]),
+    ).toEqual([
+      ['documents/2024-03/a.pdf', '%PDF a'],
+      ['documents/2024-03/b.pdf', '%PDF b'],
+      ['manifest.csv', 'File\n'],
+    ]);
+  });
+});
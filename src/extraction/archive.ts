@@ -0,0 +1,183 @@
+import SevenZip, { SevenZipModule } from '7z-wasm';
+
+export interface ArchiveEntry {
+  /** Path inside the archive, using `/` separators. */
+  path: string;
+  content: Buffer;
+}
+
+// Guards against archive bombs; a monthly invoice bundle is far smaller.
+export const MAX_ARCHIVE_ENTRIES = 200;
+export const MAX_ARCHIVE_SIZE = 200 * 1024 * 1024;
+
+const ARCHIVE_PATH = '/archive';
+const INPUT_DIR = '/in';
+const OUTPUT_DIR = '/out';
+
+// Encrypted archives would otherwise prompt for a password on stdin, and the
+// progress meter would be interleaved with the listing.
+const NO_PASSWORD = '-p_';
+const NO_PROGRESS = '-bsp0';
+
+interface ListedEntry {
+  path: string;
+  size: number;
+  isFolder: boolean;
+  encrypted: boolean;
+}
+
+/**
+ * Extracts the files of a ZIP or 7z archive in memory with the WASM build
+ * of 7-Zip. Folders, macOS resource forks and hidden files are left out.
+ * Throws when the archive is unreadable, encrypted or its files, hidden ones
+ * included, exceed the limits.
+ */
+export async function expandArchive(content: Buffer): Promise<ArchiveEntry[]> {
+  const output: string[] = [];
+  const sevenZip = await loadSevenZip(output);
+  sevenZip.FS.writeFile(ARCHIVE_PATH, content);
+
+  runSevenZip(sevenZip, output, [
+    'l',
+    '-slt',
+    '-ba',
+    NO_PROGRESS,
+    NO_PASSWORD,
+    ARCHIVE_PATH,
+  ]);
+  // The limits cover every file, including the ones left out below, since
+  // extraction writes them all.
+  const files = parseListing(output).filter((entry) => !entry.isFolder);
+  if (files.some((entry) => entry.encrypted)) {
+    throw new Error('Archive is password protected');
+  }
+  if (files.length > MAX_ARCHIVE_ENTRIES) {
+    throw new Error(
+      `Archive has ${files.length} files, more than ${MAX_ARCHIVE_ENTRIES}`,
+    );
+  }
+  const totalSize = files.reduce((sum, entry) => sum + entry.size, 0);
+  if (totalSize > MAX_ARCHIVE_SIZE) {
+    throw new Error(`Archive expands to ${totalSize} bytes, over the limit`);
+  }
+  const entries = files.filter((entry) => isWantedPath(entry.path));
+
+  runSevenZip(sevenZip, output, [
+    'x',
+    ARCHIVE_PATH,
+    `-o${OUTPUT_DIR}`,
+    '-y',
+    NO_PROGRESS,
+    NO_PASSWORD,
+  ]);
+
+  return entries
+    .map((entry) => ({
+      path: entry.path,
+      content: Buffer.from(sevenZip.FS.readFile(`${OUTPUT_DIR}/${entry.path}`)),
+    }))
+    .sort((a, b) => a.path.localeCompare(b.path));
+}
+
+/**
+ * Packs files into a ZIP archive in memory. Entry paths may contain folders
+ * and must be unique.
+ */
+export async function createZip(entries: ArchiveEntry[]): Promise<Buffer> {
+  const output: string[] = [];
+  const sevenZip = await loadSevenZip(output);
+
+  sevenZip.FS.mkdir(INPUT_DIR);
+  sevenZip.FS.chdir(INPUT_DIR);
+  const folders = new Set<string>();
+  for (const entry of entries) {
+    const segments = entry.path.split('/');
+    for (let i = 1; i < segments.length; i++) {
+      const folder = segments.slice(0, i).join('/');
+      if (folders.has(folder)) continue;
+      sevenZip.FS.mkdir(folder);
+      folders.add(folder);
+    }
+    sevenZip.FS.writeFile(entry.path, entry.content);
+  }
+
+  runSevenZip(
+    sevenZip,
+    output,
+    ['a', '-tzip', NO_PROGRESS, `${ARCHIVE_PATH}.zip`, '.'],
+    'Could not create archive',
+  );
+  return Buffer.from(sevenZip.FS.readFile(`${ARCHIVE_PATH}.zip`));
+}
+
+async function loadSevenZip(output: string[]): Promise<SevenZipModule> {
+  return SevenZip({
+    print: (line) => output.push(line),
+    printErr: (line) => output.push(line),
+    stdin: () => null as unknown as number,
+  });
+}
+
+function runSevenZip(
+  sevenZip: SevenZipModule,
+  output: string[],
+  args: string[],
+  failure = 'Could not read archive',
+): void {
+  output.length = 0;
+
+  // The Node build reports its exit status through process.exitCode, which
+  // would otherwise leak into this process's own exit status.
+  const exitCode = process.exitCode;
+  const status = sevenZip.callMain(args) as unknown as number;
+  process.exitCode = exitCode;
+
+  if (status !== 0) {
+    const reason = output.find((line) => /error/i.test(line)) ?? '';
+    throw new Error(`${failure}${reason ? `: ${reason.trim()}` : ''}`);
+  }
+}
+
+// `-slt` prints one "Key = Value" block per entry.
+function parseListing(output: string[]): ListedEntry[] {
+  const entries: ListedEntry[] = [];
+  let fields = new Map<string, string>();
+
+  const flush = () => {
+    const path = fields.get('Path');
+    if (path) {
+      entries.push({
+        path: path.replace(/\\/g, '/'),
+        size: parseInt(fields.get('Size') ?? '0', 10) || 0,
+        isFolder:
+          fields.get('Folder') === '+' ||
+          (fields.get('Attributes') ?? '').startsWith('D'),
+        encrypted: fields.get('Encrypted') === '+',
+      });
+    }
+    fields = new Map();
+  };
+
+  for (const line of output) {
+    const separator = line.indexOf(' = ');
+    if (separator > 0) {
+      const key = line.substring(0, separator).trim();
+      if (key === 'Path' && fields.has('Path')) flush();
+      fields.set(key, line.substring(separator + 3));
+    } else if (line.trim() === '') {
+      flush();
+    }
+  }
+  flush();
+  return entries;
+}
+
+function isWantedPath(path: string): boolean {
+  const segments = path.split('/');
+  const name = segments[segments.length - 1];
+  return (
+    !segments.includes('..') &&
+    !segments.includes('__MACOSX') &&
+    !name.startsWith('.')
+  );
+}
@@ -0,0 +1,184 @@
+import { isEInvoiceXml, parseEInvoice, toInvoiceFields } from './e-invoice';
+
+const UBL_INVOICE = `<?xml version="1.0" encoding="UTF-8"?>
+<ubl:Invoice xmlns:ubl="urn:oasis:names:specification:ubl:schema:xsd:Invoice-2"
+  xmlns:cac="urn:oasis:names:specification:ubl:schema:xsd:CommonAggregateComponents-2"
+  xmlns:cbc="urn:oasis:names:specification:ubl:schema:xsd:CommonBasicComponents-2">
+  <cbc:CustomizationID>urn:cen.eu:en16931:2017#compliant#urn:xeinkauf.de:kosit:xrechnung_3.0</cbc:CustomizationID>
+  <cbc:ID>RE-2024-0042</cbc:ID>
+  <cbc:IssueDate>2024-03-04</cbc:IssueDate>
+  <cbc:DueDate>2024-04-03</cbc:DueDate>
+  <cbc:DocumentCurrencyCode>EUR</cbc:DocumentCurrencyCode>
+  <cac:AccountingSupplierParty>
+    <cac:Party>
+      <cac:PartyName><cbc:Name>Muster</cbc:Name></cac:PartyName>
+      <cac:PartyTaxScheme>
+        <cbc:CompanyID>DE123456789</cbc:CompanyID>
+        <cac:TaxScheme><cbc:ID>VAT</cbc:ID></cac:TaxScheme>
+      </cac:PartyTaxScheme>
+      <cac:PartyLegalEntity>
+        <cbc:RegistrationName>Muster GmbH</cbc:RegistrationName>
+      </cac:PartyLegalEntity>
+    </cac:Party>
+  </cac:AccountingSupplierParty>
+  <cac:TaxTotal>
+    <cbc:TaxAmount currencyID="EUR">38.00</cbc:TaxAmount>
+  </cac:TaxTotal>
+  <cac:LegalMonetaryTotal>
+    <cbc:TaxExclusiveAmount currencyID="EUR">200.00</cbc:TaxExclusiveAmount>
+    <cbc:TaxInclusiveAmount currencyID="EUR">238.00</cbc:TaxInclusiveAmount>
+    <cbc:PayableAmount currencyID="EUR">238.00</cbc:PayableAmount>
+  </cac:LegalMonetaryTotal>
+  <cac:InvoiceLine>
+    <cbc:ID>1</cbc:ID>
+    <cbc:InvoicedQuantity unitCode="HUR">2</cbc:InvoicedQuantity>
+    <cbc:LineExtensionAmount currencyID="EUR">200.00</cbc:LineExtensionAmount>
+    <cac:Item><cbc:Name>Consulting</cbc:Name></cac:Item>
+    <cac:Price><cbc:PriceAmount currencyID="EUR">100.00</cbc:PriceAmount></cac:Price>
+  </cac:InvoiceLine>
+</ubl:Invoice>`;
+
+const CII_INVOICE = `<?xml version="1.0" encoding="UTF-8"?>
+<rsm:CrossIndustryInvoice xmlns:rsm="urn:un:unece:uncefact:data:standard:CrossIndustryInvoice:100"
+  xmlns:ram="urn:un:unece:uncefact:data:standard:ReusableAggregateBusinessInformationEntity:100"
+  xmlns:udt="urn:un:unece:uncefact:data:standard:UnqualifiedDataType:100">
+  <rsm:ExchangedDocumentContext>
+    <ram:GuidelineSpecifiedDocumentContextParameter>
+      <ram:ID>urn:cen.eu:en16931:2017</ram:ID>
+    </ram:GuidelineSpecifiedDocumentContextParameter>
+  </rsm:ExchangedDocumentContext>
+  <rsm:ExchangedDocument>
+    <ram:ID>F-1001</ram:ID>
+    <ram:IssueDateTime><udt:DateTimeString format="102">20240311</udt:DateTimeString></ram:IssueDateTime>
+  </rsm:ExchangedDocument>
+  <rsm:SupplyChainTradeTransaction>
+    <ram:IncludedSupplyChainTradeLineItem>
+      <ram:SpecifiedTradeProduct><ram:Name>Hosting</ram:Name></ram:SpecifiedTradeProduct>
+      <ram:SpecifiedLineTradeAgreement>
+        <ram:NetPriceProductTradePrice><ram:ChargeAmount>50.00</ram:ChargeAmount></ram:NetPriceProductTradePrice>
+      </ram:SpecifiedLineTradeAgreement>
+      <ram:SpecifiedLineTradeDelivery><ram:BilledQuantity unitCode="C62">1</ram:BilledQuantity></ram:SpecifiedLineTradeDelivery>
+      <ram:SpecifiedLineTradeSettlement>
+        <ram:SpecifiedTradeSettlementLineMonetarySummation><ram:LineTotalAmount>50.00</ram:LineTotalAmount></ram:SpecifiedTradeSettlementLineMonetarySummation>
+      </ram:SpecifiedLineTradeSettlement>
+    </ram:IncludedSupplyChainTradeLineItem>
+    <ram:ApplicableHeaderTradeAgreement>
+      <ram:SellerTradeParty>
+        <ram:Name>Hébergeur SAS</ram:Name>
+        <ram:SpecifiedTaxRegistration><ram:ID schemeID="FC">12/345/67890</ram:ID></ram:SpecifiedTaxRegistration>
+        <ram:SpecifiedTaxRegistration><ram:ID schemeID="VA">FR12345678901</ram:ID></ram:SpecifiedTaxRegistration>
+      </ram:SellerTradeParty>
+    </ram:ApplicableHeaderTradeAgreement>
+    <ram:ApplicableHeaderTradeSettlement>
+      <ram:InvoiceCurrencyCode>EUR</ram:InvoiceCurrencyCode>
+      <ram:SpecifiedTradePaymentTerms>
+        <ram:DueDateDateTime><udt:DateTimeString format="102">20240410</udt:DateTimeString></ram:DueDateDateTime>
+      </ram:SpecifiedTradePaymentTerms>
+      <ram:SpecifiedTradeSettlementHeaderMonetarySummation>
+        <ram:TaxBasisTotalAmount>50.00</ram:TaxBasisTotalAmount>
+        <ram:TaxTotalAmount currencyID="EUR">10.00</ram:TaxTotalAmount>
+        <ram:GrandTotalAmount>60.00</ram:GrandTotalAmount>
+      </ram:SpecifiedTradeSettlementHeaderMonetarySummation>
+    </ram:ApplicableHeaderTradeSettlement>
+  </rsm:SupplyChainTradeTransaction>
+</rsm:CrossIndustryInvoice>`;
+
+describe('e-invoice', () => {
+  describe('parseEInvoice', () => {
+    it('should read a UBL XRechnung invoice', () => {
+      expect(parseEInvoice(UBL_INVOICE)).toEqual({
+        format: 'xrechnung',
+        invoiceNumber: 'RE-2024-0042',
+        issueDate: '2024-03-04',
+        dueDate: '2024-04-03',
+        currency: 'EUR',
+        sellerName: 'Muster GmbH',
+        sellerVatId: 'DE123456789',
+        netAmount: 200,
+        taxAmount: 38,
+        grossAmount: 238,
+        lineItems: [
+          {
+            description: 'Consulting',
+            quantity: 2,
+            unitPrice: 100,
+            netAmount: 200,
+          },
+        ],
+      });
+    });
+
+    it('should read a CII invoice', () => {
+      expect(parseEInvoice(CII_INVOICE)).toEqual({
+        format: 'cii',
+        invoiceNumber: 'F-1001',
+        issueDate: '2024-03-11',
+        dueDate: '2024-04-10',
+        currency: 'EUR',
+        sellerName: 'Hébergeur SAS',
+        sellerVatId: 'FR12345678901',
+        netAmount: 50,
+        taxAmount: 10,
+        grossAmount: 60,
+        lineItems: [
+          { description: 'Hosting', quantity: 1, unitPrice: 50, netAmount: 50 },
+        ],
+      });
+    });
+
+    it('should report CII found in a PDF as Factur-X', () => {
+      expect(parseEInvoice(CII_INVOICE, true)?.format).toBe('factur-x');
+    });
+
+    it('should read UBL credit notes', () => {
+      const creditNote = `<CreditNote xmlns="urn:oasis:names:specification:ubl:schema:xsd:CreditNote-2"
+        xmlns:cbc="urn:oasis:names:specification:ubl:schema:xsd:CommonBasicComponents-2"
+        xmlns:cac="urn:oasis:names:specification:ubl:schema:xsd:CommonAggregateComponents-2">
+        <cbc:ID>CN-7</cbc:ID>
+        <cac:CreditNoteLine>
+          <cbc:CreditedQuantity>3</cbc:CreditedQuantity>
+          <cac:Item><cbc:Name>Refund</cbc:Name></cac:Item>
+        </cac:CreditNoteLine>
+      </CreditNote>`;
+
+      expect(parseEInvoice(creditNote)).toMatchObject({
+        format: 'ubl',
+        invoiceNumber: 'CN-7',
+        lineItems: [{ description: 'Refund', quantity: 3 }],
+      });
+    });
+
+    it('should return null for other XML and for documents with a DTD', () => {
+      expect(parseEInvoice('<?xml version="1.0"?><rss></rss>')).toBeNull();
+      expect(
+        parseEInvoice('<!DOCTYPE Invoice [<!ENTITY a "b">]><Invoice/>'),
+      ).toBeNull();
+    });
+  });
+
+  describe('isEInvoiceXml', () => {
+    it('should recognise invoice roots with or without a prefix', () => {
+      expect(isEInvoiceXml(Buffer.from(UBL_INVOICE))).toBe(true);
+      expect(isEInvoiceXml(Buffer.from(CII_INVOICE))).toBe(true);
+      expect(isEInvoiceXml(Buffer.from('<feed><entry/></feed>'))).toBe(false);
+    });
+  });
+
+  describe('toInvoiceFields', () => {
+    it('should give every stated value full confidence', () => {
+      const eInvoice = parseEInvoice(CII_INVOICE);
+
+      expect(toInvoiceFields(eInvoice!)).toEqual({
+        invoiceNumber: { value: 'F-1001', confidence: 1 },
+        invoiceDate: { value: '2024-03-11', confidence: 1 },
+        dueDate: { value: '2024-04-10', confidence: 1 },
+        currency: { value: 'EUR', confidence: 1 },
+        vendor: { value: 'Hébergeur SAS', confidence: 1 },
+        sellerVatId: { value: 'FR12345678901', confidence: 1 },
+        netAmount: { value: 50, confidence: 1 },
+        taxAmount: { value: 10, confidence: 1 },
+        totalAmount: { value: 60, confidence: 1 },
+      });
+    });
+  });
+});
@@ -0,0 +1,269 @@
+import { XMLParser } from 'fast-xml-parser';
+import {
+  EInvoice,
+  EInvoiceFormat,
+  EInvoiceLineItem,
+  ExtractedField,
+  InvoiceFields,
+} from '../common/interfaces/extraction.interface';
+
+type XmlNode = Record<string, unknown>;
+
+// Root elements of UBL invoices and credit notes and of UN/CEFACT CII, the
+// syntax Factur-X, ZUGFeRD and one flavour of XRechnung are built on.
+const E_INVOICE_ROOT =
+  /<(?:[\w.-]+:)?(Invoice|CreditNote|CrossIndustryInvoice)[\s>/]/;
+
+const parser = new XMLParser({
+  ignoreAttributes: false,
+  attributeNamePrefix: '@_',
+  removeNSPrefix: true,
+  parseTagValue: false,
+  trimValues: true,
+});
+
+/**
+ * Cheap check on the first few kilobytes, used to tell e-invoices apart
+ * from other XML attachments before anything is parsed.
+ */
+export function isEInvoiceXml(content: Buffer): boolean {
+  const head = content.subarray(0, 4096).toString('utf8');
+  return !head.includes('<!DOCTYPE') && E_INVOICE_ROOT.test(head);
+}
+
+/**
+ * Parses a UBL or CII invoice. XRechnung is recognised from its
+ * specification identifier; `embeddedInPdf` marks CII found inside a PDF,
+ * which is Factur-X (ZUGFeRD). Returns null for any other XML.
+ */
+export function parseEInvoice(
+  xml: string,
+  embeddedInPdf = false,
+): EInvoice | null {
+  // Invoices never declare a DTD; refusing one rules out entity expansion.
+  if (xml.includes('<!DOCTYPE')) return null;
+
+  let document: XmlNode;
+  try {
+    document = parser.parse(xml) as XmlNode;
+  } catch {
+    return null;
+  }
+
+  const ubl = asNode(document.Invoice) ?? asNode(document.CreditNote);
+  if (ubl) return parseUbl(ubl, !!asNode(document.CreditNote));
+
+  const cii = asNode(document.CrossIndustryInvoice);
+  if (cii) return parseCii(cii, embeddedInPdf);
+
+  return null;
+}
+
+/**
+ * Maps an e-invoice onto extraction fields. Values come from the document
+ * itself rather than a guess, so they carry full confidence.
+ */
+export function toInvoiceFields(eInvoice: EInvoice): InvoiceFields {
+  const exact = <T>(value: T | null): ExtractedField<T> | undefined =>
+    value === null ? undefined : { value, confidence: 1 };
+
+  const fields: InvoiceFields = {
+    invoiceNumber: exact(eInvoice.invoiceNumber),
+    invoiceDate: exact(eInvoice.issueDate),
+    dueDate: exact(eInvoice.dueDate),
+    currency: exact(eInvoice.currency),
+    vendor: exact(eInvoice.sellerName),
+    sellerVatId: exact(eInvoice.sellerVatId),
+    netAmount: exact(eInvoice.netAmount),
+    taxAmount: exact(eInvoice.taxAmount),
+    totalAmount: exact(eInvoice.grossAmount),
+  };
+
+  // Fields the invoice leaves out must not mask values parsed from text.
+  for (const key of Object.keys(fields) as (keyof InvoiceFields)[]) {
+    if (fields[key] === undefined) delete fields[key];
+  }
+  return fields;
+}
+
+function parseUbl(root: XmlNode, isCreditNote: boolean): EInvoice {
+  const supplier = path(root, 'AccountingSupplierParty', 'Party');
+  const totals = path(root, 'LegalMonetaryTotal');
+  const currency = text(root.DocumentCurrencyCode);
+
+  const vatScheme =
+    nodes(supplier?.PartyTaxScheme).find(
+      (scheme) => text(path(scheme, 'TaxScheme')?.ID) === 'VAT',
+    ) ?? nodes(supplier?.PartyTaxScheme)[0];
+
+  return {
+    format: /xrechnung/i.test(text(root.CustomizationID) ?? '')
+      ? 'xrechnung'
+      : 'ubl',
+    invoiceNumber: text(root.ID),
+    issueDate: toIsoDate(text(root.IssueDate)),
+    dueDate: toIsoDate(
+      text(root.DueDate) ??
+        text(path(root, 'PaymentMeans')?.PaymentDueDate) ??
+        text(path(root, 'PaymentTerms')?.PaymentDueDate),
+    ),
+    currency,
+    sellerName:
+      text(path(supplier, 'PartyLegalEntity')?.RegistrationName) ??
+      text(path(supplier, 'PartyName')?.Name),
+    sellerVatId: text(vatScheme?.CompanyID),
+    netAmount: amount(totals?.TaxExclusiveAmount),
+    taxAmount: amountIn(
+      nodes(root.TaxTotal).map((total) => total.TaxAmount),
+      currency,
+    ),
+    grossAmount:
+      amount(totals?.TaxInclusiveAmount) ?? amount(totals?.PayableAmount),
+    lineItems: nodes(isCreditNote ? root.CreditNoteLine : root.InvoiceLine).map(
+      (line): EInvoiceLineItem => ({
+        description:
+          text(path(line, 'Item')?.Name) ??
+          text(path(line, 'Item')?.Description) ??
+          '',
+        quantity: amount(
+          isCreditNote ? line.CreditedQuantity : line.InvoicedQuantity,
+        ),
+        unitPrice: amount(path(line, 'Price')?.PriceAmount),
+        netAmount: amount(line.LineExtensionAmount),
+      }),
+    ),
+  };
+}
+
+function parseCii(root: XmlNode, embeddedInPdf: boolean): EInvoice {
+  const guideline =
+    text(
+      path(
+        root,
+        'ExchangedDocumentContext',
+        'GuidelineSpecifiedDocumentContextParameter',
+      )?.ID,
+    ) ?? '';
+  const document = path(root, 'ExchangedDocument');
+  const transaction = path(root, 'SupplyChainTradeTransaction');
+  const seller = path(
+    transaction,
+    'ApplicableHeaderTradeAgreement',
+    'SellerTradeParty',
+  );
+  const settlement = path(transaction, 'ApplicableHeaderTradeSettlement');
+  const totals = path(
+    settlement,
+    'SpecifiedTradeSettlementHeaderMonetarySummation',
+  );
+  const currency = text(settlement?.InvoiceCurrencyCode);
+
+  const vatRegistration =
+    nodes(seller?.SpecifiedTaxRegistration).find(
+      (registration) => attribute(registration.ID, 'schemeID') === 'VA',
+    ) ?? nodes(seller?.SpecifiedTaxRegistration)[0];
+
+  let format: EInvoiceFormat = embeddedInPdf ? 'factur-x' : 'cii';
+  if (/xrechnung/i.test(guideline)) format = 'xrechnung';
+  else if (/factur-x|zugferd/i.test(guideline)) format = 'factur-x';
+
+  return {
+    format,
+    invoiceNumber: text(document?.ID),
+    issueDate: toIsoDate(text(path(document, 'IssueDateTime')?.DateTimeString)),
+    dueDate: toIsoDate(
+      text(
+        path(settlement, 'SpecifiedTradePaymentTerms', 'DueDateDateTime')
+          ?.DateTimeString,
+      ),
+    ),
+    currency,
+    sellerName: text(seller?.Name),
+    sellerVatId: text(vatRegistration?.ID),
+    netAmount: amount(totals?.TaxBasisTotalAmount),
+    taxAmount: amountIn(list(totals?.TaxTotalAmount), currency),
+    grossAmount:
+      amount(totals?.GrandTotalAmount) ?? amount(totals?.DuePayableAmount),
+    lineItems: nodes(transaction?.IncludedSupplyChainTradeLineItem).map(
+      (line): EInvoiceLineItem => ({
+        description: text(path(line, 'SpecifiedTradeProduct')?.Name) ?? '',
+        quantity: amount(
+          path(line, 'SpecifiedLineTradeDelivery')?.BilledQuantity,
+        ),
+        unitPrice: amount(
+          path(line, 'SpecifiedLineTradeAgreement', 'NetPriceProductTradePrice')
+            ?.ChargeAmount,
+        ),
+        netAmount: amount(
+          path(
+            line,
+            'SpecifiedLineTradeSettlement',
+            'SpecifiedTradeSettlementLineMonetarySummation',
+          )?.LineTotalAmount,
+        ),
+      }),
+    ),
+  };
+}
+
+function asNode(value: unknown): XmlNode | null {
+  const first = Array.isArray(value) ? (value[0] as unknown) : value;
+  return first && typeof first === 'object' ? (first as XmlNode) : null;
+}
+
+function list(value: unknown): unknown[] {
+  if (value === undefined || value === null) return [];
+  return Array.isArray(value) ? (value as unknown[]) : [value];
+}
+
+function nodes(value: unknown): XmlNode[] {
+  return list(value).filter(
+    (item): item is XmlNode => !!item && typeof item === 'object',
+  );
+}
+
+function path(node: XmlNode | null | undefined, ...names: string[]) {
+  let current = node ?? null;
+  for (const name of names) {
+    current = current ? asNode(current[name]) : null;
+  }
+  return current;
+}
+
+function text(value: unknown): string | null {
+  const first = Array.isArray(value) ? (value[0] as unknown) : value;
+  const raw =
+    first && typeof first === 'object' ? (first as XmlNode)['#text'] : first;
+  if (typeof raw !== 'string' && typeof raw !== 'number') return null;
+  const trimmed = String(raw).trim();
+  return trimmed || null;
+}
+
+function attribute(value: unknown, name: string): string | null {
+  const node = asNode(value);
+  const raw = node?.[`@_${name}`];
+  return typeof raw === 'string' ? raw : null;
+}
+
+function amount(value: unknown): number | null {
+  const raw = text(value);
+  if (raw === null) return null;
+  const parsed = Number(raw);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+// Tax totals may be repeated in the accounting currency; the one in the
+// invoice currency is the one that adds up with the other totals.
+function amountIn(values: unknown[], currency: string | null): number | null {
+  const match = values.find(
+    (value) => currency && attribute(value, 'currencyID') === currency,
+  );
+  return amount(match ?? values[0]);
+}
+
+// UBL writes `2024-03-04`, CII its format 102 `20240304`.
+function toIsoDate(raw: string | null): string | null {
+  if (!raw) return null;
+  const match = raw.match(/^(\d{4})-?(\d{2})-?(\d{2})/);
+  return match ? `${match[1]}-${match[2]}-${match[3]}` : null;
+}
@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { OCR_PROVIDER } from '../common/interfaces/ocr-provider.interface';
+import { ExtractionService } from './extraction.service';
+import { TesseractOcrProvider } from './ocr/tesseract-ocr.provider';
+
+@Module({
+  providers: [
+    ExtractionService,
+    { provide: OCR_PROVIDER, useClass: TesseractOcrProvider },
+  ],
+  exports: [ExtractionService],
+})
+export class ExtractionModule {}
@@ -0,0 +1,163 @@
+import { ConfigService } from '@nestjs/config';
+import { Test, TestingModule } from '@nestjs/testing';
+import { PDFDocument } from 'pdf-lib';
+import {
+  OCR_PROVIDER,
+  OcrResult,
+} from '../common/interfaces/ocr-provider.interface';
+import { ExtractionService } from './extraction.service';
+
+// Smallest JPEG header pdf-lib accepts: SOI, a baseline SOF0 frame and EOI.
+const FAKE_JPEG = new Uint8Array([
+  0xff, 0xd8, 0xff, 0xc0, 0x00, 0x0b, 0x08, 0x00, 0x01, 0x00, 0x01, 0x01, 0x01,
+  0x11, 0x00, 0xff, 0xd9,
+]);
+
+const OCR_TEXT = 'Invoice No: INV-2041\nTotal: $1,250.00';
+
+const FACTUR_X_XML = `<?xml version="1.0" encoding="UTF-8"?>
+<rsm:CrossIndustryInvoice xmlns:rsm="urn:un:unece:uncefact:data:standard:CrossIndustryInvoice:100"
+  xmlns:ram="urn:un:unece:uncefact:data:standard:ReusableAggregateBusinessInformationEntity:100">
+  <rsm:ExchangedDocument><ram:ID>FX-77</ram:ID></rsm:ExchangedDocument>
+  <rsm:SupplyChainTradeTransaction>
+    <ram:ApplicableHeaderTradeSettlement>
+      <ram:InvoiceCurrencyCode>EUR</ram:InvoiceCurrencyCode>
+      <ram:SpecifiedTradeSettlementHeaderMonetarySummation>
+        <ram:GrandTotalAmount>119.00</ram:GrandTotalAmount>
+      </ram:SpecifiedTradeSettlementHeaderMonetarySummation>
+    </ram:ApplicableHeaderTradeSettlement>
+  </rsm:SupplyChainTradeTransaction>
+</rsm:CrossIndustryInvoice>`;
+
+async function buildScannedPdf(): Promise<Buffer> {
+  const pdfDoc = await PDFDocument.create();
+  const image = await pdfDoc.embedJpg(FAKE_JPEG);
+  const page = pdfDoc.addPage([200, 200]);
+  page.drawImage(image, { x: 0, y: 0, width: 200, height: 200 });
+  return Buffer.from(await pdfDoc.save());
+}
+
+describe('ExtractionService', () => {
+  let service: ExtractionService;
+  let recognize: jest.Mock<Promise<OcrResult>, [Buffer]>;
+  let config: Record<string, string>;
+
+  beforeEach(async () => {
+    config = {};
+    recognize = jest.fn<Promise<OcrResult>, [Buffer]>();
+    recognize.mockResolvedValue({ text: OCR_TEXT, confidence: 0.9 });
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ExtractionService,
+        { provide: OCR_PROVIDER, useValue: { recognize } },
+        {
+          provide: ConfigService,
+          useValue: { get: (key: string) => config[key] },
+        },
+      ],
+    }).compile();
+
+    service = module.get<ExtractionService>(ExtractionService);
+  });
+
+  it('runs OCR on image attachments', async () => {
+    const result = await service.extract(
+      Buffer.from('png'),
+      'image/png',
+      'receipt.png',
+    );
+
+    expect(recognize).toHaveBeenCalledTimes(1);
+    expect(result.textSource).toBe('ocr');
+    expect(result.fields.invoiceNumber?.value).toBe('INV-2041');
+    expect(result.fields.totalAmount?.value).toBe(1250);
+  });
+
+  it('runs OCR on GIF images but not on TIFF scans', async () => {
+    await service.extract(Buffer.from('gif'), 'image/gif', 'receipt.gif');
+    await service.extract(Buffer.from('tiff'), 'image/tiff', 'scan.tiff');
+
+    expect(recognize).toHaveBeenCalledTimes(1);
+    expect(recognize).toHaveBeenCalledWith(Buffer.from('gif'));
+  });
+
+  it('falls back to OCR for PDFs without a text layer', async () => {
+    const pdf = await buildScannedPdf();
+
+    const result = await service.extract(pdf, 'application/pdf', 'scan.pdf');
+
+    expect(recognize).toHaveBeenCalledWith(Buffer.from(FAKE_JPEG));
+    expect(result.textSource).toBe('ocr');
+    expect(result.text).toBe(OCR_TEXT);
+  });
+
+  it('reads the invoice embedded in a Factur-X PDF', async () => {
+    const pdfDoc = await PDFDocument.create();
+    pdfDoc.addPage([200, 200]);
+    await pdfDoc.attach(Buffer.from(FACTUR_X_XML), 'factur-x.xml', {
+      mimeType: 'text/xml',
+    });
+    const pdf = Buffer.from(await pdfDoc.save());
+
+    const result = await service.extract(pdf, 'application/pdf', 'inv.pdf');
+
+    expect(result.eInvoice?.format).toBe('factur-x');
+    expect(result.fields.invoiceNumber).toEqual({
+      value: 'FX-77',
+      confidence: 1,
+    });
+    expect(result.fields.totalAmount?.value).toBe(119);
+  });
+
+  it('reads XML e-invoice attachments without OCR', async () => {
+    const result = await service.extract(
+      Buffer.from(FACTUR_X_XML),
+      'application/xml',
+      'invoice.xml',
+    );
+
+    expect(recognize).not.toHaveBeenCalled();
+    expect(result.textSource).toBe('xml');
+    expect(result.eInvoice).toMatchObject({
+      format: 'cii',
+      invoiceNumber: 'FX-77',
+      grossAmount: 119,
+    });
+  });
+
+  it('skips OCR when disabled', async () => {
+    config.OCR_ENABLED = 'false';
+
+    const result = await service.extract(
+      Buffer.from('png'),
+      'image/png',
+      'receipt.png',
+    );
+
+    expect(recognize).not.toHaveBeenCalled();
+    expect(result).toEqual({
+      text: '',
+      textSource: null,
+      fields: {},
+      eInvoice: null,
+    });
+  });
+
+  it('ignores attachments it cannot read', async () => {
+    recognize.mockRejectedValue(new Error('bad image'));
+
+    const result = await service.extract(
+      Buffer.from('png'),
+      'image/png',
+      'receipt.png',
+    );
+
+    expect(result).toEqual({
+      text: '',
+      textSource: null,
+      fields: {},
+      eInvoice: null,
+    });
+  });
+});
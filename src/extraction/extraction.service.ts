@@ -0,0 +1,186 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { PDFParse } from 'pdf-parse';
+import {
+  EInvoice,
+  ExtractedDocument,
+} from '../common/interfaces/extraction.interface';
+import { OCR_PROVIDER } from '../common/interfaces/ocr-provider.interface';
+import type { OcrProvider } from '../common/interfaces/ocr-provider.interface';
+import { parseEInvoice, toInvoiceFields } from './e-invoice';
+import { XML_MIME_TYPE } from './file-type';
+import { parseInvoiceText } from './invoice-parser';
+import { extractPdfEmbeddedFiles } from './pdf-embedded-files';
+import { extractPdfImages } from './pdf-images';
+
+// PDFs whose text layer is shorter than this are treated as scans.
+const MIN_PDF_TEXT_LENGTH = 20;
+const MAX_OCR_PAGES = 10;
+// The formats Tesseract reads. TIFF attachments are still accepted and
+// filed, but keep no extracted fields until a TIFF decoder is added.
+const OCR_IMAGE_TYPES = [
+  'image/png',
+  'image/jpeg',
+  'image/bmp',
+  'image/webp',
+  'image/gif',
+];
+const OCR_IMAGE_EXTENSIONS = ['.png', '.jpg', '.jpeg', '.bmp', '.webp', '.gif'];
+
+@Injectable()
+export class ExtractionService {
+  private readonly logger = new Logger(ExtractionService.name);
+
+  constructor(
+    private configService: ConfigService,
+    @Inject(OCR_PROVIDER) private ocrProvider: OcrProvider,
+  ) {}
+
+  /**
+   * Reads the text layer of an attachment, falling back to OCR for images
+   * and image-only PDFs, and parses invoice fields from the result.
+   * Structured e-invoices, whether XML attachments or embedded in a PDF,
+   * are read exactly and take precedence over the parsed text.
+   * Extraction is best-effort: unreadable files yield empty text and no
+   * fields rather than failing the attachment.
+   */
+  async extract(
+    fileBuffer: Buffer,
+    mimeType: string,
+    filename: string,
+  ): Promise<ExtractedDocument> {
+    let text = '';
+    let textSource: ExtractedDocument['textSource'] = null;
+    let eInvoice: EInvoice | null = null;
+
+    if (this.isXml(mimeType, filename)) {
+      text = fileBuffer.toString('utf8');
+      textSource = 'xml';
+      eInvoice = parseEInvoice(text);
+    } else if (this.isPdf(mimeType, filename)) {
+      eInvoice = await this.extractEmbeddedInvoice(fileBuffer, filename);
+      text = await this.extractPdfText(fileBuffer, filename);
+      textSource = 'pdf';
+
+      if (text.length < MIN_PDF_TEXT_LENGTH && this.isOcrEnabled()) {
+        const images = await this.extractPdfImages(fileBuffer, filename);
+        const ocrText = await this.recognize(images, filename);
+        if (ocrText) {
+          text = ocrText;
+          textSource = 'ocr';
+        }
+      }
+    } else if (this.isOcrImage(mimeType, filename) && this.isOcrEnabled()) {
+      text = await this.recognize([fileBuffer], filename);
+      textSource = 'ocr';
+    }
+
+    if (eInvoice) {
+      this.logger.log(`Read ${eInvoice.format} e-invoice from ${filename}`);
+    }
+    const structuredFields = eInvoice ? toInvoiceFields(eInvoice) : {};
+
+    if (!text || textSource === 'xml') {
+      return {
+        text,
+        textSource: text ? textSource : null,
+        fields: structuredFields,
+        eInvoice,
+      };
+    }
+    return {
+      text,
+      textSource,
+      fields: { ...parseInvoiceText(text), ...structuredFields },
+      eInvoice,
+    };
+  }
+
+  private async extractEmbeddedInvoice(
+    fileBuffer: Buffer,
+    filename: string,
+  ): Promise<EInvoice | null> {
+    try {
+      for (const file of await extractPdfEmbeddedFiles(fileBuffer)) {
+        const eInvoice = parseEInvoice(file.toString('utf8'), true);
+        if (eInvoice) return eInvoice;
+      }
+    } catch (error) {
+      this.logger.warn(
+        `Failed to read embedded files from ${filename}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+    return null;
+  }
+
+  private async extractPdfText(
+    fileBuffer: Buffer,
+    filename: string,
+  ): Promise<string> {
+    const parser = new PDFParse({ data: new Uint8Array(fileBuffer) });
+    try {
+      const result = await parser.getText();
+      return result.text.replace(/^-- \d+ of \d+ --$/gm, '').trim();
+    } catch (error) {
+      this.logger.warn(
+        `Failed to extract text from ${filename}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      return '';
+    } finally {
+      await parser.destroy();
+    }
+  }
+
+  private async extractPdfImages(
+    fileBuffer: Buffer,
+    filename: string,
+  ): Promise<Buffer[]> {
+    try {
+      return await extractPdfImages(fileBuffer, MAX_OCR_PAGES);
+    } catch (error) {
+      this.logger.warn(
+        `Failed to read images from ${filename}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      return [];
+    }
+  }
+
+  private async recognize(images: Buffer[], filename: string): Promise<string> {
+    const pages: string[] = [];
+    for (const image of images) {
+      try {
+        const result = await this.ocrProvider.recognize(image);
+        if (result.text) pages.push(result.text);
+      } catch (error) {
+        this.logger.warn(
+          `OCR failed for ${filename}: ${error instanceof Error ? error.message : String(error)}`,
+        );
+      }
+    }
+    return pages.join('\n\n').trim();
+  }
+
+  private isOcrEnabled(): boolean {
+    return this.configService.get<string>('OCR_ENABLED') !== 'false';
+  }
+
+  private isXml(mimeType: string, filename: string): boolean {
+    return (
+      mimeType === XML_MIME_TYPE || filename.toLowerCase().endsWith('.xml')
+    );
+  }
+
+  private isPdf(mimeType: string, filename: string): boolean {
+    return (
+      mimeType === 'application/pdf' || filename.toLowerCase().endsWith('.pdf')
+    );
+  }
+
+  private isOcrImage(mimeType: string, filename: string): boolean {
+    const lowerName = filename.toLowerCase();
+    return (
+      OCR_IMAGE_TYPES.includes(mimeType) ||
+      OCR_IMAGE_EXTENSIONS.some((extension) => lowerName.endsWith(extension))
+    );
+  }
+}
@@ -0,0 +1,131 @@
+import { crc32 } from 'zlib';
+import {
+  guessMimeType,
+  isUnknownType,
+  sniffMimeType,
+  withTypeExtension,
+} from './file-type';
+
+// Builds a ZIP whose entries are stored uncompressed, so the bytes of
+// nested archives appear as they are.
+function storedZip(files: Record<string, string | Buffer>): Buffer {
+  const local: Buffer[] = [];
+  const central: Buffer[] = [];
+  let offset = 0;
+  for (const [name, data] of Object.entries(files)) {
+    const content = Buffer.from(data);
+    const fileName = Buffer.from(name);
+    const header = Buffer.alloc(30);
+    header.writeUInt32LE(0x04034b50, 0);
+    header.writeUInt32LE(crc32(content), 14);
+    header.writeUInt32LE(content.length, 18);
+    header.writeUInt32LE(content.length, 22);
+    header.writeUInt16LE(fileName.length, 26);
+
+    const entry = Buffer.alloc(46);
+    entry.writeUInt32LE(0x02014b50, 0);
+    entry.writeUInt32LE(crc32(content), 16);
+    entry.writeUInt32LE(content.length, 20);
+    entry.writeUInt32LE(content.length, 24);
+    entry.writeUInt16LE(fileName.length, 28);
+    entry.writeUInt32LE(offset, 42);
+
+    local.push(header, fileName, content);
+    central.push(entry, fileName);
+    offset += header.length + fileName.length + content.length;
+  }
+
+  const directory = Buffer.concat(central);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(Object.keys(files).length, 8);
+  end.writeUInt16LE(Object.keys(files).length, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+  return Buffer.concat([...local, directory, end]);
+}
+
+describe('file-type', () => {
+  describe('sniffMimeType', () => {
+    it('should recognise documents by their leading bytes', () => {
+      expect(sniffMimeType(Buffer.from('%PDF-1.7\n'))).toBe('application/pdf');
+      expect(sniffMimeType(Buffer.from([0xff, 0xd8, 0xff, 0xe0]))).toBe(
+        'image/jpeg',
+      );
+      expect(
+        sniffMimeType(Buffer.from([0x37, 0x7a, 0xbc, 0xaf, 0x27, 0x1c, 0])),
+      ).toBe('application/x-7z-compressed');
+    });
+
+    it('should tell Word documents apart from plain ZIP archives', () => {
+      const docx = storedZip({
+        '[Content_Types].xml': '<Types/>',
+        'word/document.xml': '<w:document/>',
+      });
+
+      expect(sniffMimeType(Buffer.from([0x50, 0x4b, 0x03, 0x04]))).toBe(
+        'application/zip',
+      );
+      expect(sniffMimeType(docx)).toBe(
+        'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+      );
+    });
+
+    it('should keep an uncompressed ZIP of Word documents a ZIP', () => {
+      const docx = storedZip({
+        '[Content_Types].xml': '<Types/>',
+        'word/document.xml': '<w:document/>',
+      });
+      const bundle = storedZip({ 'invoice.docx': docx });
+
+      expect(sniffMimeType(bundle)).toBe('application/zip');
+    });
+
+    it('should return null for unknown content', () => {
+      expect(sniffMimeType(Buffer.from('hello'))).toBeNull();
+    });
+  });
+
+  describe('isUnknownType', () => {
+    it('should flag files without a telling name or type', () => {
+      expect(isUnknownType('invoice', 'application/pdf')).toBe(true);
+      expect(isUnknownType('invoice.bin', 'application/pdf')).toBe(true);
+      expect(isUnknownType('invoice.pdf', 'application/octet-stream')).toBe(
+        true,
+      );
+      expect(isUnknownType('invoice.pdf', 'application/pdf')).toBe(false);
+    });
+  });
+
+  describe('guessMimeType', () => {
+    it('should prefer the declared type over the extension', () => {
+      expect(guessMimeType('bundle.zip', 'application/x-zip-compressed')).toBe(
+        'application/zip',
+      );
+      expect(guessMimeType('scan.png', 'image/jpeg')).toBe('image/jpeg');
+      expect(guessMimeType('bundle.zip', 'application/octet-stream')).toBe(
+        'application/zip',
+      );
+      expect(guessMimeType('scan.JPEG', undefined)).toBe('image/jpeg');
+    });
+  });
+
+  describe('withTypeExtension', () => {
+    it('should correct missing and misleading extensions', () => {
+      expect(withTypeExtension('invoice.bin', 'application/pdf')).toBe(
+        'invoice.pdf',
+      );
+      expect(withTypeExtension('invoice', 'application/pdf')).toBe(
+        'invoice.pdf',
+      );
+      expect(withTypeExtension('scan.png', 'image/jpeg')).toBe('scan.jpg');
+      expect(withTypeExtension('Invoice 03.2024', 'application/pdf')).toBe(
+        'Invoice 03.2024.pdf',
+      );
+    });
+
+    it('should keep names that already match', () => {
+      expect(withTypeExtension('scan.jpeg', 'image/jpeg')).toBe('scan.jpeg');
+    });
+  });
+});
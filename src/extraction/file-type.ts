@@ -0,0 +1,237 @@
+export const ZIP_MIME_TYPE = 'application/zip';
+export const SEVEN_ZIP_MIME_TYPE = 'application/x-7z-compressed';
+export const ARCHIVE_MIME_TYPES = [ZIP_MIME_TYPE, SEVEN_ZIP_MIME_TYPE];
+export const XML_MIME_TYPE = 'application/xml';
+
+const DOCX_MIME_TYPE =
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+const XLSX_MIME_TYPE =
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+/** Used when ALLOWED_MIME_TYPES is not configured. */
+export const DEFAULT_ALLOWED_MIME_TYPES = [
+  'application/pdf',
+  'image/png',
+  'image/jpeg',
+  'image/gif',
+  'image/tiff',
+  'image/bmp',
+  'image/webp',
+  'application/msword',
+  DOCX_MIME_TYPE,
+  XML_MIME_TYPE,
+];
+
+// Declared types that say nothing about the content, so the file has to be
+// downloaded and sniffed before it can be accepted or skipped.
+const GENERIC_MIME_TYPES = [
+  'application/octet-stream',
+  'application/binary',
+  'application/x-download',
+  'binary/octet-stream',
+];
+
+// Non-standard names mail clients still send.
+const MIME_ALIASES: Record<string, string> = {
+  'application/x-zip-compressed': ZIP_MIME_TYPE,
+  'application/x-zip': ZIP_MIME_TYPE,
+  'multipart/x-zip': ZIP_MIME_TYPE,
+  'application/x-pdf': 'application/pdf',
+  'image/jpg': 'image/jpeg',
+  'image/pjpeg': 'image/jpeg',
+  'text/xml': XML_MIME_TYPE,
+};
+
+const PLACEHOLDER_EXTENSIONS = ['bin', 'dat'];
+
+const EXTENSIONS: Record<string, string> = {
+  'application/pdf': 'pdf',
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/gif': 'gif',
+  'image/tiff': 'tiff',
+  'image/bmp': 'bmp',
+  'image/webp': 'webp',
+  'application/msword': 'doc',
+  [DOCX_MIME_TYPE]: 'docx',
+  [XML_MIME_TYPE]: 'xml',
+  [XLSX_MIME_TYPE]: 'xlsx',
+  [ZIP_MIME_TYPE]: 'zip',
+  [SEVEN_ZIP_MIME_TYPE]: '7z',
+};
+
+interface Signature {
+  mimeType: string;
+  bytes: number[];
+  offset?: number;
+}
+
+const SIGNATURES: Signature[] = [
+  { mimeType: 'application/pdf', bytes: [0x25, 0x50, 0x44, 0x46, 0x2d] },
+  { mimeType: 'image/png', bytes: [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a] },
+  { mimeType: 'image/jpeg', bytes: [0xff, 0xd8, 0xff] },
+  { mimeType: 'image/gif', bytes: [0x47, 0x49, 0x46, 0x38] },
+  { mimeType: 'image/tiff', bytes: [0x49, 0x49, 0x2a, 0x00] },
+  { mimeType: 'image/tiff', bytes: [0x4d, 0x4d, 0x00, 0x2a] },
+  { mimeType: 'image/bmp', bytes: [0x42, 0x4d] },
+  { mimeType: 'image/webp', bytes: [0x57, 0x45, 0x42, 0x50], offset: 8 },
+  {
+    mimeType: 'application/msword',
+    bytes: [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1],
+  },
+  { mimeType: ZIP_MIME_TYPE, bytes: [0x50, 0x4b, 0x03, 0x04] },
+  { mimeType: ZIP_MIME_TYPE, bytes: [0x50, 0x4b, 0x05, 0x06] },
+  {
+    mimeType: SEVEN_ZIP_MIME_TYPE,
+    bytes: [0x37, 0x7a, 0xbc, 0xaf, 0x27, 0x1c],
+  },
+];
+
+/**
+ * Identifies a file from its leading bytes. Office Open XML documents are
+ * ZIP containers and are told apart by the parts listed in their central
+ * directory. Returns null when the content matches no known signature.
+ */
+export function sniffMimeType(content: Buffer): string | null {
+  const signature = SIGNATURES.find(({ bytes, offset = 0 }) =>
+    bytes.every((byte, i) => content[offset + i] === byte),
+  );
+  if (!signature) return isXml(content) ? XML_MIME_TYPE : null;
+
+  if (signature.mimeType === 'image/webp' && !startsWith(content, 'RIFF')) {
+    return null;
+  }
+  if (signature.mimeType === ZIP_MIME_TYPE) {
+    return officeMimeType(zipEntryNames(content)) ?? ZIP_MIME_TYPE;
+  }
+  return signature.mimeType;
+}
+
+// Office Open XML packages declare their parts in [Content_Types].xml at the
+// root; a ZIP that merely contains .docx files does not.
+function officeMimeType(names: Set<string>): string | null {
+  if (!names.has('[Content_Types].xml')) return null;
+  if (names.has('word/document.xml')) return DOCX_MIME_TYPE;
+  if (names.has('xl/workbook.xml')) return XLSX_MIME_TYPE;
+  return null;
+}
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_ENTRY = 0x02014b50;
+// The end record is 22 bytes followed by a comment of up to 64 KiB.
+const END_RECORD_SEARCH = 22 + 0xffff;
+
+/**
+ * Entry names from a ZIP's central directory. Reading the directory rather
+ * than searching the raw bytes keeps the names of files inside stored
+ * (uncompressed) entries from counting as the archive's own.
+ */
+function zipEntryNames(content: Buffer): Set<string> {
+  const names = new Set<string>();
+  const searchFrom = Math.max(0, content.length - END_RECORD_SEARCH);
+  let end = content.length - 22;
+  while (
+    end >= searchFrom &&
+    content.readUInt32LE(end) !== END_OF_CENTRAL_DIRECTORY
+  ) {
+    end--;
+  }
+  if (end < searchFrom) return names;
+
+  const count = content.readUInt16LE(end + 10);
+  let offset = content.readUInt32LE(end + 16);
+  for (let i = 0; i < count && offset + 46 <= content.length; i++) {
+    if (content.readUInt32LE(offset) !== CENTRAL_DIRECTORY_ENTRY) break;
+    const nameLength = content.readUInt16LE(offset + 28);
+    const extraLength = content.readUInt16LE(offset + 30);
+    const commentLength = content.readUInt16LE(offset + 32);
+    names.add(content.toString('utf8', offset + 46, offset + 46 + nameLength));
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+  return names;
+}
+
+/**
+ * Whether a file's declared type and name are too vague to decide on
+ * without looking at its content.
+ */
+export function isUnknownType(
+  filename: string,
+  declaredMimeType: string | null | undefined,
+): boolean {
+  const extension = extensionOf(filename);
+  return (
+    !extension ||
+    PLACEHOLDER_EXTENSIONS.includes(extension) ||
+    !declaredMimeType ||
+    GENERIC_MIME_TYPES.includes(declaredMimeType.toLowerCase())
+  );
+}
+
+/**
+ * Best guess at a type before the file is downloaded, from the declared
+ * type or failing that the extension.
+ */
+export function guessMimeType(
+  filename: string,
+  declaredMimeType: string | null | undefined,
+): string | null {
+  if (
+    declaredMimeType &&
+    !GENERIC_MIME_TYPES.includes(declaredMimeType.toLowerCase())
+  ) {
+    const declared = declaredMimeType.toLowerCase();
+    return MIME_ALIASES[declared] ?? declared;
+  }
+
+  const extension = extensionOf(filename);
+  const match = Object.entries(EXTENSIONS).find(
+    ([, known]) =>
+      known === extension || (known === 'jpg' && extension === 'jpeg'),
+  );
+  return match?.[0] ?? (extension === 'tif' ? 'image/tiff' : null);
+}
+
+/**
+ * Gives a file the extension of its actual type, so a PDF sent as
+ * `invoice.bin` or `invoice` is stored as `invoice.pdf`.
+ */
+export function withTypeExtension(filename: string, mimeType: string): string {
+  const expected = EXTENSIONS[mimeType];
+  if (!expected) return filename;
+
+  const extension = extensionOf(filename);
+  const guessed = guessMimeType(filename, undefined);
+  if (guessed === mimeType) return filename;
+
+  // Only a wrong or meaningless extension is replaced; anything else after
+  // the last dot is part of the name ("Invoice 03.2024").
+  const replaceable = !!guessed || PLACEHOLDER_EXTENSIONS.includes(extension);
+  const base = replaceable
+    ? filename.substring(0, filename.lastIndexOf('.'))
+    : filename;
+  return `${base || 'document'}.${expected}`;
+}
+
+// XML has no magic number; look for a declaration or a root element after
+// an optional byte order mark.
+function isXml(content: Buffer): boolean {
+  const head = content
+    .subarray(0, 256)
+    .toString('utf8')
+    .replace(/^\uFEFF/, '')
+    .trimStart();
+  return (
+    head.startsWith('<?xml') ||
+    (/^<[A-Za-z][\w.:-]*[\s>]/.test(head) && !/^<html/i.test(head))
+  );
+}
+
+function extensionOf(filename: string): string {
+  const dot = filename.lastIndexOf('.');
+  return dot > 0 ? filename.substring(dot + 1).toLowerCase() : '';
+}
+
+function startsWith(content: Buffer, text: string): boolean {
+  return content.subarray(0, text.length).toString('latin1') === text;
+}
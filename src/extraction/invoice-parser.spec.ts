@@ -0,0 +1,91 @@
+import { parseAmount, parseDate, parseInvoiceText } from './invoice-parser';
+
+describe('invoice-parser', () => {
+  describe('parseAmount', () => {
+    it.each([
+      ['1,234.56', 1234.56],
+      ['1.234,56', 1234.56],
+      ['$ 12.50', 12.5],
+      ['€1 234,00', 1234],
+      ['99,90', 99.9],
+      ['1,000', 1000],
+    ])('should parse %s', (raw, expected) => {
+      expect(parseAmount(raw)).toBe(expected);
+    });
+  });
+
+  describe('parseDate', () => {
+    it.each([
+      ['2024-03-05', false, '2024-03-05'],
+      ['05/03/2024', false, '2024-03-05'],
+      ['05/03/2024', true, '2024-05-03'],
+      ['31/01/2024', true, '2024-01-31'],
+      ['March 5, 2024', false, '2024-03-05'],
+      ['5th Mar 2024', false, '2024-03-05'],
+    ])('should parse %s (month first: %s)', (raw, monthFirst, expected) => {
+      expect(parseDate(raw, monthFirst)).toBe(expected);
+    });
+
+    it('should reject impossible dates', () => {
+      expect(parseDate('31/02/2024')).toBeNull();
+    });
+  });
+
+  describe('parseInvoiceText', () => {
+    it('should extract labelled fields with high confidence', () => {
+      const fields = parseInvoiceText(
+        [
+          'Acme Hosting Ltd',
+          '1 Cloud Street, London',
+          'Invoice Number: INV-2024-0042',
+          'Invoice Date: 05/03/2024',
+          'Due Date: 04/04/2024',
+          'Subtotal 100.00',
+          'VAT 20% 20.00',
+          'Total Due GBP 120.00',
+        ].join('\n'),
+      );
+
+      expect(fields.invoiceNumber).toEqual({
+        value: 'INV-2024-0042',
+        confidence: 0.85,
+      });
+      expect(fields.currency).toEqual({ value: 'GBP', confidence: 0.9 });
+      expect(fields.invoiceDate).toEqual({
+        value: '2024-03-05',
+        confidence: 0.9,
+      });
+      expect(fields.dueDate).toEqual({ value: '2024-04-04', confidence: 0.9 });
+      expect(fields.taxAmount).toEqual({ value: 20, confidence: 0.8 });
+      expect(fields.totalAmount).toEqual({ value: 120, confidence: 0.9 });
+      expect(fields.vendor).toEqual({
+        value: 'Acme Hosting Ltd',
+        confidence: 0.4,
+      });
+    });
+
+    it('should read amounts from the line after a label', () => {
+      const fields = parseInvoiceText(
+        ['Sold by: Example Store', 'Amount due', '$42.00'].join('\n'),
+      );
+
+      expect(fields.totalAmount?.value).toBe(42);
+      expect(fields.totalAmount?.confidence).toBeCloseTo(0.8);
+      expect(fields.currency).toEqual({ value: 'USD', confidence: 0.5 });
+      expect(fields.vendor).toEqual({
+        value: 'Example Store',
+        confidence: 0.7,
+      });
+    });
+
+    it('should fall back to the largest amount without a total label', () => {
+      const fields = parseInvoiceText('Coffee 3.50\nSandwich 6.20');
+
+      expect(fields.totalAmount).toEqual({ value: 6.2, confidence: 0.3 });
+    });
+
+    it('should return no fields for text without invoice content', () => {
+      expect(parseInvoiceText('')).toEqual({});
+    });
+  });
+});
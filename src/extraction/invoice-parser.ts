@@ -0,0 +1,381 @@
+import {
+  ExtractedField,
+  InvoiceFields,
+} from '../common/interfaces/extraction.interface';
+
+const ISO_CURRENCIES = [
+  'USD',
+  'EUR',
+  'GBP',
+  'INR',
+  'JPY',
+  'CAD',
+  'AUD',
+  'NZD',
+  'CHF',
+  'SEK',
+  'NOK',
+  'DKK',
+  'PLN',
+  'CZK',
+  'SGD',
+  'HKD',
+  'CNY',
+  'BRL',
+  'MXN',
+  'ZAR',
+];
+
+const CURRENCY_SYMBOLS: Record<string, string> = {
+  '€': 'EUR',
+  '£': 'GBP',
+  '₹': 'INR',
+  '¥': 'JPY',
+  $: 'USD',
+};
+
+const MONTHS = [
+  'jan',
+  'feb',
+  'mar',
+  'apr',
+  'may',
+  'jun',
+  'jul',
+  'aug',
+  'sep',
+  'oct',
+  'nov',
+  'dec',
+];
+
+const AMOUNT_PATTERN =
+  /[$€£₹¥]\s?(?:\d{1,3}(?:[,.' ]\d{3})+|\d+)(?:[.,]\d{1,2})?|\b(?:\d{1,3}(?:[,.' ]\d{3})+|\d+)[.,]\d{2}\b/g;
+const PERCENT_PATTERN = /\d+(?:[.,]\d+)?\s*%/g;
+
+const STRONG_TOTAL_LABEL =
+  /\b(grand total|total due|amount due|balance due|total amount|amount payable|total payable|invoice total|total to pay)\b/i;
+const TOTAL_LABEL = /\btotal\b/i;
+const TAX_LABEL = /\b(vat|gst|hst|sales tax|tax|mwst|iva|tva)\b/i;
+const TAX_EXCLUSIONS =
+  /\b(tax|vat|gst)\s*(id|no\.?|number|reg|registration)\b|\b(excl|excluding|before|pre)[.\s-]*(tax|vat)\b|\bsubtotal\b/i;
+const INVOICE_DATE_LABEL =
+  /\b(invoice date|date of issue|issue date|issued on|date issued|invoice dated|billing date|receipt date)\b/i;
+const DUE_DATE_LABEL =
+  /\b(due date|payment due|due by|due on|pay by|payable by)\b/i;
+const GENERIC_DATE_LABEL = /\bdate\b/i;
+const VENDOR_LABEL =
+  /\b(?:sold by|seller|vendor|supplier|billed by|issued by|from)\s*:\s*(.+)$/i;
+const INVOICE_NUMBER_PATTERN =
+  /\b(?:invoice|receipt|bill)\s*(?:no\.?|number|num|#|id)\s*[:#.]?\s*([A-Z0-9][A-Z0-9\-/]{2,})/i;
+
+/**
+ * Heuristically pulls invoice fields out of free text. Each field carries a
+ * confidence between 0 and 1: labelled values score high, values inferred
+ * from position or formatting alone score low.
+ */
+export function parseInvoiceText(text: string): InvoiceFields {
+  const lines = text
+    .split(/\r?\n/)
+    .map((line) => line.replace(/\s+/g, ' ').trim())
+    .filter((line) => line.length > 0);
+
+  const fields: InvoiceFields = {};
+
+  const currency = detectCurrency(text);
+  if (currency) fields.currency = currency;
+
+  const monthFirst = currency?.value === 'USD';
+
+  const invoiceNumber = findInvoiceNumber(text);
+  if (invoiceNumber) fields.invoiceNumber = invoiceNumber;
+
+  const totalAmount = findTotal(lines);
+  if (totalAmount) fields.totalAmount = totalAmount;
+
+  const taxAmount = findTax(lines);
+  if (taxAmount) fields.taxAmount = taxAmount;
+
+  const invoiceDate =
+    findLabelledDate(lines, INVOICE_DATE_LABEL, 0.9, monthFirst) ??
+    findLabelledDate(
+      lines.filter((line) => !DUE_DATE_LABEL.test(line)),
+      GENERIC_DATE_LABEL,
+      0.6,
+      monthFirst,
+    ) ??
+    findFirstDate(lines, monthFirst);
+  if (invoiceDate) fields.invoiceDate = invoiceDate;
+
+  const dueDate = findLabelledDate(lines, DUE_DATE_LABEL, 0.9, monthFirst);
+  if (dueDate) fields.dueDate = dueDate;
+
+  const vendor = findVendor(lines);
+  if (vendor) fields.vendor = vendor;
+
+  return fields;
+}
+
+export function parseAmount(raw: string): number | null {
+  let value = raw.replace(/[^\d.,]/g, '');
+  if (!value) return null;
+
+  const lastComma = value.lastIndexOf(',');
+  const lastDot = value.lastIndexOf('.');
+
+  if (lastComma > -1 && lastDot > -1) {
+    const decimalSeparator = lastComma > lastDot ? ',' : '.';
+    const thousandsSeparator = decimalSeparator === ',' ? '.' : ',';
+    value = value
+      .split(thousandsSeparator)
+      .join('')
+      .replace(decimalSeparator, '.');
+  } else if (lastComma > -1) {
+    const decimals = value.length - lastComma - 1;
+    value =
+      decimals === 2 && value.indexOf(',') === lastComma
+        ? value.replace(',', '.')
+        : value.split(',').join('');
+  } else if (lastDot > -1 && value.indexOf('.') !== lastDot) {
+    value = value.split('.').join('');
+  }
+
+  const amount = Number(value);
+  return Number.isFinite(amount) ? Math.round(amount * 100) / 100 : null;
+}
+
+export function parseDate(raw: string, monthFirst = false): string | null {
+  const iso = raw.match(/\b(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})\b/);
+  if (iso) {
+    return toIsoDate(Number(iso[1]), Number(iso[2]), Number(iso[3]));
+  }
+
+  const numeric = raw.match(/\b(\d{1,2})[-/.](\d{1,2})[-/.](\d{2}|\d{4})\b/);
+  if (numeric) {
+    const first = Number(numeric[1]);
+    const second = Number(numeric[2]);
+    const year = normalizeYear(Number(numeric[3]));
+    const dayFirst = first > 12 || (second <= 12 && !monthFirst);
+    return dayFirst
+      ? toIsoDate(year, second, first)
+      : toIsoDate(year, first, second);
+  }
+
+  const dayMonth = raw.match(
+    /\b(\d{1,2})(?:st|nd|rd|th)?\s+([a-z]{3,9})\.?,?\s+(\d{4})\b/i,
+  );
+  if (dayMonth) {
+    const month = monthIndex(dayMonth[2]);
+    if (month) {
+      return toIsoDate(Number(dayMonth[3]), month, Number(dayMonth[1]));
+    }
+  }
+
+  const monthDay = raw.match(
+    /\b([a-z]{3,9})\.?\s+(\d{1,2})(?:st|nd|rd|th)?,?\s+(\d{4})\b/i,
+  );
+  if (monthDay) {
+    const month = monthIndex(monthDay[1]);
+    if (month) {
+      return toIsoDate(Number(monthDay[3]), month, Number(monthDay[2]));
+    }
+  }
+
+  return null;
+}
+
+function detectCurrency(text: string): ExtractedField<string> | undefined {
+  const codeCounts = new Map<string, number>();
+  for (const match of text.matchAll(/\b([A-Z]{3})\b/g)) {
+    if (ISO_CURRENCIES.includes(match[1])) {
+      codeCounts.set(match[1], (codeCounts.get(match[1]) ?? 0) + 1);
+    }
+  }
+  const code = mostFrequent(codeCounts);
+  if (code) return { value: code, confidence: 0.9 };
+
+  const symbolCounts = new Map<string, number>();
+  for (const match of text.matchAll(/[$€£₹¥]/g)) {
+    symbolCounts.set(match[0], (symbolCounts.get(match[0]) ?? 0) + 1);
+  }
+  const symbol = mostFrequent(symbolCounts);
+  if (symbol) {
+    // "$" is shared by a dozen currencies, so it is only a weak signal.
+    return {
+      value: CURRENCY_SYMBOLS[symbol],
+      confidence: symbol === '$' ? 0.5 : 0.7,
+    };
+  }
+
+  return undefined;
+}
+
+function findInvoiceNumber(text: string): ExtractedField<string> | undefined {
+  const match = text.match(INVOICE_NUMBER_PATTERN);
+  if (!match || !/\d/.test(match[1])) return undefined;
+  return { value: match[1], confidence: 0.85 };
+}
+
+function findTotal(lines: string[]): ExtractedField<number> | undefined {
+  let best: ExtractedField<number> | undefined;
+
+  lines.forEach((line, index) => {
+    let confidence = 0;
+    if (STRONG_TOTAL_LABEL.test(line)) {
+      confidence = 0.9;
+    } else if (
+      TOTAL_LABEL.test(line) &&
+      !/\bsub[\s-]?total\b/i.test(line) &&
+      !TAX_LABEL.test(line)
+    ) {
+      confidence = 0.7;
+    }
+    if (confidence === 0) return;
+
+    const amount = amountOnLineOrNext(lines, index);
+    if (amount === null) return;
+    if (amount.fromNextLine) confidence -= 0.1;
+
+    if (!best || confidence >= best.confidence) {
+      best = { value: amount.value, confidence };
+    }
+  });
+
+  if (best) return best;
+
+  const allAmounts = lines.flatMap((line) => amountsOnLine(line));
+  if (allAmounts.length === 0) return undefined;
+  return { value: Math.max(...allAmounts), confidence: 0.3 };
+}
+
+function findTax(lines: string[]): ExtractedField<number> | undefined {
+  let best: ExtractedField<number> | undefined;
+
+  lines.forEach((line, index) => {
+    if (!TAX_LABEL.test(line) || TAX_EXCLUSIONS.test(line)) return;
+    if (STRONG_TOTAL_LABEL.test(line)) return;
+
+    const amount = amountOnLineOrNext(lines, index);
+    if (amount === null) return;
+
+    let confidence = /\b(total tax|tax total|vat total|total vat)\b/i.test(line)
+      ? 0.85
+      : 0.8;
+    if (amount.fromNextLine) confidence -= 0.1;
+
+    if (!best || confidence > best.confidence) {
+      best = { value: amount.value, confidence };
+    }
+  });
+
+  return best;
+}
+
+function findLabelledDate(
+  lines: string[],
+  label: RegExp,
+  confidence: number,
+  monthFirst: boolean,
+): ExtractedField<string> | undefined {
+  for (let index = 0; index < lines.length; index++) {
+    const match = lines[index].match(label);
+    if (!match || match.index === undefined) continue;
+
+    const afterLabel = lines[index].slice(match.index + match[0].length);
+    const sameLine = parseDate(afterLabel, monthFirst);
+    if (sameLine) return { value: sameLine, confidence };
+
+    const nextLine =
+      lines[index + 1] && parseDate(lines[index + 1], monthFirst);
+    if (nextLine) return { value: nextLine, confidence: confidence - 0.1 };
+  }
+  return undefined;
+}
+
+function findFirstDate(
+  lines: string[],
+  monthFirst: boolean,
+): ExtractedField<string> | undefined {
+  for (const line of lines) {
+    const date = parseDate(line, monthFirst);
+    if (date) return { value: date, confidence: 0.4 };
+  }
+  return undefined;
+}
+
+function findVendor(lines: string[]): ExtractedField<string> | undefined {
+  for (const line of lines) {
+    const match = line.match(VENDOR_LABEL);
+    if (match && /[a-z]/i.test(match[1])) {
+      return { value: match[1].trim().substring(0, 100), confidence: 0.7 };
+    }
+  }
+
+  const firstNamedLine = lines.find(
+    (line) =>
+      /[a-z]{2,}/i.test(line) &&
+      !/\b(invoice|receipt|bill|statement|page|tax|date)\b/i.test(line) &&
+      amountsOnLine(line).length === 0,
+  );
+  if (firstNamedLine) {
+    return { value: firstNamedLine.substring(0, 100), confidence: 0.4 };
+  }
+  return undefined;
+}
+
+function amountOnLineOrNext(
+  lines: string[],
+  index: number,
+): { value: number; fromNextLine: boolean } | null {
+  const sameLine = amountsOnLine(lines[index]);
+  if (sameLine.length > 0) {
+    return { value: sameLine[sameLine.length - 1], fromNextLine: false };
+  }
+
+  const nextLine = lines[index + 1] ? amountsOnLine(lines[index + 1]) : [];
+  if (nextLine.length > 0) {
+    return { value: nextLine[nextLine.length - 1], fromNextLine: true };
+  }
+
+  return null;
+}
+
+function amountsOnLine(line: string): number[] {
+  const withoutPercentages = line.replace(PERCENT_PATTERN, ' ');
+  return [...withoutPercentages.matchAll(AMOUNT_PATTERN)]
+    .map((match) => parseAmount(match[0].trim()))
+    .filter((amount): amount is number => amount !== null);
+}
+
+function mostFrequent(counts: Map<string, number>): string | undefined {
+  let best: string | undefined;
+  let bestCount = 0;
+  for (const [key, count] of counts) {
+    if (count > bestCount) {
+      best = key;
+      bestCount = count;
+    }
+  }
+  return best;
+}
+
+function monthIndex(name: string): number | null {
+  const index = MONTHS.indexOf(name.substring(0, 3).toLowerCase());
+  return index === -1 ? null : index + 1;
+}
+
+function normalizeYear(year: number): number {
+  return year < 100 ? 2000 + year : year;
+}
+
+function toIsoDate(year: number, month: number, day: number): string | null {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (
+    date.getUTCFullYear() !== year ||
+    date.getUTCMonth() !== month - 1 ||
+    date.getUTCDate() !== day
+  ) {
+    return null;
+  }
+  return date.toISOString().split('T')[0];
+}
@@ -0,0 +1,50 @@
+import { Injectable, Logger, OnModuleDestroy } from '@nestjs/common';
+import { dirname, join } from 'path';
+import { createWorker, Worker } from 'tesseract.js';
+import {
+  OcrProvider,
+  OcrResult,
+} from '../../common/interfaces/ocr-provider.interface';
+
+/**
+ * Default OCR engine. Runs Tesseract compiled to WebAssembly in-process and
+ * loads its English model from the `@tesseract.js-data/eng` package, so
+ * recognition never touches the network.
+ */
+@Injectable()
+export class TesseractOcrProvider implements OcrProvider, OnModuleDestroy {
+  private readonly logger = new Logger(TesseractOcrProvider.name);
+  private worker: Promise<Worker> | null = null;
+
+  async recognize(image: Buffer): Promise<OcrResult> {
+    const worker = await this.getWorker();
+    const { data } = await worker.recognize(image);
+    return { text: data.text.trim(), confidence: data.confidence / 100 };
+  }
+
+  async onModuleDestroy(): Promise<void> {
+    if (!this.worker) return;
+    const worker = await this.worker;
+    this.worker = null;
+    await worker.terminate();
+  }
+
+  private getWorker(): Promise<Worker> {
+    if (!this.worker) {
+      const langPath = join(
+        dirname(require.resolve('@tesseract.js-data/eng/package.json')),
+        '4.0.0_best_int',
+      );
+      this.logger.log(`Starting Tesseract worker with data from ${langPath}`);
+      this.worker = createWorker('eng', 1, {
+        langPath,
+        gzip: true,
+        cacheMethod: 'none',
+      }).catch((error: unknown) => {
+        this.worker = null;
+        throw error;
+      });
+    }
+    return this.worker;
+  }
+}
@@ -0,0 +1,31 @@
+import {
+  decodePDFRawStream,
+  PDFDocument,
+  PDFName,
+  PDFRawStream,
+} from 'pdf-lib';
+
+/**
+ * Returns the contents of every file embedded in a PDF, such as the XML
+ * invoice inside a Factur-X or ZUGFeRD document. Streams are found by their
+ * `/Type /EmbeddedFile` rather than through the name tree, which some
+ * generators leave incomplete.
+ */
+export async function extractPdfEmbeddedFiles(
+  fileBuffer: Buffer,
+): Promise<Buffer[]> {
+  const pdfDoc = await PDFDocument.load(fileBuffer, {
+    ignoreEncryption: true,
+    updateMetadata: false,
+  });
+
+  const files: Buffer[] = [];
+  for (const [, object] of pdfDoc.context.enumerateIndirectObjects()) {
+    if (!(object instanceof PDFRawStream)) continue;
+    if (object.dict.get(PDFName.of('Type')) !== PDFName.of('EmbeddedFile')) {
+      continue;
+    }
+    files.push(Buffer.from(decodePDFRawStream(object).decode()));
+  }
+  return files;
+}
@@ -0,0 +1,60 @@
+import { PDFDocument } from 'pdf-lib';
+import { extractPdfImages } from './pdf-images';
+
+// A 2x2 black and white checkerboard.
+const GREY_PIXELS = new Uint8Array([0, 255, 255, 0]);
+
+async function pdfWithImage(
+  contents: Uint8Array,
+  dict: Record<string, string>,
+): Promise<Buffer> {
+  const pdfDoc = await PDFDocument.create();
+  pdfDoc.context.register(
+    pdfDoc.context.flateStream(contents, {
+      Type: 'XObject',
+      Subtype: 'Image',
+      Width: 2,
+      Height: 2,
+      BitsPerComponent: 8,
+      ...dict,
+    }),
+  );
+  pdfDoc.addPage();
+  return Buffer.from(await pdfDoc.save());
+}
+
+describe('extractPdfImages', () => {
+  it('should rewrap Flate-encoded grey pixels as a PNG', async () => {
+    const pdf = await pdfWithImage(GREY_PIXELS, { ColorSpace: 'DeviceGray' });
+
+    const [image] = await extractPdfImages(pdf, 10);
+
+    const embedded = await (await PDFDocument.create()).embedPng(image);
+    expect(embedded.size()).toEqual({ width: 2, height: 2 });
+  });
+
+  it('should read back PNG pages a PDF writer stored with Flate', async () => {
+    const png = (
+      await extractPdfImages(
+        await pdfWithImage(GREY_PIXELS, { ColorSpace: 'DeviceGray' }),
+        10,
+      )
+    )[0];
+    const pdfDoc = await PDFDocument.create();
+    const page = pdfDoc.addPage();
+    page.drawImage(await pdfDoc.embedPng(png));
+
+    const images = await extractPdfImages(Buffer.from(await pdfDoc.save()), 10);
+
+    expect(images).toHaveLength(1);
+    expect(images[0].subarray(1, 4).toString('latin1')).toBe('PNG');
+  });
+
+  it('should skip colour spaces it cannot turn into a PNG', async () => {
+    const pdf = await pdfWithImage(new Uint8Array(16), {
+      ColorSpace: 'DeviceCMYK',
+    });
+
+    await expect(extractPdfImages(pdf, 10)).resolves.toEqual([]);
+  });
+});
@@ -0,0 +1,163 @@
+import {
+  PDFArray,
+  PDFDict,
+  PDFDocument,
+  PDFName,
+  PDFNumber,
+  PDFObject,
+  PDFRawStream,
+} from 'pdf-lib';
+import { crc32, deflateSync, inflateSync } from 'zlib';
+
+const PNG_SIGNATURE = Buffer.from([137, 80, 78, 71, 13, 10, 26, 10]);
+
+// PNG colour types by the number of components in the image's colour space.
+const PNG_COLOR_TYPES = new Map([
+  [1, 0],
+  [3, 2],
+]);
+
+/**
+ * Pulls page images out of a PDF in a form OCR engines can read. Scanners
+ * and phone apps store each page of an image-only PDF as a single image
+ * stream: DCTDecode streams are complete JPEG files as they are, and
+ * FlateDecode streams of grey or RGB pixels are rewrapped as PNG. Fax-style
+ * CCITT and JBIG2 images and other colour spaces are still skipped.
+ */
+export async function extractPdfImages(
+  fileBuffer: Buffer,
+  limit: number,
+): Promise<Buffer[]> {
+  const pdfDoc = await PDFDocument.load(fileBuffer, {
+    ignoreEncryption: true,
+    updateMetadata: false,
+  });
+
+  const images: Buffer[] = [];
+  for (const [, object] of pdfDoc.context.enumerateIndirectObjects()) {
+    if (images.length >= limit) break;
+    if (!(object instanceof PDFRawStream)) continue;
+
+    const subtype = object.dict.get(PDFName.of('Subtype'));
+    if (subtype !== PDFName.of('Image')) continue;
+
+    const filter = singleFilter(object);
+    if (filter === 'DCTDecode') {
+      images.push(Buffer.from(object.contents));
+    } else if (filter === 'FlateDecode') {
+      const png = flateImageToPng(pdfDoc, object);
+      if (png) images.push(png);
+    }
+  }
+  return images;
+}
+
+function singleFilter(stream: PDFRawStream): string | null {
+  let filter = stream.dict.get(PDFName.of('Filter'));
+  if (filter instanceof PDFArray && filter.size() === 1) {
+    filter = filter.get(0);
+  }
+  return filter instanceof PDFName ? filter.decodeText() : null;
+}
+
+/**
+ * PNG stores pixels the way FlateDecode does, one filter byte per row
+ * followed by the row itself. Streams written with a PNG predictor already
+ * carry those bytes; plain ones get a "no filter" byte added to each row.
+ */
+function flateImageToPng(
+  pdfDoc: PDFDocument,
+  stream: PDFRawStream,
+): Buffer | null {
+  const width = numberEntry(pdfDoc, stream.dict, 'Width');
+  const height = numberEntry(pdfDoc, stream.dict, 'Height');
+  const bitsPerComponent =
+    numberEntry(pdfDoc, stream.dict, 'BitsPerComponent') ?? 8;
+  const components = colorComponents(
+    pdfDoc,
+    stream.dict.get(PDFName.of('ColorSpace')),
+  );
+  const colorType = components ? PNG_COLOR_TYPES.get(components) : undefined;
+  if (!width || !height || !components || colorType === undefined) {
+    return null;
+  }
+  if (bitsPerComponent !== 8 && !(bitsPerComponent === 1 && colorType === 0)) {
+    return null;
+  }
+
+  let parms = pdfDoc.context.lookup(stream.dict.get(PDFName.of('DecodeParms')));
+  if (parms instanceof PDFArray) parms = pdfDoc.context.lookup(parms.get(0));
+  const predictor =
+    parms instanceof PDFDict
+      ? (numberEntry(pdfDoc, parms, 'Predictor') ?? 1)
+      : 1;
+  if (predictor !== 1 && predictor < 10) return null;
+
+  const rowLength = Math.ceil((width * components * bitsPerComponent) / 8);
+  const pixels = inflateSync(stream.contents);
+  let rows: Buffer;
+  if (predictor >= 10) {
+    rows = pixels.subarray(0, (rowLength + 1) * height);
+  } else {
+    rows = Buffer.alloc((rowLength + 1) * height);
+    for (let row = 0; row < height; row++) {
+      pixels.copy(
+        rows,
+        row * (rowLength + 1) + 1,
+        row * rowLength,
+        (row + 1) * rowLength,
+      );
+    }
+  }
+  if (rows.length < (rowLength + 1) * height) return null;
+
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(width, 0);
+  header.writeUInt32BE(height, 4);
+  header.writeUInt8(bitsPerComponent, 8);
+  header.writeUInt8(colorType, 9);
+  return Buffer.concat([
+    PNG_SIGNATURE,
+    pngChunk('IHDR', header),
+    pngChunk('IDAT', deflateSync(rows)),
+    pngChunk('IEND', Buffer.alloc(0)),
+  ]);
+}
+
+/** Components per pixel of a grey, RGB or ICC-based colour space. */
+function colorComponents(
+  pdfDoc: PDFDocument,
+  colorSpace: PDFObject | undefined,
+): number | null {
+  const resolved = colorSpace && pdfDoc.context.lookup(colorSpace);
+  if (resolved === PDFName.of('DeviceGray')) return 1;
+  if (resolved === PDFName.of('DeviceRGB')) return 3;
+  if (
+    resolved instanceof PDFArray &&
+    resolved.get(0) === PDFName.of('ICCBased')
+  ) {
+    const profile = pdfDoc.context.lookup(resolved.get(1));
+    return profile instanceof PDFRawStream
+      ? (numberEntry(pdfDoc, profile.dict, 'N') ?? null)
+      : null;
+  }
+  return null;
+}
+
+function numberEntry(
+  pdfDoc: PDFDocument,
+  dict: PDFDict,
+  key: string,
+): number | undefined {
+  const value = pdfDoc.context.lookup(dict.get(PDFName.of(key)));
+  return value instanceof PDFNumber ? value.asNumber() : undefined;
+}
+
+function pngChunk(type: string, data: Buffer): Buffer {
+  const typeAndData = Buffer.concat([Buffer.from(type, 'latin1'), data]);
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length);
+  const checksum = Buffer.alloc(4);
+  checksum.writeUInt32BE(crc32(typeAndData));
+  return Buffer.concat([length, typeAndData, checksum]);
+}
@@ -0,0 +1,82 @@
+import { PDFDocument, StandardFonts } from 'pdf-lib';
+import { EmailDetails } from '../common/interfaces/google-auth.interface';
+import {
+  BODY_PART_ID,
+  createBodyAttachment,
+  renderEmailBodyPdf,
+  wrapText,
+} from './email-body-pdf';
+
+describe('email-body-pdf', () => {
+  const email = (overrides: Partial<EmailDetails> = {}): EmailDetails => ({
+    id: 'm1',
+    subject: 'Your receipt from Rides',
+    from: 'Rides <receipts@rides.com>',
+    date: 'Mon, 4 Mar 2024 10:00:00 +0000',
+    snippet: '',
+    bodyText: 'Trip fare: $12.50\n\nThanks for riding',
+    forwardedBy: null,
+    attachments: [],
+    ...overrides,
+  });
+
+  describe('createBodyAttachment', () => {
+    it('should name the PDF after the subject', () => {
+      expect(
+        createBodyAttachment(email({ subject: 'Receipt: 04/03' })),
+      ).toMatchObject({
+        partId: BODY_PART_ID,
+        filename: 'Receipt 04 03.pdf',
+        mimeType: 'application/pdf',
+      });
+    });
+  });
+
+  describe('renderEmailBodyPdf', () => {
+    it('should render the same email to identical bytes', async () => {
+      const first = await renderEmailBodyPdf(email());
+      const second = await renderEmailBodyPdf(email());
+
+      expect(first.subarray(0, 5).toString()).toBe('%PDF-');
+      expect(first.equals(second)).toBe(true);
+    });
+
+    it('should add pages for long bodies', async () => {
+      const bodyText = Array.from({ length: 120 }, (_, i) => `Line ${i}`).join(
+        '\n',
+      );
+
+      const pdf = await PDFDocument.load(
+        await renderEmailBodyPdf(email({ bodyText })),
+      );
+
+      expect(pdf.getPageCount()).toBe(3);
+    });
+
+    it('should replace characters the standard fonts cannot encode', async () => {
+      await expect(
+        renderEmailBodyPdf(email({ bodyText: 'Paid ✅ 支付 €5' })),
+      ).resolves.toBeInstanceOf(Buffer);
+    });
+
+    it('should refuse an empty body', async () => {
+      await expect(
+        renderEmailBodyPdf(email({ bodyText: ' \n ' })),
+      ).rejects.toThrow('Email has no body to render');
+    });
+  });
+
+  describe('wrapText', () => {
+    it('should split long words across lines', async () => {
+      const pdf = await PDFDocument.create();
+      const font = await pdf.embedFont(StandardFonts.Helvetica);
+
+      const lines = wrapText(`see ${'x'.repeat(200)}`, font, 10, 300);
+
+      expect(lines.length).toBeGreaterThan(2);
+      for (const line of lines) {
+        expect(font.widthOfTextAtSize(line, 10)).toBeLessThanOrEqual(300);
+      }
+    });
+  });
+});
@@ -0,0 +1,143 @@
+import { PDFDocument, PDFFont, StandardFonts, rgb } from 'pdf-lib';
+import {
+  EmailAttachment,
+  EmailDetails,
+} from '../common/interfaces/google-auth.interface';
+
+/** Part id of the virtual attachment standing in for the message body. */
+export const BODY_PART_ID = 'body';
+
+// A4 in points.
+const PAGE_WIDTH = 595.28;
+const PAGE_HEIGHT = 841.89;
+const MARGIN = 50;
+const FONT_SIZE = 10;
+const HEADER_FONT_SIZE = 12;
+const LINE_HEIGHT = 14;
+
+const UNSAFE_FILENAME_CHARS = /[\\/:*?"<>|\r\n\t]+/g;
+
+/**
+ * Describes the body of an attachment-less email as a PDF attachment so it
+ * can go through the same pipeline as real attachments.
+ */
+export function createBodyAttachment(
+  emailDetails: EmailDetails,
+): EmailAttachment {
+  const name = emailDetails.subject
+    .replace(UNSAFE_FILENAME_CHARS, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .substring(0, 100);
+
+  return {
+    partId: BODY_PART_ID,
+    filename: `${name || 'email'}.pdf`,
+    mimeType: 'application/pdf',
+    size: 0,
+    attachmentId: '',
+  };
+}
+
+/**
+ * Typesets the email's headers and plain-text body into a PDF using the
+ * built-in Helvetica fonts. No metadata dates are written, so rendering the
+ * same email twice gives identical bytes and the content hash stays stable.
+ */
+export async function renderEmailBodyPdf(
+  emailDetails: EmailDetails,
+): Promise<Buffer> {
+  const body = emailDetails.bodyText.replace(/\n{3,}/g, '\n\n').trim();
+  if (!body) {
+    throw new Error('Email has no body to render');
+  }
+
+  const pdf = await PDFDocument.create({ updateMetadata: false });
+  pdf.setTitle(emailDetails.subject || 'Email');
+
+  const regular = await pdf.embedFont(StandardFonts.Helvetica);
+  const bold = await pdf.embedFont(StandardFonts.HelveticaBold);
+  const maxWidth = PAGE_WIDTH - MARGIN * 2;
+
+  let page = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+  let y = PAGE_HEIGHT - MARGIN;
+
+  const writeLine = (text: string, font: PDFFont, size: number) => {
+    if (y - LINE_HEIGHT < MARGIN) {
+      page = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+      y = PAGE_HEIGHT - MARGIN;
+    }
+    y -= LINE_HEIGHT;
+    if (text) page.drawText(text, { x: MARGIN, y, size, font });
+  };
+
+  const write = (text: string, font: PDFFont, size: number) => {
+    const lines = wrapText(toEncodable(text, font), font, size, maxWidth);
+    lines.forEach((line) => writeLine(line, font, size));
+  };
+
+  write(emailDetails.subject || '(no subject)', bold, HEADER_FONT_SIZE);
+  write(`From: ${emailDetails.from}`, regular, FONT_SIZE);
+  if (emailDetails.forwardedBy) {
+    write(`Forwarded by: ${emailDetails.forwardedBy}`, regular, FONT_SIZE);
+  }
+  write(`Date: ${emailDetails.date}`, regular, FONT_SIZE);
+
+  y -= LINE_HEIGHT / 2;
+  page.drawLine({
+    start: { x: MARGIN, y },
+    end: { x: PAGE_WIDTH - MARGIN, y },
+    thickness: 0.5,
+    color: rgb(0.6, 0.6, 0.6),
+  });
+
+  for (const paragraph of body.split('\n')) {
+    write(paragraph.trimEnd(), regular, FONT_SIZE);
+  }
+
+  return Buffer.from(await pdf.save());
+}
+
+/**
+ * Breaks a paragraph into lines that fit `maxWidth`, splitting words that
+ * are too long on their own (such as tracking URLs).
+ */
+export function wrapText(
+  text: string,
+  font: PDFFont,
+  size: number,
+  maxWidth: number,
+): string[] {
+  const fits = (value: string) =>
+    font.widthOfTextAtSize(value, size) <= maxWidth;
+
+  const lines: string[] = [];
+  let current = '';
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    const candidate = current ? `${current} ${word}` : word;
+    if (fits(candidate)) {
+      current = candidate;
+      continue;
+    }
+
+    if (current) lines.push(current);
+    current = word;
+    while (!fits(current)) {
+      let cut = current.length - 1;
+      while (cut > 1 && !fits(current.substring(0, cut))) cut--;
+      lines.push(current.substring(0, cut));
+      current = current.substring(cut);
+    }
+  }
+  lines.push(current);
+  return lines;
+}
+
+// The standard fonts only cover WinAnsi; anything else (emoji, CJK) would
+// make pdf-lib throw, so it is replaced rather than dropping the receipt.
+function toEncodable(text: string, font: PDFFont): string {
+  const supported = new Set(font.getCharacterSet());
+  return Array.from(text.replace(/\t/g, '    '))
+    .map((char) => (supported.has(char.codePointAt(0) ?? 0) ? char : '?'))
+    .join('');
+}
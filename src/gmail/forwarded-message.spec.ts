@@ -0,0 +1,161 @@
+import {
+  normalizeForwardedDate,
+  parseForwardedMessage,
+  parseRfc822Headers,
+} from './forwarded-message';
+
+describe('parseForwardedMessage', () => {
+  it('should read a Gmail forward block', () => {
+    const body = [
+      'FYI, see below.',
+      '',
+      '---------- Forwarded message ---------',
+      'From: Acme Billing <billing@acme.com>',
+      'Date: Mon, Mar 4, 2024 at 10:00 AM',
+      'Subject: Invoice 1042',
+      'To: Jane <jane@example.com>',
+      '',
+      'Please find attached...',
+    ].join('\n');
+
+    expect(parseForwardedMessage(body, 'Fwd: Invoice 1042')).toEqual({
+      from: 'Acme Billing <billing@acme.com>',
+      subject: 'Invoice 1042',
+      date: '2024-03-04T10:00:00.000Z',
+    });
+  });
+
+  it('should read an Apple Mail forward block', () => {
+    const body = [
+      'Begin forwarded message:',
+      '',
+      'From: Acme <billing@acme.com>',
+      'Subject: Your receipt',
+      'Date: March 4, 2024 at 10:00:00 AM GMT+1',
+      'To: jane@example.com',
+    ].join('\n');
+
+    expect(parseForwardedMessage(body, 'Fwd: Your receipt')).toEqual({
+      from: 'Acme <billing@acme.com>',
+      subject: 'Your receipt',
+      date: '2024-03-04T09:00:00.000Z',
+    });
+  });
+
+  it('should read an Outlook forward with a mailto address', () => {
+    const body = [
+      '________________________________',
+      'From: Acme Billing [mailto:billing@acme.com]',
+      'Sent: Monday, March 4, 2024 10:00 AM',
+      'To: Jane Doe',
+      'Subject: Invoice 1042',
+    ].join('\r\n');
+
+    expect(parseForwardedMessage(body, 'FW: Invoice 1042')).toEqual({
+      from: 'Acme Billing <billing@acme.com>',
+      subject: 'Invoice 1042',
+      date: '2024-03-04T10:00:00.000Z',
+    });
+  });
+
+  it('should read quoted header blocks in forwarded subjects', () => {
+    const body = [
+      'See attached',
+      '> From: billing@acme.com',
+      '> Sent: 4 March 2024 10:00',
+      '> Subject: Invoice',
+    ].join('\n');
+
+    expect(parseForwardedMessage(body, 'FW: Invoice')).toEqual(
+      expect.objectContaining({ from: 'billing@acme.com' }),
+    );
+  });
+
+  it('should ignore From lines in messages that are not forwards', () => {
+    const body = 'From: billing@acme.com\nSubject: Invoice';
+
+    expect(parseForwardedMessage(body, 'Invoice 1042')).toBeNull();
+  });
+
+  it('should not credit a quoted reply to the quoted sender', () => {
+    const body = [
+      'Thanks, paid today.',
+      '',
+      '-----Original Message-----',
+      'From: Acme Billing [mailto:billing@acme.com]',
+      'Sent: Monday, March 4, 2024 10:00 AM',
+      'Subject: Invoice 1042',
+    ].join('\r\n');
+
+    expect(parseForwardedMessage(body, 'RE: Invoice 1042')).toBeNull();
+  });
+
+  it('should not take a forward quoted in a reply for a forward', () => {
+    const body = [
+      'Paid, thanks.',
+      '',
+      '> ---------- Forwarded message ---------',
+      '> From: Acme Billing <billing@acme.com>',
+      '> Date: Mon, Mar 4, 2024 at 10:00 AM',
+      '> Subject: Invoice 1042',
+    ].join('\n');
+
+    expect(parseForwardedMessage(body, 'Re: Invoice 1042')).toBeNull();
+    expect(parseForwardedMessage(body, 'Fwd: Invoice 1042')).toEqual(
+      expect.objectContaining({ from: 'Acme Billing <billing@acme.com>' }),
+    );
+  });
+
+  it('should keep the envelope date when the block date is unreadable', () => {
+    const body = [
+      '---------- Forwarded message ---------',
+      'From: billing@acme.com',
+      'Date: sometime last week',
+    ].join('\n');
+
+    expect(parseForwardedMessage(body, 'Fwd: Invoice')).toEqual({
+      from: 'billing@acme.com',
+      subject: null,
+      date: null,
+    });
+  });
+});
+
+describe('parseRfc822Headers', () => {
+  it('should unfold headers of an attached message', () => {
+    const raw = [
+      'From: "Acme Corp"',
+      ' <billing@acme.com>',
+      'Subject: Invoice 1042',
+      'Date: Mon, 4 Mar 2024 10:00:00 +0100',
+      '',
+      'Body From: someone@else.com',
+    ].join('\r\n');
+
+    expect(parseRfc822Headers(raw)).toEqual({
+      from: '"Acme Corp" <billing@acme.com>',
+      subject: 'Invoice 1042',
+      date: '2024-03-04T09:00:00.000Z',
+    });
+  });
+});
+
+describe('normalizeForwardedDate', () => {
+  it('should read dates without an offset as UTC', () => {
+    expect(normalizeForwardedDate('2024-03-04T10:00:00')).toBe(
+      '2024-03-04T10:00:00.000Z',
+    );
+    expect(normalizeForwardedDate('4 March 2024 10:00')).toBe(
+      '2024-03-04T10:00:00.000Z',
+    );
+  });
+
+  it('should keep an explicit offset or zone', () => {
+    expect(normalizeForwardedDate('Mon, 4 Mar 2024 10:00:00 +0100 (CET)')).toBe(
+      '2024-03-04T09:00:00.000Z',
+    );
+    expect(normalizeForwardedDate('Mar 4, 2024 at 10:00 AM EST')).toBe(
+      '2024-03-04T15:00:00.000Z',
+    );
+  });
+});
@@ -0,0 +1,143 @@
+export interface ForwardedHeaders {
+  from: string;
+  subject: string | null;
+  /** ISO timestamp, or null when the block's date could not be read. */
+  date: string | null;
+}
+
+// Lines that open a forwarded block in the clients we see most:
+// Gmail, Apple Mail and Outlook (plain and HTML forwards).
+const FORWARD_MARKERS = [
+  /^-{5,}\s*Forwarded message\s*-{5,}$/i,
+  /^Begin forwarded message:?$/i,
+];
+
+// Outlook opens quoted replies with these too, so they only count when the
+// subject says the message is a forward.
+const QUOTE_MARKERS = [/^-{5,}\s*Original Message\s*-{5,}$/i, /^_{10,}$/];
+
+const FORWARD_SUBJECT = /^\s*(fwd?|fw)\s*:/i;
+
+const HEADER_LINE = /^(From|Sent|Date|Subject|To|Cc|Reply-To):\s*(.*)$/i;
+
+// A trailing offset or zone name, optionally followed by a comment such as
+// "(CET)": "+0100", "GMT+1", "UTC", "EST", "Z".
+const TIME_ZONE =
+  /(?:[+-]\d{2}:?\d{2}|\b(?:GMT|UTC|UT)(?:[+-]\d{1,2}(?::?\d{2})?)?|\b[A-Z]{3,4}|\dZ)(?:\s*\([^)]*\))?$/;
+
+/**
+ * Finds the first forwarded-message header block in a plain-text body and
+ * returns the original sender, subject and date. A block is recognised
+ * after one of the known forward marker lines. When the subject itself says
+ * the message is a forward, Outlook's quote markers and a bare `From:` line
+ * open one too, and so do markers inside `>` quoted text; otherwise a quoted
+ * marker is part of an earlier message the reply quotes.
+ */
+export function parseForwardedMessage(
+  bodyText: string,
+  subject: string,
+): ForwardedHeaders | null {
+  const rawLines = bodyText.split(/\r?\n/);
+  const lines = rawLines.map((line) => line.replace(/^(>\s?)+/, '').trim());
+  const subjectIsForward = FORWARD_SUBJECT.test(subject);
+
+  for (let i = 0; i < lines.length; i++) {
+    if (!subjectIsForward && /^\s*>/.test(rawLines[i])) continue;
+
+    const isMarker =
+      FORWARD_MARKERS.some((marker) => marker.test(lines[i])) ||
+      (subjectIsForward &&
+        QUOTE_MARKERS.some((marker) => marker.test(lines[i])));
+    const isBareHeader = subjectIsForward && /^From:/i.test(lines[i]);
+    if (!isMarker && !isBareHeader) continue;
+
+    const headers = readHeaderBlock(lines, isMarker ? i + 1 : i);
+    const forwarded = toForwardedHeaders(headers);
+    if (forwarded) return forwarded;
+  }
+  return null;
+}
+
+/**
+ * Reads the header section of a raw RFC 822 message, as found in attached
+ * `.eml` files, unfolding continuation lines.
+ */
+export function parseRfc822Headers(raw: string): ForwardedHeaders | null {
+  const headerSection = raw.split(/\r?\n\r?\n/, 1)[0] ?? '';
+  const unfolded = headerSection.replace(/\r?\n[ \t]+/g, ' ');
+
+  const headers = new Map<string, string>();
+  for (const line of unfolded.split(/\r?\n/)) {
+    const separator = line.indexOf(':');
+    if (separator <= 0) continue;
+    const name = line.substring(0, separator).trim().toLowerCase();
+    if (!headers.has(name)) {
+      headers.set(name, line.substring(separator + 1).trim());
+    }
+  }
+  return toForwardedHeaders(headers);
+}
+
+/**
+ * Reads a forwarded block's date. Dates written without a time zone, as
+ * Gmail and Outlook do, are taken as UTC so the result does not depend on
+ * where the server runs.
+ */
+export function normalizeForwardedDate(raw: string): string | null {
+  // Gmail and Apple Mail write "Mar 4, 2024 at 10:00 AM".
+  let cleaned = raw.replace(/\s+at\s+/i, ' ').trim();
+  if (!TIME_ZONE.test(cleaned)) {
+    cleaned = `${cleaned.replace(/^(\d{4}-\d{2}-\d{2})T/, '$1 ')} UTC`;
+  }
+  const date = new Date(cleaned);
+  return Number.isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+function readHeaderBlock(lines: string[], start: number): Map<string, string> {
+  const headers = new Map<string, string>();
+  let i = start;
+
+  // Clients leave a blank line between the marker and the headers.
+  while (i < lines.length && lines[i] === '') i++;
+
+  for (; i < lines.length; i++) {
+    const match = lines[i].match(HEADER_LINE);
+    if (!match) break;
+    const name = match[1].toLowerCase();
+    if (!headers.has(name)) headers.set(name, match[2].trim());
+  }
+  return headers;
+}
+
+function toForwardedHeaders(
+  headers: Map<string, string>,
+): ForwardedHeaders | null {
+  const from = headers.get('from');
+  if (!from || !from.includes('@')) return null;
+
+  const date = headers.get('date') ?? headers.get('sent');
+  return {
+    // Outlook renders the address as "Name [mailto:addr]".
+    from: from.replace(/\[mailto:([^\]]+)\]/i, '<$1>').trim(),
+    subject: headers.get('subject') || null,
+    date: date ? normalizeForwardedDate(date) : null,
+  };
+}
+
+/**
+ * Reduces an HTML body to text with one line per block element, which is
+ * enough for the forward markers and header lines to be found.
+ */
+export function htmlToText(html: string): string {
+  return html
+    .replace(/<(script|style)[^>]*>[\s\S]*?<\/\1>/gi, '')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|div|tr|li|h[1-6]|blockquote)>/gi, '\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&nbsp;/gi, ' ')
+    .replace(/&lt;/gi, '<')
+    .replace(/&gt;/gi, '>')
+    .replace(/&quot;/gi, '"')
+    .replace(/&#39;/gi, "'")
+    .replace(/&amp;/gi, '&');
+}
@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common';
+import { AuthModule } from '../auth/auth.module';
+import { GmailService } from './gmail.service';
+
+@Module({
+  imports: [AuthModule],
+  providers: [GmailService],
+  exports: [GmailService],
+})
+export class GmailModule {}
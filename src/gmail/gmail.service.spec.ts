@@ -0,0 +1,290 @@
+import { google } from 'googleapis';
+import { AuthService } from '../auth/auth.service';
+import { EmailDetails } from '../common/interfaces/google-auth.interface';
+import { GmailService } from './gmail.service';
+
+describe('GmailService', () => {
+  const authService = { getAuthenticated: jest.fn() };
+  const gmailClient = {
+    users: {
+      messages: { list: jest.fn(), get: jest.fn() },
+      history: { list: jest.fn() },
+    },
+  };
+  let gmailService: GmailService;
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    jest
+      .spyOn(google, 'gmail')
+      .mockReturnValue(
+        gmailClient as unknown as ReturnType<typeof google.gmail>,
+      );
+    gmailService = new GmailService(authService as unknown as AuthService);
+  });
+
+  describe('searchEmails', () => {
+    it('should follow nextPageToken until every page is read', async () => {
+      gmailClient.users.messages.list
+        .mockResolvedValueOnce({
+          data: { messages: [{ id: 'a' }, { id: 'b' }], nextPageToken: 'p2' },
+        })
+        .mockResolvedValueOnce({ data: { messages: [{ id: 'c' }] } });
+
+      const messages = await gmailService.searchEmails('me@example.com');
+
+      expect(messages.map((message) => message.id)).toEqual(['a', 'b', 'c']);
+      expect(gmailClient.users.messages.list).toHaveBeenLastCalledWith(
+        expect.objectContaining({ pageToken: 'p2' }),
+      );
+    });
+  });
+
+  describe('searchEmailsByDateRange', () => {
+    it('should bound the search by the range in seconds', async () => {
+      gmailClient.users.messages.list.mockResolvedValue({ data: {} });
+
+      await gmailService.searchEmailsByDateRange(
+        'me@example.com',
+        new Date('2024-03-01T00:00:00Z'),
+        new Date('2024-04-01T00:00:00Z'),
+      );
+
+      expect(gmailClient.users.messages.list).toHaveBeenCalledWith(
+        expect.objectContaining({
+          q: 'has:attachment (invoice OR receipt OR bill) after:1709251199 before:1711929600 -label:processed-financial-docs',
+        }),
+      );
+    });
+  });
+
+  describe('getEmailCount', () => {
+    it('should count past the first 500 results', async () => {
+      gmailClient.users.messages.list
+        .mockResolvedValueOnce({
+          data: {
+            messages: Array.from({ length: 500 }, (_, i) => ({ id: `${i}` })),
+            nextPageToken: 'p2',
+          },
+        })
+        .mockResolvedValueOnce({ data: { messages: [{ id: 'last' }] } });
+
+      await expect(gmailService.getEmailCount('me@example.com')).resolves.toBe(
+        501,
+      );
+    });
+  });
+
+  describe('listAddedMessageIds', () => {
+    it('should collect unique added message ids across pages', async () => {
+      gmailClient.users.history.list
+        .mockResolvedValueOnce({
+          data: {
+            history: [
+              { messagesAdded: [{ message: { id: 'a' } }] },
+              { messagesAdded: [{ message: { id: 'b' } }] },
+            ],
+            nextPageToken: 'p2',
+          },
+        })
+        .mockResolvedValueOnce({
+          data: { history: [{ messagesAdded: [{ message: { id: 'a' } }] }] },
+        });
+
+      await expect(
+        gmailService.listAddedMessageIds('me@example.com', '100'),
+      ).resolves.toEqual(['a', 'b']);
+    });
+
+    it('should return null when the history id has expired', async () => {
+      gmailClient.users.history.list.mockRejectedValue(
+        Object.assign(new Error('Not Found'), { code: 404 }),
+      );
+
+      await expect(
+        gmailService.listAddedMessageIds('me@example.com', '1'),
+      ).resolves.toBeNull();
+    });
+  });
+
+  describe('getEmailDetails', () => {
+    const encode = (text: string) => Buffer.from(text).toString('base64url');
+
+    it('should report the original sender of a forwarded invoice', async () => {
+      gmailClient.users.messages.get.mockResolvedValue({
+        data: {
+          snippet: '',
+          payload: {
+            mimeType: 'multipart/mixed',
+            headers: [
+              { name: 'Subject', value: 'Fwd: Invoice 1001' },
+              { name: 'From', value: 'Me <me@example.com>' },
+              { name: 'Date', value: 'Mon, 11 Mar 2024 09:00:00 +0000' },
+            ],
+            parts: [
+              {
+                mimeType: 'text/plain',
+                body: {
+                  data: encode(
+                    [
+                      'FYI',
+                      '',
+                      '---------- Forwarded message ---------',
+                      'From: Acme Billing <billing@acme.com>',
+                      'Date: Mon, Mar 4, 2024 at 10:00 AM',
+                      'Subject: Invoice 1001',
+                    ].join('\n'),
+                  ),
+                },
+              },
+            ],
+          },
+        },
+      });
+
+      const details = await gmailService.getEmailDetails(
+        'me@example.com',
+        'msg-1',
+      );
+
+      expect(details?.from).toBe('Acme Billing <billing@acme.com>');
+      expect(details?.subject).toBe('Invoice 1001');
+      expect(details?.forwardedBy).toBe('Me <me@example.com>');
+    });
+
+    it('should read the headers of an attached message', async () => {
+      gmailClient.users.messages.get.mockResolvedValue({
+        data: {
+          payload: {
+            mimeType: 'multipart/mixed',
+            headers: [
+              { name: 'Subject', value: 'Receipt' },
+              { name: 'From', value: 'me@example.com' },
+            ],
+            parts: [
+              {
+                mimeType: 'message/rfc822',
+                parts: [
+                  {
+                    mimeType: 'text/plain',
+                    headers: [
+                      { name: 'From', value: 'shop@store.com' },
+                      { name: 'Subject', value: 'Your receipt' },
+                    ],
+                  },
+                ],
+              },
+            ],
+          },
+        },
+      });
+
+      const details = await gmailService.getEmailDetails(
+        'me@example.com',
+        'msg-2',
+      );
+
+      expect(details?.from).toBe('shop@store.com');
+      expect(details?.forwardedBy).toBe('me@example.com');
+    });
+
+    it('should leave ordinary emails untouched', async () => {
+      gmailClient.users.messages.get.mockResolvedValue({
+        data: {
+          payload: {
+            mimeType: 'text/html',
+            headers: [{ name: 'From', value: 'billing@acme.com' }],
+            body: { data: encode('<p>Your invoice is attached</p>') },
+          },
+        },
+      });
+
+      const details = await gmailService.getEmailDetails(
+        'me@example.com',
+        'msg-3',
+      );
+
+      expect(details?.from).toBe('billing@acme.com');
+      expect(details?.bodyText).toContain('Your invoice is attached');
+      expect(details?.forwardedBy).toBeNull();
+    });
+
+    it('should return null for a message that no longer exists', async () => {
+      gmailClient.users.messages.get.mockRejectedValue(
+        Object.assign(new Error('Requested entity was not found.'), {
+          code: 404,
+        }),
+      );
+
+      await expect(
+        gmailService.getEmailDetails('me@example.com', 'deleted'),
+      ).resolves.toBeNull();
+    });
+  });
+
+  describe('listAddedMessageIds', () => {
+    it('should leave out drafts and mail sent to others', async () => {
+      gmailClient.users.history.list.mockResolvedValue({
+        data: {
+          history: [
+            {
+              messagesAdded: [
+                { message: { id: 'in', labelIds: ['INBOX', 'UNREAD'] } },
+                { message: { id: 'draft', labelIds: ['DRAFT'] } },
+                { message: { id: 'sent', labelIds: ['SENT'] } },
+                { message: { id: 'self', labelIds: ['SENT', 'INBOX'] } },
+              ],
+            },
+          ],
+        },
+      });
+
+      await expect(
+        gmailService.listAddedMessageIds('me@example.com', '100'),
+      ).resolves.toEqual(['in', 'self']);
+    });
+  });
+
+  describe('matchesSearchCriteria', () => {
+    const email = (overrides: Partial<EmailDetails>): EmailDetails => ({
+      id: 'a',
+      subject: '',
+      from: 'billing@example.com',
+      date: '',
+      snippet: '',
+      bodyText: '',
+      forwardedBy: null,
+      attachments: [
+        {
+          partId: '1',
+          filename: 'document.pdf',
+          attachmentId: 'att',
+          size: 10,
+        },
+      ],
+      ...overrides,
+    });
+
+    it('should accept emails with attachments and a keyword', () => {
+      expect(
+        gmailService.matchesSearchCriteria(email({ subject: 'Your invoice' })),
+      ).toBe(true);
+    });
+
+    it('should reject emails without attachments', () => {
+      expect(
+        gmailService.matchesSearchCriteria(
+          email({ subject: 'Your invoice', attachments: [] }),
+        ),
+      ).toBe(false);
+    });
+
+    it('should reject emails without a keyword', () => {
+      expect(
+        gmailService.matchesSearchCriteria(
+          email({ subject: 'Holiday photos' }),
+        ),
+      ).toBe(false);
+    });
+  });
+});
@@ -1,18 +1,49 @@
 import { Injectable, Logger } from '@nestjs/common';
-import { google } from 'googleapis';
+import { gmail_v1, google } from 'googleapis';
 import { AuthService } from '../auth/auth.service';
 import {
   EmailDetails,
   EmailAttachment,
 } from '../common/interfaces/google-auth.interface';
+import {
+  ForwardedHeaders,
+  htmlToText,
+  parseForwardedMessage,
+  parseRfc822Headers,
+} from './forwarded-message';
+
+export const DEFAULT_SEARCH_QUERY =
+  'has:attachment (invoice OR receipt OR bill)';
+
+/** Receipts whose whole content is the message body, see email-body-pdf. */
+export const BODY_RECEIPT_SEARCH_QUERY = 'subject:(invoice OR receipt OR bill)';
+
+const SEARCH_KEYWORDS = /\b(invoice|receipt|bill)/i;
+
+const PAGE_SIZE = 100;
+
+/**
+ * Narrows a search to emails received from `from` up to, not including,
+ * `to`. Bounds are given in seconds, since Gmail reads plain dates in the
+ * Pacific time zone. The lower bound starts a second early so an email
+ * sent exactly at `from` is not missed; overlapping windows only see it
+ * again as already processed.
+ */
+export function withDateRange(query: string, from: Date, to: Date): string {
+  const seconds = (date: Date) => Math.floor(date.getTime() / 1000);
+  return `${query} after:${seconds(from) - 1} before:${seconds(to)}`;
+}
 
 interface GmailMessagePartBody {
   attachmentId?: string | null;
   size?: number | null;
+  data?: string | null;
 }
 
 interface GmailMessagePart {
+  partId?: string | null;
   filename?: string | null;
+  headers?: gmail_v1.Schema$MessagePartHeader[];
   body?: GmailMessagePartBody;
   mimeType?: string | null;
   parts?: GmailMessagePart[];
@@ -25,22 +56,42 @@ export class GmailService {
   constructor(private authService: AuthService) {}
 
   async searchEmails(
-    query: string = 'has:attachment (invoice OR receipt OR bill)',
-  ): Promise<any[]> {
+    accountId: string,
+    query: string = DEFAULT_SEARCH_QUERY,
+  ): Promise<gmail_v1.Schema$Message[]> {
+    const messages: gmail_v1.Schema$Message[] = [];
+    for await (const page of this.listMessagePages(accountId, query)) {
+      messages.push(...page);
+    }
+
+    this.logger.log(`Found ${messages.length} emails matching criteria`);
+    return messages;
+  }
+
+  /**
+   * Walks every page of a search, yielding one page at a time so callers
+   * can work through large mailboxes without holding every id in memory.
+   */
+  async *listMessagePages(
+    accountId: string,
+    query: string = DEFAULT_SEARCH_QUERY,
+  ): AsyncGenerator<gmail_v1.Schema$Message[]> {
     try {
-      const auth = await this.authService.getAuthenticated();
+      const auth = await this.authService.getAuthenticated(accountId);
       const gmail = google.gmail({ version: 'v1', auth });
 
-      const response = await gmail.users.messages.list({
-        userId: 'me',
-        q: `${query} -label:processed-financial-docs`,
-        maxResults: 50,
-      });
+      let pageToken: string | undefined;
+      do {
+        const response = await gmail.users.messages.list({
+          userId: 'me',
+          q: `${query} -label:processed-financial-docs`,
+          maxResults: PAGE_SIZE,
+          pageToken,
+        });
 
-      this.logger.log(
-        `Found ${response.data.messages?.length || 0} emails matching criteria`,
-      );
-      return response.data.messages || [];
+        yield response.data.messages ?? [];
+        pageToken = response.data.nextPageToken ?? undefined;
+      } while (pageToken);
     } catch (error) {
       if (error instanceof Error) {
         this.logger.error('Gmail search failed:', error);
@@ -51,9 +102,116 @@ export class GmailService {
     }
   }
 
-  async getEmailDetails(messageId: string): Promise<EmailDetails> {
+  async getCurrentHistoryId(accountId: string): Promise<string> {
+    try {
+      const auth = await this.authService.getAuthenticated(accountId);
+      const gmail = google.gmail({ version: 'v1', auth });
+
+      const profile = await gmail.users.getProfile({ userId: 'me' });
+      if (!profile.data.historyId) {
+        throw new Error('Gmail did not return a history id');
+      }
+      return profile.data.historyId;
+    } catch (error) {
+      this.logger.error('Failed to read mailbox history id:', error);
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      throw new Error(`Failed to read mailbox history id: ${errorMessage}`);
+    }
+  }
+
+  /**
+   * Lists messages added to the mailbox after `startHistoryId`, leaving out
+   * drafts and mail the account sent to others, which a search would not
+   * return either. Returns `null` when Gmail no longer holds history that
+   * far back, in which case the caller has to fall back to a full search.
+   */
+  async listAddedMessageIds(
+    accountId: string,
+    startHistoryId: string,
+  ): Promise<string[] | null> {
+    try {
+      const auth = await this.authService.getAuthenticated(accountId);
+      const gmail = google.gmail({ version: 'v1', auth });
+
+      const messageIds = new Set<string>();
+      let pageToken: string | undefined;
+      do {
+        const response = await gmail.users.history.list({
+          userId: 'me',
+          startHistoryId,
+          historyTypes: ['messageAdded'],
+          maxResults: 500,
+          pageToken,
+        });
+
+        for (const history of response.data.history ?? []) {
+          for (const added of history.messagesAdded ?? []) {
+            const labelIds = added.message?.labelIds ?? [];
+            const outgoing =
+              labelIds.includes('DRAFT') ||
+              (labelIds.includes('SENT') && !labelIds.includes('INBOX'));
+            if (added.message?.id && !outgoing) {
+              messageIds.add(added.message.id);
+            }
+          }
+        }
+        pageToken = response.data.nextPageToken ?? undefined;
+      } while (pageToken);
+
+      this.logger.log(
+        `Found ${messageIds.size} emails added since history ${startHistoryId}`,
+      );
+      return [...messageIds];
+    } catch (error) {
+      if (this.isNotFound(error)) {
+        this.logger.warn(
+          `History ${startHistoryId} has expired, a full search is required`,
+        );
+        return null;
+      }
+      this.logger.error('Failed to list mailbox history:', error);
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      throw new Error(`Failed to list mailbox history: ${errorMessage}`);
+    }
+  }
+
+  /**
+   * Client-side counterpart of DEFAULT_SEARCH_QUERY for messages found
+   * through history rather than search. With `includeBodyReceipts`, emails
+   * without attachments also match BODY_RECEIPT_SEARCH_QUERY's criteria.
+   */
+  matchesSearchCriteria(
+    emailDetails: EmailDetails,
+    includeBodyReceipts = false,
+  ): boolean {
+    if (emailDetails.attachments.length === 0) {
+      return (
+        includeBodyReceipts &&
+        emailDetails.bodyText.trim() !== '' &&
+        SEARCH_KEYWORDS.test(emailDetails.subject)
+      );
+    }
+
+    const searchable = [
+      emailDetails.subject,
+      emailDetails.snippet,
+      ...emailDetails.attachments.map((attachment) => attachment.filename),
+    ].join(' ');
+    return SEARCH_KEYWORDS.test(searchable);
+  }
+
+  /**
+   * Returns `null` when the message no longer exists, as happens to drafts
+   * and deleted emails still listed in the mailbox history.
+   */
+  async getEmailDetails(
+    accountId: string,
+    messageId: string,
+  ): Promise<EmailDetails | null> {
     try {
-      const auth = await this.authService.getAuthenticated();
+      const auth = await this.authService.getAuthenticated(accountId);
       const gmail = google.gmail({ version: 'v1', auth });
 
       const response = await gmail.users.messages.get({
@@ -81,12 +239,35 @@ export class GmailService {
         subject: this.getHeaderValue(headers, 'Subject'),
         from: this.getHeaderValue(headers, 'From'),
         date: this.getHeaderValue(headers, 'Date'),
+        snippet: message.snippet ?? '',
+        bodyText: this.extractBodyText(message.payload),
+        forwardedBy: null,
         attachments: this.extractAttachments(message.payload),
       };
 
+      const forwarded = await this.findForwardedHeaders(
+        accountId,
+        messageId,
+        message.payload,
+        emailDetails,
+      );
+      if (forwarded) {
+        this.logger.log(
+          `Email ${messageId} forwards a message from ${forwarded.from}`,
+        );
+        emailDetails.forwardedBy = emailDetails.from;
+        emailDetails.from = forwarded.from;
+        emailDetails.subject = forwarded.subject ?? emailDetails.subject;
+        emailDetails.date = forwarded.date ?? emailDetails.date;
+      }
+
       this.logger.log(`Retrieved details for email: ${emailDetails.subject}`);
       return emailDetails;
     } catch (error) {
+      if (this.isNotFound(error)) {
+        this.logger.warn(`Email ${messageId} no longer exists`);
+        return null;
+      }
       if (error instanceof Error) {
         this.logger.error(
           `Failed to get email details for ${messageId}:`,
@@ -100,11 +281,12 @@ export class GmailService {
   }
 
   async downloadAttachment(
+    accountId: string,
     messageId: string,
     attachmentId: string,
   ): Promise<Buffer> {
     try {
-      const auth = await this.authService.getAuthenticated();
+      const auth = await this.authService.getAuthenticated(accountId);
       const gmail = google.gmail({ version: 'v1', auth });
 
       const response = await gmail.users.messages.attachments.get({
@@ -142,12 +324,66 @@ export class GmailService {
     }
   }
 
-  async labelEmail(messageId: string): Promise<void> {
+  /**
+   * Registers the mailbox for Pub/Sub push notifications. Gmail expires a
+   * watch after seven days, so this has to be called again before then.
+   */
+  async watchMailbox(
+    accountId: string,
+    topicName: string,
+  ): Promise<{ historyId: string; expiration: number }> {
     try {
-      const auth = await this.authService.getAuthenticated();
+      const auth = await this.authService.getAuthenticated(accountId);
       const gmail = google.gmail({ version: 'v1', auth });
 
-      await this.ensureLabelExists('processed-financial-docs');
+      const response = await gmail.users.watch({
+        userId: 'me',
+        requestBody: {
+          topicName,
+          labelIds: ['INBOX'],
+          labelFilterBehavior: 'include',
+        },
+      });
+
+      const { historyId, expiration } = response.data;
+      if (!historyId || !expiration) {
+        throw new Error('Gmail did not return watch details');
+      }
+
+      this.logger.log(
+        `Watching ${accountId} until ${new Date(Number(expiration)).toISOString()}`,
+      );
+      return { historyId, expiration: Number(expiration) };
+    } catch (error) {
+      this.logger.error(`Failed to watch mailbox ${accountId}:`, error);
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      throw new Error(`Failed to watch mailbox: ${errorMessage}`);
+    }
+  }
+
+  /** Ends the push notifications started by `watchMailbox`. */
+  async stopWatch(accountId: string): Promise<void> {
+    try {
+      const auth = await this.authService.getAuthenticated(accountId);
+      const gmail = google.gmail({ version: 'v1', auth });
+
+      await gmail.users.stop({ userId: 'me' });
+      this.logger.log(`Stopped watching ${accountId}`);
+    } catch (error) {
+      this.logger.error(`Failed to stop watching mailbox ${accountId}:`, error);
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      throw new Error(`Failed to stop watching mailbox: ${errorMessage}`);
+    }
+  }
+
+  async labelEmail(accountId: string, messageId: string): Promise<void> {
+    try {
+      const auth = await this.authService.getAuthenticated(accountId);
+      const gmail = google.gmail({ version: 'v1', auth });
+
+      await this.ensureLabelExists(accountId, 'processed-financial-docs');
 
       const labelsResponse = await gmail.users.labels.list({ userId: 'me' });
       const processedLabel = (labelsResponse.data.labels ?? []).find(
@@ -177,14 +413,17 @@ export class GmailService {
     }
   }
 
-  async searchEmailsFromSenders(senders: string[]): Promise<any[]> {
+  async searchEmailsFromSenders(
+    accountId: string,
+    senders: string[],
+  ): Promise<gmail_v1.Schema$Message[]> {
     try {
       const senderQuery = senders
         .map((sender) => `from:${sender}`)
         .join(' OR ');
       const fullQuery = `has:attachment (${senderQuery}) (invoice OR receipt OR bill)`;
 
-      return this.searchEmails(fullQuery);
+      return this.searchEmails(accountId, fullQuery);
     } catch (error) {
       this.logger.error(
         'Failed to search emails from specific senders:',
@@ -198,14 +437,15 @@ export class GmailService {
     }
   }
 
-  async searchEmailsByDateRange(days: number = 30): Promise<any[]> {
+  /** Emails matching `query` received from `from` up to, not including, `to`. */
+  async searchEmailsByDateRange(
+    accountId: string,
+    from: Date,
+    to: Date,
+    query: string = DEFAULT_SEARCH_QUERY,
+  ): Promise<gmail_v1.Schema$Message[]> {
     try {
-      const date = new Date();
-      date.setDate(date.getDate() - days);
-      const formattedDate = date.toISOString().split('T')[0].replace(/-/g, '/');
-
-      const dateQuery = `after:${formattedDate} has:attachment (invoice OR receipt OR bill)`;
-      return this.searchEmails(dateQuery);
+      return await this.searchEmails(accountId, withDateRange(query, from, to));
     } catch (error) {
       this.logger.error('Failed to search emails by date range:', error);
 
@@ -216,6 +456,101 @@ export class GmailService {
     }
   }
 
+  private isNotFound(error: unknown): boolean {
+    const { code, status } = error as { code?: unknown; status?: unknown };
+    return code === 404 || code === '404' || status === 404;
+  }
+
+  /**
+   * Looks for the original message inside a forward: an attached
+   * `message/rfc822` part first, then a forward block in the body text.
+   */
+  private async findForwardedHeaders(
+    accountId: string,
+    messageId: string,
+    payload: GmailMessagePart,
+    emailDetails: EmailDetails,
+  ): Promise<ForwardedHeaders | null> {
+    const attachedMessage = this.findPart(
+      payload,
+      (part) => part.mimeType === 'message/rfc822',
+    );
+
+    if (attachedMessage) {
+      const nestedHeaders = (attachedMessage.parts?.[0]?.headers ?? [])
+        .filter(
+          (h): h is { name: string; value: string } => !!h.name && !!h.value,
+        )
+        .map((h) => `${h.name}: ${h.value}`)
+        .join('\r\n');
+      const fromNested = nestedHeaders
+        ? parseRfc822Headers(nestedHeaders)
+        : null;
+      if (fromNested) return fromNested;
+
+      if (attachedMessage.body?.attachmentId) {
+        try {
+          const raw = await this.downloadAttachment(
+            accountId,
+            messageId,
+            attachedMessage.body.attachmentId,
+          );
+          const fromRaw = parseRfc822Headers(raw.toString('utf8'));
+          if (fromRaw) return fromRaw;
+        } catch (error) {
+          this.logger.warn(
+            `Could not read attached message in ${messageId}: ${error instanceof Error ? error.message : String(error)}`,
+          );
+        }
+      }
+    }
+
+    return parseForwardedMessage(emailDetails.bodyText, emailDetails.subject);
+  }
+
+  /**
+   * Returns the message's own text, preferring `text/plain` and falling
+   * back to `text/html` with the markup stripped. Parts of attached
+   * messages are not searched.
+   */
+  private extractBodyText(payload: GmailMessagePart): string {
+    const isInline = (part: GmailMessagePart) =>
+      !part.filename && !!part.body?.data;
+
+    const plain = this.findPart(
+      payload,
+      (part) => part.mimeType === 'text/plain' && isInline(part),
+    );
+    if (plain?.body?.data) return this.decodeBody(plain.body.data);
+
+    const html = this.findPart(
+      payload,
+      (part) => part.mimeType === 'text/html' && isInline(part),
+    );
+    return html?.body?.data ? htmlToText(this.decodeBody(html.body.data)) : '';
+  }
+
+  private findPart(
+    part: GmailMessagePart,
+    predicate: (part: GmailMessagePart) => boolean,
+  ): GmailMessagePart | null {
+    if (predicate(part)) return part;
+    if (part.mimeType === 'message/rfc822') return null;
+
+    for (const child of part.parts ?? []) {
+      const found = this.findPart(child, predicate);
+      if (found) return found;
+    }
+    return null;
+  }
+
+  private decodeBody(data: string): string {
+    return Buffer.from(
+      data.replace(/-/g, '+').replace(/_/g, '/'),
+      'base64',
+    ).toString('utf8');
+  }
+
   private getHeaderValue(
     headers: { name: string; value: string }[] | undefined,
     name: string,
@@ -230,6 +565,7 @@ export class GmailService {
     const extractFromPart = (part: GmailMessagePart) => {
       if (part.filename && part.body?.attachmentId) {
         attachments.push({
+          partId: part.partId ?? '',
           filename: part.filename,
           attachmentId: part.body.attachmentId,
           mimeType: part.mimeType,
@@ -246,6 +582,7 @@ export class GmailService {
       payload.parts.forEach(extractFromPart);
     } else if (payload.filename && payload.body?.attachmentId) {
       attachments.push({
+        partId: payload.partId ?? '',
         filename: payload.filename,
         attachmentId: payload.body.attachmentId,
         mimeType: payload.mimeType,
@@ -256,9 +593,12 @@ export class GmailService {
     return attachments;
   }
 
-  private async ensureLabelExists(labelName: string): Promise<void> {
+  private async ensureLabelExists(
+    accountId: string,
+    labelName: string,
+  ): Promise<void> {
     try {
-      const auth = await this.authService.getAuthenticated();
+      const auth = await this.authService.getAuthenticated(accountId);
       const gmail = google.gmail({ version: 'v1', auth });
 
       const labelsResponse = await gmail.users.labels.list({ userId: 'me' });
@@ -286,20 +626,28 @@ export class GmailService {
     }
   }
 
-  async getEmailCount(query?: string): Promise<number> {
+  async getEmailCount(accountId: string, query?: string): Promise<number> {
     try {
-      const auth = await this.authService.getAuthenticated();
+      const auth = await this.authService.getAuthenticated(accountId);
       const gmail = google.gmail({ version: 'v1', auth });
 
-      const searchQuery =
-        query || 'has:attachment (invoice OR receipt OR bill)';
-      const response = await gmail.users.messages.list({
-        userId: 'me',
-        q: searchQuery,
-        maxResults: 500,
-      });
+      const searchQuery = query || DEFAULT_SEARCH_QUERY;
+      let count = 0;
+      let pageToken: string | undefined;
+      do {
+        const response = await gmail.users.messages.list({
+          userId: 'me',
+          q: searchQuery,
+          maxResults: 500,
+          pageToken,
+          fields: 'messages/id,nextPageToken',
+        });
+
+        count += response.data.messages?.length ?? 0;
+        pageToken = response.data.nextPageToken ?? undefined;
+      } while (pageToken);
 
-      return response.data.messages?.length || 0;
+      return count;
     } catch (error) {
       this.logger.error('Failed to get email count:', error);
       return 0;
@@ -0,0 +1,20 @@
+import { NestFactory } from '@nestjs/core';
+import { AuthService } from './auth/auth.service';
+import { MaintenanceModule } from './maintenance/maintenance.module';
+
+/**
+ * Disconnects every Gmail account at once. A running server keeps their
+ * scheduled scans until it is restarted.
+ *
+ *   npm run logout:all
+ */
+async function logoutAll() {
+  const app = await NestFactory.createApplicationContext(MaintenanceModule);
+  try {
+    await app.get(AuthService).clearAllTokens();
+  } finally {
+    await app.close();
+  }
+}
+
+void logoutAll();
@@ -0,0 +1,91 @@
+import { google } from 'googleapis';
+import { Repository } from 'typeorm';
+import { AuthService } from '../auth/auth.service';
+import { ProcessedDocument, ScanLog, UserToken } from '../entities';
+import { AccountIdMigrationService } from './account-id-migration.service';
+
+describe('AccountIdMigrationService', () => {
+  const authService = { getAuthenticated: jest.fn() };
+  const gmailClient = { users: { getProfile: jest.fn() } };
+  const userTokenRepository = {
+    findOne: jest.fn(),
+    update: jest.fn(),
+    delete: jest.fn(),
+  };
+  const processedDocumentRepository = { update: jest.fn() };
+  const scanLogRepository = { update: jest.fn() };
+  let migrationService: AccountIdMigrationService;
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    jest
+      .spyOn(google, 'gmail')
+      .mockReturnValue(
+        gmailClient as unknown as ReturnType<typeof google.gmail>,
+      );
+    gmailClient.users.getProfile.mockResolvedValue({
+      data: { emailAddress: 'me@example.com' },
+    });
+    processedDocumentRepository.update.mockResolvedValue({ affected: 3 });
+    scanLogRepository.update.mockResolvedValue({ affected: 2 });
+    migrationService = new AccountIdMigrationService(
+      authService as unknown as AuthService,
+      userTokenRepository as unknown as Repository<UserToken>,
+      processedDocumentRepository as unknown as Repository<ProcessedDocument>,
+      scanLogRepository as unknown as Repository<ScanLog>,
+    );
+  });
+
+  it('should move legacy rows and tokens to the connected address', async () => {
+    userTokenRepository.findOne
+      .mockResolvedValueOnce({ userId: 'default_user' })
+      .mockResolvedValueOnce(null);
+
+    await expect(migrationService.migrate()).resolves.toBe('me@example.com');
+
+    expect(processedDocumentRepository.update).toHaveBeenCalledWith(
+      { accountId: 'default_user' },
+      { accountId: 'me@example.com' },
+    );
+    expect(scanLogRepository.update).toHaveBeenCalledWith(
+      { accountId: 'default_user' },
+      { accountId: 'me@example.com' },
+    );
+    expect(userTokenRepository.update).toHaveBeenCalledWith(
+      { userId: 'default_user' },
+      { userId: 'me@example.com' },
+    );
+  });
+
+  it('should drop legacy tokens once the address signed in again', async () => {
+    userTokenRepository.findOne
+      .mockResolvedValueOnce({ userId: 'default_user' })
+      .mockResolvedValueOnce({ userId: 'me@example.com' });
+
+    await migrationService.migrate();
+
+    expect(userTokenRepository.delete).toHaveBeenCalledWith({
+      userId: 'default_user',
+    });
+    expect(userTokenRepository.update).not.toHaveBeenCalled();
+  });
+
+  it('should map rows to the given address without legacy tokens', async () => {
+    userTokenRepository.findOne.mockResolvedValue(null);
+
+    await migrationService.migrate('me@example.com');
+
+    expect(gmailClient.users.getProfile).not.toHaveBeenCalled();
+    expect(processedDocumentRepository.update).toHaveBeenCalledWith(
+      { accountId: 'default_user' },
+      { accountId: 'me@example.com' },
+    );
+  });
+
+  it('should do nothing without legacy tokens or an address', async () => {
+    userTokenRepository.findOne.mockResolvedValue(null);
+
+    await expect(migrationService.migrate()).resolves.toBeNull();
+    expect(processedDocumentRepository.update).not.toHaveBeenCalled();
+  });
+});
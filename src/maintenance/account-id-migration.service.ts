@@ -0,0 +1,85 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { google } from 'googleapis';
+import { Repository } from 'typeorm';
+import { AuthService } from '../auth/auth.service';
+import {
+  LEGACY_ACCOUNT_ID,
+  ProcessedDocument,
+  ScanLog,
+  UserToken,
+} from '../entities';
+
+/**
+ * Moves data stored under the legacy single-account id to the Gmail
+ * address it belongs to, read from the legacy tokens unless given. Running
+ * it again once nothing is left under the legacy id changes nothing.
+ */
+@Injectable()
+export class AccountIdMigrationService {
+  private readonly logger = new Logger(AccountIdMigrationService.name);
+
+  constructor(
+    private authService: AuthService,
+    @InjectRepository(UserToken)
+    private userTokenRepository: Repository<UserToken>,
+    @InjectRepository(ProcessedDocument)
+    private processedDocumentRepository: Repository<ProcessedDocument>,
+    @InjectRepository(ScanLog)
+    private scanLogRepository: Repository<ScanLog>,
+  ) {}
+
+  /** Returns the address the data now belongs to, or null if none was. */
+  async migrate(accountId?: string): Promise<string | null> {
+    const legacyToken = await this.userTokenRepository.findOne({
+      where: { userId: LEGACY_ACCOUNT_ID },
+    });
+    let target = accountId ?? null;
+    if (!target && legacyToken) target = await this.readAddress();
+    if (!target) {
+      this.logger.log(
+        'No legacy account to migrate; pass --account to map its rows',
+      );
+      return null;
+    }
+
+    const documents = await this.processedDocumentRepository.update(
+      { accountId: LEGACY_ACCOUNT_ID },
+      { accountId: target },
+    );
+    const scanLogs = await this.scanLogRepository.update(
+      { accountId: LEGACY_ACCOUNT_ID },
+      { accountId: target },
+    );
+
+    if (legacyToken) {
+      // Signing in again already stored tokens under the address.
+      const current = await this.userTokenRepository.findOne({
+        where: { userId: target },
+      });
+      if (current) {
+        await this.userTokenRepository.delete({ userId: LEGACY_ACCOUNT_ID });
+      } else {
+        await this.userTokenRepository.update(
+          { userId: LEGACY_ACCOUNT_ID },
+          { userId: target },
+        );
+      }
+    }
+
+    this.logger.log(
+      `Moved ${documents.affected ?? 0} documents and ${scanLogs.affected ?? 0} scan logs to ${target}`,
+    );
+    return target;
+  }
+
+  private async readAddress(): Promise<string> {
+    const auth = await this.authService.getAuthenticated(LEGACY_ACCOUNT_ID);
+    const gmail = google.gmail({ version: 'v1', auth });
+    const profile = await gmail.users.getProfile({ userId: 'me' });
+    if (!profile.data.emailAddress) {
+      throw new Error('Google did not return the mailbox address');
+    }
+    return profile.data.emailAddress;
+  }
+}
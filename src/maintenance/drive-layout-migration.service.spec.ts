@@ -0,0 +1,108 @@
+import { Repository } from 'typeorm';
+import { DriveService } from '../drive/drive.service';
+import { ProcessedDocument, Vendor } from '../entities';
+import { DriveLayoutMigrationService } from './drive-layout-migration.service';
+
+function document(driveFileId: string): ProcessedDocument {
+  return {
+    accountId: 'me@example.com',
+    fileName: `${driveFileId}.pdf`,
+    driveFileId,
+    vendorId: 'vendor-1',
+    emailDate: new Date('2024-03-05T10:00:00Z'),
+    invoiceDate: null,
+    category: null,
+  } as ProcessedDocument;
+}
+
+describe('DriveLayoutMigrationService', () => {
+  const driveService = {
+    getDocumentFolderPath: jest.fn(),
+    findFolderPath: jest.fn(),
+    getParents: jest.fn(),
+    resolveDocumentFolder: jest.fn(),
+    moveFile: jest.fn(),
+  };
+  const processedDocumentRepository = { find: jest.fn() };
+  const vendorRepository = { find: jest.fn() };
+  let migrationService: DriveLayoutMigrationService;
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    processedDocumentRepository.find
+      .mockResolvedValueOnce([
+        document('in-place'),
+        document('misplaced'),
+        document('broken'),
+      ])
+      .mockResolvedValue([]);
+    vendorRepository.find.mockResolvedValue([{ id: 'vendor-1', name: 'Acme' }]);
+    driveService.getDocumentFolderPath.mockReturnValue([
+      'Financial Documents',
+      '2024',
+      'Acme',
+    ]);
+    driveService.findFolderPath.mockResolvedValue('acme');
+    driveService.getParents.mockImplementation(
+      (accountId: string, fileId: string) =>
+        fileId === 'broken'
+          ? Promise.reject(new Error('File not found'))
+          : Promise.resolve(fileId === 'in-place' ? ['acme'] : ['old']),
+    );
+    driveService.resolveDocumentFolder.mockResolvedValue('acme');
+    driveService.moveFile.mockImplementation(
+      (accountId: string, fileId: string) =>
+        fileId === 'broken'
+          ? Promise.reject(new Error('File not found'))
+          : Promise.resolve(fileId === 'misplaced'),
+    );
+    migrationService = new DriveLayoutMigrationService(
+      driveService as unknown as DriveService,
+      processedDocumentRepository as unknown as Repository<ProcessedDocument>,
+      vendorRepository as unknown as Repository<Vendor>,
+    );
+  });
+
+  it('should move misplaced files and count the ones that fail', async () => {
+    await expect(migrationService.migrate()).resolves.toEqual({
+      scanned: 3,
+      moved: 1,
+      failed: 1,
+    });
+
+    expect(driveService.resolveDocumentFolder).toHaveBeenCalledWith(
+      'me@example.com',
+      {
+        date: new Date('2024-03-05T10:00:00Z'),
+        vendor: 'Acme',
+        category: null,
+      },
+    );
+    expect(driveService.moveFile).toHaveBeenCalledWith(
+      'me@example.com',
+      'misplaced',
+      'acme',
+    );
+  });
+
+  it('should report what it would move without moving anything', async () => {
+    await expect(migrationService.migrate({ dryRun: true })).resolves.toEqual({
+      scanned: 3,
+      moved: 1,
+      failed: 1,
+    });
+
+    expect(driveService.resolveDocumentFolder).not.toHaveBeenCalled();
+    expect(driveService.moveFile).not.toHaveBeenCalled();
+  });
+
+  it('should count every file in a dry run when the folder is missing', async () => {
+    driveService.findFolderPath.mockResolvedValue(null);
+
+    await expect(migrationService.migrate({ dryRun: true })).resolves.toEqual({
+      scanned: 3,
+      moved: 2,
+      failed: 1,
+    });
+  });
+});
@@ -0,0 +1,134 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { IsNull, Repository } from 'typeorm';
+import { DriveService } from '../drive/drive.service';
+import { ProcessedDocument, Vendor } from '../entities';
+
+const BATCH_SIZE = 100;
+
+export interface DriveLayoutMigrationOptions {
+  accountId?: string;
+  dryRun?: boolean;
+}
+
+export interface DriveLayoutMigrationResult {
+  scanned: number;
+  moved: number;
+  failed: number;
+}
+
+/**
+ * Moves files uploaded under an older layout into the folders the current
+ * `DRIVE_PATH_TEMPLATE` puts them in. Files already in place are left
+ * alone, so the migration can be re-run after changing the template.
+ */
+@Injectable()
+export class DriveLayoutMigrationService {
+  private readonly logger = new Logger(DriveLayoutMigrationService.name);
+
+  constructor(
+    private driveService: DriveService,
+    @InjectRepository(ProcessedDocument)
+    private processedDocumentRepository: Repository<ProcessedDocument>,
+    @InjectRepository(Vendor)
+    private vendorRepository: Repository<Vendor>,
+  ) {}
+
+  async migrate(
+    options: DriveLayoutMigrationOptions = {},
+  ): Promise<DriveLayoutMigrationResult> {
+    const result: DriveLayoutMigrationResult = {
+      scanned: 0,
+      moved: 0,
+      failed: 0,
+    };
+    const vendors = await this.vendorRepository.find({
+      where: { accountId: options.accountId },
+    });
+    const vendorNames = new Map(
+      vendors.map((vendor) => [vendor.id, vendor.name]),
+    );
+
+    for (let skip = 0; ; skip += BATCH_SIZE) {
+      // Duplicates share their original's Drive file, so only originals
+      // need moving.
+      const documents = await this.processedDocumentRepository.find({
+        where: { accountId: options.accountId, duplicateOfId: IsNull() },
+        order: { processedAt: 'ASC', id: 'ASC' },
+        skip,
+        take: BATCH_SIZE,
+      });
+      if (documents.length === 0) break;
+
+      for (const document of documents) {
+        result.scanned++;
+        try {
+          const vendorName =
+            (document.vendorId && vendorNames.get(document.vendorId)) ||
+            document.extractedVendor ||
+            document.senderName;
+          if (
+            await this.migrateDocument(
+              document,
+              vendorName,
+              options.dryRun ?? false,
+            )
+          ) {
+            result.moved++;
+          }
+        } catch (error) {
+          result.failed++;
+          this.logger.error(
+            `Failed to migrate ${document.fileName}: ${error instanceof Error ? error.message : String(error)}`,
+          );
+        }
+      }
+    }
+
+    this.logger.log(
+      `Drive layout migration ${options.dryRun ? '(dry run) ' : ''}complete: ${result.scanned} scanned, ${result.moved} moved, ${result.failed} failed`,
+    );
+    return result;
+  }
+
+  private async migrateDocument(
+    document: ProcessedDocument,
+    vendorName: string,
+    dryRun: boolean,
+  ): Promise<boolean> {
+    const values = {
+      date: new Date(document.invoiceDate ?? document.emailDate),
+      vendor: vendorName,
+      category: document.category,
+    };
+
+    if (dryRun) {
+      const segments = this.driveService.getDocumentFolderPath(values);
+      const folderId = await this.driveService.findFolderPath(
+        document.accountId,
+        segments,
+      );
+      const parents = await this.driveService.getParents(
+        document.accountId,
+        document.driveFileId,
+      );
+      if (folderId && parents.length === 1 && parents[0] === folderId) {
+        return false;
+      }
+      this.logger.log(
+        `Would move ${document.fileName} to ${segments.join('/')}`,
+      );
+      return true;
+    }
+
+    const folderId = await this.driveService.resolveDocumentFolder(
+      document.accountId,
+      values,
+    );
+    return this.driveService.moveFile(
+      document.accountId,
+      document.driveFileId,
+      folderId,
+    );
+  }
+}
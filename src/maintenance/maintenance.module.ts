@@ -0,0 +1,22 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { AuthModule } from '../auth/auth.module';
+import { DatabaseModule } from '../database/database.module';
+import { DriveModule } from '../drive/drive.module';
+import { AccountIdMigrationService } from './account-id-migration.service';
+import { DriveLayoutMigrationService } from './drive-layout-migration.service';
+
+/**
+ * Standalone context for one-off maintenance commands. It leaves out the
+ * scanner and its schedulers so a command can run next to a live server.
+ */
+@Module({
+  imports: [
+    ConfigModule.forRoot({ isGlobal: true }),
+    DatabaseModule,
+    AuthModule,
+    DriveModule,
+  ],
+  providers: [AccountIdMigrationService, DriveLayoutMigrationService],
+})
+export class MaintenanceModule {}
@@ -0,0 +1,25 @@
+import { NestFactory } from '@nestjs/core';
+import { AccountIdMigrationService } from './maintenance/account-id-migration.service';
+import { MaintenanceModule } from './maintenance/maintenance.module';
+
+/**
+ * Moves documents and scan logs from before multiple accounts were
+ * supported to the mailbox they came from.
+ *
+ *   npm run migrate:account-ids -- [--account=me@example.com]
+ */
+async function migrate() {
+  const accountId = process.argv
+    .slice(2)
+    .find((arg) => arg.startsWith('--account='))
+    ?.split('=')[1];
+
+  const app = await NestFactory.createApplicationContext(MaintenanceModule);
+  try {
+    await app.get(AccountIdMigrationService).migrate(accountId);
+  } finally {
+    await app.close();
+  }
+}
+
+void migrate();
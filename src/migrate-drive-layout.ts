@@ -0,0 +1,28 @@
+import { NestFactory } from '@nestjs/core';
+import { DriveLayoutMigrationService } from './maintenance/drive-layout-migration.service';
+import { MaintenanceModule } from './maintenance/maintenance.module';
+
+/**
+ * Moves already-uploaded files into the current Drive folder layout.
+ *
+ *   npm run migrate:drive-layout -- [--account=me@example.com] [--dry-run]
+ */
+async function migrate() {
+  const args = process.argv.slice(2);
+  const accountId = args
+    .find((arg) => arg.startsWith('--account='))
+    ?.split('=')[1];
+  const dryRun = args.includes('--dry-run');
+
+  const app = await NestFactory.createApplicationContext(MaintenanceModule);
+  try {
+    const result = await app
+      .get(DriveLayoutMigrationService)
+      .migrate({ accountId, dryRun });
+    process.exitCode = result.failed > 0 ? 1 : 0;
+  } finally {
+    await app.close();
+  }
+}
+
+void migrate();
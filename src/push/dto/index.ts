@@ -0,0 +1,2 @@
+export { PubSubMessageDto, PubSubPushDto } from './pubsub-push.dto';
+export { PushQueryDto } from './push-query.dto';
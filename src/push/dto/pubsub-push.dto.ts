@@ -0,0 +1,33 @@
+import { Type } from 'class-transformer';
+import {
+  IsBase64,
+  IsObject,
+  IsOptional,
+  IsString,
+  ValidateNested,
+} from 'class-validator';
+
+export class PubSubMessageDto {
+  @IsBase64()
+  data: string;
+
+  @IsString()
+  messageId: string;
+
+  @IsOptional()
+  @IsString()
+  publishTime?: string;
+
+  @IsOptional()
+  @IsObject()
+  attributes?: Record<string, string>;
+}
+
+export class PubSubPushDto {
+  @ValidateNested()
+  @Type(() => PubSubMessageDto)
+  message: PubSubMessageDto;
+
+  @IsString()
+  subscription: string;
+}
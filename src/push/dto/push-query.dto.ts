@@ -0,0 +1,7 @@
+import { IsOptional, IsString } from 'class-validator';
+
+export class PushQueryDto {
+  @IsOptional()
+  @IsString()
+  token?: string;
+}
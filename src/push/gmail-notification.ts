@@ -0,0 +1,44 @@
+export interface GmailNotification {
+  emailAddress: string;
+  historyId: string;
+}
+
+/**
+ * Decodes the `message.data` field of a Gmail Pub/Sub push, which carries
+ * base64-encoded JSON such as `{"emailAddress":"...","historyId":1234}`.
+ */
+export function decodeGmailNotification(data: string): GmailNotification {
+  let payload: { emailAddress?: unknown; historyId?: unknown };
+  try {
+    payload = JSON.parse(Buffer.from(data, 'base64').toString('utf8')) as {
+      emailAddress?: unknown;
+      historyId?: unknown;
+    };
+  } catch {
+    throw new Error('Push message data is not base64-encoded JSON');
+  }
+
+  const { emailAddress, historyId } = payload;
+  if (typeof emailAddress !== 'string' || !emailAddress) {
+    throw new Error('Push message is missing emailAddress');
+  }
+  if (typeof historyId !== 'string' && typeof historyId !== 'number') {
+    throw new Error('Push message is missing historyId');
+  }
+  if (!/^\d+$/.test(String(historyId))) {
+    throw new Error('Push message historyId is not a number');
+  }
+
+  return { emailAddress, historyId: String(historyId) };
+}
+
+export function encodeGmailNotification(
+  notification: GmailNotification,
+): string {
+  return Buffer.from(
+    JSON.stringify({
+      emailAddress: notification.emailAddress,
+      historyId: Number(notification.historyId),
+    }),
+  ).toString('base64');
+}
@@ -0,0 +1,88 @@
+import { BadRequestException, ForbiddenException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { PushController } from './push.controller';
+import { PushService } from './push.service';
+import { encodeGmailNotification } from './gmail-notification';
+
+describe('PushController', () => {
+  let pushController: PushController;
+  const pushService = {
+    isValidToken: jest.fn(),
+    handleNotification: jest.fn(),
+  };
+
+  const envelope = (data: string) => ({
+    message: {
+      data,
+      messageId: 'message-1',
+      publishTime: '2024-01-01T00:00:00Z',
+    },
+    subscription: 'projects/local/subscriptions/fake-gmail-push',
+  });
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+
+    const app: TestingModule = await Test.createTestingModule({
+      controllers: [PushController],
+      providers: [{ provide: PushService, useValue: pushService }],
+    }).compile();
+
+    pushController = app.get<PushController>(PushController);
+  });
+
+  it('should decode the notification and hand it to the service', async () => {
+    pushService.isValidToken.mockReturnValue(true);
+
+    await pushController.receiveGmailNotification(
+      {},
+      envelope(
+        encodeGmailNotification({
+          emailAddress: 'billing@example.com',
+          historyId: '4242',
+        }),
+      ),
+    );
+
+    expect(pushService.handleNotification).toHaveBeenCalledWith({
+      emailAddress: 'billing@example.com',
+      historyId: '4242',
+    });
+  });
+
+  it('should reject pushes with the wrong token', async () => {
+    pushService.isValidToken.mockReturnValue(false);
+
+    await expect(
+      pushController.receiveGmailNotification({ token: 'wrong' }, envelope('')),
+    ).rejects.toThrow(ForbiddenException);
+  });
+
+  it('should reject payloads that are not a Gmail notification', async () => {
+    pushService.isValidToken.mockReturnValue(true);
+
+    await expect(
+      pushController.receiveGmailNotification(
+        {},
+        envelope(Buffer.from('{"foo":1}').toString('base64')),
+      ),
+    ).rejects.toThrow(BadRequestException);
+    expect(pushService.handleNotification).not.toHaveBeenCalled();
+  });
+
+  it('should reject a history id that is not a number', async () => {
+    pushService.isValidToken.mockReturnValue(true);
+
+    await expect(
+      pushController.receiveGmailNotification(
+        {},
+        envelope(
+          Buffer.from(
+            '{"emailAddress":"billing@example.com","historyId":"12abc"}',
+          ).toString('base64'),
+        ),
+      ),
+    ).rejects.toThrow(BadRequestException);
+    expect(pushService.handleNotification).not.toHaveBeenCalled();
+  });
+});
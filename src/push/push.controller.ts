@@ -0,0 +1,49 @@
+import {
+  BadRequestException,
+  Body,
+  Controller,
+  ForbiddenException,
+  HttpCode,
+  HttpStatus,
+  Logger,
+  Post,
+  Query,
+} from '@nestjs/common';
+import { PushService } from './push.service';
+import {
+  decodeGmailNotification,
+  GmailNotification,
+} from './gmail-notification';
+import { PubSubPushDto, PushQueryDto } from './dto';
+
+@Controller('push')
+export class PushController {
+  private readonly logger = new Logger(PushController.name);
+
+  constructor(private readonly pushService: PushService) {}
+
+  @Post('gmail')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async receiveGmailNotification(
+    @Query() query: PushQueryDto,
+    @Body() body: PubSubPushDto,
+  ): Promise<void> {
+    if (!this.pushService.isValidToken(query.token)) {
+      throw new ForbiddenException('Invalid push token');
+    }
+
+    let notification: GmailNotification;
+    try {
+      notification = decodeGmailNotification(body.message.data);
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      throw new BadRequestException(errorMessage);
+    }
+
+    this.logger.log(
+      `Push ${body.message.messageId}: ${notification.emailAddress} at history ${notification.historyId}`,
+    );
+    await this.pushService.handleNotification(notification);
+  }
+}
@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { AuthModule } from '../auth/auth.module';
+import { DatabaseModule } from '../database/database.module';
+import { GmailModule } from '../gmail/gmail.module';
+import { ScannerModule } from '../scanner/scanner.module';
+import { PushController } from './push.controller';
+import { PushService } from './push.service';
+
+@Module({
+  imports: [AuthModule, DatabaseModule, GmailModule, ScannerModule],
+  controllers: [PushController],
+  providers: [PushService],
+})
+export class PushModule {}
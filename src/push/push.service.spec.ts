@@ -0,0 +1,140 @@
+import { ConfigService } from '@nestjs/config';
+import { Repository } from 'typeorm';
+import { AuthService, DisconnectHook } from '../auth/auth.service';
+import { UserToken } from '../entities';
+import { GmailService } from '../gmail/gmail.service';
+import { ScannerService } from '../scanner/scanner.service';
+import { MAX_BUSY_RETRIES, PushService } from './push.service';
+
+const ACCOUNT = 'me@example.com';
+
+describe('PushService', () => {
+  const scannerService = {
+    isScanRunning: jest.fn(),
+    scanAndProcess: jest.fn(),
+  };
+  const gmailService = { stopWatch: jest.fn() };
+  const userTokenRepository = { findOne: jest.fn() };
+  let config: Record<string, string>;
+  let disconnectHook: DisconnectHook | undefined;
+  let pushService: PushService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    config = {};
+    disconnectHook = undefined;
+    userTokenRepository.findOne.mockResolvedValue({
+      userId: ACCOUNT,
+      historyId: '100',
+    });
+    scannerService.scanAndProcess.mockResolvedValue([]);
+    pushService = new PushService(
+      { get: (key: string) => config[key] } as unknown as ConfigService,
+      {
+        beforeDisconnect: (hook: DisconnectHook) => {
+          disconnectHook = hook;
+        },
+      } as unknown as AuthService,
+      gmailService as unknown as GmailService,
+      scannerService as unknown as ScannerService,
+      userTokenRepository as unknown as Repository<UserToken>,
+    );
+  });
+
+  describe('isValidToken', () => {
+    it('should accept only the configured token', () => {
+      config.GMAIL_PUSH_TOKEN = 'secret';
+
+      expect(pushService.isValidToken('secret')).toBe(true);
+      expect(pushService.isValidToken('wrong')).toBe(false);
+      expect(pushService.isValidToken()).toBe(false);
+    });
+
+    it('should reject every push when no token is configured', () => {
+      expect(pushService.isValidToken()).toBe(false);
+      expect(pushService.isValidToken('anything')).toBe(false);
+    });
+  });
+
+  describe('handleNotification', () => {
+    it('should ignore history that was already synced', async () => {
+      await expect(
+        pushService.handleNotification({
+          emailAddress: ACCOUNT,
+          historyId: '90',
+        }),
+      ).resolves.toBe(false);
+      expect(scannerService.isScanRunning).not.toHaveBeenCalled();
+    });
+
+    it('should scan once the scan already running is done', async () => {
+      jest.useFakeTimers();
+      try {
+        scannerService.isScanRunning
+          .mockResolvedValueOnce(true)
+          .mockResolvedValue(false);
+
+        await pushService.handleNotification({
+          emailAddress: ACCOUNT,
+          historyId: '120',
+        });
+        await jest.advanceTimersByTimeAsync(0);
+        expect(scannerService.scanAndProcess).not.toHaveBeenCalled();
+
+        await jest.advanceTimersByTimeAsync(30 * 1000);
+        expect(scannerService.scanAndProcess).toHaveBeenCalledWith({
+          accountId: ACCOUNT,
+        });
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+
+    it('should give up on a scan that never finishes', async () => {
+      jest.useFakeTimers();
+      try {
+        scannerService.isScanRunning.mockResolvedValue(true);
+
+        await pushService.handleNotification({
+          emailAddress: ACCOUNT,
+          historyId: '120',
+        });
+        await jest.advanceTimersByTimeAsync((MAX_BUSY_RETRIES + 1) * 30 * 1000);
+
+        expect(scannerService.isScanRunning).toHaveBeenCalledTimes(
+          MAX_BUSY_RETRIES + 1,
+        );
+        expect(jest.getTimerCount()).toBe(0);
+        expect(scannerService.scanAndProcess).not.toHaveBeenCalled();
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+  });
+
+  describe('logout', () => {
+    it('should stop the Gmail watch of an account that logs out', async () => {
+      await pushService.onApplicationBootstrap();
+      userTokenRepository.findOne.mockResolvedValue({
+        userId: ACCOUNT,
+        watchExpiration: '1710000000000',
+      });
+
+      await disconnectHook?.(ACCOUNT);
+
+      expect(gmailService.stopWatch).toHaveBeenCalledWith(ACCOUNT);
+    });
+
+    it('should leave accounts that were never watched alone', async () => {
+      await pushService.onApplicationBootstrap();
+      userTokenRepository.findOne.mockResolvedValue({
+        userId: ACCOUNT,
+        watchExpiration: null,
+      });
+
+      await disconnectHook?.(ACCOUNT);
+
+      expect(gmailService.stopWatch).not.toHaveBeenCalled();
+    });
+  });
+});
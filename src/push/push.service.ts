@@ -0,0 +1,171 @@
+import { Injectable, Logger, OnApplicationBootstrap } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { AuthService } from '../auth/auth.service';
+import { UserToken } from '../entities';
+import { GmailService } from '../gmail/gmail.service';
+import { ScannerService } from '../scanner/scanner.service';
+import { GmailNotification } from './gmail-notification';
+
+const WATCH_RENEWAL_MARGIN_MS = 24 * 60 * 60 * 1000;
+
+// How long a push waits before checking again whether the scan already
+// running for its account has finished, and how often it checks before
+// leaving its messages to the next push or scheduled scan.
+const BUSY_RETRY_MS = 30 * 1000;
+export const MAX_BUSY_RETRIES = 20;
+
+@Injectable()
+export class PushService implements OnApplicationBootstrap {
+  private readonly logger = new Logger(PushService.name);
+  // accountId -> whether another notification arrived while scanning
+  private readonly activeScans = new Map<string, boolean>();
+
+  constructor(
+    private configService: ConfigService,
+    private authService: AuthService,
+    private gmailService: GmailService,
+    private scannerService: ScannerService,
+    @InjectRepository(UserToken)
+    private userTokenRepository: Repository<UserToken>,
+  ) {}
+
+  async onApplicationBootstrap(): Promise<void> {
+    this.authService.beforeDisconnect((accountId) => this.stopWatch(accountId));
+
+    if (!this.configService.get<string>('GMAIL_PUSH_TOKEN')) {
+      this.logger.warn(
+        'GMAIL_PUSH_TOKEN is not set; Gmail push notifications will be rejected',
+      );
+    }
+    await this.renewWatches();
+  }
+
+  /**
+   * The webhook is public, so without a configured token every push is
+   * refused rather than letting anyone trigger scans.
+   */
+  isValidToken(token?: string): boolean {
+    const expected = this.configService.get<string>('GMAIL_PUSH_TOKEN');
+    return !!expected && token === expected;
+  }
+
+  /**
+   * Queues an incremental scan for the notified mailbox. The scan itself
+   * starts from the account's stored history checkpoint, so only messages
+   * added since the last successful sync are processed.
+   */
+  async handleNotification(notification: GmailNotification): Promise<boolean> {
+    const userToken = await this.userTokenRepository.findOne({
+      where: { userId: notification.emailAddress },
+    });
+    if (!userToken) {
+      this.logger.warn(
+        `Ignoring push for unknown account ${notification.emailAddress}`,
+      );
+      return false;
+    }
+
+    if (
+      userToken.historyId &&
+      BigInt(userToken.historyId) >= BigInt(notification.historyId)
+    ) {
+      this.logger.log(
+        `Ignoring push for ${userToken.userId}: history ${notification.historyId} already synced`,
+      );
+      return false;
+    }
+
+    this.queueScan(userToken.userId);
+    return true;
+  }
+
+  @Cron(CronExpression.EVERY_HOUR)
+  async renewWatches(): Promise<void> {
+    const topicName = this.configService.get<string>('GMAIL_PUBSUB_TOPIC');
+    if (!topicName) return;
+
+    const renewBefore = Date.now() + WATCH_RENEWAL_MARGIN_MS;
+    const userTokens = await this.userTokenRepository.find();
+
+    for (const userToken of userTokens) {
+      if (
+        userToken.watchExpiration &&
+        Number(userToken.watchExpiration) > renewBefore
+      ) {
+        continue;
+      }
+
+      try {
+        const { expiration } = await this.gmailService.watchMailbox(
+          userToken.userId,
+          topicName,
+        );
+        await this.userTokenRepository.update(
+          { userId: userToken.userId },
+          { watchExpiration: expiration },
+        );
+      } catch (error) {
+        this.logger.error(
+          `Failed to renew Gmail watch for ${userToken.userId}:`,
+          error,
+        );
+      }
+    }
+  }
+
+  /** Stops pushes for an account that is logging out. */
+  private async stopWatch(accountId: string): Promise<void> {
+    const userToken = await this.userTokenRepository.findOne({
+      where: { userId: accountId },
+    });
+    if (!userToken?.watchExpiration) return;
+
+    await this.gmailService.stopWatch(accountId);
+  }
+
+  private queueScan(accountId: string): void {
+    if (this.activeScans.has(accountId)) {
+      this.activeScans.set(accountId, true);
+      return;
+    }
+
+    this.activeScans.set(accountId, false);
+    void this.runQueuedScans(accountId);
+  }
+
+  private async runQueuedScans(accountId: string): Promise<void> {
+    let retries = 0;
+    try {
+      do {
+        this.activeScans.set(accountId, false);
+
+        if (await this.scannerService.isScanRunning(accountId)) {
+          if (retries++ >= MAX_BUSY_RETRIES) {
+            this.logger.warn(
+              `Dropping push scan for ${accountId}: the running scan has not finished`,
+            );
+            break;
+          }
+          // The running scan may have read the mailbox before this push's
+          // messages arrived, so scan again once it is done.
+          this.logger.log(
+            `Push scan for ${accountId} waits for the scan already running`,
+          );
+          await new Promise((resolve) => setTimeout(resolve, BUSY_RETRY_MS));
+          this.activeScans.set(accountId, true);
+          continue;
+        }
+
+        retries = 0;
+        await this.scannerService.scanAndProcess({ accountId });
+      } while (this.activeScans.get(accountId));
+    } catch (error) {
+      this.logger.error(`Push-triggered scan for ${accountId} failed:`, error);
+    } finally {
+      this.activeScans.delete(accountId);
+    }
+  }
+}
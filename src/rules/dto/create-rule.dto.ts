@@ -0,0 +1,56 @@
+import {
+  IsBoolean,
+  IsEmail,
+  IsInt,
+  IsOptional,
+  IsString,
+  Matches,
+  MaxLength,
+} from 'class-validator';
+
+// Categories become Drive folder and sheet tab names, so keep them to
+// characters both accept.
+export const CATEGORY_PATTERN = /^[\w][\w &-]{0,49}$/;
+
+export class CreateRuleDto {
+  @IsOptional()
+  @IsEmail()
+  accountId?: string | null;
+
+  @IsString()
+  @MaxLength(100)
+  name: string;
+
+  @Matches(CATEGORY_PATTERN, {
+    message: 'category must be 1-50 letters, digits, spaces, "&", "-" or "_"',
+  })
+  category: string;
+
+  @IsOptional()
+  @IsInt()
+  priority?: number;
+
+  @IsOptional()
+  @IsBoolean()
+  enabled?: boolean;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(253)
+  senderDomain?: string | null;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  subjectPattern?: string | null;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  filenamePattern?: string | null;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  mimeType?: string | null;
+}
@@ -0,0 +1,3 @@
+export { CreateRuleDto } from './create-rule.dto';
+export { RuleDto } from './rule.dto';
+export { UpdateRuleDto } from './update-rule.dto';
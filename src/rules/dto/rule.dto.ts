@@ -0,0 +1,33 @@
+import { ClassificationRule } from '../../entities';
+
+export class RuleDto {
+  id: string;
+  accountId: string | null;
+  name: string;
+  category: string;
+  priority: number;
+  enabled: boolean;
+  senderDomain: string | null;
+  subjectPattern: string | null;
+  filenamePattern: string | null;
+  mimeType: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+
+  static fromEntity(rule: ClassificationRule): RuleDto {
+    return {
+      id: rule.id,
+      accountId: rule.accountId,
+      name: rule.name,
+      category: rule.category,
+      priority: rule.priority,
+      enabled: rule.enabled,
+      senderDomain: rule.senderDomain,
+      subjectPattern: rule.subjectPattern,
+      filenamePattern: rule.filenamePattern,
+      mimeType: rule.mimeType,
+      createdAt: rule.createdAt,
+      updatedAt: rule.updatedAt,
+    };
+  }
+}
@@ -0,0 +1,50 @@
+import {
+  IsBoolean,
+  IsInt,
+  IsOptional,
+  IsString,
+  Matches,
+  MaxLength,
+} from 'class-validator';
+import { CATEGORY_PATTERN } from './create-rule.dto';
+
+export class UpdateRuleDto {
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  name?: string;
+
+  @IsOptional()
+  @Matches(CATEGORY_PATTERN, {
+    message: 'category must be 1-50 letters, digits, spaces, "&", "-" or "_"',
+  })
+  category?: string;
+
+  @IsOptional()
+  @IsInt()
+  priority?: number;
+
+  @IsOptional()
+  @IsBoolean()
+  enabled?: boolean;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(253)
+  senderDomain?: string | null;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  subjectPattern?: string | null;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  filenamePattern?: string | null;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  mimeType?: string | null;
+}
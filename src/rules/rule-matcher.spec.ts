@@ -0,0 +1,76 @@
+import {
+  ClassificationInput,
+  extractDomain,
+  globToRegExp,
+  matchesRule,
+} from './rule-matcher';
+
+const noConditions = {
+  senderDomain: null,
+  subjectPattern: null,
+  filenamePattern: null,
+  mimeType: null,
+};
+
+const input: ClassificationInput = {
+  senderEmail: 'Acme Billing <billing@mail.acme.com>',
+  subject: 'Your AWS invoice for March',
+  filename: 'Invoice-2024-03.PDF',
+  mimeType: 'application/pdf',
+};
+
+describe('matchesRule', () => {
+  it('should never match a rule without conditions', () => {
+    expect(matchesRule(noConditions, input)).toBe(false);
+  });
+
+  it('should match the sender domain and its subdomains', () => {
+    expect(
+      matchesRule({ ...noConditions, senderDomain: 'acme.com' }, input),
+    ).toBe(true);
+    expect(
+      matchesRule({ ...noConditions, senderDomain: 'me.com' }, input),
+    ).toBe(false);
+  });
+
+  it('should match subject patterns case-insensitively', () => {
+    expect(
+      matchesRule({ ...noConditions, subjectPattern: 'aws|gcp' }, input),
+    ).toBe(true);
+  });
+
+  it('should match filename globs and MIME wildcards', () => {
+    expect(
+      matchesRule({ ...noConditions, filenamePattern: 'invoice-*.pdf' }, input),
+    ).toBe(true);
+    expect(
+      matchesRule({ ...noConditions, mimeType: 'application/*' }, input),
+    ).toBe(true);
+    expect(matchesRule({ ...noConditions, mimeType: 'image/*' }, input)).toBe(
+      false,
+    );
+  });
+
+  it('should require every condition to match', () => {
+    expect(
+      matchesRule(
+        { ...noConditions, senderDomain: 'acme.com', mimeType: 'image/*' },
+        input,
+      ),
+    ).toBe(false);
+  });
+});
+
+describe('extractDomain', () => {
+  it('should read the address out of a display-name header', () => {
+    expect(extractDomain('"Doe, Jane" <Jane@Example.ORG>')).toBe('example.org');
+    expect(extractDomain('not an address')).toBeNull();
+  });
+});
+
+describe('globToRegExp', () => {
+  it('should treat regex characters in the pattern literally', () => {
+    expect(globToRegExp('bill(1).pdf').test('bill(1).pdf')).toBe(true);
+    expect(globToRegExp('bill(1).pdf').test('bill1Xpdf')).toBe(false);
+  });
+});
@@ -0,0 +1,73 @@
+import { ClassificationRule } from '../entities';
+
+export interface ClassificationInput {
+  senderEmail: string;
+  subject: string;
+  filename: string;
+  mimeType: string;
+}
+
+type RuleConditions = Pick<
+  ClassificationRule,
+  'senderDomain' | 'subjectPattern' | 'filenamePattern' | 'mimeType'
+>;
+
+/**
+ * True when every condition set on the rule holds for the attachment. A rule
+ * with no conditions never matches, so an empty rule cannot swallow every
+ * document.
+ */
+export function matchesRule(
+  rule: RuleConditions,
+  input: ClassificationInput,
+): boolean {
+  const { senderDomain, subjectPattern, filenamePattern, mimeType } = rule;
+  if (!senderDomain && !subjectPattern && !filenamePattern && !mimeType) {
+    return false;
+  }
+
+  if (senderDomain && !matchesDomain(senderDomain, input.senderEmail)) {
+    return false;
+  }
+  if (subjectPattern && !new RegExp(subjectPattern, 'i').test(input.subject)) {
+    return false;
+  }
+  if (filenamePattern && !globToRegExp(filenamePattern).test(input.filename)) {
+    return false;
+  }
+  if (mimeType && !globToRegExp(mimeType).test(input.mimeType)) {
+    return false;
+  }
+  return true;
+}
+
+/** Matches the domain itself and any of its subdomains. */
+export function matchesDomain(domain: string, senderEmail: string): boolean {
+  const senderDomain = extractDomain(senderEmail);
+  if (!senderDomain) return false;
+
+  const expected = domain.toLowerCase().replace(/^@/, '');
+  return senderDomain === expected || senderDomain.endsWith(`.${expected}`);
+}
+
+export function extractDomain(senderEmail: string): string | null {
+  const address = senderEmail.match(/<([^>]+)>/)?.[1] ?? senderEmail;
+  const at = address.lastIndexOf('@');
+  if (at === -1) return null;
+  return address
+    .slice(at + 1)
+    .trim()
+    .toLowerCase();
+}
+
+/**
+ * Supports `*` and `?` wildcards, compared case-insensitively. Used for
+ * filenames (`*.pdf`) and MIME types (`image/*`).
+ */
+export function globToRegExp(pattern: string): RegExp {
+  const source = pattern
+    .replace(/[.+^${}()|[\]\\]/g, '\\$&')
+    .replace(/\*/g, '.*')
+    .replace(/\?/g, '.');
+  return new RegExp(`^${source}$`, 'i');
+}
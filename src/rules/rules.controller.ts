@@ -0,0 +1,56 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseUUIDPipe,
+  Patch,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { AuthGuard } from '../auth/auth.guard';
+import { AccountQueryDto } from '../common/dto/account-query.dto';
+import { RulesService } from './rules.service';
+import { CreateRuleDto, RuleDto, UpdateRuleDto } from './dto';
+
+@Controller('rules')
+@UseGuards(AuthGuard)
+export class RulesController {
+  constructor(private readonly rulesService: RulesService) {}
+
+  @Get()
+  async findAll(@Query() query: AccountQueryDto): Promise<RuleDto[]> {
+    const rules = await this.rulesService.findAll(query.accountId);
+    return rules.map((rule) => RuleDto.fromEntity(rule));
+  }
+
+  @Get(':id')
+  async findOne(
+    @Param('id', new ParseUUIDPipe()) id: string,
+  ): Promise<RuleDto> {
+    return RuleDto.fromEntity(await this.rulesService.findOne(id));
+  }
+
+  @Post()
+  async create(@Body() body: CreateRuleDto): Promise<RuleDto> {
+    return RuleDto.fromEntity(await this.rulesService.create(body));
+  }
+
+  @Patch(':id')
+  async update(
+    @Param('id', new ParseUUIDPipe()) id: string,
+    @Body() body: UpdateRuleDto,
+  ): Promise<RuleDto> {
+    return RuleDto.fromEntity(await this.rulesService.update(id, body));
+  }
+
+  @Delete(':id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async remove(@Param('id', new ParseUUIDPipe()) id: string): Promise<void> {
+    await this.rulesService.remove(id);
+  }
+}
@@ -0,0 +1,125 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { IsNull, Repository } from 'typeorm';
+import { ClassificationRule } from '../entities';
+import { CreateRuleDto, UpdateRuleDto } from './dto';
+import { ClassificationInput, matchesRule } from './rule-matcher';
+
+@Injectable()
+export class RulesService {
+  private readonly logger = new Logger(RulesService.name);
+
+  constructor(
+    @InjectRepository(ClassificationRule)
+    private ruleRepository: Repository<ClassificationRule>,
+  ) {}
+
+  /**
+   * Lists the rules that apply to an account, including global ones, or
+   * every rule when no account is given. Rules are returned in the order
+   * they are evaluated.
+   */
+  async findAll(accountId?: string): Promise<ClassificationRule[]> {
+    return this.ruleRepository.find({
+      where: accountId ? [{ accountId }, { accountId: IsNull() }] : undefined,
+      order: { priority: 'DESC', createdAt: 'ASC' },
+    });
+  }
+
+  async findOne(id: string): Promise<ClassificationRule> {
+    const rule = await this.ruleRepository.findOne({ where: { id } });
+    if (!rule) {
+      throw new NotFoundException(`Rule ${id} not found`);
+    }
+    return rule;
+  }
+
+  async create(dto: CreateRuleDto): Promise<ClassificationRule> {
+    const rule = this.ruleRepository.create({
+      accountId: dto.accountId ?? null,
+      name: dto.name,
+      category: dto.category,
+      priority: dto.priority ?? 0,
+      enabled: dto.enabled ?? true,
+      senderDomain: dto.senderDomain ?? null,
+      subjectPattern: dto.subjectPattern ?? null,
+      filenamePattern: dto.filenamePattern ?? null,
+      mimeType: dto.mimeType ?? null,
+    });
+    this.validate(rule);
+    return this.ruleRepository.save(rule);
+  }
+
+  async update(id: string, dto: UpdateRuleDto): Promise<ClassificationRule> {
+    const rule = await this.findOne(id);
+    Object.assign(rule, dto);
+    this.validate(rule);
+    return this.ruleRepository.save(rule);
+  }
+
+  async remove(id: string): Promise<void> {
+    const rule = await this.findOne(id);
+    await this.ruleRepository.remove(rule);
+  }
+
+  /**
+   * Returns the category of the first enabled rule that matches, trying
+   * higher priorities first and older rules before newer ones on a tie.
+   */
+  async classify(
+    accountId: string,
+    input: ClassificationInput,
+  ): Promise<string | null> {
+    const rules = await this.ruleRepository.find({
+      where: [
+        { accountId, enabled: true },
+        { accountId: IsNull(), enabled: true },
+      ],
+      order: { priority: 'DESC', createdAt: 'ASC' },
+    });
+
+    for (const rule of rules) {
+      try {
+        if (matchesRule(rule, input)) {
+          this.logger.log(
+            `Rule "${rule.name}" classified ${input.filename} as ${rule.category}`,
+          );
+          return rule.category;
+        }
+      } catch (error) {
+        this.logger.warn(
+          `Skipping rule ${rule.id}: ${error instanceof Error ? error.message : String(error)}`,
+        );
+      }
+    }
+    return null;
+  }
+
+  private validate(rule: ClassificationRule): void {
+    if (
+      !rule.senderDomain &&
+      !rule.subjectPattern &&
+      !rule.filenamePattern &&
+      !rule.mimeType
+    ) {
+      throw new BadRequestException(
+        'A rule needs at least one of senderDomain, subjectPattern, filenamePattern or mimeType',
+      );
+    }
+
+    if (rule.subjectPattern) {
+      try {
+        new RegExp(rule.subjectPattern, 'i');
+      } catch (error) {
+        throw new BadRequestException(
+          `Invalid subject pattern: ${error instanceof Error ? error.message : String(error)}`,
+        );
+      }
+    }
+  }
+}
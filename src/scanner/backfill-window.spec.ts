@@ -0,0 +1,41 @@
+import { splitIntoMonths } from './backfill-window';
+
+describe('splitIntoMonths', () => {
+  const bounds = (from: string, to: string) =>
+    splitIntoMonths(from, to).map((window) => [window.from, window.to]);
+
+  it('should cut the first and last months to the range', () => {
+    expect(bounds('2023-11-15', '2024-02-10')).toEqual([
+      ['2023-11-15', '2023-12-01'],
+      ['2023-12-01', '2024-01-01'],
+      ['2024-01-01', '2024-02-01'],
+      ['2024-02-01', '2024-02-11'],
+    ]);
+  });
+
+  it('should include the last day of a month-end range', () => {
+    expect(bounds('2024-02-01', '2024-02-29')).toEqual([
+      ['2024-02-01', '2024-03-01'],
+    ]);
+  });
+
+  it('should cover a single day', () => {
+    expect(bounds('2024-03-05', '2024-03-05')).toEqual([
+      ['2024-03-05', '2024-03-06'],
+    ]);
+  });
+
+  it('should start every window pending', () => {
+    expect(splitIntoMonths('2024-01-01', '2024-01-31')).toEqual([
+      {
+        from: '2024-01-01',
+        to: '2024-02-01',
+        status: 'pending',
+        emailsProcessed: 0,
+        documentsProcessed: 0,
+        errorsCount: 0,
+        completedAt: null,
+      },
+    ]);
+  });
+});
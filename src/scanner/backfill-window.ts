@@ -0,0 +1,51 @@
+import { BackfillWindow } from '../entities';
+
+/**
+ * Splits the days from `from` to `to`, both included and `YYYY-MM-DD`, into
+ * calendar months, oldest first. The first and last windows are cut short
+ * to the range; each window's `to` is the day after its last.
+ */
+export function splitIntoMonths(from: string, to: string): BackfillWindow[] {
+  const end = addDays(toDate(to), 1);
+  const windows: BackfillWindow[] = [];
+
+  for (let start = toDate(from); start < end; ) {
+    const nextMonth = new Date(
+      Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + 1, 1),
+    );
+    const windowEnd = nextMonth < end ? nextMonth : end;
+    windows.push({
+      from: toIsoDate(start),
+      to: toIsoDate(windowEnd),
+      status: 'pending',
+      emailsProcessed: 0,
+      documentsProcessed: 0,
+      errorsCount: 0,
+      completedAt: null,
+    });
+    start = windowEnd;
+  }
+  return windows;
+}
+
+export const DAY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/** Whether `day` is a real calendar day written as `YYYY-MM-DD`. */
+export function isCalendarDay(day: string): boolean {
+  if (!DAY_PATTERN.test(day)) return false;
+  const date = toDate(day);
+  return !isNaN(date.getTime()) && toIsoDate(date) === day;
+}
+
+/** Midnight UTC at the start of a `YYYY-MM-DD` day. */
+export function toDate(day: string): Date {
+  return new Date(`${day}T00:00:00Z`);
+}
+
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getTime() + days * 24 * 60 * 60 * 1000);
+}
+
+function toIsoDate(date: Date): string {
+  return date.toISOString().substring(0, 10);
+}
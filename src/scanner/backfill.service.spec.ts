@@ -0,0 +1,234 @@
+import { BadRequestException, ConflictException } from '@nestjs/common';
+import { Not, Repository } from 'typeorm';
+import { BackfillJob } from '../entities';
+import { splitIntoMonths } from './backfill-window';
+import { BackfillService } from './backfill.service';
+import { ScannerService } from './scanner.service';
+
+const ACCOUNT = 'me@example.com';
+
+function backfillJob(from: string, to: string): BackfillJob {
+  return {
+    id: 'job-1',
+    accountId: ACCOUNT,
+    from,
+    to,
+    status: 'running',
+    windows: splitIntoMonths(from, to),
+    errorDetails: null,
+  } as BackfillJob;
+}
+
+describe('BackfillService', () => {
+  const scannerService = {
+    scanAndProcess: jest.fn(),
+    isScanRunning: jest.fn(),
+  };
+  let savedStatuses: string[][];
+  const backfillJobRepository = {
+    create: jest.fn((job: Partial<BackfillJob>) => job),
+    save: jest.fn((job: BackfillJob) => {
+      savedStatuses.push(job.windows.map((window) => window.status));
+      return Promise.resolve(job);
+    }),
+    find: jest.fn(),
+    findOne: jest.fn(),
+  };
+  let backfillService: BackfillService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    savedStatuses = [];
+    scannerService.isScanRunning.mockResolvedValue(false);
+    scannerService.scanAndProcess.mockResolvedValue([
+      {
+        accountId: ACCOUNT,
+        processed: 2,
+        emailFailures: 0,
+        errors: [],
+        details: [{}],
+      },
+    ]);
+    backfillService = new BackfillService(
+      scannerService as unknown as ScannerService,
+      backfillJobRepository as unknown as Repository<BackfillJob>,
+    );
+  });
+
+  describe('run', () => {
+    it('should scan each month in order and save it as a checkpoint', async () => {
+      const job = await backfillService.run(
+        backfillJob('2024-01-15', '2024-03-10'),
+      );
+
+      expect(
+        scannerService.scanAndProcess.mock.calls.map(
+          ([options]: [{ range: { from: Date; to: Date } }]) => [
+            options.range.from.toISOString(),
+            options.range.to.toISOString(),
+          ],
+        ),
+      ).toEqual([
+        ['2024-01-15T00:00:00.000Z', '2024-02-01T00:00:00.000Z'],
+        ['2024-02-01T00:00:00.000Z', '2024-03-01T00:00:00.000Z'],
+        ['2024-03-01T00:00:00.000Z', '2024-03-11T00:00:00.000Z'],
+      ]);
+      expect(savedStatuses.slice(0, 3)).toEqual([
+        ['running', 'pending', 'pending'],
+        ['completed', 'pending', 'pending'],
+        ['completed', 'running', 'pending'],
+      ]);
+      expect(job.status).toBe('completed');
+      expect(job.windows[0]).toMatchObject({
+        emailsProcessed: 2,
+        documentsProcessed: 1,
+        errorsCount: 0,
+      });
+    });
+
+    it('should stop at a failing window and resume from it', async () => {
+      scannerService.scanAndProcess
+        .mockResolvedValueOnce([
+          {
+            accountId: ACCOUNT,
+            processed: 1,
+            emailFailures: 0,
+            errors: [],
+            details: [],
+          },
+        ])
+        .mockRejectedValueOnce(new Error('Scan process failed: token revoked'));
+
+      const job = await backfillService.run(
+        backfillJob('2024-01-01', '2024-03-31'),
+      );
+
+      expect(job.status).toBe('failed');
+      expect(job.errorDetails).toBe(
+        'Window 2024-02-01 to 2024-03-01: Scan process failed: token revoked',
+      );
+      expect(job.windows.map((window) => window.status)).toEqual([
+        'completed',
+        'failed',
+        'pending',
+      ]);
+
+      backfillJobRepository.findOne
+        .mockResolvedValueOnce(job)
+        .mockResolvedValueOnce(null);
+      scannerService.scanAndProcess.mockClear();
+      await backfillService.resume('job-1');
+      await new Promise((resolve) => setImmediate(resolve));
+
+      expect(scannerService.scanAndProcess).toHaveBeenCalledTimes(2);
+      expect(job.status).toBe('completed');
+    });
+
+    it('should leave a window with unreadable emails for a resume', async () => {
+      scannerService.scanAndProcess.mockResolvedValueOnce([
+        {
+          accountId: ACCOUNT,
+          processed: 3,
+          emailFailures: 1,
+          errors: ['Email m7: Gmail unavailable'],
+          details: [],
+        },
+      ]);
+
+      const job = await backfillService.run(
+        backfillJob('2024-01-01', '2024-02-29'),
+      );
+
+      expect(job.windows.map((window) => window.status)).toEqual([
+        'failed',
+        'completed',
+      ]);
+      expect(job.status).toBe('failed');
+      expect(job.errorDetails).toBe(
+        'Emails could not be read in 2024-01-01 to 2024-02-01',
+      );
+
+      backfillJobRepository.findOne
+        .mockResolvedValueOnce(job)
+        .mockResolvedValueOnce(null);
+      scannerService.scanAndProcess.mockClear();
+      await backfillService.resume('job-1');
+      await new Promise((resolve) => setImmediate(resolve));
+
+      expect(scannerService.scanAndProcess).toHaveBeenCalledTimes(1);
+      expect(job.status).toBe('completed');
+    });
+
+    it('should wait for a scan already under way', async () => {
+      jest.useFakeTimers();
+      try {
+        scannerService.isScanRunning
+          .mockResolvedValueOnce(true)
+          .mockResolvedValue(false);
+
+        const run = backfillService.run(
+          backfillJob('2024-01-01', '2024-01-31'),
+        );
+        await jest.advanceTimersByTimeAsync(0);
+        expect(scannerService.scanAndProcess).not.toHaveBeenCalled();
+
+        await jest.advanceTimersByTimeAsync(30 * 1000);
+        await expect(run).resolves.toMatchObject({ status: 'completed' });
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+  });
+
+  describe('resume', () => {
+    it('should refuse while another job runs for the account', async () => {
+      const failed = { ...backfillJob('2024-01-01', '2024-03-31') };
+      failed.status = 'failed';
+      backfillJobRepository.findOne
+        .mockResolvedValueOnce(failed)
+        .mockResolvedValueOnce({
+          ...backfillJob('2023-01-01', '2023-12-31'),
+          id: 'job-2',
+        });
+
+      await expect(backfillService.resume('job-1')).rejects.toThrow(
+        ConflictException,
+      );
+      expect(backfillJobRepository.findOne).toHaveBeenLastCalledWith({
+        where: { accountId: ACCOUNT, status: 'running', id: Not('job-1') },
+      });
+      expect(scannerService.scanAndProcess).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('start', () => {
+    it('should refuse a second job for an account with one running', async () => {
+      backfillJobRepository.findOne.mockResolvedValue(
+        backfillJob('2023-01-01', '2023-12-31'),
+      );
+
+      await expect(
+        backfillService.start(ACCOUNT, '2024-01-01', '2024-06-30'),
+      ).rejects.toThrow(ConflictException);
+      expect(backfillJobRepository.save).not.toHaveBeenCalled();
+    });
+
+    it.each([
+      ['2024-01-15T10:00:00Z', '2024-02-01'],
+      ['20240115', '2024-02-01'],
+      ['2024-01', '2024-02-01'],
+      ['2024-02-30', '2024-03-31'],
+    ])('should refuse %s as a day', async (from, to) => {
+      await expect(backfillService.start(ACCOUNT, from, to)).rejects.toThrow(
+        BadRequestException,
+      );
+      expect(backfillJobRepository.save).not.toHaveBeenCalled();
+    });
+
+    it('should refuse a range that ends before it starts', async () => {
+      await expect(
+        backfillService.start(ACCOUNT, '2024-06-30', '2024-01-01'),
+      ).rejects.toThrow(BadRequestException);
+    });
+  });
+});
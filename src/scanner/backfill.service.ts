@@ -0,0 +1,219 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Not, Repository } from 'typeorm';
+import { BackfillJob } from '../entities';
+import { isCalendarDay, splitIntoMonths, toDate } from './backfill-window';
+import { ScannerService } from './scanner.service';
+
+// How often a window waiting on another scan checks again.
+const IDLE_POLL_MS = 30 * 1000;
+
+/**
+ * Imports an account's older emails a month at a time. Every window is
+ * saved as it finishes, so a job stopped by a restart or a failure picks up
+ * at the windows not yet completed. Emails already processed are skipped
+ * by the scan itself, so re-running a window is harmless.
+ */
+@Injectable()
+export class BackfillService {
+  private readonly logger = new Logger(BackfillService.name);
+  private readonly activeJobs = new Set<string>();
+
+  constructor(
+    private scannerService: ScannerService,
+    @InjectRepository(BackfillJob)
+    private backfillJobRepository: Repository<BackfillJob>,
+  ) {}
+
+  /** Creates a job for the days `from` to `to`, both included, and starts it. */
+  async start(
+    accountId: string,
+    from: string,
+    to: string,
+  ): Promise<BackfillJob> {
+    if (!isCalendarDay(from) || !isCalendarDay(to)) {
+      throw new BadRequestException(
+        'The backfill range must be given as YYYY-MM-DD days',
+      );
+    }
+    if (from > to) {
+      throw new BadRequestException(
+        'The backfill must start on or before its last day',
+      );
+    }
+    const windows = splitIntoMonths(from, to);
+    if (windows.length === 0) {
+      throw new BadRequestException('The backfill range covers no days');
+    }
+
+    await this.assertNoneRunning(accountId);
+
+    const job = await this.backfillJobRepository.save(
+      this.backfillJobRepository.create({
+        accountId,
+        from,
+        to,
+        status: 'running',
+        windows,
+        errorDetails: null,
+        completedAt: null,
+      }),
+    );
+    this.logger.log(
+      `Starting backfill ${job.id} for ${accountId} from ${from} to ${to} in ${job.windows.length} windows`,
+    );
+    this.launch(job);
+    return job;
+  }
+
+  /** Restarts a failed job from the window it stopped at. */
+  async resume(id: string): Promise<BackfillJob> {
+    const job = await this.backfillJobRepository.findOne({ where: { id } });
+    if (!job) {
+      throw new NotFoundException(`Backfill ${id} not found`);
+    }
+    if (job.status === 'completed') {
+      throw new BadRequestException(`Backfill ${id} is already complete`);
+    }
+    if (this.activeJobs.has(id)) return job;
+    await this.assertNoneRunning(job.accountId, id);
+
+    job.status = 'running';
+    job.errorDetails = null;
+    job.completedAt = null;
+    await this.backfillJobRepository.save(job);
+    this.launch(job);
+    return job;
+  }
+
+  /**
+   * Picks up jobs a restart interrupted. Only safe to call on boot, once
+   * interrupted scans were recovered, or their windows would wait on scans
+   * that are no longer running.
+   */
+  async resumeInterrupted(): Promise<number> {
+    const jobs = await this.backfillJobRepository.find({
+      where: { status: 'running' },
+      order: { createdAt: 'ASC' },
+    });
+    for (const job of jobs) {
+      this.logger.log(`Resuming backfill ${job.id} for ${job.accountId}`);
+      this.launch(job);
+    }
+    return jobs.length;
+  }
+
+  async getJobs(accountId?: string): Promise<BackfillJob[]> {
+    return this.backfillJobRepository.find({
+      where: { accountId },
+      order: { createdAt: 'DESC' },
+    });
+  }
+
+  async getJob(id: string): Promise<BackfillJob | null> {
+    return this.backfillJobRepository.findOne({ where: { id } });
+  }
+
+  /**
+   * Scans the job's remaining windows in order. A window with emails that
+   * could not be read is left failed, since nothing else brings them back,
+   * and the job fails once the others are done so a resume retries it.
+   * Failed attachments go to the retry queue like in any other scan. A
+   * window whose scan fails outright stops the job there.
+   */
+  async run(job: BackfillJob): Promise<BackfillJob> {
+    if (this.activeJobs.has(job.id)) return job;
+    this.activeJobs.add(job.id);
+
+    try {
+      for (const [index, window] of job.windows.entries()) {
+        if (window.status === 'completed') continue;
+
+        await this.waitForIdle(job.accountId);
+        window.status = 'running';
+        await this.backfillJobRepository.save(job);
+
+        try {
+          const [result] = await this.scannerService.scanAndProcess({
+            accountId: job.accountId,
+            range: { from: toDate(window.from), to: toDate(window.to) },
+          });
+          window.status = result.emailFailures > 0 ? 'failed' : 'completed';
+          window.emailsProcessed = result.processed;
+          window.documentsProcessed = result.details.length;
+          window.errorsCount = result.errors.length;
+          window.completedAt = new Date().toISOString();
+          await this.backfillJobRepository.save(job);
+
+          this.logger.log(
+            `Backfill ${job.id}: window ${index + 1}/${job.windows.length} (${window.from} to ${window.to}) done, ${result.processed} emails processed, ${result.emailFailures} unreadable`,
+          );
+        } catch (error) {
+          const errorMessage =
+            error instanceof Error ? error.message : String(error);
+          this.logger.error(
+            `Backfill ${job.id} failed at ${window.from}: ${errorMessage}`,
+          );
+
+          window.status = 'failed';
+          job.status = 'failed';
+          job.errorDetails = `Window ${window.from} to ${window.to}: ${errorMessage}`;
+          job.completedAt = new Date();
+          return await this.backfillJobRepository.save(job);
+        }
+      }
+
+      const failed = job.windows.filter((window) => window.status === 'failed');
+      job.status = failed.length > 0 ? 'failed' : 'completed';
+      job.errorDetails =
+        failed.length > 0
+          ? `Emails could not be read in ${failed.map((window) => `${window.from} to ${window.to}`).join(', ')}`
+          : null;
+      job.completedAt = new Date();
+      this.logger.log(`Backfill ${job.id} for ${job.accountId} ${job.status}`);
+      return await this.backfillJobRepository.save(job);
+    } finally {
+      this.activeJobs.delete(job.id);
+    }
+  }
+
+  /** Two jobs walking one mailbox at once would race on every email. */
+  private async assertNoneRunning(
+    accountId: string,
+    exceptId?: string,
+  ): Promise<void> {
+    const running = await this.backfillJobRepository.findOne({
+      where: {
+        accountId,
+        status: 'running',
+        id: exceptId ? Not(exceptId) : undefined,
+      },
+    });
+    if (running) {
+      throw new ConflictException(
+        `Backfill ${running.id} is still running for ${accountId}`,
+      );
+    }
+  }
+
+  private launch(job: BackfillJob): void {
+    this.run(job).catch((error) =>
+      this.logger.error(`Backfill ${job.id} stopped:`, error),
+    );
+  }
+
+  // Scheduled scans skip while a window is being scanned, and a window in
+  // turn waits out a scan already under way, so the two never file the
+  // same email twice.
+  private async waitForIdle(accountId: string): Promise<void> {
+    while (await this.scannerService.isScanRunning(accountId)) {
+      await new Promise((resolve) => setTimeout(resolve, IDLE_POLL_MS));
+    }
+  }
+}
@@ -0,0 +1,35 @@
+import { AttachmentState } from '../../entities';
+
+export class AttachmentStateDto {
+  id: string;
+  accountId: string;
+  emailId: string;
+  partId: string;
+  filename: string;
+  stage: string;
+  status: string;
+  attempts: number;
+  lastError: string | null;
+  nextRetryAt: Date | null;
+  driveFileId: string | null;
+  documentId: string | null;
+  updatedAt: Date;
+
+  static fromEntity(state: AttachmentState): AttachmentStateDto {
+    return {
+      id: state.id,
+      accountId: state.accountId,
+      emailId: state.emailId,
+      partId: state.partId,
+      filename: state.filename,
+      stage: state.stage,
+      status: state.status,
+      attempts: state.attempts,
+      lastError: state.lastError,
+      nextRetryAt: state.nextRetryAt,
+      driveFileId: state.driveFileId,
+      documentId: state.documentId,
+      updatedAt: state.updatedAt,
+    };
+  }
+}
@@ -0,0 +1,80 @@
+import { IsEmail, IsISO8601, Matches } from 'class-validator';
+import { BackfillJob } from '../../entities';
+import { DAY_PATTERN } from '../backfill-window';
+import type {
+  BackfillStatus,
+  BackfillWindow,
+  BackfillWindowStatus,
+} from '../../entities';
+
+export class CreateBackfillDto {
+  @IsEmail()
+  accountId: string;
+
+  /** First day to import, as `YYYY-MM-DD`. */
+  @Matches(DAY_PATTERN, { message: 'from must be a YYYY-MM-DD day' })
+  @IsISO8601({ strict: true })
+  from: string;
+
+  /** Last day to import, included, as `YYYY-MM-DD`. */
+  @Matches(DAY_PATTERN, { message: 'to must be a YYYY-MM-DD day' })
+  @IsISO8601({ strict: true })
+  to: string;
+}
+
+export class BackfillWindowDto {
+  from: string;
+  to: string;
+  status: BackfillWindowStatus;
+  emailsProcessed: number;
+  documentsProcessed: number;
+  errorsCount: number;
+  completedAt: string | null;
+
+  static fromWindow(window: BackfillWindow): BackfillWindowDto {
+    return { ...window };
+  }
+}
+
+export class BackfillJobDto {
+  id: string;
+  accountId: string;
+  from: string;
+  to: string;
+  status: BackfillStatus;
+  windowsCompleted: number;
+  windowsTotal: number;
+  emailsProcessed: number;
+  documentsProcessed: number;
+  errorsCount: number;
+  windows: BackfillWindowDto[];
+  errorDetails: string | null;
+  createdAt: Date;
+  completedAt: Date | null;
+
+  static fromEntity(job: BackfillJob): BackfillJobDto {
+    const total = (
+      key: 'emailsProcessed' | 'documentsProcessed' | 'errorsCount',
+    ) => job.windows.reduce((sum, window) => sum + window[key], 0);
+    return {
+      id: job.id,
+      accountId: job.accountId,
+      from: job.from,
+      to: job.to,
+      status: job.status,
+      windowsCompleted: job.windows.filter(
+        (window) => window.status === 'completed',
+      ).length,
+      windowsTotal: job.windows.length,
+      emailsProcessed: total('emailsProcessed'),
+      documentsProcessed: total('documentsProcessed'),
+      errorsCount: total('errorsCount'),
+      windows: job.windows.map((window) =>
+        BackfillWindowDto.fromWindow(window),
+      ),
+      errorDetails: job.errorDetails,
+      createdAt: job.createdAt,
+      completedAt: job.completedAt,
+    };
+  }
+}
@@ -0,0 +1,90 @@
+import { EInvoiceLineItem } from '../../common/interfaces/extraction.interface';
+import { ProcessedDocument } from '../../entities';
+
+export class DocumentDto {
+  id: string;
+  accountId: string;
+  emailId: string;
+  senderEmail: string;
+  senderName: string;
+  forwardedBy: string | null;
+  vendorId: string | null;
+  vendorName: string | null;
+  subject: string;
+  invoiceNumber: string | null;
+  emailDate: Date;
+  fileName: string;
+  originalFileName: string;
+  source: string;
+  parentDocumentId: string | null;
+  driveFileId: string;
+  driveFileUrl: string;
+  spreadsheetId: string;
+  spreadsheetRow: number | null;
+  fileSize: string;
+  mimeType: string;
+  contentHash: string | null;
+  duplicateOfId: string | null;
+  category: string | null;
+  totalAmount: string | null;
+  netAmount: string | null;
+  taxAmount: string | null;
+  currency: string | null;
+  invoiceDate: string | null;
+  dueDate: string | null;
+  extractedVendor: string | null;
+  sellerVatId: string | null;
+  lineItems: EInvoiceLineItem[] | null;
+  eInvoiceFormat: string | null;
+  extractionConfidence: Record<string, number> | null;
+  textSource: string | null;
+  status: string;
+  paymentStatus: string | null;
+  processedAt: Date;
+  updatedAt: Date;
+
+  static fromEntity(document: ProcessedDocument): DocumentDto {
+    return {
+      id: document.id,
+      accountId: document.accountId,
+      emailId: document.emailId,
+      senderEmail: document.senderEmail,
+      senderName: document.senderName,
+      forwardedBy: document.forwardedBy,
+      vendorId: document.vendorId,
+      vendorName: document.vendorName,
+      subject: document.subject,
+      invoiceNumber: document.invoiceNumber,
+      emailDate: document.emailDate,
+      fileName: document.fileName,
+      originalFileName: document.originalFileName,
+      source: document.source,
+      parentDocumentId: document.parentDocumentId,
+      driveFileId: document.driveFileId,
+      driveFileUrl: document.driveFileUrl,
+      spreadsheetId: document.spreadsheetId,
+      spreadsheetRow: document.spreadsheetRow,
+      fileSize: document.fileSize,
+      mimeType: document.mimeType,
+      contentHash: document.contentHash,
+      duplicateOfId: document.duplicateOfId,
+      category: document.category,
+      totalAmount: document.totalAmount,
+      netAmount: document.netAmount,
+      taxAmount: document.taxAmount,
+      currency: document.currency,
+      invoiceDate: document.invoiceDate,
+      dueDate: document.dueDate,
+      extractedVendor: document.extractedVendor,
+      sellerVatId: document.sellerVatId,
+      lineItems: document.lineItems,
+      eInvoiceFormat: document.eInvoiceFormat,
+      extractionConfidence: document.extractionConfidence,
+      textSource: document.textSource,
+      status: document.status,
+      paymentStatus: document.paymentStatus,
+      processedAt: document.processedAt,
+      updatedAt: document.updatedAt,
+    };
+  }
+}
@@ -0,0 +1,18 @@
+export { AttachmentStateDto } from './attachment-state.dto';
+export {
+  BackfillJobDto,
+  BackfillWindowDto,
+  CreateBackfillDto,
+} from './backfill.dto';
+export { DocumentDto } from './document.dto';
+export { ProcessingStatsDto } from './processing-stats.dto';
+export { RecentDocumentsQueryDto } from './recent-documents-query.dto';
+export { ScanRequestDto } from './scan-request.dto';
+export { ScanScheduleDto, UpdateScheduleDto } from './scan-schedule.dto';
+export { ScanLogDto } from './scan-log.dto';
+export {
+  AttachmentPreviewDto,
+  EmailPreviewDto,
+  ProcessedDocumentResultDto,
+  ScanResultDto,
+} from './scan-result.dto';
@@ -0,0 +1,10 @@
+import { ScanLogDto } from './scan-log.dto';
+import { ScanScheduleDto } from './scan-schedule.dto';
+
+export class ProcessingStatsDto {
+  accounts: string[];
+  totalDocuments: number;
+  uniqueSenders: number;
+  recentScans: ScanLogDto[];
+  schedules: ScanScheduleDto[];
+}
@@ -0,0 +1,30 @@
+import { ScanLog } from '../../entities';
+import type { ScanMode } from '../../entities';
+
+export class ScanLogDto {
+  id: string;
+  accountId: string;
+  status: string;
+  mode: ScanMode;
+  emailsProcessed: number;
+  documentsProcessed: number;
+  errorsCount: number;
+  errorDetails: string | null;
+  startedAt: Date;
+  completedAt: Date | null;
+
+  static fromEntity(scan: ScanLog): ScanLogDto {
+    return {
+      id: scan.id,
+      accountId: scan.accountId,
+      status: scan.status,
+      mode: scan.mode,
+      emailsProcessed: scan.emailsProcessed,
+      documentsProcessed: scan.documentsProcessed,
+      errorsCount: scan.errorsCount,
+      errorDetails: scan.errorDetails,
+      startedAt: scan.startedAt,
+      completedAt: scan.completedAt,
+    };
+  }
+}
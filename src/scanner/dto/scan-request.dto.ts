@@ -0,0 +1,9 @@
+import { IsBoolean, IsOptional } from 'class-validator';
+import { AccountQueryDto } from '../../common/dto/account-query.dto';
+
+export class ScanRequestDto extends AccountQueryDto {
+  /** Report what the scan would do without uploading, logging or labelling. */
+  @IsOptional()
+  @IsBoolean()
+  dryRun?: boolean;
+}
@@ -0,0 +1,44 @@
+import {
+  AttachmentPreview,
+  EmailPreview,
+  ProcessedDocumentResult,
+  ProcessingResult,
+} from '../../common/interfaces/processing-result.interface';
+
+export class ProcessedDocumentResultDto implements ProcessedDocumentResult {
+  emailId: string;
+  fileName: string;
+  driveFileId: string;
+  spreadsheetRow: number | null;
+  duplicateOfId: string | null;
+}
+
+export class AttachmentPreviewDto implements AttachmentPreview {
+  partId: string;
+  filename: string;
+  mimeType: string | null;
+  accepted: boolean;
+  reason: string | null;
+  duplicateOfId: string | null;
+  fileName: string | null;
+  folderPath: string | null;
+  vendor: string | null;
+  category: string | null;
+}
+
+export class EmailPreviewDto implements EmailPreview {
+  emailId: string;
+  from: string;
+  subject: string;
+  date: string;
+  attachments: AttachmentPreviewDto[];
+}
+
+export class ScanResultDto implements ProcessingResult {
+  accountId: string;
+  processed: number;
+  emailFailures: number;
+  errors: string[];
+  details: ProcessedDocumentResultDto[];
+  preview?: EmailPreviewDto[];
+}
@@ -0,0 +1,20 @@
+import { IsInt, IsOptional, IsString, Max, Min } from 'class-validator';
+
+export class ScanScheduleDto {
+  accountId: string;
+  cron: string | null;
+  intervalMinutes: number | null;
+  nextRunAt: Date | null;
+}
+
+export class UpdateScheduleDto {
+  @IsOptional()
+  @IsString()
+  cron?: string | null;
+
+  @IsOptional()
+  @IsInt()
+  @Min(5)
+  @Max(7 * 24 * 60)
+  intervalMinutes?: number | null;
+}
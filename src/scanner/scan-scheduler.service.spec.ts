@@ -0,0 +1,153 @@
+import { BadRequestException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { SchedulerRegistry } from '@nestjs/schedule';
+import { Repository } from 'typeorm';
+import { AccountListener, AuthService } from '../auth/auth.service';
+import { UserToken } from '../entities';
+import { BackfillService } from './backfill.service';
+import { ScanSchedulerService } from './scan-scheduler.service';
+import { ScannerService } from './scanner.service';
+
+function userToken(userId: string, fields: Partial<UserToken> = {}): UserToken {
+  return {
+    userId,
+    scanCron: null,
+    scanIntervalMinutes: null,
+    ...fields,
+  } as UserToken;
+}
+
+describe('ScanSchedulerService', () => {
+  const scannerService = { recoverStuckScans: jest.fn() };
+  const backfillService = { resumeInterrupted: jest.fn() };
+  const userTokenRepository = {
+    find: jest.fn(),
+    findOne: jest.fn(),
+    save: jest.fn(),
+  };
+  let config: Record<string, string>;
+  let accountListener: AccountListener | undefined;
+  let schedulerRegistry: SchedulerRegistry;
+  let scanSchedulerService: ScanSchedulerService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    config = { SCAN_DEFAULT_CRON: '0 * * * *' };
+    accountListener = undefined;
+    schedulerRegistry = new SchedulerRegistry();
+    userTokenRepository.find.mockResolvedValue([]);
+    scanSchedulerService = new ScanSchedulerService(
+      { get: (key: string) => config[key] } as unknown as ConfigService,
+      schedulerRegistry,
+      {
+        onAccountChange: (listener: AccountListener) => {
+          accountListener = listener;
+        },
+      } as unknown as AuthService,
+      scannerService as unknown as ScannerService,
+      backfillService as unknown as BackfillService,
+      userTokenRepository as unknown as Repository<UserToken>,
+    );
+  });
+
+  afterEach(() => {
+    for (const job of schedulerRegistry.getCronJobs().values()) {
+      void job.stop();
+    }
+    for (const name of schedulerRegistry.getIntervals()) {
+      schedulerRegistry.deleteInterval(name);
+    }
+  });
+
+  const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+  it('should recover interrupted work before scheduling stored accounts', async () => {
+    userTokenRepository.find.mockResolvedValue([
+      userToken('a@example.com'),
+      userToken('b@example.com', { scanIntervalMinutes: 30 }),
+    ]);
+
+    await scanSchedulerService.onApplicationBootstrap();
+
+    expect(
+      scannerService.recoverStuckScans.mock.invocationCallOrder[0],
+    ).toBeLessThan(
+      backfillService.resumeInterrupted.mock.invocationCallOrder[0],
+    );
+    expect(schedulerRegistry.doesExist('cron', 'scan:a@example.com')).toBe(
+      true,
+    );
+    expect(schedulerRegistry.doesExist('interval', 'scan:b@example.com')).toBe(
+      true,
+    );
+  });
+
+  it('should skip accounts whose cron expression is invalid', async () => {
+    config.SCAN_DEFAULT_CRON = 'every hour';
+    userTokenRepository.find.mockResolvedValue([
+      userToken('a@example.com'),
+      userToken('b@example.com', { scanCron: '0 9 * * *' }),
+    ]);
+
+    await scanSchedulerService.onApplicationBootstrap();
+
+    expect(schedulerRegistry.doesExist('cron', 'scan:a@example.com')).toBe(
+      false,
+    );
+    expect(schedulerRegistry.doesExist('cron', 'scan:b@example.com')).toBe(
+      true,
+    );
+  });
+
+  it('should schedule an account connected after boot', async () => {
+    await scanSchedulerService.onApplicationBootstrap();
+    userTokenRepository.findOne.mockResolvedValue(userToken('c@example.com'));
+
+    accountListener?.('connected', 'c@example.com');
+    await flush();
+
+    expect(schedulerRegistry.doesExist('cron', 'scan:c@example.com')).toBe(
+      true,
+    );
+  });
+
+  it('should stop scanning an account that logged out', async () => {
+    userTokenRepository.find.mockResolvedValue([userToken('a@example.com')]);
+    await scanSchedulerService.onApplicationBootstrap();
+
+    accountListener?.('disconnected', 'a@example.com');
+
+    expect(schedulerRegistry.doesExist('cron', 'scan:a@example.com')).toBe(
+      false,
+    );
+  });
+
+  it('should refuse a cron expression and an interval together', async () => {
+    await expect(
+      scanSchedulerService.updateSchedule('a@example.com', {
+        cron: '0 * * * *',
+        intervalMinutes: 30,
+      }),
+    ).rejects.toThrow(BadRequestException);
+    expect(userTokenRepository.save).not.toHaveBeenCalled();
+  });
+
+  it('should move an account from the default cron to an interval', async () => {
+    userTokenRepository.find.mockResolvedValue([userToken('a@example.com')]);
+    await scanSchedulerService.onApplicationBootstrap();
+    userTokenRepository.findOne.mockResolvedValue(userToken('a@example.com'));
+
+    const schedule = await scanSchedulerService.updateSchedule(
+      'a@example.com',
+      { intervalMinutes: 15 },
+    );
+
+    expect(schedule).toMatchObject({ cron: null, intervalMinutes: 15 });
+    expect(schedulerRegistry.doesExist('cron', 'scan:a@example.com')).toBe(
+      false,
+    );
+    expect(schedulerRegistry.doesExist('interval', 'scan:a@example.com')).toBe(
+      true,
+    );
+  });
+});
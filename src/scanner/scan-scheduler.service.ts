@@ -0,0 +1,215 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnApplicationBootstrap,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { SchedulerRegistry } from '@nestjs/schedule';
+import { InjectRepository } from '@nestjs/typeorm';
+import { CronJob } from 'cron';
+import { Repository } from 'typeorm';
+import { AccountChange, AuthService } from '../auth/auth.service';
+import { UserToken } from '../entities';
+import { BackfillService } from './backfill.service';
+import { ScannerService } from './scanner.service';
+import { ScanScheduleDto, UpdateScheduleDto } from './dto';
+
+@Injectable()
+export class ScanSchedulerService implements OnApplicationBootstrap {
+  private readonly logger = new Logger(ScanSchedulerService.name);
+  private readonly nextIntervalRuns = new Map<string, Date>();
+
+  constructor(
+    private configService: ConfigService,
+    private schedulerRegistry: SchedulerRegistry,
+    private authService: AuthService,
+    private scannerService: ScannerService,
+    private backfillService: BackfillService,
+    @InjectRepository(UserToken)
+    private userTokenRepository: Repository<UserToken>,
+  ) {}
+
+  async onApplicationBootstrap(): Promise<void> {
+    this.authService.onAccountChange((change, accountId) =>
+      this.handleAccountChange(change, accountId),
+    );
+
+    await this.scannerService.recoverStuckScans();
+    // Only once stuck scans are cleared, or resumed backfills would wait on
+    // scans the restart already ended.
+    await this.backfillService.resumeInterrupted();
+
+    const userTokens = await this.userTokenRepository.find();
+    for (const userToken of userTokens) {
+      this.register(userToken);
+    }
+  }
+
+  async getSchedules(): Promise<ScanScheduleDto[]> {
+    const userTokens = await this.userTokenRepository.find({
+      order: { createdAt: 'ASC' },
+    });
+    return userTokens.map((userToken) => this.toScheduleDto(userToken));
+  }
+
+  async updateSchedule(
+    accountId: string,
+    schedule: UpdateScheduleDto,
+  ): Promise<ScanScheduleDto> {
+    if (schedule.cron && schedule.intervalMinutes) {
+      throw new BadRequestException(
+        'Set either a cron expression or an interval, not both',
+      );
+    }
+    if (schedule.cron) {
+      this.validateCron(schedule.cron);
+    }
+
+    const userToken = await this.userTokenRepository.findOne({
+      where: { userId: accountId },
+    });
+    if (!userToken) {
+      throw new NotFoundException(`Account ${accountId} is not connected`);
+    }
+
+    userToken.scanCron = schedule.cron ?? null;
+    userToken.scanIntervalMinutes = schedule.intervalMinutes ?? null;
+    await this.userTokenRepository.save(userToken);
+
+    this.register(userToken);
+    return this.toScheduleDto(userToken);
+  }
+
+  /**
+   * Schedules accounts connected after boot and stops scanning accounts
+   * that logged out.
+   */
+  private handleAccountChange(change: AccountChange, accountId: string): void {
+    if (change === 'disconnected') {
+      this.unregister(accountId);
+      this.logger.log(`Stopped scheduled scans for ${accountId}`);
+      return;
+    }
+    void this.registerAccount(accountId);
+  }
+
+  private async registerAccount(accountId: string): Promise<void> {
+    try {
+      const userToken = await this.userTokenRepository.findOne({
+        where: { userId: accountId },
+      });
+      if (userToken) this.register(userToken);
+    } catch (error) {
+      this.logger.error(`Failed to schedule scans for ${accountId}:`, error);
+    }
+  }
+
+  private register(userToken: UserToken): void {
+    const accountId = userToken.userId;
+    const name = this.jobName(accountId);
+    this.unregister(accountId);
+
+    const cron =
+      userToken.scanCron ??
+      (userToken.scanIntervalMinutes
+        ? null
+        : this.configService.get<string>('SCAN_DEFAULT_CRON'));
+
+    if (cron) {
+      let job: CronJob;
+      try {
+        job = CronJob.from({
+          cronTime: cron,
+          onTick: () => this.runScheduledScan(accountId),
+          start: false,
+        });
+      } catch (error) {
+        // A bad stored or default expression must not keep the app, or the
+        // other accounts, from starting.
+        this.logger.error(
+          `Not scheduling scans for ${accountId}: invalid cron expression "${cron}"`,
+          error,
+        );
+        return;
+      }
+      this.schedulerRegistry.addCronJob(name, job);
+      job.start();
+      this.logger.log(`Scheduled scans for ${accountId} with cron "${cron}"`);
+      return;
+    }
+
+    if (userToken.scanIntervalMinutes) {
+      const intervalMs = userToken.scanIntervalMinutes * 60 * 1000;
+      this.nextIntervalRuns.set(accountId, new Date(Date.now() + intervalMs));
+      const interval = setInterval(() => {
+        this.nextIntervalRuns.set(accountId, new Date(Date.now() + intervalMs));
+        void this.runScheduledScan(accountId);
+      }, intervalMs);
+      this.schedulerRegistry.addInterval(name, interval);
+      this.logger.log(
+        `Scheduled scans for ${accountId} every ${userToken.scanIntervalMinutes} minutes`,
+      );
+    }
+  }
+
+  private unregister(accountId: string): void {
+    const name = this.jobName(accountId);
+    if (this.schedulerRegistry.doesExist('cron', name)) {
+      this.schedulerRegistry.deleteCronJob(name);
+    }
+    if (this.schedulerRegistry.doesExist('interval', name)) {
+      this.schedulerRegistry.deleteInterval(name);
+    }
+    this.nextIntervalRuns.delete(accountId);
+  }
+
+  private async runScheduledScan(accountId: string): Promise<void> {
+    try {
+      if (await this.scannerService.isScanRunning(accountId)) {
+        this.logger.warn(
+          `Skipping scheduled scan for ${accountId}: previous scan still running`,
+        );
+        return;
+      }
+
+      await this.scannerService.scanAndProcess({ accountId });
+    } catch (error) {
+      this.logger.error(`Scheduled scan for ${accountId} failed:`, error);
+    }
+  }
+
+  private getNextRunAt(accountId: string): Date | null {
+    const name = this.jobName(accountId);
+    if (this.schedulerRegistry.doesExist('cron', name)) {
+      return this.schedulerRegistry.getCronJob(name).nextDate().toJSDate();
+    }
+    return this.nextIntervalRuns.get(accountId) ?? null;
+  }
+
+  private toScheduleDto(userToken: UserToken): ScanScheduleDto {
+    return {
+      accountId: userToken.userId,
+      cron: userToken.scanCron,
+      intervalMinutes: userToken.scanIntervalMinutes,
+      nextRunAt: this.getNextRunAt(userToken.userId),
+    };
+  }
+
+  private validateCron(cron: string): void {
+    try {
+      CronJob.from({ cronTime: cron, onTick: () => undefined });
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      throw new BadRequestException(
+        `Invalid cron expression "${cron}": ${errorMessage}`,
+      );
+    }
+  }
+
+  private jobName(accountId: string): string {
+    return `scan:${accountId}`;
+  }
+}
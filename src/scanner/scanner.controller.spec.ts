@@ -0,0 +1,267 @@
+import { ConflictException, NotFoundException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { ScannerController } from './scanner.controller';
+import { ScannerService } from './scanner.service';
+import { ScanSchedulerService } from './scan-scheduler.service';
+import { BackfillService } from './backfill.service';
+import { AuthGuard } from '../auth/auth.guard';
+import { AttachmentState, BackfillJob, ScanLog } from '../entities';
+
+describe('ScannerController', () => {
+  let scannerController: ScannerController;
+  const scannerService = {
+    scanAndProcess: jest.fn(),
+    getProcessingStats: jest.fn(),
+    getRecentDocuments: jest.fn(),
+    getScanLog: jest.fn(),
+    getFailedAttachments: jest.fn(),
+    retryAttachment: jest.fn(),
+    isScanRunning: jest.fn(),
+  };
+  const scanSchedulerService = {
+    getSchedules: jest.fn(),
+    updateSchedule: jest.fn(),
+  };
+  const backfillService = {
+    start: jest.fn(),
+    getJobs: jest.fn(),
+    getJob: jest.fn(),
+    resume: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+
+    const app: TestingModule = await Test.createTestingModule({
+      controllers: [ScannerController],
+      providers: [
+        { provide: ScannerService, useValue: scannerService },
+        { provide: ScanSchedulerService, useValue: scanSchedulerService },
+        { provide: BackfillService, useValue: backfillService },
+      ],
+    })
+      .overrideGuard(AuthGuard)
+      .useValue({ canActivate: () => true })
+      .compile();
+
+    scannerController = app.get<ScannerController>(ScannerController);
+  });
+
+  describe('scan', () => {
+    it('should return the processing result', async () => {
+      const results = [
+        { accountId: 'a@example.com', processed: 1, errors: [], details: [] },
+      ];
+      scannerService.scanAndProcess.mockResolvedValue(results);
+
+      await expect(
+        scannerController.scan({ accountId: 'a@example.com' }),
+      ).resolves.toEqual(results);
+      expect(scannerService.scanAndProcess).toHaveBeenCalledWith({
+        accountId: 'a@example.com',
+      });
+    });
+
+    it('should pass the dry-run flag through', async () => {
+      scannerService.scanAndProcess.mockResolvedValue([]);
+
+      await scannerController.scan({
+        accountId: 'a@example.com',
+        dryRun: true,
+      });
+
+      expect(scannerService.scanAndProcess).toHaveBeenCalledWith({
+        accountId: 'a@example.com',
+        dryRun: true,
+      });
+    });
+
+    it('should refuse to start while a scan is running', async () => {
+      scannerService.isScanRunning.mockResolvedValue(true);
+
+      await expect(
+        scannerController.scan({ accountId: 'a@example.com' }),
+      ).rejects.toThrow(ConflictException);
+      expect(scannerService.isScanRunning).toHaveBeenCalledWith(
+        'a@example.com',
+      );
+      expect(scannerService.scanAndProcess).not.toHaveBeenCalled();
+    });
+
+    it('should let a dry run overlap a running scan', async () => {
+      scannerService.isScanRunning.mockResolvedValue(true);
+      scannerService.scanAndProcess.mockResolvedValue([]);
+
+      await scannerController.scan({
+        accountId: 'a@example.com',
+        dryRun: true,
+      });
+
+      expect(scannerService.scanAndProcess).toHaveBeenCalled();
+    });
+  });
+
+  describe('getStats', () => {
+    it('should include the next run of each reported account', async () => {
+      const nextRunAt = new Date('2024-01-01T01:00:00Z');
+      scannerService.getProcessingStats.mockResolvedValue({
+        accounts: ['a@example.com'],
+        totalDocuments: 3,
+        uniqueSenders: 2,
+        recentScans: [],
+      });
+      scanSchedulerService.getSchedules.mockResolvedValue([
+        {
+          accountId: 'a@example.com',
+          cron: '0 * * * *',
+          intervalMinutes: null,
+          nextRunAt,
+        },
+        {
+          accountId: 'b@example.com',
+          cron: null,
+          intervalMinutes: null,
+          nextRunAt: null,
+        },
+      ]);
+
+      const stats = await scannerController.getStats({
+        accountId: 'a@example.com',
+      });
+
+      expect(stats.schedules).toEqual([
+        expect.objectContaining({ accountId: 'a@example.com', nextRunAt }),
+      ]);
+    });
+  });
+
+  describe('getDocuments', () => {
+    it('should pass the requested limit to the service', async () => {
+      scannerService.getRecentDocuments.mockResolvedValue([]);
+
+      await scannerController.getDocuments({ limit: 5 });
+
+      expect(scannerService.getRecentDocuments).toHaveBeenCalledWith(
+        5,
+        undefined,
+      );
+    });
+  });
+
+  describe('retryAttachment', () => {
+    it('should return the attachment state after the retry', async () => {
+      const state = {
+        id: 'state-1',
+        accountId: 'a@example.com',
+        emailId: 'm1',
+        partId: '1',
+        filename: 'invoice.pdf',
+        stage: 'labelled',
+        status: 'completed',
+        attempts: 2,
+        lastError: null,
+        nextRetryAt: null,
+        driveFileId: 'drive-1',
+        documentId: 'doc-1',
+        updatedAt: new Date('2024-01-01T00:00:00Z'),
+      } as AttachmentState;
+      scannerService.retryAttachment.mockResolvedValue(state);
+
+      await expect(
+        scannerController.retryAttachment('state-1'),
+      ).resolves.toEqual(state);
+      expect(scannerService.retryAttachment).toHaveBeenCalledWith('state-1');
+    });
+  });
+
+  describe('getScan', () => {
+    it('should map the scan log to a DTO', async () => {
+      const scan = {
+        id: 'scan-1',
+        accountId: 'a@example.com',
+        status: 'completed',
+        emailsProcessed: 2,
+        documentsProcessed: 3,
+        errorsCount: 0,
+        errorDetails: null,
+        startedAt: new Date('2024-01-01T00:00:00Z'),
+        completedAt: new Date('2024-01-01T00:01:00Z'),
+      } as ScanLog;
+      scannerService.getScanLog.mockResolvedValue(scan);
+
+      await expect(scannerController.getScan('scan-1')).resolves.toEqual(scan);
+    });
+
+    it('should throw when the scan does not exist', async () => {
+      scannerService.getScanLog.mockResolvedValue(null);
+
+      await expect(scannerController.getScan('missing')).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+  });
+
+  describe('startBackfill', () => {
+    it('should report progress per window', async () => {
+      backfillService.start.mockResolvedValue({
+        id: 'job-1',
+        accountId: 'a@example.com',
+        from: '2024-01-15',
+        to: '2024-02-10',
+        status: 'running',
+        windows: [
+          {
+            from: '2024-01-15',
+            to: '2024-02-01',
+            status: 'completed',
+            emailsProcessed: 4,
+            documentsProcessed: 3,
+            errorsCount: 1,
+            completedAt: '2024-03-01T00:05:00.000Z',
+          },
+          {
+            from: '2024-02-01',
+            to: '2024-02-11',
+            status: 'pending',
+            emailsProcessed: 0,
+            documentsProcessed: 0,
+            errorsCount: 0,
+            completedAt: null,
+          },
+        ],
+        errorDetails: null,
+        createdAt: new Date('2024-03-01T00:00:00Z'),
+        completedAt: null,
+      } as unknown as BackfillJob);
+
+      const job = await scannerController.startBackfill({
+        accountId: 'a@example.com',
+        from: '2024-01-15',
+        to: '2024-02-10',
+      });
+
+      expect(backfillService.start).toHaveBeenCalledWith(
+        'a@example.com',
+        '2024-01-15',
+        '2024-02-10',
+      );
+      expect(job).toMatchObject({
+        windowsCompleted: 1,
+        windowsTotal: 2,
+        emailsProcessed: 4,
+        documentsProcessed: 3,
+        errorsCount: 1,
+      });
+    });
+  });
+
+  describe('getBackfill', () => {
+    it('should throw when the backfill does not exist', async () => {
+      backfillService.getJob.mockResolvedValue(null);
+
+      await expect(scannerController.getBackfill('missing')).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+  });
+});
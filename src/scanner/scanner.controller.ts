@@ -0,0 +1,174 @@
+import {
+  ConflictException,
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  NotFoundException,
+  Param,
+  ParseUUIDPipe,
+  Body,
+  Post,
+  Put,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { AuthGuard } from '../auth/auth.guard';
+import { AccountQueryDto } from '../common/dto/account-query.dto';
+import { BackfillService } from './backfill.service';
+import { ScannerService } from './scanner.service';
+import { ScanSchedulerService } from './scan-scheduler.service';
+import {
+  AttachmentStateDto,
+  BackfillJobDto,
+  CreateBackfillDto,
+  DocumentDto,
+  ProcessingStatsDto,
+  RecentDocumentsQueryDto,
+  ScanLogDto,
+  ScanRequestDto,
+  ScanResultDto,
+  ScanScheduleDto,
+  UpdateScheduleDto,
+} from './dto';
+
+@Controller('scanner')
+@UseGuards(AuthGuard)
+export class ScannerController {
+  constructor(
+    private readonly scannerService: ScannerService,
+    private readonly scanSchedulerService: ScanSchedulerService,
+    private readonly backfillService: BackfillService,
+  ) {}
+
+  @Post('scan')
+  @HttpCode(HttpStatus.OK)
+  async scan(@Body() body: ScanRequestDto): Promise<ScanResultDto[]> {
+    // Same rule as scheduled and push scans: one live scan per account.
+    if (
+      !body.dryRun &&
+      (await this.scannerService.isScanRunning(body.accountId))
+    ) {
+      throw new ConflictException(
+        body.accountId
+          ? `A scan is already running for ${body.accountId}`
+          : 'A scan is already running',
+      );
+    }
+
+    return this.scannerService.scanAndProcess({
+      accountId: body.accountId,
+      dryRun: body.dryRun,
+    });
+  }
+
+  @Get('stats')
+  async getStats(@Query() query: AccountQueryDto): Promise<ProcessingStatsDto> {
+    const [stats, schedules] = await Promise.all([
+      this.scannerService.getProcessingStats(query.accountId),
+      this.scanSchedulerService.getSchedules(),
+    ]);
+    return {
+      ...stats,
+      schedules: schedules.filter((schedule) =>
+        stats.accounts.includes(schedule.accountId),
+      ),
+    };
+  }
+
+  @Get('schedules')
+  async getSchedules(): Promise<ScanScheduleDto[]> {
+    return this.scanSchedulerService.getSchedules();
+  }
+
+  @Put('schedules/:accountId')
+  async updateSchedule(
+    @Param('accountId') accountId: string,
+    @Body() body: UpdateScheduleDto,
+  ): Promise<ScanScheduleDto> {
+    return this.scanSchedulerService.updateSchedule(accountId, body);
+  }
+
+  @Get('documents')
+  async getDocuments(
+    @Query() query: RecentDocumentsQueryDto,
+  ): Promise<DocumentDto[]> {
+    const documents = await this.scannerService.getRecentDocuments(
+      query.limit,
+      query.accountId,
+    );
+    return documents.map((document) => DocumentDto.fromEntity(document));
+  }
+
+  @Get('attachments/failed')
+  async getFailedAttachments(
+    @Query() query: AccountQueryDto,
+  ): Promise<AttachmentStateDto[]> {
+    const states = await this.scannerService.getFailedAttachments(
+      query.accountId,
+    );
+    return states.map((state) => AttachmentStateDto.fromEntity(state));
+  }
+
+  @Post('attachments/:id/retry')
+  @HttpCode(HttpStatus.OK)
+  async retryAttachment(
+    @Param('id', new ParseUUIDPipe()) id: string,
+  ): Promise<AttachmentStateDto> {
+    const state = await this.scannerService.retryAttachment(id);
+    return AttachmentStateDto.fromEntity(state);
+  }
+
+  @Get('scans/:id')
+  async getScan(
+    @Param('id', new ParseUUIDPipe()) id: string,
+  ): Promise<ScanLogDto> {
+    const scan = await this.scannerService.getScanLog(id);
+    if (!scan) {
+      throw new NotFoundException(`Scan ${id} not found`);
+    }
+    return ScanLogDto.fromEntity(scan);
+  }
+
+  /** Starts importing older emails; progress is read from the job. */
+  @Post('backfills')
+  @HttpCode(HttpStatus.ACCEPTED)
+  async startBackfill(
+    @Body() body: CreateBackfillDto,
+  ): Promise<BackfillJobDto> {
+    const job = await this.backfillService.start(
+      body.accountId,
+      body.from,
+      body.to,
+    );
+    return BackfillJobDto.fromEntity(job);
+  }
+
+  @Get('backfills')
+  async getBackfills(
+    @Query() query: AccountQueryDto,
+  ): Promise<BackfillJobDto[]> {
+    const jobs = await this.backfillService.getJobs(query.accountId);
+    return jobs.map((job) => BackfillJobDto.fromEntity(job));
+  }
+
+  @Get('backfills/:id')
+  async getBackfill(
+    @Param('id', new ParseUUIDPipe()) id: string,
+  ): Promise<BackfillJobDto> {
+    const job = await this.backfillService.getJob(id);
+    if (!job) {
+      throw new NotFoundException(`Backfill ${id} not found`);
+    }
+    return BackfillJobDto.fromEntity(job);
+  }
+
+  @Post('backfills/:id/resume')
+  @HttpCode(HttpStatus.ACCEPTED)
+  async resumeBackfill(
+    @Param('id', new ParseUUIDPipe()) id: string,
+  ): Promise<BackfillJobDto> {
+    const job = await this.backfillService.resume(id);
+    return BackfillJobDto.fromEntity(job);
+  }
+}
@@ -0,0 +1,30 @@
+import { Module } from '@nestjs/common';
+import { AuthModule } from '../auth/auth.module';
+import { DatabaseModule } from '../database/database.module';
+import { GmailModule } from '../gmail/gmail.module';
+import { DriveModule } from '../drive/drive.module';
+import { ExtractionModule } from '../extraction/extraction.module';
+import { RulesModule } from '../rules/rules.module';
+import { SheetsModule } from '../sheets/sheets.module';
+import { VendorsModule } from '../vendors/vendors.module';
+import { BackfillService } from './backfill.service';
+import { ScannerController } from './scanner.controller';
+import { ScannerService } from './scanner.service';
+import { ScanSchedulerService } from './scan-scheduler.service';
+
+@Module({
+  imports: [
+    AuthModule,
+    DatabaseModule,
+    GmailModule,
+    DriveModule,
+    SheetsModule,
+    ExtractionModule,
+    RulesModule,
+    VendorsModule,
+  ],
+  controllers: [ScannerController],
+  providers: [ScannerService, ScanSchedulerService, BackfillService],
+  exports: [ScannerService],
+})
+export class ScannerModule {}
@@ -0,0 +1,817 @@
+import { ConfigService } from '@nestjs/config';
+import { FindOperator, Repository } from 'typeorm';
+import { AuthService } from '../auth/auth.service';
+import { EmailDetails } from '../common/interfaces/google-auth.interface';
+import { DriveService } from '../drive/drive.service';
+import {
+  AttachmentState,
+  ProcessedDocument,
+  ScanLog,
+  SheetConflict,
+  UserToken,
+} from '../entities';
+import { expandArchive } from '../extraction/archive';
+import { ExtractionService } from '../extraction/extraction.service';
+import { DEFAULT_SEARCH_QUERY, GmailService } from '../gmail/gmail.service';
+import { RulesService } from '../rules/rules.service';
+import { parseSender } from '../vendors/sender-parser';
+import { VendorsService } from '../vendors/vendors.service';
+import { DocumentRow } from '../sheets/document-row';
+import { SheetSummaryService } from '../sheets/sheet-summary.service';
+import { SheetSyncService } from '../sheets/sheet-sync.service';
+import { SheetsService } from '../sheets/sheets.service';
+import { ScannerService } from './scanner.service';
+
+jest.mock('../extraction/archive');
+
+const ACCOUNT = 'me@example.com';
+
+function emailWithAttachment(id: string): EmailDetails {
+  return {
+    id,
+    subject: 'Invoice 1001',
+    from: 'billing@vendor.com',
+    date: '2024-03-01T10:00:00Z',
+    snippet: '',
+    bodyText: '',
+    forwardedBy: null,
+    attachments: [
+      {
+        partId: '1',
+        filename: 'invoice.pdf',
+        mimeType: 'application/pdf',
+        size: 2048,
+        attachmentId: `att-${id}`,
+      },
+    ],
+  };
+}
+
+function matchesWhere(
+  entity: Record<string, unknown>,
+  where: Record<string, unknown>,
+): boolean {
+  return Object.entries(where).every(([key, expected]) => {
+    const actual = entity[key];
+    if (expected instanceof FindOperator) {
+      if (expected.type === 'in') {
+        return (expected.value as unknown[]).includes(actual);
+      }
+      if (expected.type === 'lessThanOrEqual') {
+        return actual instanceof Date && actual <= (expected.value as Date);
+      }
+      throw new Error(`Unsupported operator ${expected.type}`);
+    }
+    return expected === undefined || actual === expected;
+  });
+}
+
+describe('ScannerService', () => {
+  const gmailService = {
+    getCurrentHistoryId: jest.fn(),
+    listMessagePages: jest.fn(),
+    getEmailDetails: jest.fn(),
+    downloadAttachment: jest.fn(),
+    labelEmail: jest.fn(),
+  };
+  const driveService = {
+    resolveDocumentFolder: jest.fn(),
+    uploadFile: jest.fn(),
+    generateStructuredFilename: jest.fn(),
+    resolveAvailableFilename: jest.fn(),
+    getDocumentFolderPath: jest.fn(),
+  };
+  const sheetsService = {
+    ensureSpreadsheetExists: jest.fn(),
+    upsertDocuments: jest.fn(),
+    readEditableValues: jest.fn(),
+    getEditedTime: jest.fn(),
+  };
+  const sheetSummaryService = { refreshSummaries: jest.fn() };
+  const extractionService = { extract: jest.fn() };
+  const rulesService = { classify: jest.fn(), findAll: jest.fn() };
+  const vendorsService = { resolveSender: jest.fn(), findAll: jest.fn() };
+  const scanLogRepository = {
+    create: jest.fn((scanLog: Partial<ScanLog>) => scanLog),
+    save: jest.fn(),
+  };
+  const userTokenRepository = { findOne: jest.fn(), update: jest.fn() };
+  let savedDocuments: ProcessedDocument[];
+  const processedDocumentRepository = {
+    create: jest.fn((document: Partial<ProcessedDocument>) => document),
+    save: jest.fn((document: ProcessedDocument) => {
+      if (!document.id) {
+        document.id = `doc-${savedDocuments.length + 1}`;
+        savedDocuments.push(document);
+      }
+      return Promise.resolve(document);
+    }),
+    find: jest.fn(({ where }: { where: Record<string, unknown> }) =>
+      Promise.resolve(
+        savedDocuments.filter((document) =>
+          matchesWhere(document as unknown as Record<string, unknown>, where),
+        ),
+      ),
+    ),
+    findOne: jest.fn(({ where }: { where: { contentHash: string } }) =>
+      Promise.resolve(
+        savedDocuments.find(
+          (document) =>
+            document.contentHash === where.contentHash &&
+            !document.duplicateOfId,
+        ) ?? null,
+      ),
+    ),
+  };
+  let savedStates: AttachmentState[];
+  const attachmentStateRepository = {
+    create: jest.fn(
+      (state: Partial<AttachmentState>) =>
+        ({
+          stage: 'pending',
+          status: 'pending',
+          attempts: 0,
+          lastError: null,
+          nextRetryAt: null,
+          driveFileId: null,
+          uploadedFileName: null,
+          documentId: null,
+          ...state,
+        }) as AttachmentState,
+    ),
+    save: jest.fn((state: AttachmentState) => {
+      if (!state.id) {
+        state.id = `state-${savedStates.length + 1}`;
+        savedStates.push(state);
+      }
+      return Promise.resolve(state);
+    }),
+    find: jest.fn(({ where }: { where: Record<string, unknown> }) =>
+      Promise.resolve(
+        savedStates.filter((state) =>
+          matchesWhere(state as unknown as Record<string, unknown>, where),
+        ),
+      ),
+    ),
+  };
+  let config: Record<string, string>;
+  const configService = { get: (key: string) => config[key] };
+  let scannerService: ScannerService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    savedDocuments = [];
+    savedStates = [];
+    config = {};
+
+    gmailService.getCurrentHistoryId.mockResolvedValue('500');
+    gmailService.listMessagePages.mockImplementation(async function* () {
+      yield await Promise.resolve([{ id: 'm1' }, { id: 'm2' }]);
+    });
+    gmailService.getEmailDetails.mockImplementation(
+      (_accountId: string, id: string) =>
+        Promise.resolve(emailWithAttachment(id)),
+    );
+    gmailService.downloadAttachment.mockResolvedValue(Buffer.from('same pdf'));
+    driveService.resolveDocumentFolder.mockResolvedValue('folder-1');
+    driveService.uploadFile.mockResolvedValue('drive-1');
+    driveService.generateStructuredFilename.mockReturnValue('vendor.pdf');
+    driveService.resolveAvailableFilename.mockImplementation(
+      (_accountId: string, _folderId: string, filename: string) =>
+        Promise.resolve(filename),
+    );
+    sheetsService.ensureSpreadsheetExists.mockResolvedValue('sheet-1');
+    sheetsService.upsertDocuments.mockImplementation(
+      (_accountId: string, _spreadsheetId: string, rows: DocumentRow[]) =>
+        Promise.resolve(
+          new Map(rows.map((row, i) => [row.documentId, i + 2] as const)),
+        ),
+    );
+    extractionService.extract.mockResolvedValue({
+      text: '',
+      textSource: null,
+      fields: {},
+      eInvoice: null,
+    });
+    rulesService.classify.mockResolvedValue(null);
+    rulesService.findAll.mockResolvedValue([]);
+    sheetsService.readEditableValues.mockResolvedValue([]);
+    vendorsService.resolveSender.mockImplementation(
+      (_accountId: string, from: string) =>
+        Promise.resolve({
+          sender: parseSender(from),
+          vendor: { id: 'vendor-1', name: 'Vendor', defaultCategory: null },
+        }),
+    );
+    vendorsService.findAll.mockResolvedValue([
+      { id: 'vendor-1', name: 'Vendor' },
+    ]);
+    userTokenRepository.findOne.mockResolvedValue({ historyId: null });
+
+    scannerService = new ScannerService(
+      { getAccountIds: jest.fn() } as unknown as AuthService,
+      gmailService as unknown as GmailService,
+      driveService as unknown as DriveService,
+      sheetsService as unknown as SheetsService,
+      new SheetSyncService(
+        sheetsService as unknown as SheetsService,
+        vendorsService as unknown as VendorsService,
+        processedDocumentRepository as unknown as Repository<ProcessedDocument>,
+        {} as Repository<SheetConflict>,
+      ),
+      sheetSummaryService as unknown as SheetSummaryService,
+      extractionService as unknown as ExtractionService,
+      rulesService as unknown as RulesService,
+      vendorsService as unknown as VendorsService,
+      configService as unknown as ConfigService,
+      processedDocumentRepository as unknown as Repository<ProcessedDocument>,
+      scanLogRepository as unknown as Repository<ScanLog>,
+      userTokenRepository as unknown as Repository<UserToken>,
+      attachmentStateRepository as unknown as Repository<AttachmentState>,
+    );
+  });
+
+  describe('scanAndProcess', () => {
+    it('should file repeated attachment content only once', async () => {
+      const [result] = await scannerService.scanAndProcess({
+        accountId: ACCOUNT,
+      });
+
+      expect(driveService.uploadFile).toHaveBeenCalledTimes(1);
+      expect(sheetsService.upsertDocuments).toHaveBeenCalledTimes(1);
+      expect(sheetsService.upsertDocuments).toHaveBeenCalledWith(
+        ACCOUNT,
+        'sheet-1',
+        [
+          expect.objectContaining({
+            documentId: 'doc-1',
+            vendorName: 'Vendor',
+          }),
+        ],
+      );
+      expect(result.details).toEqual([
+        expect.objectContaining({ emailId: 'm1', duplicateOfId: null }),
+        expect.objectContaining({
+          emailId: 'm2',
+          driveFileId: 'drive-1',
+          duplicateOfId: 'doc-1',
+        }),
+      ]);
+      expect(savedDocuments[1]).toMatchObject({
+        emailId: 'm2',
+        status: 'duplicate',
+        contentHash: savedDocuments[0].contentHash,
+      });
+      expect(gmailService.labelEmail).toHaveBeenCalledWith(ACCOUNT, 'm2');
+    });
+
+    it('should file attachments with different content separately', async () => {
+      gmailService.downloadAttachment
+        .mockResolvedValueOnce(Buffer.from('first pdf'))
+        .mockResolvedValueOnce(Buffer.from('second pdf'));
+
+      await scannerService.scanAndProcess({ accountId: ACCOUNT });
+
+      expect(driveService.uploadFile).toHaveBeenCalledTimes(2);
+      expect(savedDocuments.map((document) => document.status)).toEqual([
+        'completed',
+        'completed',
+      ]);
+    });
+
+    it('should keep processing siblings when one attachment fails', async () => {
+      gmailService.getEmailDetails.mockImplementation(
+        (_accountId: string, id: string) => {
+          const email = emailWithAttachment(id);
+          email.attachments.push({
+            ...email.attachments[0],
+            partId: '2',
+            filename: 'receipt.pdf',
+            attachmentId: `att2-${id}`,
+          });
+          return Promise.resolve(email);
+        },
+      );
+      gmailService.downloadAttachment.mockImplementation(
+        (_accountId: string, _messageId: string, attachmentId: string) =>
+          attachmentId.startsWith('att-')
+            ? Promise.reject(new Error('download failed'))
+            : Promise.resolve(Buffer.from(attachmentId)),
+      );
+      gmailService.listMessagePages.mockImplementation(async function* () {
+        yield await Promise.resolve([{ id: 'm1' }]);
+      });
+
+      const [result] = await scannerService.scanAndProcess({
+        accountId: ACCOUNT,
+      });
+
+      expect(result.details).toHaveLength(1);
+      expect(result.errors).toEqual([
+        expect.stringContaining('download failed'),
+      ]);
+      expect(gmailService.labelEmail).not.toHaveBeenCalled();
+      expect(savedStates).toEqual([
+        expect.objectContaining({
+          partId: '1',
+          status: 'failed',
+          stage: 'pending',
+          attempts: 1,
+          nextRetryAt: expect.any(Date) as Date,
+        }),
+        expect.objectContaining({ partId: '2', stage: 'logged' }),
+      ]);
+      expect(userTokenRepository.update).toHaveBeenCalled();
+    });
+
+    it('should write rows left by a failed sheet write on the next scan', async () => {
+      gmailService.listMessagePages.mockImplementation(async function* () {
+        yield await Promise.resolve([{ id: 'm1' }]);
+      });
+      sheetsService.upsertDocuments.mockRejectedValueOnce(new Error('quota'));
+
+      const [first] = await scannerService.scanAndProcess({
+        accountId: ACCOUNT,
+      });
+      expect(first.errors).toEqual([expect.stringContaining('quota')]);
+      expect(savedStates[0]).toMatchObject({
+        status: 'pending',
+        stage: 'recorded',
+      });
+      expect(gmailService.labelEmail).not.toHaveBeenCalled();
+
+      await scannerService.scanAndProcess({ accountId: ACCOUNT });
+
+      expect(driveService.uploadFile).toHaveBeenCalledTimes(1);
+      expect(savedDocuments).toHaveLength(1);
+      expect(sheetsService.upsertDocuments).toHaveBeenLastCalledWith(
+        ACCOUNT,
+        'sheet-1',
+        [expect.objectContaining({ documentId: 'doc-1' })],
+      );
+      expect(savedDocuments[0].spreadsheetRow).toBe(2);
+      expect(gmailService.labelEmail).toHaveBeenCalledWith(ACCOUNT, 'm1');
+      expect(savedStates[0]).toMatchObject({
+        status: 'completed',
+        stage: 'labelled',
+      });
+    });
+
+    it('should write the rows of a whole scan in one batch', async () => {
+      gmailService.downloadAttachment
+        .mockResolvedValueOnce(Buffer.from('first pdf'))
+        .mockResolvedValueOnce(Buffer.from('second pdf'));
+
+      await scannerService.scanAndProcess({ accountId: ACCOUNT });
+
+      expect(sheetsService.upsertDocuments).toHaveBeenCalledTimes(1);
+      expect(sheetsService.upsertDocuments).toHaveBeenCalledWith(
+        ACCOUNT,
+        'sheet-1',
+        [
+          expect.objectContaining({ documentId: 'doc-1' }),
+          expect.objectContaining({ documentId: 'doc-2' }),
+        ],
+      );
+      expect(savedDocuments.map((document) => document.spreadsheetRow)).toEqual(
+        [2, 3],
+      );
+      expect(gmailService.labelEmail).toHaveBeenCalledTimes(2);
+      expect(sheetSummaryService.refreshSummaries).toHaveBeenCalledWith(
+        ACCOUNT,
+        'sheet-1',
+      );
+    });
+
+    it('should route categorised documents to their folder and tab', async () => {
+      gmailService.listMessagePages.mockImplementation(async function* () {
+        yield await Promise.resolve([{ id: 'm1' }]);
+      });
+      rulesService.classify.mockResolvedValue('Utilities');
+      driveService.resolveDocumentFolder.mockResolvedValue('utilities-folder');
+
+      await scannerService.scanAndProcess({ accountId: ACCOUNT });
+
+      expect(driveService.resolveDocumentFolder).toHaveBeenCalledWith(ACCOUNT, {
+        date: new Date('2024-03-01T10:00:00Z'),
+        vendor: 'Vendor',
+        category: 'Utilities',
+      });
+      expect(driveService.uploadFile).toHaveBeenCalledWith(
+        ACCOUNT,
+        expect.any(Buffer),
+        'vendor.pdf',
+        'application/pdf',
+        'utilities-folder',
+      );
+      expect(sheetsService.upsertDocuments).toHaveBeenCalledWith(
+        ACCOUNT,
+        'sheet-1',
+        [expect.objectContaining({ category: 'Utilities' })],
+      );
+      expect(savedDocuments[0].category).toBe('Utilities');
+    });
+
+    it('should archive the body of receipts without attachments', async () => {
+      config.BODY_RECEIPTS_ENABLED = 'true';
+      gmailService.listMessagePages.mockImplementation(async function* () {
+        yield await Promise.resolve([{ id: 'm1' }]);
+      });
+      gmailService.getEmailDetails.mockResolvedValue({
+        ...emailWithAttachment('m1'),
+        subject: 'Your ride receipt',
+        bodyText: 'Total: $12.50',
+        attachments: [],
+      });
+
+      const [result] = await scannerService.scanAndProcess({
+        accountId: ACCOUNT,
+      });
+
+      expect(result.errors).toEqual([]);
+      expect(gmailService.downloadAttachment).not.toHaveBeenCalled();
+      expect(driveService.uploadFile).toHaveBeenCalledWith(
+        ACCOUNT,
+        expect.any(Buffer),
+        'vendor.pdf',
+        'application/pdf',
+        'folder-1',
+      );
+      expect(savedDocuments[0]).toMatchObject({
+        source: 'body',
+        originalFileName: 'Your ride receipt.pdf',
+      });
+      expect(gmailService.labelEmail).toHaveBeenCalledWith(ACCOUNT, 'm1');
+    });
+
+    it('should file each document in a ZIP attachment under the archive', async () => {
+      gmailService.listMessagePages.mockImplementation(async function* () {
+        yield await Promise.resolve([{ id: 'm1' }]);
+      });
+      gmailService.getEmailDetails.mockResolvedValue({
+        ...emailWithAttachment('m1'),
+        attachments: [
+          {
+            partId: '1',
+            filename: 'invoices.zip',
+            mimeType: 'application/zip',
+            size: 4096,
+            attachmentId: 'att-zip',
+          },
+        ],
+      });
+      gmailService.downloadAttachment.mockResolvedValue(
+        Buffer.from([0x50, 0x4b, 0x03, 0x04, 0x14]),
+      );
+      jest.mocked(expandArchive).mockResolvedValue([
+        { path: 'march/invoice.pdf', content: Buffer.from('%PDF-1.4 march') },
+        { path: 'readme.txt', content: Buffer.from('hello') },
+      ]);
+
+      const [result] = await scannerService.scanAndProcess({
+        accountId: ACCOUNT,
+      });
+
+      expect(result.errors).toEqual([]);
+      expect(savedDocuments).toEqual([
+        expect.objectContaining({
+          id: 'doc-1',
+          status: 'archive',
+          mimeType: 'application/zip',
+          spreadsheetRow: null,
+        }),
+        expect.objectContaining({
+          originalFileName: 'invoice.pdf',
+          mimeType: 'application/pdf',
+          parentDocumentId: 'doc-1',
+        }),
+      ]);
+      expect(sheetsService.upsertDocuments).toHaveBeenCalledWith(
+        ACCOUNT,
+        'sheet-1',
+        [expect.objectContaining({ documentId: 'doc-2' })],
+      );
+      expect(savedStates.map((state) => [state.partId, state.status])).toEqual([
+        ['1', 'completed'],
+        ['1/march/invoice.pdf', 'completed'],
+        ['1/readme.txt', 'skipped'],
+      ]);
+      expect(gmailService.labelEmail).toHaveBeenCalledWith(ACCOUNT, 'm1');
+    });
+
+    it('should retry an archive when one of its files fails', async () => {
+      gmailService.listMessagePages.mockImplementation(async function* () {
+        yield await Promise.resolve([{ id: 'm1' }]);
+      });
+      gmailService.getEmailDetails.mockResolvedValue({
+        ...emailWithAttachment('m1'),
+        attachments: [
+          {
+            partId: '1',
+            filename: 'invoices.7z',
+            mimeType: 'application/octet-stream',
+            size: 4096,
+            attachmentId: 'att-7z',
+          },
+        ],
+      });
+      gmailService.downloadAttachment.mockResolvedValue(
+        Buffer.from([0x37, 0x7a, 0xbc, 0xaf, 0x27, 0x1c]),
+      );
+      jest.mocked(expandArchive).mockResolvedValue([
+        { path: 'a.pdf', content: Buffer.from('%PDF-1.4 a') },
+        { path: 'b.pdf', content: Buffer.from('%PDF-1.4 b') },
+      ]);
+      extractionService.extract
+        .mockResolvedValueOnce({
+          text: '',
+          textSource: null,
+          fields: {},
+          eInvoice: null,
+        })
+        .mockRejectedValueOnce(new Error('unreadable'));
+
+      await scannerService.scanAndProcess({ accountId: ACCOUNT });
+
+      const [archiveState, , failedState] = savedStates;
+      expect(archiveState).toMatchObject({
+        status: 'failed',
+        stage: 'uploaded',
+      });
+      expect(failedState).toMatchObject({
+        status: 'failed',
+        nextRetryAt: null,
+      });
+
+      archiveState.nextRetryAt = new Date(0);
+      await scannerService.scanAndProcess({ accountId: ACCOUNT });
+
+      expect(sheetsService.upsertDocuments).toHaveBeenCalledTimes(2);
+      expect(sheetsService.upsertDocuments).toHaveBeenLastCalledWith(
+        ACCOUNT,
+        'sheet-1',
+        [expect.objectContaining({ documentId: 'doc-3' })],
+      );
+      expect(
+        savedDocuments.filter((doc) => doc.status === 'archive'),
+      ).toHaveLength(1);
+      expect(savedStates.every((state) => state.stage === 'labelled')).toBe(
+        true,
+      );
+    });
+
+    it('should detect a misnamed PDF by its content', async () => {
+      gmailService.listMessagePages.mockImplementation(async function* () {
+        yield await Promise.resolve([{ id: 'm1' }]);
+      });
+      gmailService.getEmailDetails.mockResolvedValue({
+        ...emailWithAttachment('m1'),
+        attachments: [
+          {
+            partId: '1',
+            filename: 'statement.bin',
+            mimeType: 'application/octet-stream',
+            size: 2048,
+            attachmentId: 'att-bin',
+          },
+          {
+            partId: '2',
+            filename: 'meeting.ics',
+            mimeType: 'text/calendar',
+            size: 512,
+            attachmentId: 'att-ics',
+          },
+        ],
+      });
+      gmailService.downloadAttachment.mockResolvedValue(
+        Buffer.from('%PDF-1.7 statement'),
+      );
+
+      await scannerService.scanAndProcess({ accountId: ACCOUNT });
+
+      expect(gmailService.downloadAttachment).toHaveBeenCalledTimes(1);
+      expect(driveService.generateStructuredFilename).toHaveBeenCalledWith(
+        expect.objectContaining({ originalFilename: 'statement.pdf' }),
+      );
+      expect(savedDocuments[0]).toMatchObject({
+        originalFileName: 'statement.bin',
+        mimeType: 'application/pdf',
+      });
+    });
+
+    it('should skip downloads whose content is not an allowed type', async () => {
+      config.ALLOWED_MIME_TYPES = 'application/pdf';
+      gmailService.listMessagePages.mockImplementation(async function* () {
+        yield await Promise.resolve([{ id: 'm1' }]);
+      });
+      gmailService.getEmailDetails.mockResolvedValue({
+        ...emailWithAttachment('m1'),
+        attachments: [
+          {
+            partId: '1',
+            filename: 'scan',
+            mimeType: 'application/octet-stream',
+            size: 2048,
+            attachmentId: 'att-scan',
+          },
+        ],
+      });
+      gmailService.downloadAttachment.mockResolvedValue(
+        Buffer.from([0xff, 0xd8, 0xff, 0xe0]),
+      );
+
+      await scannerService.scanAndProcess({ accountId: ACCOUNT });
+
+      expect(driveService.uploadFile).not.toHaveBeenCalled();
+      expect(savedStates[0]).toMatchObject({
+        status: 'skipped',
+        stage: 'labelled',
+      });
+    });
+
+    it('should leave attachment-less emails alone by default', async () => {
+      gmailService.listMessagePages.mockImplementation(async function* () {
+        yield await Promise.resolve([{ id: 'm1' }]);
+      });
+      gmailService.getEmailDetails.mockResolvedValue({
+        ...emailWithAttachment('m1'),
+        bodyText: 'Total: $12.50',
+        attachments: [],
+      });
+
+      await scannerService.scanAndProcess({ accountId: ACCOUNT });
+
+      expect(driveService.uploadFile).not.toHaveBeenCalled();
+      expect(savedDocuments).toEqual([]);
+    });
+
+    it('should search only the given range and leave the checkpoint alone', async () => {
+      userTokenRepository.findOne.mockResolvedValue({ historyId: '400' });
+
+      const [result] = await scannerService.scanAndProcess({
+        accountId: ACCOUNT,
+        range: {
+          from: new Date('2024-03-01T00:00:00Z'),
+          to: new Date('2024-04-01T00:00:00Z'),
+        },
+      });
+
+      expect(gmailService.listMessagePages).toHaveBeenCalledWith(
+        ACCOUNT,
+        `${DEFAULT_SEARCH_QUERY} after:1709251199 before:1711929600`,
+      );
+      expect(gmailService.getCurrentHistoryId).not.toHaveBeenCalled();
+      expect(result.details).toHaveLength(2);
+      expect(userTokenRepository.update).not.toHaveBeenCalled();
+    });
+
+    it('should count emails that could not be read', async () => {
+      gmailService.getEmailDetails.mockImplementation(
+        (_accountId: string, id: string) =>
+          id === 'm2'
+            ? Promise.reject(new Error('Gmail unavailable'))
+            : Promise.resolve(emailWithAttachment(id)),
+      );
+
+      const [result] = await scannerService.scanAndProcess({
+        accountId: ACCOUNT,
+      });
+
+      expect(result.processed).toBe(1);
+      expect(result.emailFailures).toBe(1);
+      expect(userTokenRepository.update).not.toHaveBeenCalled();
+    });
+
+    it('should move the checkpoint past emails deleted since they were listed', async () => {
+      gmailService.getEmailDetails.mockImplementation(
+        (_accountId: string, id: string) =>
+          Promise.resolve(id === 'm2' ? null : emailWithAttachment(id)),
+      );
+
+      const [result] = await scannerService.scanAndProcess({
+        accountId: ACCOUNT,
+      });
+
+      expect(result.processed).toBe(1);
+      expect(result.emailFailures).toBe(0);
+      expect(userTokenRepository.update).toHaveBeenCalledWith(
+        { userId: ACCOUNT },
+        { historyId: '500' },
+      );
+    });
+  });
+
+  describe('dry run', () => {
+    beforeEach(() => {
+      gmailService.listMessagePages.mockImplementation(async function* () {
+        yield await Promise.resolve([{ id: 'm1' }]);
+      });
+      gmailService.getEmailDetails.mockResolvedValue({
+        ...emailWithAttachment('m1'),
+        attachments: [
+          ...emailWithAttachment('m1').attachments,
+          {
+            partId: '2',
+            filename: 'meeting.ics',
+            mimeType: 'text/calendar',
+            size: 512,
+            attachmentId: 'att-ics',
+          },
+        ],
+      });
+      gmailService.downloadAttachment.mockResolvedValue(
+        Buffer.from('%PDF-1.7 invoice'),
+      );
+      driveService.getDocumentFolderPath.mockReturnValue([
+        'Financial Documents',
+        '2024',
+        '03',
+      ]);
+    });
+
+    it('should report where each attachment would be filed', async () => {
+      const [result] = await scannerService.scanAndProcess({
+        accountId: ACCOUNT,
+        dryRun: true,
+      });
+
+      expect(result.preview).toEqual([
+        {
+          emailId: 'm1',
+          from: 'billing@vendor.com',
+          subject: 'Invoice 1001',
+          date: '2024-03-01T10:00:00Z',
+          attachments: [
+            expect.objectContaining({
+              partId: '2',
+              accepted: false,
+              reason: 'not a document type',
+            }),
+            {
+              partId: '1',
+              filename: 'invoice.pdf',
+              mimeType: 'application/pdf',
+              accepted: true,
+              reason: null,
+              duplicateOfId: null,
+              fileName: 'vendor.pdf',
+              folderPath: 'Financial Documents/2024/03',
+              vendor: 'Vendor',
+              category: null,
+            },
+          ],
+        },
+      ]);
+      expect(vendorsService.resolveSender).toHaveBeenCalledWith(
+        ACCOUNT,
+        'billing@vendor.com',
+        false,
+      );
+      expect(scanLogRepository.save).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          mode: 'dry-run',
+          status: 'completed',
+          emailsProcessed: 1,
+          documentsProcessed: 1,
+        }),
+      );
+    });
+
+    it('should not write to Drive, Sheets, Gmail or the database', async () => {
+      await scannerService.scanAndProcess({ accountId: ACCOUNT, dryRun: true });
+
+      expect(sheetsService.ensureSpreadsheetExists).not.toHaveBeenCalled();
+      expect(driveService.resolveDocumentFolder).not.toHaveBeenCalled();
+      expect(driveService.uploadFile).not.toHaveBeenCalled();
+      expect(sheetsService.upsertDocuments).not.toHaveBeenCalled();
+      expect(sheetSummaryService.refreshSummaries).not.toHaveBeenCalled();
+      expect(gmailService.labelEmail).not.toHaveBeenCalled();
+      expect(processedDocumentRepository.save).not.toHaveBeenCalled();
+      expect(attachmentStateRepository.save).not.toHaveBeenCalled();
+      expect(userTokenRepository.update).not.toHaveBeenCalled();
+    });
+
+    it('should report content already filed as a duplicate', async () => {
+      await scannerService.scanAndProcess({ accountId: ACCOUNT });
+      jest.clearAllMocks();
+
+      gmailService.listMessagePages.mockImplementation(async function* () {
+        yield await Promise.resolve([{ id: 'm2' }]);
+      });
+      gmailService.getEmailDetails.mockResolvedValue(emailWithAttachment('m2'));
+      const [result] = await scannerService.scanAndProcess({
+        accountId: ACCOUNT,
+        dryRun: true,
+      });
+
+      expect(result.preview?.[0].attachments).toEqual([
+        expect.objectContaining({
+          accepted: true,
+          duplicateOfId: 'doc-1',
+          fileName: 'vendor.pdf',
+        }),
+      ]);
+      expect(extractionService.extract).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -1,29 +1,169 @@
-import { Injectable, Logger } from '@nestjs/common';
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository } from 'typeorm';
-import { GmailService } from '../gmail/gmail.service';
+import { createHash } from 'crypto';
+import { In, IsNull, LessThanOrEqual, Not, Repository } from 'typeorm';
+import { AuthService } from '../auth/auth.service';
+import {
+  BODY_RECEIPT_SEARCH_QUERY,
+  DEFAULT_SEARCH_QUERY,
+  GmailService,
+  withDateRange,
+} from '../gmail/gmail.service';
+import {
+  BODY_PART_ID,
+  createBodyAttachment,
+  renderEmailBodyPdf,
+} from '../gmail/email-body-pdf';
 import { DriveService } from '../drive/drive.service';
+import { SheetSummaryService } from '../sheets/sheet-summary.service';
+import { SheetSyncService } from '../sheets/sheet-sync.service';
 import { SheetsService } from '../sheets/sheets.service';
-import { ProcessingResult } from '../common/interfaces/processing-result.interface';
-import { ProcessedDocument, ScanLog } from 'src/entities';
+import {
+  AttachmentPreview,
+  DateRange,
+  EmailPreview,
+  ProcessedDocumentResult,
+  ProcessingResult,
+  ScanOptions,
+} from '../common/interfaces/processing-result.interface';
+import {
+  EmailAttachment,
+  EmailDetails,
+} from '../common/interfaces/google-auth.interface';
+import {
+  ExtractedDocument,
+  ExtractedField,
+  InvoiceFields,
+} from '../common/interfaces/extraction.interface';
+import { ArchiveEntry, expandArchive } from '../extraction/archive';
+import { isEInvoiceXml } from '../extraction/e-invoice';
+import { ExtractionService } from '../extraction/extraction.service';
+import {
+  ARCHIVE_MIME_TYPES,
+  DEFAULT_ALLOWED_MIME_TYPES,
+  guessMimeType,
+  isUnknownType,
+  sniffMimeType,
+  withTypeExtension,
+  XML_MIME_TYPE,
+} from '../extraction/file-type';
+import { FilenameValues } from '../drive/filename-template';
+import { RulesService } from '../rules/rules.service';
+import { parseSender, ParsedSender } from '../vendors/sender-parser';
+import { VendorsService } from '../vendors/vendors.service';
+import {
+  ATTACHMENT_STAGES,
+  AttachmentStage,
+  AttachmentState,
+  DocumentSource,
+  ProcessedDocument,
+  ScanLog,
+  UserToken,
+  Vendor,
+} from '../entities';
+import { ProcessingStatsDto, ScanLogDto } from './dto';
+
+// Failed attachments back off 5m, 10m, 20m... capped at a day, and are left
+// for a manual retry after the last attempt.
+const MAX_ATTACHMENT_ATTEMPTS = 8;
+const RETRY_BASE_DELAY_MS = 5 * 60 * 1000;
+const RETRY_MAX_DELAY_MS = 24 * 60 * 60 * 1000;
+
+// Files inside an archive get part ids like `2/invoices/march.pdf`; Gmail's
+// own part ids never contain a slash.
+const ARCHIVE_PATH_SEPARATOR = '/';
+
+interface EmailOutcome {
+  documents: ProcessedDocumentResult[];
+  errors: string[];
+}
+
+interface ArchiveContext {
+  /** The archive's own document, which its files link back to. */
+  documentId: string;
+  entries: Map<string, Buffer>;
+}
+
+interface ArchiveFile {
+  attachment: EmailAttachment;
+  content: Buffer;
+}
+
+/** What a file is taken to be, before anything is uploaded or saved. */
+interface DocumentDescription extends ExtractedDocument {
+  invoiceNumber: string | null;
+  sender: ParsedSender;
+  vendor: Vendor;
+  category: string | null;
+  filenameValues: FilenameValues;
+}
 
 @Injectable()
 export class ScannerService {
   private readonly logger = new Logger(ScannerService.name);
 
   constructor(
+    private authService: AuthService,
     private gmailService: GmailService,
     private driveService: DriveService,
     private sheetService: SheetsService,
+    private sheetSyncService: SheetSyncService,
+    private sheetSummaryService: SheetSummaryService,
+    private extractionService: ExtractionService,
+    private rulesService: RulesService,
+    private vendorsService: VendorsService,
+    private configService: ConfigService,
     @InjectRepository(ProcessedDocument)
     private processedDocumentRepository: Repository<ProcessedDocument>,
     @InjectRepository(ScanLog)
     private scanLogRepository: Repository<ScanLog>,
+    @InjectRepository(UserToken)
+    private userTokenRepository: Repository<UserToken>,
+    @InjectRepository(AttachmentState)
+    private attachmentStateRepository: Repository<AttachmentState>,
   ) {}
 
-  async scanAndProcess(): Promise<ProcessingResult> {
+  /**
+   * Scans a single account when `options.accountId` is set, otherwise every
+   * connected account in turn. Each account gets its own scan log. A dry
+   * run only reports what would be filed and where; it uploads nothing,
+   * leaves the sheet, labels and documents alone and does not move the
+   * Gmail checkpoint. With `options.range`, only emails received in that
+   * range are searched, whatever the checkpoint says.
+   */
+  async scanAndProcess(options: ScanOptions = {}): Promise<ProcessingResult[]> {
+    const accountIds = options.accountId
+      ? [options.accountId]
+      : await this.authService.getAccountIds();
+
+    const results: ProcessingResult[] = [];
+    for (const accountId of accountIds) {
+      results.push(
+        await this.scanAccount(
+          accountId,
+          options.dryRun ?? false,
+          options.range,
+        ),
+      );
+    }
+    return results;
+  }
+
+  private async scanAccount(
+    accountId: string,
+    dryRun: boolean,
+    range?: DateRange,
+  ): Promise<ProcessingResult> {
     const scanLog = this.scanLogRepository.create({
+      accountId,
       status: 'started',
+      mode: dryRun ? 'dry-run' : 'live',
       emailsProcessed: 0,
       documentsProcessed: 0,
       errorsCount: 0,
@@ -32,64 +172,105 @@ export class ScannerService {
     await this.scanLogRepository.save(scanLog);
 
     const result: ProcessingResult = {
+      accountId,
       processed: 0,
+      emailFailures: 0,
       errors: [],
       details: [],
     };
+    if (dryRun) result.preview = [];
 
     try {
-      this.logger.log('Starting financial document scan...');
-
-      const [folderId, spreadsheetId] = await Promise.all([
-        this.driveService.ensureFolderExists('Financial Document'),
-        this.sheetService.ensureSpreadsheetExists('Financial Documents Log'),
-      ]);
-
       this.logger.log(
-        `Using Drive folder: ${folderId}, Spreadsheet: ${spreadsheetId}`,
+        `Starting ${dryRun ? 'dry-run ' : ''}financial document scan for ${accountId}...`,
       );
 
-      const processedEmailIds = await this.getProcessedEmailIds();
-      const messages = await this.gmailService.searchEmails();
-      const unprocessedMessages = messages.filter(
-        (msg) => !processedEmailIds.includes(msg.id),
-      );
+      // A dry run does not even create the spreadsheet.
+      const spreadsheetId = dryRun
+        ? null
+        : await this.prepareSpreadsheet(accountId, result);
+
+      const userToken = await this.userTokenRepository.findOne({
+        where: { userId: accountId },
+      });
+      // A date range is searched in full and leaves the checkpoint alone.
+      const checkpoint = range
+        ? null
+        : await this.gmailService.getCurrentHistoryId(accountId);
+
+      const addedMessageIds =
+        checkpoint !== null && userToken?.historyId
+          ? await this.gmailService.listAddedMessageIds(
+              accountId,
+              userToken.historyId,
+            )
+          : null;
+      const incremental = addedMessageIds !== null;
+
+      const unprocessedIds = incremental
+        ? await this.filterUnprocessedIds(accountId, addedMessageIds)
+        : await this.searchUnprocessedIds(accountId, range);
 
       this.logger.log(
-        `Found ${messages.length} total emails, ${unprocessedMessages.length} unprocessed`,
+        `Found ${unprocessedIds.length} unprocessed emails (${incremental ? 'incremental' : range ? 'date range' : 'full'} sync)`,
       );
 
-      if (unprocessedMessages.length === 0) {
-        scanLog.status = 'completed';
-        scanLog.completedAt = new Date();
-        await this.scanLogRepository.save(scanLog);
+      for (const messageId of unprocessedIds) {
+        try {
+          const emailDetails = await this.gmailService.getEmailDetails(
+            accountId,
+            messageId,
+          );
+          // Deleted since it was listed: nothing left to read or retry.
+          if (!emailDetails) continue;
+          if (
+            incremental &&
+            !this.gmailService.matchesSearchCriteria(
+              emailDetails,
+              this.bodyReceiptsEnabled(),
+            )
+          ) {
+            continue;
+          }
 
-        this.logger.log('No new financial emails found');
-        return result;
-      }
+          if (spreadsheetId === null) {
+            result.preview?.push(
+              await this.previewEmail(accountId, emailDetails, result.errors),
+            );
+            result.processed++;
+            continue;
+          }
 
-      for (const message of unprocessedMessages) {
-        try {
-          const processedDocs = await this.processEmail(
-            message.id,
-            folderId,
+          const outcome = await this.processEmail(
+            accountId,
+            emailDetails,
             spreadsheetId,
           );
 
           result.processed++;
-          result.details.push(...processedDocs);
+          result.details.push(...outcome.documents);
+          result.errors.push(...outcome.errors);
 
-          this.logger.log(`Successfully processed email ${message.id}`);
+          this.logger.log(`Successfully processed email ${messageId}`);
         } catch (error) {
-          const errorMsg = `Email ${message.id}: ${error.message}`;
+          const errorMsg = `Email ${messageId}: ${error instanceof Error ? error.message : String(error)}`;
           this.logger.error(errorMsg);
           result.errors.push(errorMsg);
+          result.emailFailures++;
         }
       }
 
+      if (spreadsheetId !== null) {
+        await this.finishScan(accountId, spreadsheetId, checkpoint, result);
+      }
+
       scanLog.status = 'completed';
       scanLog.emailsProcessed = result.processed;
-      scanLog.documentsProcessed = result.details.length;
+      scanLog.documentsProcessed = result.preview
+        ? result.preview
+            .flatMap((email) => email.attachments)
+            .filter((attachment) => attachment.accepted).length
+        : result.details.length;
       scanLog.errorsCount = result.errors.length;
       scanLog.errorDetails =
         result.errors.length > 0 ? JSON.stringify(result.errors) : null;
@@ -101,138 +282,1264 @@ export class ScannerService {
       );
       return result;
     } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+
       scanLog.status = 'failed';
-      scanLog.errorDetails = error.message;
+      scanLog.errorDetails = errorMessage;
       scanLog.completedAt = new Date();
       await this.scanLogRepository.save(scanLog);
 
       this.logger.error('Scan process failed:', error);
-      throw new Error(`Scan process failed: ${error.message}`);
+      throw new Error(`Scan process failed: ${errorMessage}`);
     }
   }
 
-  private async processEmail(
-    messageId: string,
-    folderId: string,
+  private async prepareSpreadsheet(
+    accountId: string,
+    result: ProcessingResult,
+  ): Promise<string> {
+    const spreadsheetId = await this.resolveSpreadsheet(accountId);
+
+    this.logger.log(`Using spreadsheet: ${spreadsheetId}`);
+
+    // Pull the accountant's edits first, so rows rewritten later in the
+    // scan carry them instead of overwriting them.
+    try {
+      await this.sheetSyncService.syncEdits(accountId, spreadsheetId);
+    } catch (error) {
+      const errorMessage = `Failed to sync sheet edits: ${error instanceof Error ? error.message : String(error)}`;
+      this.logger.error(errorMessage);
+      result.errors.push(errorMessage);
+    }
+    return spreadsheetId;
+  }
+
+  /**
+   * Retries due attachments, writes the scan's sheet rows and summaries,
+   * and moves the Gmail checkpoint unless `checkpoint` is null.
+   */
+  private async finishScan(
+    accountId: string,
     spreadsheetId: string,
-  ): Promise<any[]> {
-    const processedDocs = [];
+    checkpoint: string | null,
+    result: ProcessingResult,
+  ): Promise<void> {
+    await this.retryDueAttachments(accountId, spreadsheetId, result);
+    result.errors.push(...(await this.syncSheetRows(accountId, spreadsheetId)));
 
-    const emailDetails = await this.gmailService.getEmailDetails(messageId);
+    try {
+      await this.sheetSummaryService.refreshSummaries(accountId, spreadsheetId);
+    } catch (error) {
+      const errorMessage = `Failed to refresh summary tabs: ${error instanceof Error ? error.message : String(error)}`;
+      this.logger.error(errorMessage);
+      result.errors.push(errorMessage);
+    }
 
-    if (!emailDetails) {
-      throw new Error('No attachments found');
+    // Emails that could not be read must be seen again, so the checkpoint
+    // only moves forward once every one was fetched. Failed attachments
+    // are already queued for retry and do not hold it back.
+    if (checkpoint !== null && result.emailFailures === 0) {
+      await this.userTokenRepository.update(
+        { userId: accountId },
+        { historyId: checkpoint },
+      );
     }
+  }
+
+  /**
+   * Runs each document attachment of an email through the pipeline. The
+   * email is labelled here when nothing in it needs a sheet row, otherwise
+   * once the scan has written its rows. A failing attachment is
+   * queued for retry instead of aborting its siblings. When `retryPartIds`
+   * is given, only those attachments are attempted. Without any document
+   * attachment, the body itself is archived when body receipts are enabled.
+   */
+  private async processEmail(
+    accountId: string,
+    emailDetails: EmailDetails,
+    spreadsheetId: string,
+    retryPartIds?: Set<string>,
+  ): Promise<EmailOutcome> {
+    const outcome: EmailOutcome = { documents: [], errors: [] };
+    const messageId = emailDetails.id;
 
     this.logger.log(
       `Processing ${emailDetails.attachments.length} attachments from: ${emailDetails.from}`,
     );
 
-    for (const attachment of emailDetails.attachments) {
-      try {
-        if (!this.isDocumentFile(attachment.filename)) {
-          this.logger.log(`Skipping non-document file: ${attachment.filename}`);
-          continue;
-        }
+    const attachments = emailDetails.attachments.filter((attachment) => {
+      if (this.isCandidateFile(attachment)) return true;
+      this.logger.log(`Skipping non-document file: ${attachment.filename}`);
+      return false;
+    });
+    if (
+      attachments.length === 0 &&
+      this.bodyReceiptsEnabled() &&
+      emailDetails.bodyText.trim()
+    ) {
+      this.logger.log(`Archiving the body of ${messageId} as a PDF`);
+      attachments.push(createBodyAttachment(emailDetails));
+    }
+    const states = await this.loadAttachmentStates(
+      accountId,
+      messageId,
+      attachments,
+    );
+
+    await this.processAttachments(
+      accountId,
+      emailDetails,
+      attachments,
+      states,
+      spreadsheetId,
+      outcome,
+      retryPartIds,
+    );
 
-        const fileBuffer = await this.gmailService.downloadAttachment(
-          messageId,
-          attachment.attachmentId,
+    const labelError = await this.labelIfComplete(
+      accountId,
+      messageId,
+      Array.from(states.values()),
+    );
+    if (labelError) {
+      outcome.errors.push(`Email ${messageId}: ${labelError}`);
+    }
+    return outcome;
+  }
+
+  /**
+   * Files inside an archive (`archive` set) are always attempted when the
+   * archive is, since they are retried through the archive itself.
+   */
+  private async processAttachments(
+    accountId: string,
+    emailDetails: EmailDetails,
+    attachments: EmailAttachment[],
+    states: Map<string, AttachmentState>,
+    spreadsheetId: string,
+    outcome: EmailOutcome,
+    retryPartIds?: Set<string>,
+    archive?: ArchiveContext,
+  ): Promise<void> {
+    for (const [index, attachment] of attachments.entries()) {
+      const state = states.get(attachment.partId);
+      if (!state || this.hasReached(state, 'recorded')) continue;
+      if (
+        !archive &&
+        (retryPartIds
+          ? !retryPartIds.has(state.partId)
+          : state.status === 'failed')
+      ) {
+        continue;
+      }
+
+      try {
+        const document = await this.processAttachment(
+          accountId,
+          emailDetails,
+          attachment,
+          index + 1,
+          state,
+          states,
+          spreadsheetId,
+          outcome,
+          archive,
         );
+        if (document) outcome.documents.push(document);
+      } catch (error) {
+        const errorMessage = `Failed to process attachment ${attachment.filename}: ${error instanceof Error ? error.message : String(error)}`;
+        this.logger.error(errorMessage);
+        await this.markAttachmentFailed(state, errorMessage, !archive);
+        outcome.errors.push(`Email ${emailDetails.id}: ${errorMessage}`);
+      }
+    }
+  }
+
+  /**
+   * Returns the filed document, or null when the file was skipped or was
+   * an archive whose contents were processed in its place.
+   */
+  private async processAttachment(
+    accountId: string,
+    emailDetails: EmailDetails,
+    attachment: EmailAttachment,
+    index: number,
+    state: AttachmentState,
+    states: Map<string, AttachmentState>,
+    spreadsheetId: string,
+    outcome: EmailOutcome,
+    archive?: ArchiveContext,
+  ): Promise<ProcessedDocumentResult | null> {
+    const messageId = emailDetails.id;
+    const source: DocumentSource =
+      attachment.partId === BODY_PART_ID ? 'body' : 'attachment';
+
+    const fileBuffer = await this.loadContent(
+      accountId,
+      emailDetails,
+      attachment,
+      archive,
+    );
+    const fileSize = this.formatFileSize(attachment.size || fileBuffer.length);
+    await this.advanceStage(state, 'downloaded');
+
+    const mimeType =
+      sniffMimeType(fileBuffer) ??
+      guessMimeType(attachment.filename, attachment.mimeType);
+    if (!this.isAcceptedFile(mimeType, fileBuffer, !!archive)) {
+      this.logger.log(
+        `Skipping ${attachment.filename}: ${mimeType ?? 'unknown type'} is not accepted`,
+      );
+      state.status = 'skipped';
+      await this.advanceStage(state, 'logged');
+      return null;
+    }
 
-        const structuredFileName = this.driveService.generateStructuredFilename(
-          emailDetails.from,
-          emailDetails.subject,
-          emailDetails.date,
-          emailDetails.filename,
+    const filename = withTypeExtension(attachment.filename, mimeType);
+    const contentHash = createHash('sha256').update(fileBuffer).digest('hex');
+
+    // Once this attachment has its own upload it is the original, even if a
+    // copy has since been filed from another email.
+    if (!state.driveFileId) {
+      const original = await this.findOriginalDocument(accountId, contentHash);
+      if (original) {
+        const duplicate = await this.recordDuplicate(
+          accountId,
+          emailDetails,
+          attachment.filename,
+          source,
+          contentHash,
+          original,
+          archive?.documentId ?? null,
         );
+        state.documentId = duplicate.id;
+        await this.advanceStage(state, 'logged');
+        return this.toDocumentResult(duplicate);
+      }
+    }
+
+    if (ARCHIVE_MIME_TYPES.includes(mimeType)) {
+      await this.processArchive(
+        accountId,
+        emailDetails,
+        attachment,
+        fileBuffer,
+        { filename, fileSize, mimeType, contentHash, index },
+        state,
+        states,
+        spreadsheetId,
+        outcome,
+      );
+      return null;
+    }
+
+    const {
+      text,
+      textSource,
+      fields,
+      eInvoice,
+      invoiceNumber,
+      sender,
+      vendor,
+      category,
+      filenameValues,
+    } = await this.describeDocument(
+      accountId,
+      emailDetails,
+      fileBuffer,
+      mimeType,
+      filename,
+      index,
+      contentHash,
+    );
+    const { driveFileId, fileName } = await this.uploadOnce(
+      accountId,
+      state,
+      fileBuffer,
+      mimeType,
+      filenameValues,
+    );
+
+    const processedDocument = this.processedDocumentRepository.create({
+      accountId,
+      emailId: messageId,
+      messageId: messageId,
+      senderEmail: sender.address,
+      senderName: sender.displayName ?? vendor.name,
+      forwardedBy: emailDetails.forwardedBy,
+      vendorId: vendor.id,
+      subject: emailDetails.subject,
+      invoiceNumber,
+      emailDate: new Date(emailDetails.date),
+      fileName,
+      originalFileName: attachment.filename,
+      source,
+      parentDocumentId: archive?.documentId ?? null,
+      driveFileId: driveFileId,
+      driveFileUrl: `https://drive.google.com/file/d/${driveFileId}/view`,
+      spreadsheetId: spreadsheetId,
+      spreadsheetRow: null,
+      fileSize,
+      mimeType,
+      contentHash,
+      category,
+      totalAmount: fields.totalAmount?.value.toFixed(2) ?? null,
+      netAmount: fields.netAmount?.value.toFixed(2) ?? null,
+      taxAmount: fields.taxAmount?.value.toFixed(2) ?? null,
+      currency: fields.currency?.value ?? null,
+      invoiceDate: fields.invoiceDate?.value ?? null,
+      dueDate: fields.dueDate?.value ?? null,
+      extractedVendor: fields.vendor?.value ?? null,
+      sellerVatId: fields.sellerVatId?.value ?? null,
+      lineItems: eInvoice?.lineItems ?? null,
+      eInvoiceFormat: eInvoice?.format ?? null,
+      extractionConfidence: this.toConfidenceMap(fields),
+      extractedText: text || null,
+      textSource,
+      status: 'completed',
+    });
+
+    await this.processedDocumentRepository.save(processedDocument);
+    state.documentId = processedDocument.id;
+    await this.advanceStage(state, 'recorded');
+
+    this.logger.log(
+      `Processed attachment: ${attachment.filename} -> ${fileName}`,
+    );
+    return this.toDocumentResult(processedDocument);
+  }
+
+  /**
+   * Extracts the file's fields and works out its vendor, category and the
+   * values its Drive name is built from. With `register` false, a new
+   * sender is not saved as a vendor.
+   */
+  private async describeDocument(
+    accountId: string,
+    emailDetails: EmailDetails,
+    fileBuffer: Buffer,
+    mimeType: string,
+    filename: string,
+    index: number,
+    contentHash: string,
+    register = true,
+  ): Promise<DocumentDescription> {
+    const extracted = await this.extractionService.extract(
+      fileBuffer,
+      mimeType,
+      filename,
+    );
+    const { fields, eInvoice } = extracted;
+    // A structured e-invoice states its number; the subject is a guess.
+    const invoiceNumber =
+      eInvoice?.invoiceNumber ??
+      this.extractInvoiceNumber(emailDetails.subject) ??
+      fields.invoiceNumber?.value ??
+      null;
+    const { sender, vendor } = await this.vendorsService.resolveSender(
+      accountId,
+      emailDetails.from,
+      register,
+    );
+    const category =
+      (await this.rulesService.classify(accountId, {
+        senderEmail: sender.address,
+        subject: emailDetails.subject,
+        filename,
+        mimeType,
+      })) ?? vendor.defaultCategory;
+
+    return {
+      ...extracted,
+      invoiceNumber,
+      sender,
+      vendor,
+      category,
+      filenameValues: {
+        vendor: vendor.name,
+        invoiceNumber,
+        date: new Date(fields.invoiceDate?.value ?? emailDetails.date),
+        category,
+        amount: fields.totalAmount?.value,
+        originalFilename: filename,
+        index,
+        messageId: emailDetails.id,
+        contentHash,
+      },
+    };
+  }
 
-        const driveFileId = await this.driveService.uploadFile(
-          fileBuffer,
-          structuredFileName,
+  /**
+   * Reports what processEmail would do with an email: each attachment,
+   * whether it would be filed, and under which name and folder. Reads
+   * Gmail and the database but writes nowhere.
+   */
+  private async previewEmail(
+    accountId: string,
+    emailDetails: EmailDetails,
+    errors: string[],
+  ): Promise<EmailPreview> {
+    const preview: EmailPreview = {
+      emailId: emailDetails.id,
+      from: emailDetails.from,
+      subject: emailDetails.subject,
+      date: emailDetails.date,
+      attachments: [],
+    };
+
+    const attachments = emailDetails.attachments.filter((attachment) => {
+      if (this.isCandidateFile(attachment)) return true;
+      preview.attachments.push(
+        this.skippedPreview(
+          attachment,
           attachment.mimeType,
-          folderId,
-        );
+          'not a document type',
+        ),
+      );
+      return false;
+    });
+    if (
+      attachments.length === 0 &&
+      this.bodyReceiptsEnabled() &&
+      emailDetails.bodyText.trim()
+    ) {
+      attachments.push(createBodyAttachment(emailDetails));
+    }
 
-        const rowNumber = await this.sheetService.logDocument(spreadsheetId, {
-          emailDate: emailDetails.date,
-          senderEmail: emailDetails.from,
-          subject: emailDetails.subject,
-          fileName: structuredFileName,
-          driveFileId,
-          fileSize: this.formatFileSize(attachment.size),
-        });
-
-        const processedDocument = this.processedDocumentRepository.create({
-          emailId: messageId,
-          messageId: messageId,
-          senderEmail: emailDetails.from,
-          senderName: this.extractSenderName(emailDetails.from),
-          subject: emailDetails.subject,
-          invoiceNumber: this.extractInvoiceNumber(emailDetails.subject),
-          emailDate: new Date(emailDetails.date),
-          fileName: structuredFileName,
-          originalFileName: attachment.filename,
-          driveFileId: driveFileId,
-          driveFileUrl: `https://drive.google.com/file/d/${driveFileId}/view`,
-          spreadsheetId: spreadsheetId,
-          spreadsheetRow: rowNumber,
-          fileSize: this.formatFileSize(attachment.size),
-          mimeType: attachment.mimeType,
-          status: 'completed',
-        });
-
-        await this.processedDocumentRepository.save(processedDocument);
-
-        processedDocs.push({
-          emailId: messageId,
-          fileName: structuredFilename,
-          driveFileId,
-          spreadsheetRow: rowNumber,
-        });
-        this.logger.log(
-          `Processed attachment: ${attachment.filename} -> ${structuredFilename}`,
+    for (const [index, attachment] of attachments.entries()) {
+      try {
+        const content = await this.loadContent(
+          accountId,
+          emailDetails,
+          attachment,
+        );
+        preview.attachments.push(
+          ...(await this.previewAttachment(
+            accountId,
+            emailDetails,
+            attachment,
+            content,
+            index + 1,
+          )),
         );
       } catch (error) {
-        this.logger.error(
-          `Failed to process attachment ${attachment.filename}:`,
-          error,
+        const errorMessage = `Failed to preview attachment ${attachment.filename}: ${error instanceof Error ? error.message : String(error)}`;
+        this.logger.error(errorMessage);
+        preview.attachments.push(
+          this.skippedPreview(attachment, attachment.mimeType, errorMessage),
         );
-        throw new Error(
-          `Failed to process attachment ${attachment.filename}: ${error.message}`,
+        errors.push(`Email ${emailDetails.id}: ${errorMessage}`);
+      }
+    }
+    return preview;
+  }
+
+  /**
+   * Previews one file the way processAttachment would handle it; an
+   * archive is listed first, followed by the files inside it.
+   */
+  private async previewAttachment(
+    accountId: string,
+    emailDetails: EmailDetails,
+    attachment: EmailAttachment,
+    content: Buffer,
+    index: number,
+    insideArchive = false,
+  ): Promise<AttachmentPreview[]> {
+    const mimeType =
+      sniffMimeType(content) ??
+      guessMimeType(attachment.filename, attachment.mimeType);
+    if (!this.isAcceptedFile(mimeType, content, insideArchive)) {
+      return [
+        this.skippedPreview(
+          attachment,
+          mimeType,
+          `${mimeType ?? 'unknown type'} is not accepted`,
+        ),
+      ];
+    }
+
+    const filename = withTypeExtension(attachment.filename, mimeType);
+    const contentHash = createHash('sha256').update(content).digest('hex');
+    const preview: AttachmentPreview = {
+      partId: attachment.partId,
+      filename: attachment.filename,
+      mimeType,
+      accepted: true,
+      reason: null,
+      duplicateOfId: null,
+      fileName: null,
+      folderPath: null,
+      vendor: null,
+      category: null,
+    };
+
+    const original = await this.findOriginalDocument(accountId, contentHash);
+    if (original) {
+      return [
+        {
+          ...preview,
+          duplicateOfId: original.id,
+          fileName: original.fileName,
+          category: original.category,
+        },
+      ];
+    }
+
+    if (!ARCHIVE_MIME_TYPES.includes(mimeType)) {
+      const { filenameValues } = await this.describeDocument(
+        accountId,
+        emailDetails,
+        content,
+        mimeType,
+        filename,
+        index,
+        contentHash,
+        false,
+      );
+      return [this.withDestination(preview, filenameValues)];
+    }
+
+    const { vendor } = await this.vendorsService.resolveSender(
+      accountId,
+      emailDetails.from,
+      false,
+    );
+    const previews = [
+      this.withDestination(preview, {
+        vendor: vendor.name,
+        date: new Date(emailDetails.date),
+        category: vendor.defaultCategory,
+        originalFilename: filename,
+        index,
+        messageId: emailDetails.id,
+        contentHash,
+      }),
+    ];
+    const files = this.archiveFiles(attachment, await expandArchive(content));
+    for (const [fileIndex, file] of files.entries()) {
+      previews.push(
+        ...(await this.previewAttachment(
+          accountId,
+          emailDetails,
+          file.attachment,
+          file.content,
+          fileIndex + 1,
+          true,
+        )),
+      );
+    }
+    return previews;
+  }
+
+  private withDestination(
+    preview: AttachmentPreview,
+    values: FilenameValues,
+  ): AttachmentPreview {
+    return {
+      ...preview,
+      fileName: this.driveService.generateStructuredFilename(values),
+      folderPath: this.driveService
+        .getDocumentFolderPath({
+          date: values.date,
+          vendor: values.vendor,
+          category: values.category,
+        })
+        .join('/'),
+      vendor: values.vendor,
+      category: values.category ?? null,
+    };
+  }
+
+  private skippedPreview(
+    attachment: EmailAttachment,
+    mimeType: string | null | undefined,
+    reason: string,
+  ): AttachmentPreview {
+    return {
+      partId: attachment.partId,
+      filename: attachment.filename,
+      mimeType: mimeType ?? null,
+      accepted: false,
+      reason,
+      duplicateOfId: null,
+      fileName: null,
+      folderPath: null,
+      vendor: null,
+      category: null,
+    };
+  }
+
+  private async loadContent(
+    accountId: string,
+    emailDetails: EmailDetails,
+    attachment: EmailAttachment,
+    archive?: ArchiveContext,
+  ): Promise<Buffer> {
+    if (archive) {
+      const content = archive.entries.get(attachment.partId);
+      if (!content) {
+        throw new Error(`${attachment.partId} is no longer in the archive`);
+      }
+      return content;
+    }
+    if (attachment.partId === BODY_PART_ID) {
+      return renderEmailBodyPdf(emailDetails);
+    }
+    return this.gmailService.downloadAttachment(
+      accountId,
+      emailDetails.id,
+      attachment.attachmentId,
+    );
+  }
+
+  /**
+   * Uploads the file unless an earlier attempt already did, in which case
+   * the recorded Drive file and name are reused.
+   */
+  private async uploadOnce(
+    accountId: string,
+    state: AttachmentState,
+    fileBuffer: Buffer,
+    mimeType: string,
+    values: FilenameValues,
+  ): Promise<{ driveFileId: string; fileName: string }> {
+    if (!state.driveFileId || !state.uploadedFileName) {
+      const folderId = await this.driveService.resolveDocumentFolder(
+        accountId,
+        { date: values.date, vendor: values.vendor, category: values.category },
+      );
+      const structuredFileName =
+        await this.driveService.resolveAvailableFilename(
+          accountId,
+          folderId,
+          this.driveService.generateStructuredFilename(values),
         );
+
+      state.driveFileId = await this.driveService.uploadFile(
+        accountId,
+        fileBuffer,
+        structuredFileName,
+        mimeType,
+        folderId,
+      );
+      state.uploadedFileName = structuredFileName;
+      await this.advanceStage(state, 'uploaded');
+    }
+    return {
+      driveFileId: state.driveFileId,
+      fileName: state.uploadedFileName,
+    };
+  }
+
+  /**
+   * Files the archive itself as an `archive` document, then runs each file
+   * inside it through the pipeline as its own document linked back to it.
+   * The archive only counts as recorded once all of its files are, and a
+   * failed file fails the archive so both are retried together.
+   */
+  private async processArchive(
+    accountId: string,
+    emailDetails: EmailDetails,
+    attachment: EmailAttachment,
+    fileBuffer: Buffer,
+    file: {
+      filename: string;
+      fileSize: string;
+      mimeType: string;
+      contentHash: string;
+      index: number;
+    },
+    state: AttachmentState,
+    states: Map<string, AttachmentState>,
+    spreadsheetId: string,
+    outcome: EmailOutcome,
+  ): Promise<void> {
+    if (!state.documentId) {
+      const { sender, vendor } = await this.vendorsService.resolveSender(
+        accountId,
+        emailDetails.from,
+      );
+      const { driveFileId, fileName } = await this.uploadOnce(
+        accountId,
+        state,
+        fileBuffer,
+        file.mimeType,
+        {
+          vendor: vendor.name,
+          date: new Date(emailDetails.date),
+          category: vendor.defaultCategory,
+          originalFilename: file.filename,
+          index: file.index,
+          messageId: emailDetails.id,
+          contentHash: file.contentHash,
+        },
+      );
+
+      const archiveDocument = this.processedDocumentRepository.create({
+        accountId,
+        emailId: emailDetails.id,
+        messageId: emailDetails.id,
+        senderEmail: sender.address,
+        senderName: sender.displayName ?? vendor.name,
+        forwardedBy: emailDetails.forwardedBy,
+        vendorId: vendor.id,
+        subject: emailDetails.subject,
+        invoiceNumber: null,
+        emailDate: new Date(emailDetails.date),
+        fileName,
+        originalFileName: attachment.filename,
+        source: 'attachment',
+        driveFileId,
+        driveFileUrl: `https://drive.google.com/file/d/${driveFileId}/view`,
+        spreadsheetId,
+        spreadsheetRow: null,
+        fileSize: file.fileSize,
+        mimeType: file.mimeType,
+        contentHash: file.contentHash,
+        category: vendor.defaultCategory,
+        status: 'archive',
+      });
+      await this.processedDocumentRepository.save(archiveDocument);
+      state.documentId = archiveDocument.id;
+      await this.attachmentStateRepository.save(state);
+    }
+
+    const files = this.archiveFiles(
+      attachment,
+      await expandArchive(fileBuffer),
+    );
+    this.logger.log(
+      `Expanding ${files.length} files from archive ${attachment.filename}`,
+    );
+
+    const children = files.map((entry) => entry.attachment);
+    await this.addAttachmentStates(
+      states,
+      accountId,
+      emailDetails.id,
+      children,
+    );
+    await this.processAttachments(
+      accountId,
+      emailDetails,
+      children,
+      states,
+      spreadsheetId,
+      outcome,
+      undefined,
+      {
+        documentId: state.documentId,
+        entries: new Map(
+          files.map((entry) => [entry.attachment.partId, entry.content]),
+        ),
+      },
+    );
+
+    const unfinished = children.filter((child) => {
+      const childState = states.get(child.partId);
+      return !childState || !this.hasReached(childState, 'recorded');
+    });
+    if (unfinished.length > 0) {
+      throw new Error(
+        `${unfinished.length} of ${children.length} files in the archive failed`,
+      );
+    }
+    await this.advanceStage(state, 'recorded');
+  }
+
+  /** The files of an archive, as attachments of the email it came in. */
+  private archiveFiles(
+    attachment: EmailAttachment,
+    entries: ArchiveEntry[],
+  ): ArchiveFile[] {
+    return entries.map((entry) => ({
+      attachment: {
+        partId: `${attachment.partId}${ARCHIVE_PATH_SEPARATOR}${entry.path}`,
+        filename: entry.path.substring(entry.path.lastIndexOf('/') + 1),
+        mimeType:
+          sniffMimeType(entry.content) ?? guessMimeType(entry.path, undefined),
+        size: entry.content.length,
+        attachmentId: '',
+      },
+      content: entry.content,
+    }));
+  }
+
+  private async loadAttachmentStates(
+    accountId: string,
+    emailId: string,
+    attachments: EmailAttachment[],
+  ): Promise<Map<string, AttachmentState>> {
+    const existing = await this.attachmentStateRepository.find({
+      where: { accountId, emailId },
+    });
+    const states = new Map(existing.map((state) => [state.partId, state]));
+    await this.addAttachmentStates(states, accountId, emailId, attachments);
+    return states;
+  }
+
+  private async addAttachmentStates(
+    states: Map<string, AttachmentState>,
+    accountId: string,
+    emailId: string,
+    attachments: EmailAttachment[],
+  ): Promise<void> {
+    for (const attachment of attachments) {
+      if (states.has(attachment.partId)) continue;
+
+      const state = this.attachmentStateRepository.create({
+        accountId,
+        emailId,
+        partId: attachment.partId,
+        filename: attachment.filename,
+      });
+      states.set(
+        attachment.partId,
+        await this.attachmentStateRepository.save(state),
+      );
+    }
+  }
+
+  /**
+   * Writes the sheet rows of every recorded document in one batch, along
+   * with any left waiting by an earlier failed write, then marks them
+   * logged. Archives are logged once all of their files are, and emails are
+   * labelled once everything in them is. Returns the errors to report; a
+   * failed write is simply tried again at the end of the next scan.
+   */
+  private async syncSheetRows(
+    accountId: string,
+    spreadsheetId: string,
+  ): Promise<string[]> {
+    const recorded = await this.attachmentStateRepository.find({
+      where: { accountId, stage: 'recorded' },
+    });
+    if (recorded.length === 0) return [];
+
+    const documents = await this.processedDocumentRepository.find({
+      where: {
+        id: In(
+          recorded
+            .map((state) => state.documentId)
+            .filter((id): id is string => !!id),
+        ),
+      },
+    });
+    const archiveIds = new Set(
+      documents
+        .filter((document) => document.status === 'archive')
+        .map((document) => document.id),
+    );
+    const rowDocuments = documents.filter(
+      (document) => !archiveIds.has(document.id),
+    );
+
+    try {
+      await this.sheetSyncService.writeDocuments(
+        accountId,
+        spreadsheetId,
+        rowDocuments,
+      );
+    } catch (error) {
+      const errorMessage = `Failed to write sheet rows: ${error instanceof Error ? error.message : String(error)}`;
+      this.logger.error(errorMessage);
+      return [errorMessage];
+    }
+
+    const emailIds = new Set<string>();
+    for (const state of recorded) {
+      emailIds.add(state.emailId);
+      if (!state.documentId || !archiveIds.has(state.documentId)) {
+        await this.advanceStage(state, 'logged');
       }
     }
 
-    if (processedDocs.length > 0) {
-      await this.gmailService.labelEmail(messageId);
+    const errors: string[] = [];
+    for (const emailId of emailIds) {
+      const states = await this.attachmentStateRepository.find({
+        where: { accountId, emailId },
+      });
+      for (const state of states) {
+        if (!state.documentId || !archiveIds.has(state.documentId)) continue;
+        const files = states.filter((file) =>
+          file.partId.startsWith(`${state.partId}${ARCHIVE_PATH_SEPARATOR}`),
+        );
+        if (files.every((file) => this.hasReached(file, 'logged'))) {
+          await this.advanceStage(state, 'logged');
+        }
+      }
+
+      const labelError = await this.labelIfComplete(accountId, emailId, states);
+      if (labelError) errors.push(`Email ${emailId}: ${labelError}`);
     }
-    return processedDocs;
+    return errors;
   }
 
-  private async getProcessedEmailIds(): Promise<string[]> {
-    const processedDocs = await this.processedDocumentRepository.find({
-      select: ['emailId'],
+  /**
+   * Labels the email once every tracked attachment has reached the sheet.
+   * Returns the error message when labelling fails, so the attachments are
+   * retried for the label alone.
+   */
+  private async labelIfComplete(
+    accountId: string,
+    emailId: string,
+    states: AttachmentState[],
+  ): Promise<string | null> {
+    if (
+      states.length === 0 ||
+      !states.every((state) => this.hasReached(state, 'logged'))
+    ) {
+      return null;
+    }
+
+    const unlabelled = states.filter(
+      (state) => !this.hasReached(state, 'labelled'),
+    );
+    if (unlabelled.length === 0) return null;
+
+    try {
+      await this.gmailService.labelEmail(accountId, emailId);
+    } catch (error) {
+      const errorMessage = `Failed to label email: ${error instanceof Error ? error.message : String(error)}`;
+      this.logger.error(errorMessage);
+      for (const state of unlabelled) {
+        await this.markAttachmentFailed(state, errorMessage);
+      }
+      return errorMessage;
+    }
+
+    for (const state of unlabelled) {
+      if (state.status !== 'skipped') state.status = 'completed';
+      state.lastError = null;
+      state.nextRetryAt = null;
+      await this.advanceStage(state, 'labelled');
+    }
+    return null;
+  }
+
+  /**
+   * Re-runs failed attachments whose backoff has elapsed. The email is
+   * fetched again because Gmail attachment ids do not survive between
+   * fetches; attachments are matched back up by part id.
+   */
+  private async retryDueAttachments(
+    accountId: string,
+    spreadsheetId: string,
+    result: ProcessingResult,
+  ): Promise<void> {
+    const dueStates = await this.attachmentStateRepository.find({
+      where: {
+        accountId,
+        status: 'failed',
+        nextRetryAt: LessThanOrEqual(new Date()),
+      },
+      order: { nextRetryAt: 'ASC' },
     });
-    return processedDocs.map((doc) => doc.emailId);
-  }
-
-  private isDocumentFile(filename: string): boolean {
-    const documentExtensions = [
-      '.pdf',
-      '.doc',
-      '.docx',
-      '.png',
-      '.jpg',
-      '.jpeg',
-      '.gif',
-      '.tiff',
-    ];
+    if (dueStates.length === 0) return;
+
+    this.logger.log(`Retrying ${dueStates.length} failed attachments`);
+
+    const partIdsByEmail = new Map<string, Set<string>>();
+    for (const state of dueStates) {
+      const partIds = partIdsByEmail.get(state.emailId) ?? new Set<string>();
+      partIds.add(state.partId);
+      partIdsByEmail.set(state.emailId, partIds);
+    }
 
-    const extension = filename
-      .toLowerCase()
-      .substring(filename.lastIndexOf('.'));
-    return documentExtensions.includes(extension);
+    for (const [emailId, partIds] of partIdsByEmail) {
+      const outcome = await this.retryEmail(
+        accountId,
+        emailId,
+        partIds,
+        spreadsheetId,
+      );
+      result.details.push(...outcome.documents);
+      result.errors.push(...outcome.errors);
+    }
+  }
+
+  private async retryEmail(
+    accountId: string,
+    emailId: string,
+    partIds: Set<string>,
+    spreadsheetId: string,
+  ): Promise<EmailOutcome> {
+    try {
+      const emailDetails = await this.gmailService.getEmailDetails(
+        accountId,
+        emailId,
+      );
+      if (!emailDetails) {
+        throw new Error('Email no longer exists');
+      }
+      return await this.processEmail(
+        accountId,
+        emailDetails,
+        spreadsheetId,
+        partIds,
+      );
+    } catch (error) {
+      const errorMessage = `Failed to fetch email for retry: ${error instanceof Error ? error.message : String(error)}`;
+      this.logger.error(`Email ${emailId}: ${errorMessage}`);
+
+      const states = await this.attachmentStateRepository.find({
+        where: { accountId, emailId, partId: In(Array.from(partIds)) },
+      });
+      for (const state of states) {
+        await this.markAttachmentFailed(state, errorMessage);
+      }
+      return { documents: [], errors: [`Email ${emailId}: ${errorMessage}`] };
+    }
+  }
+
+  /**
+   * Records a failure and, when `schedule` is set, when to try again. Files
+   * inside an archive are not scheduled as their archive is retried instead.
+   */
+  private async markAttachmentFailed(
+    state: AttachmentState,
+    errorMessage: string,
+    schedule = true,
+  ): Promise<void> {
+    state.attempts++;
+    state.status = 'failed';
+    state.lastError = errorMessage;
+    state.nextRetryAt =
+      schedule && state.attempts < MAX_ATTACHMENT_ATTEMPTS
+        ? new Date(Date.now() + this.retryDelay(state.attempts))
+        : null;
+    await this.attachmentStateRepository.save(state);
+  }
+
+  private retryDelay(attempts: number): number {
+    return Math.min(
+      RETRY_BASE_DELAY_MS * 2 ** (attempts - 1),
+      RETRY_MAX_DELAY_MS,
+    );
+  }
+
+  private async advanceStage(
+    state: AttachmentState,
+    stage: AttachmentStage,
+  ): Promise<void> {
+    if (!this.hasReached(state, stage)) {
+      state.stage = stage;
+    }
+    await this.attachmentStateRepository.save(state);
+  }
+
+  private hasReached(state: AttachmentState, stage: AttachmentStage): boolean {
+    return (
+      ATTACHMENT_STAGES.indexOf(state.stage) >= ATTACHMENT_STAGES.indexOf(stage)
+    );
+  }
+
+  private toDocumentResult(
+    document: ProcessedDocument,
+  ): ProcessedDocumentResult {
+    return {
+      emailId: document.emailId,
+      fileName: document.fileName,
+      driveFileId: document.driveFileId,
+      spreadsheetRow: document.spreadsheetRow,
+      duplicateOfId: document.duplicateOfId ?? null,
+    };
+  }
+
+  private async findOriginalDocument(
+    accountId: string,
+    contentHash: string,
+  ): Promise<ProcessedDocument | null> {
+    return this.processedDocumentRepository.findOne({
+      where: { accountId, contentHash, duplicateOfId: IsNull() },
+      order: { processedAt: 'ASC' },
+    });
+  }
+
+  /**
+   * Records an attachment whose bytes were already filed from another email.
+   * The copy points at the original's Drive file and sheet row instead of
+   * creating new ones, and inherits its extracted fields.
+   */
+  private async recordDuplicate(
+    accountId: string,
+    emailDetails: EmailDetails,
+    originalFileName: string,
+    source: DocumentSource,
+    contentHash: string,
+    original: ProcessedDocument,
+    parentDocumentId: string | null,
+  ): Promise<ProcessedDocument> {
+    const sender = parseSender(emailDetails.from);
+    const duplicate = this.processedDocumentRepository.create({
+      accountId,
+      emailId: emailDetails.id,
+      messageId: emailDetails.id,
+      senderEmail: sender.address,
+      senderName: sender.displayName ?? original.senderName,
+      forwardedBy: emailDetails.forwardedBy,
+      vendorId: original.vendorId,
+      subject: emailDetails.subject,
+      invoiceNumber: original.invoiceNumber,
+      emailDate: new Date(emailDetails.date),
+      fileName: original.fileName,
+      originalFileName,
+      source,
+      parentDocumentId,
+      driveFileId: original.driveFileId,
+      driveFileUrl: original.driveFileUrl,
+      spreadsheetId: original.spreadsheetId,
+      spreadsheetRow: original.spreadsheetRow,
+      fileSize: original.fileSize,
+      mimeType: original.mimeType,
+      contentHash,
+      duplicateOfId: original.id,
+      category: original.category,
+      totalAmount: original.totalAmount,
+      netAmount: original.netAmount,
+      taxAmount: original.taxAmount,
+      currency: original.currency,
+      invoiceDate: original.invoiceDate,
+      dueDate: original.dueDate,
+      extractedVendor: original.extractedVendor,
+      sellerVatId: original.sellerVatId,
+      lineItems: original.lineItems,
+      eInvoiceFormat: original.eInvoiceFormat,
+      extractionConfidence: original.extractionConfidence,
+      textSource: original.textSource,
+      status: 'duplicate',
+    });
+
+    await this.processedDocumentRepository.save(duplicate);
+
+    this.logger.log(
+      `Skipping duplicate attachment ${originalFileName}: same content as ${original.fileName}`,
+    );
+    return duplicate;
+  }
+
+  private toConfidenceMap(fields: InvoiceFields): Record<string, number> {
+    const confidence: Record<string, number> = {};
+    for (const [name, field] of Object.entries(fields) as [
+      string,
+      ExtractedField<unknown>,
+    ][]) {
+      confidence[name] = field.confidence;
+    }
+    return confidence;
+  }
+
+  private async searchUnprocessedIds(
+    accountId: string,
+    range?: DateRange,
+  ): Promise<string[]> {
+    const unprocessedIds: string[] = [];
+    const seenIds = new Set<string>();
+    const queries = this.bodyReceiptsEnabled()
+      ? [DEFAULT_SEARCH_QUERY, BODY_RECEIPT_SEARCH_QUERY]
+      : [DEFAULT_SEARCH_QUERY];
+
+    for (const query of queries) {
+      for await (const page of this.gmailService.listMessagePages(
+        accountId,
+        range ? withDateRange(query, range.from, range.to) : query,
+      )) {
+        const pageIds = page
+          .map((message) => message.id)
+          .filter((id): id is string => !!id && !seenIds.has(id));
+        pageIds.forEach((id) => seenIds.add(id));
+        unprocessedIds.push(
+          ...(await this.filterUnprocessedIds(accountId, pageIds)),
+        );
+      }
+    }
+    return unprocessedIds;
+  }
+
+  /**
+   * Drops emails that were already handled. Emails with attachments still
+   * marked pending were interrupted mid-scan and are picked up again; those
+   * with failed attachments are left to the retry queue.
+   */
+  private async filterUnprocessedIds(
+    accountId: string,
+    emailIds: string[],
+  ): Promise<string[]> {
+    if (emailIds.length === 0) return [];
+
+    const [processedDocs, states] = await Promise.all([
+      this.processedDocumentRepository.find({
+        select: ['emailId'],
+        where: { accountId, emailId: In(emailIds) },
+      }),
+      this.attachmentStateRepository.find({
+        select: ['emailId', 'status'],
+        where: { accountId, emailId: In(emailIds) },
+      }),
+    ]);
+
+    const handledIds = new Set([
+      ...processedDocs.map((doc) => doc.emailId),
+      ...states.map((state) => state.emailId),
+    ]);
+    for (const state of states) {
+      if (state.status === 'pending') handledIds.delete(state.emailId);
+    }
+    return emailIds.filter((id) => !handledIds.has(id));
+  }
+
+  private async resolveSpreadsheet(accountId: string): Promise<string> {
+    const rules = await this.rulesService.findAll(accountId);
+    return this.sheetService.ensureSpreadsheetExists(
+      accountId,
+      'Financial Documents Log',
+      Array.from(new Set(rules.map((rule) => rule.category))),
+    );
+  }
+
+  private bodyReceiptsEnabled(): boolean {
+    return this.configService.get<string>('BODY_RECEIPTS_ENABLED') === 'true';
+  }
+
+  /**
+   * Whether an attachment is worth downloading: its declared type or name
+   * points to an accepted document or archive, or says too little to tell.
+   */
+  private isCandidateFile(attachment: EmailAttachment): boolean {
+    if (isUnknownType(attachment.filename, attachment.mimeType)) return true;
+
+    const mimeType = guessMimeType(attachment.filename, attachment.mimeType);
+    return (
+      !!mimeType &&
+      (ARCHIVE_MIME_TYPES.includes(mimeType) || this.isAllowedType(mimeType))
+    );
+  }
+
+  private isAllowedType(mimeType: string): boolean {
+    const configured = this.configService.get<string>('ALLOWED_MIME_TYPES');
+    const allowed = configured
+      ? configured.split(',').map((type) => type.trim().toLowerCase())
+      : DEFAULT_ALLOWED_MIME_TYPES;
+    return allowed.includes(mimeType);
+  }
+
+  /**
+   * Whether downloaded content is filed: an allowed type, an e-invoice when
+   * it is XML, or an archive unless it is itself inside one.
+   */
+  private isAcceptedFile(
+    mimeType: string | null,
+    content: Buffer,
+    insideArchive: boolean,
+  ): mimeType is string {
+    if (!mimeType) return false;
+    if (ARCHIVE_MIME_TYPES.includes(mimeType)) return !insideArchive;
+    return (
+      this.isAllowedType(mimeType) &&
+      (mimeType !== XML_MIME_TYPE || isEInvoiceXml(content))
+    );
   }
 
   private formatFileSize(sizeInBytes: number): string {
@@ -250,14 +1557,7 @@ export class ScannerService {
     return `${Math.round(size * 100) / 100} ${units[unitIndex]}`;
   }
 
-  private extractSenderName(email: string): string {
-    return email
-      .split('@')[0]
-      .replace(/[^a-zA-Z0-9\s]/g, ' ')
-      .trim();
-  }
-
-  private extractInvoiceNumber(subject: string): string {
+  private extractInvoiceNumber(subject: string): string | null {
     const patterns = [
       /invoice[\s#]*(\d+)/i,
       /inv[\s#]*(\d+)/i,
@@ -274,35 +1574,116 @@ export class ScannerService {
     return null;
   }
 
-  async getProcessingStats(): Promise<any> {
-    const totalProcessed = await this.processedDocumentRepository.count();
+  async getProcessingStats(
+    accountId?: string,
+  ): Promise<Omit<ProcessingStatsDto, 'schedules'>> {
+    const totalProcessed = await this.processedDocumentRepository.count({
+      where: { accountId, duplicateOfId: IsNull(), status: Not('archive') },
+    });
     const recentScans = await this.scanLogRepository.find({
-      order: { startedAt: 'Desc' },
+      where: { accountId },
+      order: { startedAt: 'DESC' },
       take: 10,
     });
 
-    const uniqueSenders = await this.processedDocumentRepository
+    const uniqueSendersQuery = this.processedDocumentRepository
       .createQueryBuilder('doc')
-      .select('DISTINCT doc.senderEmail')
-      .getRawMany();
+      .select('DISTINCT doc.senderEmail');
+    if (accountId) {
+      uniqueSendersQuery.where('doc.accountId = :accountId', { accountId });
+    }
+    const uniqueSenders = await uniqueSendersQuery.getRawMany();
 
     return {
+      accounts: accountId
+        ? [accountId]
+        : await this.authService.getAccountIds(),
       totalDocuments: totalProcessed,
       uniqueSenders: uniqueSenders.length,
-      recentScans: recentScans.map((scan) => ({
-        id: scan.id,
-        status: scan.status,
-        emailsProcessed: scan.emailsProcessed,
-        documentsProcessed: scan.documentsProcessed,
-        errorsCount: scan.errorsCount,
-        startedAt: scan.startedAt,
-        completedAt: scan.completedAt,
-      })),
+      recentScans: recentScans.map((scan) => ScanLogDto.fromEntity(scan)),
     };
   }
 
-  async getRecentDocuments(limit: number = 20): Promise<ProcessedDocument[]> {
+  /**
+   * Whether a live scan is running for `accountId`, or for any account when
+   * none is given. Dry runs write nothing, so they never hold up a live scan.
+   */
+  async isScanRunning(accountId?: string): Promise<boolean> {
+    const running = await this.scanLogRepository.count({
+      where: { accountId, status: 'started', mode: 'live' },
+    });
+    return running > 0;
+  }
+
+  /**
+   * Marks scans left in `started` by a crashed or restarted process as
+   * failed. Only safe to call on boot, before any new scan has begun.
+   */
+  async recoverStuckScans(): Promise<number> {
+    const result = await this.scanLogRepository.update(
+      { status: 'started' },
+      {
+        status: 'failed',
+        errorDetails: 'Scan interrupted by application restart',
+        completedAt: new Date(),
+      },
+    );
+
+    const recovered = result.affected ?? 0;
+    if (recovered > 0) {
+      this.logger.warn(`Marked ${recovered} interrupted scans as failed`);
+    }
+    return recovered;
+  }
+
+  async getFailedAttachments(accountId?: string): Promise<AttachmentState[]> {
+    return this.attachmentStateRepository.find({
+      where: { accountId, status: 'failed' },
+      order: { updatedAt: 'DESC' },
+    });
+  }
+
+  /**
+   * Retries one failed attachment immediately, regardless of its backoff or
+   * how many attempts it has used up.
+   */
+  async retryAttachment(id: string): Promise<AttachmentState> {
+    const state = await this.attachmentStateRepository.findOne({
+      where: { id },
+    });
+    if (!state) {
+      throw new NotFoundException(`Attachment ${id} not found`);
+    }
+    if (state.status !== 'failed') {
+      throw new BadRequestException(
+        `Attachment ${id} is ${state.status}, only failed attachments can be retried`,
+      );
+    }
+
+    // A file from an archive is retried by re-running the archive.
+    const [topLevelPartId] = state.partId.split(ARCHIVE_PATH_SEPARATOR);
+    const spreadsheetId = await this.resolveSpreadsheet(state.accountId);
+    await this.retryEmail(
+      state.accountId,
+      state.emailId,
+      new Set([topLevelPartId]),
+      spreadsheetId,
+    );
+    await this.syncSheetRows(state.accountId, spreadsheetId);
+
+    return this.attachmentStateRepository.findOneOrFail({ where: { id } });
+  }
+
+  async getScanLog(id: string): Promise<ScanLog | null> {
+    return this.scanLogRepository.findOne({ where: { id } });
+  }
+
+  async getRecentDocuments(
+    limit: number = 20,
+    accountId?: string,
+  ): Promise<ProcessedDocument[]> {
     return this.processedDocumentRepository.find({
+      where: { accountId },
       order: { processedAt: 'DESC' },
       take: limit,
     });
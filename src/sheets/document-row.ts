@@ -0,0 +1,110 @@
+import { ProcessedDocument } from '../entities';
+
+/** A document as written to its sheet row. */
+export interface DocumentRow {
+  documentId: string;
+  processedAt: string | Date;
+  emailDate: string | Date;
+  senderEmail: string;
+  vendorName?: string | null;
+  subject: string;
+  fileName: string;
+  driveFileId: string;
+  fileSize?: string | null;
+  invoiceNumber?: string | null;
+  invoiceDate?: string | null;
+  dueDate?: string | null;
+  currency?: string | null;
+  totalAmount?: number | null;
+  taxAmount?: number | null;
+  category?: string | null;
+  paymentStatus?: string | null;
+}
+
+/**
+ * Columns the accountant may correct in the sheet, keyed by the document
+ * field each one is synced back to.
+ */
+export const EDITABLE_COLUMNS = {
+  vendorName: 'Vendor',
+  invoiceNumber: 'Invoice Number',
+  category: 'Category',
+  paymentStatus: 'Status',
+} as const;
+
+export type EditableField = keyof typeof EDITABLE_COLUMNS;
+
+export const EDITABLE_FIELDS = Object.keys(EDITABLE_COLUMNS) as EditableField[];
+
+/** The editable cells of a row, as text. */
+export type EditableValues = Record<EditableField, string>;
+
+/** Offered in the Status dropdown. */
+export const PAYMENT_STATUSES = ['Unpaid', 'Paid'];
+
+/**
+ * Builds the row for a document. `registryVendorName` is the name of its
+ * vendor, used unless the name was corrected in the sheet.
+ */
+export function toDocumentRow(
+  document: ProcessedDocument,
+  registryVendorName: string | null,
+): DocumentRow {
+  return {
+    documentId: document.id,
+    processedAt: document.processedAt,
+    emailDate: document.emailDate,
+    senderEmail: document.senderEmail,
+    vendorName: document.vendorName ?? registryVendorName,
+    subject: document.subject,
+    fileName: document.fileName,
+    driveFileId: document.driveFileId,
+    fileSize: document.fileSize,
+    invoiceNumber: document.invoiceNumber,
+    invoiceDate: document.invoiceDate,
+    dueDate: document.dueDate,
+    currency: document.currency,
+    totalAmount:
+      document.totalAmount === null ? null : Number(document.totalAmount),
+    taxAmount: document.taxAmount === null ? null : Number(document.taxAmount),
+    category: document.category,
+    paymentStatus: document.paymentStatus,
+  };
+}
+
+/**
+ * The text the editable cells of a row show, including the fallbacks used
+ * when the document has no value of its own.
+ */
+export function editableValues(row: DocumentRow): EditableValues {
+  return {
+    vendorName: row.vendorName ?? senderName(row.senderEmail),
+    invoiceNumber: row.invoiceNumber ?? invoiceNumberFromSubject(row.subject),
+    category: row.category ?? '',
+    paymentStatus: row.paymentStatus ?? '',
+  };
+}
+
+function senderName(email: string): string {
+  return email
+    .split('@')[0]
+    .replace(/[^a-zA-Z0-9\s]/g, ' ')
+    .trim();
+}
+
+function invoiceNumberFromSubject(subject: string): string {
+  const patterns = [
+    /invoice[\s#]*(\d+)/i,
+    /inv[\s#]*(\d+)/i,
+    /bill[\s#]*(\d+)/i,
+    /receipt[\s#]*(\d+)/i,
+    /#(\d+)/,
+  ];
+
+  for (const pattern of patterns) {
+    const match = subject.match(pattern);
+    if (match) return match[1];
+  }
+
+  return 'N/A';
+}
@@ -0,0 +1,2 @@
+export { SheetConflictDto } from './sheet-conflict.dto';
+export { SheetSyncRequestDto, SheetSyncResultDto } from './sheet-sync.dto';
@@ -0,0 +1,29 @@
+import { SheetConflict, SheetConflictWinner } from '../../entities';
+
+export class SheetConflictDto {
+  id: string;
+  accountId: string;
+  documentId: string;
+  field: string;
+  sheetValue: string;
+  databaseValue: string;
+  winner: SheetConflictWinner;
+  sheetModifiedAt: Date | null;
+  databaseModifiedAt: Date;
+  createdAt: Date;
+
+  static fromEntity(conflict: SheetConflict): SheetConflictDto {
+    return {
+      id: conflict.id,
+      accountId: conflict.accountId,
+      documentId: conflict.documentId,
+      field: conflict.field,
+      sheetValue: conflict.sheetValue,
+      databaseValue: conflict.databaseValue,
+      winner: conflict.winner,
+      sheetModifiedAt: conflict.sheetModifiedAt,
+      databaseModifiedAt: conflict.databaseModifiedAt,
+      createdAt: conflict.createdAt,
+    };
+  }
+}
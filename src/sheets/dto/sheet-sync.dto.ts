@@ -0,0 +1,13 @@
+import { IsEmail } from 'class-validator';
+import { SheetSyncResult } from '../../common/interfaces/sheet-sync.interface';
+
+export class SheetSyncRequestDto {
+  @IsEmail()
+  accountId: string;
+}
+
+export class SheetSyncResultDto implements SheetSyncResult {
+  applied: number;
+  conflicts: number;
+  rewritten: number;
+}
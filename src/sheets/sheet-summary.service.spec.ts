@@ -0,0 +1,102 @@
+import { Repository } from 'typeorm';
+import { ProcessedDocument } from '../entities';
+import { SheetSummaryService } from './sheet-summary.service';
+import { SheetTable, SheetsService } from './sheets.service';
+
+const ACCOUNT = 'me@example.com';
+
+describe('SheetSummaryService', () => {
+  const sheetsService = { writeTables: jest.fn() };
+  const queryBuilder = {
+    leftJoin: jest.fn(),
+    select: jest.fn(),
+    addSelect: jest.fn(),
+    where: jest.fn(),
+    andWhere: jest.fn(),
+    groupBy: jest.fn(),
+    addGroupBy: jest.fn(),
+    orderBy: jest.fn(),
+    addOrderBy: jest.fn(),
+    getRawMany: jest.fn(),
+  };
+  const processedDocumentRepository = {
+    createQueryBuilder: jest.fn(() => queryBuilder),
+  };
+  let sheetSummaryService: SheetSummaryService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    for (const [name, method] of Object.entries(queryBuilder)) {
+      if (name !== 'getRawMany') method.mockReturnValue(queryBuilder);
+    }
+    queryBuilder.getRawMany.mockResolvedValue([]);
+    sheetSummaryService = new SheetSummaryService(
+      sheetsService as unknown as SheetsService,
+      processedDocumentRepository as unknown as Repository<ProcessedDocument>,
+    );
+  });
+
+  it('should write a month, vendor and category tab in one call', async () => {
+    queryBuilder.getRawMany.mockResolvedValueOnce([
+      {
+        label: '2024-03',
+        currency: 'EUR',
+        documents: '2',
+        totalAmount: '119.00',
+        taxAmount: '19.00',
+        netAmount: '100.00',
+      },
+      {
+        label: '2024-03',
+        currency: null,
+        documents: '1',
+        totalAmount: '0',
+        taxAmount: '0',
+        netAmount: '0',
+      },
+    ]);
+
+    await sheetSummaryService.refreshSummaries(ACCOUNT, 'sheet-1');
+
+    expect(sheetsService.writeTables).toHaveBeenCalledTimes(1);
+    const [, spreadsheetId, tables] = sheetsService.writeTables.mock
+      .calls[0] as [string, string, SheetTable[]];
+    expect(spreadsheetId).toBe('sheet-1');
+    expect(tables.map((table) => table.title)).toEqual([
+      'Summary by Month',
+      'Summary by Vendor',
+      'Summary by Category',
+    ]);
+    expect(tables[0]).toEqual({
+      title: 'Summary by Month',
+      header: [
+        'Month',
+        'Currency',
+        'Documents',
+        'Total Amount',
+        'Tax Amount',
+        'Net Amount',
+      ],
+      rows: [
+        ['2024-03', 'EUR', 2, 119, 19, 100],
+        ['2024-03', null, 1, 0, 0, 0],
+      ],
+    });
+    expect(tables[1].rows).toEqual([]);
+  });
+
+  it('should only count completed documents of the account', async () => {
+    await sheetSummaryService.refreshSummaries(ACCOUNT, 'sheet-1');
+
+    expect(queryBuilder.where).toHaveBeenCalledWith(
+      'doc.accountId = :accountId',
+      { accountId: ACCOUNT },
+    );
+    expect(queryBuilder.andWhere).toHaveBeenCalledWith(
+      'doc.duplicateOfId IS NULL',
+    );
+    expect(queryBuilder.andWhere).toHaveBeenCalledWith('doc.status = :status', {
+      status: 'completed',
+    });
+  });
+});
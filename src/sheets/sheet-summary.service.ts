@@ -0,0 +1,109 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { ProcessedDocument, Vendor } from '../entities';
+import { SheetTable, SheetsService, SUMMARY_TABS } from './sheets.service';
+
+const SUMMARY_HEADER = [
+  'Currency',
+  'Documents',
+  'Total Amount',
+  'Tax Amount',
+  'Net Amount',
+];
+
+interface RawSummaryRow {
+  label: string;
+  currency: string | null;
+  documents: string;
+  totalAmount: string;
+  taxAmount: string;
+  netAmount: string;
+}
+
+/**
+ * Rebuilds the month, vendor and category summary tabs from the database.
+ * Amounts are totalled per currency, since they cannot be added across
+ * currencies; duplicates, archives and skipped files are left out.
+ */
+@Injectable()
+export class SheetSummaryService {
+  private readonly logger = new Logger(SheetSummaryService.name);
+
+  constructor(
+    private sheetsService: SheetsService,
+    @InjectRepository(ProcessedDocument)
+    private processedDocumentRepository: Repository<ProcessedDocument>,
+  ) {}
+
+  async refreshSummaries(
+    accountId: string,
+    spreadsheetId: string,
+  ): Promise<void> {
+    const tables: SheetTable[] = [
+      await this.summarise(
+        accountId,
+        SUMMARY_TABS.month,
+        'Month',
+        "to_char(COALESCE(doc.invoiceDate, doc.emailDate), 'YYYY-MM')",
+        'DESC',
+      ),
+      await this.summarise(
+        accountId,
+        SUMMARY_TABS.vendor,
+        'Vendor',
+        'COALESCE(doc.vendorName, vendor.name, doc.senderName)',
+        'ASC',
+      ),
+      await this.summarise(
+        accountId,
+        SUMMARY_TABS.category,
+        'Category',
+        "COALESCE(doc.category, 'Uncategorised')",
+        'ASC',
+      ),
+    ];
+
+    await this.sheetsService.writeTables(accountId, spreadsheetId, tables);
+    this.logger.log(`Refreshed summary tabs of spreadsheet ${spreadsheetId}`);
+  }
+
+  private async summarise(
+    accountId: string,
+    title: string,
+    labelHeader: string,
+    labelExpression: string,
+    order: 'ASC' | 'DESC',
+  ): Promise<SheetTable> {
+    const rows = await this.processedDocumentRepository
+      .createQueryBuilder('doc')
+      .leftJoin(Vendor, 'vendor', 'vendor.id = doc.vendorId')
+      .select(labelExpression, 'label')
+      .addSelect('doc.currency', 'currency')
+      .addSelect('COUNT(*)', 'documents')
+      .addSelect('COALESCE(SUM(doc.totalAmount), 0)', 'totalAmount')
+      .addSelect('COALESCE(SUM(doc.taxAmount), 0)', 'taxAmount')
+      .addSelect('COALESCE(SUM(doc.netAmount), 0)', 'netAmount')
+      .where('doc.accountId = :accountId', { accountId })
+      .andWhere('doc.duplicateOfId IS NULL')
+      .andWhere('doc.status = :status', { status: 'completed' })
+      .groupBy('label')
+      .addGroupBy('doc.currency')
+      .orderBy('label', order)
+      .addOrderBy('doc.currency', 'ASC')
+      .getRawMany<RawSummaryRow>();
+
+    return {
+      title,
+      header: [labelHeader, ...SUMMARY_HEADER],
+      rows: rows.map((row) => [
+        row.label,
+        row.currency,
+        Number(row.documents),
+        Number(row.totalAmount),
+        Number(row.taxAmount),
+        Number(row.netAmount),
+      ]),
+    };
+  }
+}
@@ -0,0 +1,228 @@
+import { In, Repository } from 'typeorm';
+import { ProcessedDocument, SheetConflict } from '../entities';
+import { VendorsService } from '../vendors/vendors.service';
+import { EditableValues } from './document-row';
+import { SheetSyncService } from './sheet-sync.service';
+import { SheetsService } from './sheets.service';
+
+const ACCOUNT = 'me@example.com';
+const DOCUMENT_ID = '0b7c6a52-3f6e-4c1d-9a8e-2d5f4b1c7e90';
+
+const SYNCED: EditableValues = {
+  vendorName: 'Vendor',
+  invoiceNumber: '1001',
+  category: '',
+  paymentStatus: '',
+};
+
+function document(overrides: Partial<ProcessedDocument>): ProcessedDocument {
+  return {
+    id: DOCUMENT_ID,
+    accountId: ACCOUNT,
+    vendorId: 'vendor-1',
+    vendorName: null,
+    senderEmail: 'billing@vendor.com',
+    subject: 'Invoice 1001',
+    invoiceNumber: '1001',
+    category: null,
+    paymentStatus: null,
+    totalAmount: null,
+    taxAmount: null,
+    sheetValues: SYNCED,
+    updatedAt: new Date('2024-03-01T00:00:00Z'),
+    ...overrides,
+  } as ProcessedDocument;
+}
+
+describe('SheetSyncService', () => {
+  const sheetsService = {
+    readEditableValues: jest.fn(),
+    getEditedTime: jest.fn(),
+    upsertDocuments: jest.fn(),
+  };
+  const vendorsService = { findAll: jest.fn() };
+  let documents: ProcessedDocument[];
+  const processedDocumentRepository = {
+    find: jest.fn(() => Promise.resolve(documents)),
+    save: jest.fn((value: ProcessedDocument) => Promise.resolve(value)),
+  };
+  const sheetConflictRepository = {
+    create: jest.fn((value: Partial<SheetConflict>) => value),
+    save: jest.fn((value: SheetConflict) => Promise.resolve(value)),
+  };
+  let sheetSyncService: SheetSyncService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    documents = [];
+    vendorsService.findAll.mockResolvedValue([
+      { id: 'vendor-1', name: 'Vendor' },
+    ]);
+    sheetsService.getEditedTime.mockResolvedValue(
+      new Date('2024-03-05T00:00:00Z'),
+    );
+    sheetsService.upsertDocuments.mockResolvedValue(
+      new Map([[DOCUMENT_ID, 7]]),
+    );
+    sheetSyncService = new SheetSyncService(
+      sheetsService as unknown as SheetsService,
+      vendorsService as unknown as VendorsService,
+      processedDocumentRepository as unknown as Repository<ProcessedDocument>,
+      sheetConflictRepository as unknown as Repository<SheetConflict>,
+    );
+  });
+
+  const sheetRow = (values: Partial<EditableValues>) =>
+    sheetsService.readEditableValues.mockResolvedValue([
+      { documentId: DOCUMENT_ID, values: { ...SYNCED, ...values } },
+    ]);
+
+  describe('syncEdits', () => {
+    it('should apply values edited in the sheet', async () => {
+      documents = [document({})];
+      sheetRow({ vendorName: 'Vendor Ltd', paymentStatus: 'Paid' });
+
+      const result = await sheetSyncService.syncEdits(ACCOUNT, 'sheet-1');
+
+      expect(result).toEqual({ applied: 1, conflicts: 0, rewritten: 0 });
+      expect(documents[0]).toMatchObject({
+        vendorName: 'Vendor Ltd',
+        paymentStatus: 'Paid',
+        sheetValues: {
+          ...SYNCED,
+          vendorName: 'Vendor Ltd',
+          paymentStatus: 'Paid',
+        },
+      });
+      expect(processedDocumentRepository.save).toHaveBeenCalledTimes(1);
+      expect(sheetsService.upsertDocuments).not.toHaveBeenCalled();
+    });
+
+    it('should leave rows that match the database alone', async () => {
+      documents = [document({})];
+      sheetRow({});
+
+      const result = await sheetSyncService.syncEdits(ACCOUNT, 'sheet-1');
+
+      expect(result).toEqual({ applied: 0, conflicts: 0, rewritten: 0 });
+      expect(processedDocumentRepository.save).not.toHaveBeenCalled();
+    });
+
+    it('should keep the sheet value when the sheet changed last', async () => {
+      documents = [document({ invoiceNumber: 'INV-1' })];
+      sheetRow({ invoiceNumber: 'INV-2' });
+
+      const result = await sheetSyncService.syncEdits(ACCOUNT, 'sheet-1');
+
+      expect(result).toMatchObject({ applied: 1, conflicts: 1 });
+      expect(documents[0].invoiceNumber).toBe('INV-2');
+      expect(sheetConflictRepository.save).toHaveBeenCalledWith(
+        expect.objectContaining({
+          documentId: DOCUMENT_ID,
+          field: 'invoiceNumber',
+          sheetValue: 'INV-2',
+          databaseValue: 'INV-1',
+          winner: 'sheet',
+        }),
+      );
+    });
+
+    it('should rewrite the row when the database changed last', async () => {
+      documents = [
+        document({
+          invoiceNumber: 'INV-1',
+          updatedAt: new Date('2024-03-09T00:00:00Z'),
+        }),
+      ];
+      sheetRow({ invoiceNumber: 'INV-2' });
+
+      const result = await sheetSyncService.syncEdits(ACCOUNT, 'sheet-1');
+
+      expect(result).toEqual({ applied: 0, conflicts: 1, rewritten: 1 });
+      expect(documents[0]).toMatchObject({
+        invoiceNumber: 'INV-1',
+        spreadsheetRow: 7,
+        sheetValues: { ...SYNCED, invoiceNumber: 'INV-1' },
+        sheetSyncedAt: expect.any(Date) as Date,
+      });
+      expect(sheetsService.upsertDocuments).toHaveBeenCalledWith(
+        ACCOUNT,
+        'sheet-1',
+        [
+          expect.objectContaining({
+            documentId: DOCUMENT_ID,
+            invoiceNumber: 'INV-1',
+          }),
+        ],
+      );
+    });
+
+    it('should not credit the sheet with edits older than the row', async () => {
+      documents = [
+        document({
+          invoiceNumber: 'INV-1',
+          sheetSyncedAt: new Date('2024-03-06T00:00:00Z'),
+        }),
+      ];
+      sheetRow({ invoiceNumber: 'INV-2' });
+
+      const result = await sheetSyncService.syncEdits(ACCOUNT, 'sheet-1');
+
+      expect(result).toEqual({ applied: 0, conflicts: 1, rewritten: 1 });
+      expect(documents[0].invoiceNumber).toBe('INV-1');
+    });
+
+    it('should count a vendor rename as a change to the vendor name', async () => {
+      const renamedAt = new Date('2024-03-09T00:00:00Z');
+      vendorsService.findAll.mockResolvedValue([
+        { id: 'vendor-1', name: 'Vendor Group', updatedAt: renamedAt },
+      ]);
+      documents = [document({})];
+      sheetRow({ vendorName: 'Vendor Ltd' });
+
+      const result = await sheetSyncService.syncEdits(ACCOUNT, 'sheet-1');
+
+      expect(result).toEqual({ applied: 0, conflicts: 1, rewritten: 1 });
+      expect(documents[0].vendorName).toBeNull();
+      expect(sheetConflictRepository.save).toHaveBeenCalledWith(
+        expect.objectContaining({
+          field: 'vendorName',
+          winner: 'database',
+          databaseModifiedAt: renamedAt,
+        }),
+      );
+    });
+
+    it('should ignore Document ID cells that are not document ids', async () => {
+      documents = [document({})];
+      sheetsService.readEditableValues.mockResolvedValue([
+        { documentId: 'see notes', values: SYNCED },
+        {
+          documentId: DOCUMENT_ID,
+          values: { ...SYNCED, paymentStatus: 'Paid' },
+        },
+      ]);
+
+      const result = await sheetSyncService.syncEdits(ACCOUNT, 'sheet-1');
+
+      expect(result).toMatchObject({ applied: 1 });
+      expect(processedDocumentRepository.find).toHaveBeenCalledWith({
+        where: { accountId: ACCOUNT, id: In([DOCUMENT_ID]) },
+      });
+    });
+
+    it('should move a row whose category was changed in the sheet', async () => {
+      documents = [document({})];
+      sheetRow({ category: 'Travel' });
+
+      await sheetSyncService.syncEdits(ACCOUNT, 'sheet-1');
+
+      expect(documents[0].category).toBe('Travel');
+      expect(sheetsService.upsertDocuments).toHaveBeenCalledWith(
+        ACCOUNT,
+        'sheet-1',
+        [expect.objectContaining({ category: 'Travel' })],
+      );
+    });
+  });
+});
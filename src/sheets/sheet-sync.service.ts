@@ -0,0 +1,250 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { isUUID } from 'class-validator';
+import { In, Repository } from 'typeorm';
+import { SheetSyncResult } from '../common/interfaces/sheet-sync.interface';
+import { ProcessedDocument, SheetConflict, Vendor } from '../entities';
+import { VendorsService } from '../vendors/vendors.service';
+import {
+  DocumentRow,
+  EDITABLE_FIELDS,
+  EditableField,
+  EditableValues,
+  editableValues,
+  toDocumentRow,
+} from './document-row';
+import { SheetsService } from './sheets.service';
+
+/**
+ * Keeps document rows and the database in step in both directions. Each
+ * document remembers the editable cells of its row as last synced and
+ * when, so a cell that differs from that snapshot was edited in the sheet,
+ * and a field that differs from it was changed here.
+ */
+@Injectable()
+export class SheetSyncService {
+  private readonly logger = new Logger(SheetSyncService.name);
+
+  constructor(
+    private sheetsService: SheetsService,
+    private vendorsService: VendorsService,
+    @InjectRepository(ProcessedDocument)
+    private processedDocumentRepository: Repository<ProcessedDocument>,
+    @InjectRepository(SheetConflict)
+    private sheetConflictRepository: Repository<SheetConflict>,
+  ) {}
+
+  /**
+   * Writes the documents' rows in one batch and records what was written,
+   * along with each row's position.
+   */
+  async writeDocuments(
+    accountId: string,
+    spreadsheetId: string,
+    documents: ProcessedDocument[],
+  ): Promise<void> {
+    if (documents.length === 0) return;
+
+    const vendors = await this.vendors(accountId);
+    const rows = documents.map((document) => this.toRow(document, vendors));
+    const rowNumbers = await this.sheetsService.upsertDocuments(
+      accountId,
+      spreadsheetId,
+      rows,
+    );
+
+    const syncedAt = new Date();
+    for (const [i, document] of documents.entries()) {
+      document.spreadsheetRow = rowNumbers.get(document.id) ?? null;
+      document.sheetValues = editableValues(rows[i]);
+      document.sheetSyncedAt = syncedAt;
+      await this.processedDocumentRepository.save(document);
+    }
+  }
+
+  /** Syncs edits from the account's spreadsheet on demand. */
+  async syncAccount(accountId: string): Promise<SheetSyncResult> {
+    const spreadsheetId =
+      await this.sheetsService.ensureSpreadsheetExists(accountId);
+    return this.syncEdits(accountId, spreadsheetId);
+  }
+
+  /**
+   * Applies edits made to the editable columns of the sheet. When a value
+   * was also changed here since the row was last synced, whichever side
+   * changed last wins and the conflict is logged. Sheets keeps no edit time
+   * per cell, so the sheet side counts as changed when the spreadsheet was
+   * last edited, and only if that was after the row's own sync. Rows that
+   * lost to the database, or whose category moved them to another tab, are
+   * rewritten.
+   */
+  async syncEdits(
+    accountId: string,
+    spreadsheetId: string,
+  ): Promise<SheetSyncResult> {
+    const result: SheetSyncResult = { applied: 0, conflicts: 0, rewritten: 0 };
+
+    // Anything typed into the Document ID column is read back, and the id
+    // column only accepts uuids.
+    const sheetRows = (
+      await this.sheetsService.readEditableValues(accountId, spreadsheetId)
+    ).filter((row) => isUUID(row.documentId));
+    if (sheetRows.length === 0) return result;
+
+    const documents = await this.processedDocumentRepository.find({
+      where: {
+        accountId,
+        id: In(sheetRows.map((row) => row.documentId)),
+      },
+    });
+    const documentsById = new Map(
+      documents.map((document) => [document.id, document]),
+    );
+    const spreadsheetEditedAt = await this.sheetsService.getEditedTime(
+      accountId,
+      spreadsheetId,
+    );
+    const vendors = await this.vendors(accountId);
+
+    const rewrite: ProcessedDocument[] = [];
+    for (const { documentId, values: sheet } of sheetRows) {
+      const document = documentsById.get(documentId);
+      if (!document) continue;
+
+      const database = editableValues(this.toRow(document, vendors));
+      const synced = document.sheetValues ?? database;
+      const sheetEditedAt =
+        spreadsheetEditedAt &&
+        (!document.sheetSyncedAt ||
+          spreadsheetEditedAt > document.sheetSyncedAt)
+          ? spreadsheetEditedAt
+          : null;
+      const edits: Partial<EditableValues> = {};
+      let stale = false;
+
+      for (const field of EDITABLE_FIELDS) {
+        if (sheet[field] === database[field]) continue;
+
+        const editedInSheet = sheet[field] !== synced[field];
+        const changedHere = database[field] !== synced[field];
+        if (editedInSheet && changedHere) {
+          const changedAt = this.changedAt(document, field, vendors);
+          const winner =
+            sheetEditedAt && sheetEditedAt > changedAt ? 'sheet' : 'database';
+          await this.logConflict(
+            document,
+            field,
+            sheet[field],
+            database[field],
+            winner,
+            sheetEditedAt,
+            changedAt,
+          );
+          result.conflicts++;
+          if (winner === 'sheet') edits[field] = sheet[field];
+          else stale = true;
+        } else if (editedInSheet) {
+          edits[field] = sheet[field];
+        } else {
+          stale = true;
+        }
+      }
+
+      const fields = Object.keys(edits) as EditableField[];
+      if (fields.length > 0) {
+        for (const field of fields) {
+          document[field] = edits[field] || null;
+        }
+        result.applied++;
+        this.logger.log(
+          `Applied sheet edits to ${fields.join(', ')} of document ${documentId}`,
+        );
+      }
+
+      if (stale || edits.category !== undefined) {
+        rewrite.push(document);
+      } else if (fields.length > 0) {
+        document.sheetValues = sheet;
+        document.sheetSyncedAt = new Date();
+        await this.processedDocumentRepository.save(document);
+      }
+    }
+
+    await this.writeDocuments(accountId, spreadsheetId, rewrite);
+    result.rewritten = rewrite.length;
+    return result;
+  }
+
+  async getConflicts(accountId?: string): Promise<SheetConflict[]> {
+    return this.sheetConflictRepository.find({
+      where: { accountId },
+      order: { createdAt: 'DESC' },
+      take: 100,
+    });
+  }
+
+  private async logConflict(
+    document: ProcessedDocument,
+    field: EditableField,
+    sheetValue: string,
+    databaseValue: string,
+    winner: SheetConflict['winner'],
+    sheetModifiedAt: Date | null,
+    databaseModifiedAt: Date,
+  ): Promise<void> {
+    const conflict = this.sheetConflictRepository.create({
+      accountId: document.accountId,
+      documentId: document.id,
+      field,
+      sheetValue,
+      databaseValue,
+      winner,
+      sheetModifiedAt,
+      databaseModifiedAt,
+    });
+    await this.sheetConflictRepository.save(conflict);
+
+    this.logger.warn(
+      `Conflicting edits to ${field} of document ${document.id}: kept the ${winner} value`,
+    );
+  }
+
+  /**
+   * When a field last changed here. A vendor name shown from the registry
+   * also changes when the vendor is renamed, which leaves the document
+   * itself untouched.
+   */
+  private changedAt(
+    document: ProcessedDocument,
+    field: EditableField,
+    vendors: Map<string, Vendor>,
+  ): Date {
+    const vendor = document.vendorId
+      ? vendors.get(document.vendorId)
+      : undefined;
+    if (
+      field === 'vendorName' &&
+      !document.vendorName &&
+      vendor &&
+      vendor.updatedAt > document.updatedAt
+    ) {
+      return vendor.updatedAt;
+    }
+    return document.updatedAt;
+  }
+
+  private toRow(
+    document: ProcessedDocument,
+    vendors: Map<string, Vendor>,
+  ): DocumentRow {
+    const vendor = document.vendorId
+      ? vendors.get(document.vendorId)
+      : undefined;
+    return toDocumentRow(document, vendor?.name ?? null);
+  }
+
+  private async vendors(accountId: string): Promise<Map<string, Vendor>> {
+    const vendors = await this.vendorsService.findAll(accountId);
+    return new Map(vendors.map((vendor) => [vendor.id, vendor]));
+  }
+}
@@ -0,0 +1,38 @@
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { AuthGuard } from '../auth/auth.guard';
+import { AccountQueryDto } from '../common/dto/account-query.dto';
+import { SheetSyncService } from './sheet-sync.service';
+import {
+  SheetConflictDto,
+  SheetSyncRequestDto,
+  SheetSyncResultDto,
+} from './dto';
+
+@Controller('sheets')
+@UseGuards(AuthGuard)
+export class SheetsController {
+  constructor(private readonly sheetSyncService: SheetSyncService) {}
+
+  @Post('sync')
+  @HttpCode(HttpStatus.OK)
+  async sync(@Body() body: SheetSyncRequestDto): Promise<SheetSyncResultDto> {
+    return this.sheetSyncService.syncAccount(body.accountId);
+  }
+
+  @Get('conflicts')
+  async getConflicts(
+    @Query() query: AccountQueryDto,
+  ): Promise<SheetConflictDto[]> {
+    const conflicts = await this.sheetSyncService.getConflicts(query.accountId);
+    return conflicts.map((conflict) => SheetConflictDto.fromEntity(conflict));
+  }
+}
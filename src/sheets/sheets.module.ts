@@ -0,0 +1,16 @@
+import { Module } from '@nestjs/common';
+import { AuthModule } from '../auth/auth.module';
+import { DatabaseModule } from '../database/database.module';
+import { VendorsModule } from '../vendors/vendors.module';
+import { SheetsController } from './sheets.controller';
+import { SheetsService } from './sheets.service';
+import { SheetSummaryService } from './sheet-summary.service';
+import { SheetSyncService } from './sheet-sync.service';
+
+@Module({
+  imports: [AuthModule, DatabaseModule, VendorsModule],
+  controllers: [SheetsController],
+  providers: [SheetsService, SheetSyncService, SheetSummaryService],
+  exports: [SheetsService, SheetSyncService, SheetSummaryService],
+})
+export class SheetsModule {}
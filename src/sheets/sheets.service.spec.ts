@@ -0,0 +1,453 @@
+import { google } from 'googleapis';
+import { Repository } from 'typeorm';
+import { AuthService } from '../auth/auth.service';
+import { SheetWriteMark } from '../entities';
+import { DocumentRow } from './document-row';
+import { SheetsService } from './sheets.service';
+
+const ACCOUNT = 'me@example.com';
+
+function documentRow(documentId: string, category?: string): DocumentRow {
+  return {
+    documentId,
+    processedAt: '2024-03-02T08:00:00Z',
+    emailDate: '2024-03-01T10:00:00Z',
+    senderEmail: 'billing@vendor.com',
+    vendorName: 'Vendor',
+    subject: 'Invoice 1001',
+    fileName: `${documentId}.pdf`,
+    driveFileId: `drive-${documentId}`,
+    fileSize: '2 KB',
+    totalAmount: 12.5,
+    category,
+  };
+}
+
+function tab(title: string, sheetId: number, columnCount = 18) {
+  return { properties: { title, sheetId, gridProperties: { columnCount } } };
+}
+
+describe('SheetsService', () => {
+  const authService = { getAuthenticated: jest.fn() };
+  const sheetsClient = {
+    spreadsheets: {
+      get: jest.fn(),
+      batchUpdate: jest.fn(),
+      create: jest.fn(),
+      values: { batchGet: jest.fn(), update: jest.fn() },
+    },
+  };
+  const driveClient = { files: { list: jest.fn(), get: jest.fn() } };
+  let writeMark: SheetWriteMark | null;
+  const sheetWriteMarkRepository = {
+    findOneBy: jest.fn(),
+    save: jest.fn(),
+  };
+  let sheetsService: SheetsService;
+
+  const createService = () =>
+    new SheetsService(
+      authService as unknown as AuthService,
+      sheetWriteMarkRepository as unknown as Repository<SheetWriteMark>,
+    );
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    jest
+      .spyOn(google, 'sheets')
+      .mockReturnValue(
+        sheetsClient as unknown as ReturnType<typeof google.sheets>,
+      );
+    jest
+      .spyOn(google, 'drive')
+      .mockReturnValue(
+        driveClient as unknown as ReturnType<typeof google.drive>,
+      );
+    sheetsClient.spreadsheets.get.mockResolvedValue({
+      data: { sheets: [tab('Financial Documents', 0)] },
+    });
+    sheetsClient.spreadsheets.batchUpdate.mockResolvedValue({ data: {} });
+    driveClient.files.get.mockResolvedValue({ data: {} });
+    writeMark = null;
+    sheetWriteMarkRepository.findOneBy.mockImplementation(() =>
+      Promise.resolve(writeMark),
+    );
+    sheetWriteMarkRepository.save.mockImplementation(
+      (value: SheetWriteMark) => {
+        writeMark = value;
+        return Promise.resolve(value);
+      },
+    );
+    sheetsService = createService();
+  });
+
+  const requests = (call = 0) =>
+    (
+      sheetsClient.spreadsheets.batchUpdate.mock.calls[call] as [
+        { requestBody: { requests: Record<string, unknown>[] } },
+      ]
+    )[0].requestBody.requests;
+
+  describe('upsertDocuments', () => {
+    it('should update rows found by document id and append the rest', async () => {
+      // The sheet has been sorted, so doc-b now sits above doc-a.
+      sheetsClient.spreadsheets.values.batchGet.mockResolvedValue({
+        data: {
+          valueRanges: [
+            { values: [['Date Processed', '2024-03-02', '2024-03-01']] },
+            { values: [['Document ID', 'doc-b', 'doc-a']] },
+          ],
+        },
+      });
+
+      const rowNumbers = await sheetsService.upsertDocuments(
+        ACCOUNT,
+        'sheet-1',
+        [documentRow('doc-a'), documentRow('doc-c')],
+      );
+
+      expect(rowNumbers).toEqual(
+        new Map([
+          ['doc-a', 3],
+          ['doc-c', 4],
+        ]),
+      );
+      expect(sheetsClient.spreadsheets.batchUpdate).toHaveBeenCalledTimes(1);
+      expect(requests()).toEqual([
+        {
+          updateCells: expect.objectContaining({
+            start: { sheetId: 0, rowIndex: 2, columnIndex: 0 },
+          }) as object,
+        },
+        {
+          appendCells: expect.objectContaining({
+            sheetId: 0,
+            rows: [expect.anything()],
+          }) as object,
+        },
+      ]);
+    });
+
+    it('should write values as plain cells keyed by the document id', async () => {
+      sheetsClient.spreadsheets.values.batchGet.mockResolvedValue({
+        data: { valueRanges: [{}, {}] },
+      });
+
+      await sheetsService.upsertDocuments(ACCOUNT, 'sheet-1', [
+        documentRow('doc-a'),
+      ]);
+
+      const { appendCells } = requests()[0] as {
+        appendCells: { rows: { values: object[] }[] };
+      };
+      const cells = appendCells.rows[0].values;
+      expect(cells).toHaveLength(18);
+      expect(cells[0]).toEqual({
+        userEnteredValue: { stringValue: '2024-03-02' },
+      });
+      expect(cells[10]).toEqual({});
+      expect(cells[13]).toEqual({ userEnteredValue: { numberValue: 12.5 } });
+      expect(cells[15]).toEqual({
+        userEnteredValue: { stringValue: 'doc-a' },
+      });
+      expect(cells[17]).toEqual({});
+    });
+
+    it('should move a row whose category now points to another tab', async () => {
+      sheetsClient.spreadsheets.get.mockResolvedValue({
+        data: { sheets: [tab('Financial Documents', 0), tab('Travel', 7, 15)] },
+      });
+      sheetsClient.spreadsheets.values.batchGet.mockResolvedValue({
+        data: {
+          valueRanges: [
+            { values: [['Date Processed', '2024-03-02']] },
+            { values: [['Document ID', 'doc-a']] },
+            { values: [['Date Processed']] },
+            {},
+          ],
+        },
+      });
+
+      const rowNumbers = await sheetsService.upsertDocuments(
+        ACCOUNT,
+        'sheet-1',
+        [documentRow('doc-a', 'Travel')],
+      );
+
+      expect(rowNumbers.get('doc-a')).toBe(2);
+      expect(requests().map((request) => Object.keys(request)[0])).toEqual([
+        'appendDimension',
+        'updateCells',
+        'appendCells',
+        'deleteDimension',
+      ]);
+      expect(requests()[3]).toEqual({
+        deleteDimension: {
+          range: { sheetId: 0, dimension: 'ROWS', startIndex: 1, endIndex: 2 },
+        },
+      });
+    });
+
+    it('should create missing category tabs before writing', async () => {
+      sheetsClient.spreadsheets.batchUpdate.mockResolvedValueOnce({
+        data: { replies: [{ addSheet: { properties: { sheetId: 9 } } }] },
+      });
+      sheetsClient.spreadsheets.values.batchGet.mockResolvedValue({
+        data: { valueRanges: [] },
+      });
+
+      await sheetsService.upsertDocuments(ACCOUNT, 'sheet-1', [
+        documentRow('doc-a', 'Utilities'),
+      ]);
+
+      expect(requests(0)).toEqual([
+        {
+          addSheet: expect.objectContaining({
+            properties: expect.objectContaining({
+              title: 'Utilities',
+            }) as object,
+          }) as object,
+        },
+      ]);
+      expect(sheetsClient.spreadsheets.values.batchGet).toHaveBeenCalledWith(
+        expect.objectContaining({
+          ranges: [
+            "'Financial Documents'!A:A",
+            "'Financial Documents'!P:P",
+            "'Utilities'!A:A",
+            "'Utilities'!P:P",
+          ],
+        }),
+      );
+      expect(requests(2)).toEqual([
+        { appendCells: expect.objectContaining({ sheetId: 9 }) as object },
+      ]);
+    });
+
+    it('should not call the API when there is nothing to write', async () => {
+      await expect(
+        sheetsService.upsertDocuments(ACCOUNT, 'sheet-1', []),
+      ).resolves.toEqual(new Map());
+      expect(google.sheets).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('ensureSpreadsheetExists', () => {
+    it('should add Category and Status dropdowns to a new spreadsheet', async () => {
+      driveClient.files.list.mockResolvedValue({ data: { files: [] } });
+      sheetsClient.spreadsheets.create.mockResolvedValue({
+        data: { spreadsheetId: 'sheet-1' },
+      });
+
+      await sheetsService.ensureSpreadsheetExists(ACCOUNT, 'Log', [
+        'Travel',
+        'Utilities',
+      ]);
+
+      const validations = requests()
+        .filter((request) => 'setDataValidation' in request)
+        .map(
+          (request) =>
+            request.setDataValidation as {
+              range: { startColumnIndex: number };
+              rule: { condition: { values: object[] }; strict: boolean };
+            },
+        );
+      expect(validations).toEqual([
+        expect.objectContaining({
+          range: expect.objectContaining({ startColumnIndex: 16 }) as object,
+          rule: expect.objectContaining({
+            condition: {
+              type: 'ONE_OF_LIST',
+              values: [
+                { userEnteredValue: 'Travel' },
+                { userEnteredValue: 'Utilities' },
+              ],
+            },
+            strict: false,
+          }) as object,
+        }),
+        expect.objectContaining({
+          range: expect.objectContaining({ startColumnIndex: 17 }) as object,
+          rule: expect.objectContaining({ strict: true }) as object,
+        }),
+      ]);
+    });
+  });
+
+  describe('readEditableValues', () => {
+    it('should read the editable cells of rows on document tabs', async () => {
+      sheetsClient.spreadsheets.get.mockResolvedValue({
+        data: { sheets: [tab('Financial Documents', 0), tab('Notes', 3)] },
+      });
+      const header = [
+        'Date Processed',
+        'Email Date',
+        'Sender Email',
+        'Vendor',
+        'Subject',
+        'Invoice Number',
+        ...Array<string>(9).fill(''),
+        'Document ID',
+        'Category',
+        'Status',
+      ];
+      const row = [
+        '2024-03-02',
+        '2024-03-01',
+        'billing@vendor.com',
+        'Vendor Ltd',
+        'Invoice',
+        1001,
+        ...Array<string>(9).fill(''),
+        'doc-a',
+        'Travel',
+      ];
+      sheetsClient.spreadsheets.values.batchGet.mockResolvedValue({
+        data: {
+          valueRanges: [
+            { values: [header, row, ['orphan']] },
+            { values: [['Anything'], row] },
+          ],
+        },
+      });
+
+      await expect(
+        sheetsService.readEditableValues(ACCOUNT, 'sheet-1'),
+      ).resolves.toEqual([
+        {
+          documentId: 'doc-a',
+          values: {
+            vendorName: 'Vendor Ltd',
+            invoiceNumber: '1001',
+            category: 'Travel',
+            paymentStatus: '',
+          },
+        },
+      ]);
+    });
+  });
+
+  describe('getEditedTime', () => {
+    const modifiedTimes = (...times: string[]) => {
+      for (const modifiedTime of times) {
+        driveClient.files.get.mockResolvedValueOnce({ data: { modifiedTime } });
+      }
+    };
+
+    it("should not count the service's own writes as edits", async () => {
+      sheetsClient.spreadsheets.get.mockResolvedValue({
+        data: { sheets: [tab('Summary by Month', 7)] },
+      });
+      // Edited at 09:00, then rewritten by the service at 10:00.
+      modifiedTimes(
+        '2024-03-05T09:00:00.000Z',
+        '2024-03-05T10:00:00.000Z',
+        '2024-03-05T10:00:00.000Z',
+        '2024-03-05T10:00:00.000Z',
+      );
+
+      await sheetsService.writeTables(ACCOUNT, 'sheet-1', [
+        { title: 'Summary by Month', header: ['Month'], rows: [] },
+      ]);
+
+      await expect(
+        sheetsService.getEditedTime(ACCOUNT, 'sheet-1'),
+      ).resolves.toEqual(new Date('2024-03-05T09:00:00.000Z'));
+      // The mark is stored, so a restarted service still knows the write.
+      await expect(
+        createService().getEditedTime(ACCOUNT, 'sheet-1'),
+      ).resolves.toEqual(new Date('2024-03-05T09:00:00.000Z'));
+    });
+
+    it('should report edits made after the service last wrote', async () => {
+      sheetsClient.spreadsheets.get.mockResolvedValue({
+        data: { sheets: [tab('Summary by Month', 7)] },
+      });
+      modifiedTimes(
+        '2024-03-05T09:00:00.000Z',
+        '2024-03-05T10:00:00.000Z',
+        '2024-03-05T11:30:00.000Z',
+      );
+
+      await sheetsService.writeTables(ACCOUNT, 'sheet-1', [
+        { title: 'Summary by Month', header: ['Month'], rows: [] },
+      ]);
+
+      await expect(
+        sheetsService.getEditedTime(ACCOUNT, 'sheet-1'),
+      ).resolves.toEqual(new Date('2024-03-05T11:30:00.000Z'));
+    });
+  });
+
+  describe('writeTables', () => {
+    it('should create missing summary tabs and size each grid to its table', async () => {
+      sheetsClient.spreadsheets.get.mockResolvedValue({
+        data: {
+          sheets: [tab('Financial Documents', 0), tab('Summary by Month', 7)],
+        },
+      });
+      sheetsClient.spreadsheets.batchUpdate.mockResolvedValueOnce({
+        data: { replies: [{ addSheet: { properties: { sheetId: 9 } } }] },
+      });
+
+      await sheetsService.writeTables(ACCOUNT, 'sheet-1', [
+        {
+          title: 'Summary by Month',
+          header: ['Month', 'Documents'],
+          rows: [['2024-03', 2]],
+        },
+        {
+          title: 'Summary by Vendor',
+          header: ['Vendor', 'Documents'],
+          rows: [],
+        },
+      ]);
+
+      expect(requests(0)).toEqual([
+        {
+          addSheet: {
+            properties: {
+              title: 'Summary by Vendor',
+              gridProperties: { rowCount: 1000, columnCount: 1 },
+            },
+          },
+        },
+      ]);
+      const [monthGrid, monthCells, , vendorGrid] = requests(1);
+      expect(monthGrid).toEqual({
+        updateSheetProperties: {
+          properties: {
+            sheetId: 7,
+            gridProperties: { rowCount: 3, columnCount: 2, frozenRowCount: 1 },
+          },
+          fields: 'gridProperties(rowCount,columnCount,frozenRowCount)',
+        },
+      });
+      expect(monthCells).toMatchObject({
+        updateCells: {
+          rows: [
+            {
+              values: [
+                { userEnteredValue: { stringValue: 'Month' } },
+                { userEnteredValue: { stringValue: 'Documents' } },
+              ],
+            },
+            {
+              values: [
+                { userEnteredValue: { stringValue: '2024-03' } },
+                { userEnteredValue: { numberValue: 2 } },
+              ],
+            },
+            { values: [{}, {}] },
+          ],
+        },
+      });
+      expect(vendorGrid).toMatchObject({
+        updateSheetProperties: {
+          properties: { sheetId: 9, gridProperties: { rowCount: 2 } },
+        },
+      });
+    });
+  });
+});
@@ -1,27 +1,104 @@
 import { Injectable, Logger } from '@nestjs/common';
-import { google } from 'googleapis';
+import { InjectRepository } from '@nestjs/typeorm';
+import { google, sheets_v4 } from 'googleapis';
+import { Repository } from 'typeorm';
 import { AuthService } from '../auth/auth.service';
+import { SheetWriteMark } from '../entities';
+import {
+  DocumentRow,
+  EDITABLE_COLUMNS,
+  EDITABLE_FIELDS,
+  EditableField,
+  EditableValues,
+  PAYMENT_STATUSES,
+  editableValues,
+} from './document-row';
 
-interface DocumentData {
-  emailDate: string | Date;
-  senderEmail: string;
-  subject: string;
-  fileName: string;
-  driveFileId: string;
-  fileSize?: string;
+const SHEET_TITLE = 'Financial Documents';
+
+const HEADERS = [
+  'Date Processed',
+  'Email Date',
+  'Sender Email',
+  'Vendor',
+  'Subject',
+  'Invoice Number',
+  'File Name',
+  'Drive File ID',
+  'Drive File Link',
+  'File Size',
+  'Invoice Date',
+  'Due Date',
+  'Currency',
+  'Total Amount',
+  'Tax Amount',
+  'Document ID',
+  EDITABLE_COLUMNS.category,
+  EDITABLE_COLUMNS.paymentStatus,
+];
+
+const LAST_COLUMN = columnLetter(HEADERS.length - 1);
+
+// Rows are matched to documents by their id, since their position changes
+// whenever someone sorts or edits the sheet.
+const KEY_INDEX = HEADERS.indexOf('Document ID');
+const KEY_COLUMN = columnLetter(KEY_INDEX);
+
+/**
+ * Tabs rebuilt from the database after each scan. They hold no document
+ * rows, so edits to the log tabs cannot break them.
+ */
+export const SUMMARY_TABS = {
+  month: 'Summary by Month',
+  vendor: 'Summary by Vendor',
+  category: 'Summary by Category',
+} as const;
+
+/** A table written to its own tab, replacing whatever was there. */
+export interface SheetTable {
+  title: string;
+  header: string[];
+  rows: (string | number | null)[][];
+}
+
+/** The editable cells of a row found in the sheet. */
+export interface SheetRowValues {
+  documentId: string;
+  values: EditableValues;
+}
+
+interface SheetTab {
+  sheetId: number;
+  columnCount: number;
+}
+
+interface RowPosition {
+  title: string;
+  /** Zero-based, with the header in row 0. */
+  rowIndex: number;
 }
 
 @Injectable()
 export class SheetsService {
   private readonly logger = new Logger(SheetsService.name);
 
-  constructor(private authService: AuthService) {}
+  constructor(
+    private authService: AuthService,
+    @InjectRepository(SheetWriteMark)
+    private sheetWriteMarkRepository: Repository<SheetWriteMark>,
+  ) {}
 
+  /**
+   * Finds or creates the spreadsheet. `categories` are offered in the
+   * Category dropdown of a newly created or upgraded main tab.
+   */
   async ensureSpreadsheetExists(
+    accountId: string,
     spreadsheetName: string = 'Financial Documents Log',
+    categories: string[] = [],
   ): Promise<string> {
     try {
-      const auth = await this.authService.getAuthenticated();
+      const auth = await this.authService.getAuthenticated(accountId);
       const drive = google.drive({ version: 'v3', auth });
 
       const searchResponse = await drive.files.list({
@@ -40,6 +117,7 @@ export class SheetsService {
             `Google  did not return a spreadsheet ID for ${spreadsheetName}`,
           );
         }
+        await this.upgradeHeaders(accountId, spreadsheetId, categories);
         return spreadsheetId;
       }
 
@@ -52,10 +130,10 @@ export class SheetsService {
           sheets: [
             {
               properties: {
-                title: 'Financial Documents',
+                title: SHEET_TITLE,
                 gridProperties: {
                   rowCount: 1000,
-                  columnCount: 10,
+                  columnCount: HEADERS.length,
                 },
               },
             },
@@ -72,7 +150,7 @@ export class SheetsService {
         throw new Error('Spreadsheet ID is missing in the create response.');
       }
 
-      await this.setupHeaders(spreadsheetId);
+      await this.setupHeaders(accountId, spreadsheetId, categories);
 
       return spreadsheetId;
     } catch (error) {
@@ -85,87 +163,530 @@ export class SheetsService {
     }
   }
 
-  async logDocument(
-    spreadSheetId: string,
-    documentData: DocumentData,
-  ): Promise<number> {
+  /**
+   * Writes one row per document in a single batch, keyed by the document id
+   * in the Document ID column. Rows already in the sheet are overwritten wherever
+   * they have been sorted to, so writing the same documents again changes
+   * nothing; new rows are appended to the tab named after the document's
+   * category, or to the main tab when it has none. A row found on another
+   * tab is moved. Returns each document's row number after the write.
+   */
+  async upsertDocuments(
+    accountId: string,
+    spreadsheetId: string,
+    rows: DocumentRow[],
+  ): Promise<Map<string, number>> {
+    if (rows.length === 0) return new Map();
+
     try {
-      const auth = await this.authService.getAuthenticated();
+      const editedAt = await this.getEditedTime(accountId, spreadsheetId);
+      const auth = await this.authService.getAuthenticated(accountId);
       const sheets = google.sheets({ version: 'v4', auth });
 
-      const row = [
-        new Date().toISOString().split('T')[0],
-        new Date(documentData.emailDate).toISOString().split('T')[0],
-        documentData.senderEmail,
-        this.extractSenderName(documentData.senderEmail),
-        documentData.subject,
-        this.extractInvoiceNumber(documentData.subject),
-        documentData.fileName,
-        documentData.driveFileId,
-        `https://drive.google.com/file/d/${documentData.driveFileId}/view`,
-        documentData.fileSize || 'Unknown',
-      ];
-
-      const appendResponse = await sheets.spreadsheets.values.append({
-        spreadsheetId: spreadSheetId,
-        range: 'Financial Documents!A:J',
-        valueInputOption: 'RAW',
-        insertDataOption: 'INSERT_ROWS',
-        requestBody: {
-          values: [row],
-        },
+      const tabs = await this.ensureSheetTabs(
+        accountId,
+        sheets,
+        spreadsheetId,
+        rows.map((row) => this.tabFor(row)),
+      );
+      const titles = Array.from(tabs.keys()).filter(
+        (title) => !isSummaryTab(title),
+      );
+
+      const response = await sheets.spreadsheets.values.batchGet({
+        spreadsheetId,
+        ranges: titles.flatMap((title) => [
+          `${this.quoteTitle(title)}!A:A`,
+          `${this.quoteTitle(title)}!${KEY_COLUMN}:${KEY_COLUMN}`,
+        ]),
+        majorDimension: 'COLUMNS',
       });
+      const valueRanges = response.data.valueRanges ?? [];
 
-      const updates = appendResponse.data.updates;
+      const existing = new Map<string, RowPosition>();
+      const rowCounts = new Map<string, number>();
+      titles.forEach((title, i) => {
+        const firstColumn = valueRanges[2 * i]?.values?.[0] ?? [];
+        const keys = valueRanges[2 * i + 1]?.values?.[0] ?? [];
+        rowCounts.set(title, Math.max(firstColumn.length, keys.length, 1));
+        keys.forEach((key, rowIndex) => {
+          if (rowIndex > 0 && typeof key === 'string' && key) {
+            if (!existing.has(key)) existing.set(key, { title, rowIndex });
+          }
+        });
+      });
 
-      if (!updates || !updates.updatedRange) {
-        throw new Error('Append response missing update range info');
+      const requests: sheets_v4.Schema$Request[] = [];
+      for (const title of new Set(rows.map((row) => this.tabFor(row)))) {
+        requests.push(...this.widenRequests(tabs.get(title)!));
       }
 
-      const range = updates.updatedRange;
-      if (!range) {
-        throw new Error('Could not get updated range from append response');
+      const positions = new Map<string, RowPosition>();
+      const appended = new Map<string, sheets_v4.Schema$RowData[]>();
+      const removed: RowPosition[] = [];
+      for (const row of rows) {
+        const title = this.tabFor(row);
+        const values = this.toCells(row);
+        const current = existing.get(row.documentId);
+
+        if (current?.title === title) {
+          requests.push({
+            updateCells: {
+              start: {
+                sheetId: tabs.get(title)!.sheetId,
+                rowIndex: current.rowIndex,
+                columnIndex: 0,
+              },
+              rows: [{ values }],
+              fields: 'userEnteredValue',
+            },
+          });
+          positions.set(row.documentId, current);
+          continue;
+        }
+
+        if (current) removed.push(current);
+        const rowIndex = rowCounts.get(title) ?? 1;
+        rowCounts.set(title, rowIndex + 1);
+        positions.set(row.documentId, { title, rowIndex });
+        appended.set(title, [...(appended.get(title) ?? []), { values }]);
+      }
+
+      for (const [title, appendRows] of appended) {
+        requests.push({
+          appendCells: {
+            sheetId: tabs.get(title)!.sheetId,
+            rows: appendRows,
+            fields: 'userEnteredValue',
+          },
+        });
+      }
+
+      // Deleting from the bottom up keeps the remaining indices valid.
+      removed.sort((a, b) => b.rowIndex - a.rowIndex);
+      for (const position of removed) {
+        requests.push({
+          deleteDimension: {
+            range: {
+              sheetId: tabs.get(position.title)!.sheetId,
+              dimension: 'ROWS',
+              startIndex: position.rowIndex,
+              endIndex: position.rowIndex + 1,
+            },
+          },
+        });
+      }
+
+      await sheets.spreadsheets.batchUpdate({
+        spreadsheetId,
+        requestBody: { requests },
+      });
+      await this.markWritten(accountId, spreadsheetId, editedAt);
+
+      const rowNumbers = new Map<string, number>();
+      for (const [documentId, position] of positions) {
+        const shift = removed.filter(
+          (other) =>
+            other.title === position.title &&
+            other.rowIndex < position.rowIndex,
+        ).length;
+        rowNumbers.set(documentId, position.rowIndex - shift + 1);
       }
-      const rowNumber = parseInt(range.split('!A')[1].split(':')[0]);
 
+      const added = Array.from(appended.values()).flat().length;
       this.logger.log(
-        `Logged document to spreadsheet at row ${rowNumber}: ${documentData.fileName}`,
+        `Wrote ${rows.length} documents to spreadsheet ${spreadsheetId}: ${rows.length - added} updated, ${added} added`,
       );
-      return rowNumber;
+      return rowNumbers;
     } catch (error) {
-      this.logger.error('Failed to log document:', error);
+      this.logger.error('Failed to write documents:', error);
       if (error instanceof Error) {
-        throw new Error(`Failed to log document: ${error.message}`);
+        throw new Error(`Failed to write documents: ${error.message}`);
       }
 
-      throw new Error(`Failed to log document: ${String(error)}`);
+      throw new Error(`Failed to write documents: ${String(error)}`);
     }
   }
 
-  private async setupHeaders(spreadsheetId: string): Promise<void> {
+  /**
+   * Replaces the contents of each table's tab in one batch, creating the
+   * tab on first use. The grid is resized to fit, which also drops rows
+   * left over from a longer previous version.
+   */
+  async writeTables(
+    accountId: string,
+    spreadsheetId: string,
+    tables: SheetTable[],
+  ): Promise<void> {
     try {
-      const auth = await this.authService.getAuthenticated();
+      const editedAt = await this.getEditedTime(accountId, spreadsheetId);
+      const auth = await this.authService.getAuthenticated(accountId);
       const sheets = google.sheets({ version: 'v4', auth });
 
-      const headers = [
-        'Date Processed',
-        'Email Date',
-        'Sender Email',
-        'Sender Name',
-        'Subject',
-        'Invoice Number',
-        'File Name',
-        'Drive File ID',
-        'Drive File Link',
-        'File Size',
-      ];
+      const tabs = await this.loadTabs(sheets, spreadsheetId);
+      const missing = tables
+        .map((table) => table.title)
+        .filter((title) => !tabs.has(title));
+      const added = await this.addTabs(sheets, spreadsheetId, missing, 1);
+      const sheetIds = new Map([
+        ...Array.from(tabs, ([title, tab]) => [title, tab.sheetId] as const),
+        ...added,
+      ]);
+
+      const requests = tables.flatMap((table) => {
+        const sheetId = sheetIds.get(table.title) ?? 0;
+        const columnCount = table.header.length;
+        // One blank row below the data keeps the frozen header valid.
+        const rows = [
+          table.header,
+          ...table.rows,
+          Array<null>(columnCount).fill(null),
+        ];
+        return [
+          {
+            updateSheetProperties: {
+              properties: {
+                sheetId,
+                gridProperties: {
+                  rowCount: rows.length,
+                  columnCount,
+                  frozenRowCount: 1,
+                },
+              },
+              fields: 'gridProperties(rowCount,columnCount,frozenRowCount)',
+            },
+          },
+          {
+            updateCells: {
+              start: { sheetId, rowIndex: 0, columnIndex: 0 },
+              rows: rows.map((row) => ({
+                values: row.map((value) => this.toCell(value)),
+              })),
+              fields: 'userEnteredValue',
+            },
+          },
+          {
+            repeatCell: {
+              range: { sheetId, startRowIndex: 0, endRowIndex: 1 },
+              cell: { userEnteredFormat: { textFormat: { bold: true } } },
+              fields: 'userEnteredFormat.textFormat',
+            },
+          },
+        ];
+      });
+
+      await sheets.spreadsheets.batchUpdate({
+        spreadsheetId,
+        requestBody: { requests },
+      });
+      await this.markWritten(accountId, spreadsheetId, editedAt);
+    } catch (error) {
+      this.logger.error('Failed to write summary tabs:', error);
+      if (error instanceof Error) {
+        throw new Error(`Failed to write summary tabs: ${error.message}`);
+      }
+
+      throw new Error(`Failed to write summary tabs: ${String(error)}`);
+    }
+  }
+
+  /**
+   * Reads the editable cells of every document row, across all tabs that
+   * carry the document id column.
+   */
+  async readEditableValues(
+    accountId: string,
+    spreadsheetId: string,
+  ): Promise<SheetRowValues[]> {
+    try {
+      const auth = await this.authService.getAuthenticated(accountId);
+      const sheets = google.sheets({ version: 'v4', auth });
+
+      const tabs = await this.ensureSheetTabs(
+        accountId,
+        sheets,
+        spreadsheetId,
+        [],
+      );
+      const titles = Array.from(tabs.keys()).filter(
+        (title) => !isSummaryTab(title),
+      );
+      const response = await sheets.spreadsheets.values.batchGet({
+        spreadsheetId,
+        ranges: titles.map(
+          (title) => `${this.quoteTitle(title)}!A:${LAST_COLUMN}`,
+        ),
+      });
+
+      const rows: SheetRowValues[] = [];
+      for (const valueRange of response.data.valueRanges ?? []) {
+        const [header, ...values] = (valueRange.values ?? []) as unknown[][];
+        if (header?.[KEY_INDEX] !== HEADERS[KEY_INDEX]) continue;
+
+        for (const row of values) {
+          const documentId = this.cellText(row[KEY_INDEX]);
+          if (!documentId) continue;
+
+          const editable = {} as EditableValues;
+          for (const field of EDITABLE_FIELDS) {
+            const column = HEADERS.indexOf(EDITABLE_COLUMNS[field]);
+            editable[field] = this.cellText(row[column]);
+          }
+          rows.push({ documentId, values: editable });
+        }
+      }
+      return rows;
+    } catch (error) {
+      this.logger.error('Failed to read spreadsheet:', error);
+      if (error instanceof Error) {
+        throw new Error(`Failed to read spreadsheet: ${error.message}`);
+      }
+
+      throw new Error(`Failed to read spreadsheet: ${String(error)}`);
+    }
+  }
+
+  /**
+   * When someone last edited the spreadsheet. Drive's modifiedTime also
+   * moves on this service's own row and summary writes, so a spreadsheet
+   * left untouched since the last of them reports the last change made
+   * before it instead. Until the service first writes a spreadsheet,
+   * modifiedTime is all there is to go on.
+   */
+  async getEditedTime(
+    accountId: string,
+    spreadsheetId: string,
+  ): Promise<Date | null> {
+    const modifiedAt = await this.getModifiedTime(accountId, spreadsheetId);
+    const mark = await this.sheetWriteMarkRepository.findOneBy({
+      spreadsheetId,
+    });
+    if (!mark || !modifiedAt || modifiedAt > mark.writtenAt) {
+      return modifiedAt;
+    }
+    return mark.editedAt;
+  }
+
+  private async markWritten(
+    accountId: string,
+    spreadsheetId: string,
+    editedAt: Date | null,
+  ): Promise<void> {
+    const writtenAt = await this.getModifiedTime(accountId, spreadsheetId);
+    if (writtenAt) {
+      await this.sheetWriteMarkRepository.save({
+        spreadsheetId,
+        writtenAt,
+        editedAt,
+      });
+    }
+  }
+
+  private async getModifiedTime(
+    accountId: string,
+    spreadsheetId: string,
+  ): Promise<Date | null> {
+    const auth = await this.authService.getAuthenticated(accountId);
+    const drive = google.drive({ version: 'v3', auth });
+
+    const response = await drive.files.get({
+      fileId: spreadsheetId,
+      fields: 'modifiedTime',
+    });
+    const modifiedTime = response.data.modifiedTime;
+    return modifiedTime ? new Date(modifiedTime) : null;
+  }
+
+  /**
+   * Looks up every tab of the spreadsheet, adding any of `titles` that are
+   * missing along with their header row.
+   */
+  private async ensureSheetTabs(
+    accountId: string,
+    sheets: sheets_v4.Sheets,
+    spreadsheetId: string,
+    titles: string[],
+  ): Promise<Map<string, SheetTab>> {
+    const tabs = await this.loadTabs(sheets, spreadsheetId);
+    const missing = Array.from(new Set(titles)).filter(
+      (title) => !tabs.has(title),
+    );
+    if (missing.length === 0) return tabs;
+
+    const added = await this.addTabs(
+      sheets,
+      spreadsheetId,
+      missing,
+      HEADERS.length,
+    );
+
+    // Category tabs are named after their category, so together they make
+    // up the list offered in the Category dropdown.
+    const categories = Array.from(tabs.keys())
+      .concat(missing)
+      .filter((title) => title !== SHEET_TITLE && !isSummaryTab(title));
+    for (const [title, sheetId] of added) {
+      tabs.set(title, { sheetId, columnCount: HEADERS.length });
+      await this.setupHeaders(
+        accountId,
+        spreadsheetId,
+        categories,
+        title,
+        sheetId,
+      );
+      this.logger.log(`Created sheet tab ${title} in ${spreadsheetId}`);
+    }
+    return tabs;
+  }
+
+  private async loadTabs(
+    sheets: sheets_v4.Sheets,
+    spreadsheetId: string,
+  ): Promise<Map<string, SheetTab>> {
+    const spreadsheet = await sheets.spreadsheets.get({
+      spreadsheetId,
+      fields: 'sheets.properties',
+    });
+    const tabs = new Map<string, SheetTab>();
+    for (const sheet of spreadsheet.data.sheets ?? []) {
+      const properties = sheet.properties;
+      if (!properties?.title) continue;
+      tabs.set(properties.title, {
+        sheetId: properties.sheetId ?? 0,
+        columnCount: properties.gridProperties?.columnCount ?? HEADERS.length,
+      });
+    }
+    return tabs;
+  }
+
+  /** Adds empty tabs and returns their sheet ids by title. */
+  private async addTabs(
+    sheets: sheets_v4.Sheets,
+    spreadsheetId: string,
+    titles: string[],
+    columnCount: number,
+  ): Promise<Map<string, number>> {
+    if (titles.length === 0) return new Map();
+
+    const response = await sheets.spreadsheets.batchUpdate({
+      spreadsheetId,
+      requestBody: {
+        requests: titles.map((title) => ({
+          addSheet: {
+            properties: {
+              title,
+              gridProperties: { rowCount: 1000, columnCount },
+            },
+          },
+        })),
+      },
+    });
+
+    const replies = response.data.replies ?? [];
+    return new Map(
+      titles.map((title, i) => [
+        title,
+        replies[i]?.addSheet?.properties?.sheetId ?? 0,
+      ]),
+    );
+  }
+
+  /**
+   * Tabs created before a column was added are too narrow for the current
+   * row; widen them and rewrite the header row in the same batch.
+   */
+  private widenRequests(tab: SheetTab): sheets_v4.Schema$Request[] {
+    if (tab.columnCount >= HEADERS.length) return [];
+
+    const length = HEADERS.length - tab.columnCount;
+    tab.columnCount = HEADERS.length;
+    return [
+      {
+        appendDimension: {
+          sheetId: tab.sheetId,
+          dimension: 'COLUMNS',
+          length,
+        },
+      },
+      {
+        updateCells: {
+          start: { sheetId: tab.sheetId, rowIndex: 0, columnIndex: 0 },
+          rows: [
+            {
+              values: HEADERS.map((header) => ({
+                userEnteredValue: { stringValue: header },
+              })),
+            },
+          ],
+          fields: 'userEnteredValue',
+        },
+      },
+    ];
+  }
+
+  private tabFor(row: DocumentRow): string {
+    return row.category ?? SHEET_TITLE;
+  }
+
+  private toCells(row: DocumentRow): sheets_v4.Schema$CellData[] {
+    const editable = editableValues(row);
+    const values: (string | number | null | undefined)[] = [
+      new Date(row.processedAt).toISOString().split('T')[0],
+      new Date(row.emailDate).toISOString().split('T')[0],
+      row.senderEmail,
+      editable.vendorName,
+      row.subject,
+      editable.invoiceNumber,
+      row.fileName,
+      row.driveFileId,
+      `https://drive.google.com/file/d/${row.driveFileId}/view`,
+      row.fileSize || 'Unknown',
+      row.invoiceDate,
+      row.dueDate,
+      row.currency,
+      row.totalAmount,
+      row.taxAmount,
+      row.documentId,
+      editable.category,
+      editable.paymentStatus,
+    ];
+
+    return values.map((value) => this.toCell(value));
+  }
+
+  // Cells are written as plain values, never parsed as formulas; empty ones
+  // are cleared so a rewrite leaves no stale value behind.
+  private toCell(
+    value: string | number | null | undefined,
+  ): sheets_v4.Schema$CellData {
+    if (typeof value === 'number') {
+      return { userEnteredValue: { numberValue: value } };
+    }
+    return value ? { userEnteredValue: { stringValue: value } } : {};
+  }
+
+  /**
+   * Writes the header row and adds dropdowns to the Category and Status
+   * columns. The category list only suggests values, since new categories
+   * appear as rules are added.
+   */
+  private async setupHeaders(
+    accountId: string,
+    spreadsheetId: string,
+    categories: string[],
+    title: string = SHEET_TITLE,
+    sheetId: number = 0,
+  ): Promise<void> {
+    try {
+      const auth = await this.authService.getAuthenticated(accountId);
+      const sheets = google.sheets({ version: 'v4', auth });
 
       await sheets.spreadsheets.values.update({
         spreadsheetId,
-        range: 'Financial Documents!A1:J1',
+        range: `${this.quoteTitle(title)}!A1:${LAST_COLUMN}1`,
         valueInputOption: 'RAW',
         requestBody: {
-          values: [headers],
+          values: [HEADERS],
         },
       });
 
@@ -176,11 +697,11 @@ export class SheetsService {
             {
               repeatCell: {
                 range: {
-                  sheetId: 0,
+                  sheetId,
                   startRowIndex: 0,
                   endRowIndex: 1,
                   startColumnIndex: 0,
-                  endColumnIndex: 10,
+                  endColumnIndex: HEADERS.length,
                 },
                 cell: {
                   userEnteredFormat: {
@@ -191,6 +712,10 @@ export class SheetsService {
                 fields: 'userEnteredFormat(backgroundColor,textFormat)',
               },
             },
+            ...(categories.length > 0
+              ? [this.dropdown(sheetId, 'category', categories, false)]
+              : []),
+            this.dropdown(sheetId, 'paymentStatus', PAYMENT_STATUSES, true),
           ],
         },
       });
@@ -201,27 +726,103 @@ export class SheetsService {
     }
   }
 
-  private extractSenderName(email: string): string {
-    return email
-      .split('@')[0]
-      .replace(/[^a-zA-Z0-9\s]/g, ' ')
-      .trim();
+  private dropdown(
+    sheetId: number,
+    field: EditableField,
+    values: string[],
+    strict: boolean,
+  ): sheets_v4.Schema$Request {
+    const column = HEADERS.indexOf(EDITABLE_COLUMNS[field]);
+    return {
+      setDataValidation: {
+        range: {
+          sheetId,
+          startRowIndex: 1,
+          startColumnIndex: column,
+          endColumnIndex: column + 1,
+        },
+        rule: {
+          condition: {
+            type: 'ONE_OF_LIST',
+            values: values.map((value) => ({ userEnteredValue: value })),
+          },
+          showCustomUi: true,
+          strict,
+        },
+      },
+    };
   }
 
-  private extractInvoiceNumber(subject: string): string {
-    const patterns = [
-      /invoice[\s#]*(\d+)/i,
-      /inv[\s#]*(\d+)/i,
-      /bill[\s#]*(\d+)/i,
-      /receipt[\s#]*(\d+)/i,
-      /#(\d+)/,
-    ];
+  /**
+   * Spreadsheets created before a column was added keep their old grid
+   * width and header row; widen the grid and rewrite the headers so new
+   * values have somewhere to go.
+   */
+  private async upgradeHeaders(
+    accountId: string,
+    spreadsheetId: string,
+    categories: string[],
+  ): Promise<void> {
+    try {
+      const auth = await this.authService.getAuthenticated(accountId);
+      const sheets = google.sheets({ version: 'v4', auth });
+
+      const spreadsheet = await sheets.spreadsheets.get({
+        spreadsheetId,
+        fields: 'sheets.properties',
+      });
+      const sheet = spreadsheet.data.sheets?.find(
+        (candidate) => candidate.properties?.title === SHEET_TITLE,
+      );
+      const columnCount =
+        sheet?.properties?.gridProperties?.columnCount ?? HEADERS.length;
+      if (!sheet || columnCount >= HEADERS.length) return;
+
+      await sheets.spreadsheets.batchUpdate({
+        spreadsheetId,
+        requestBody: {
+          requests: [
+            {
+              appendDimension: {
+                sheetId: sheet.properties?.sheetId ?? 0,
+                dimension: 'COLUMNS',
+                length: HEADERS.length - columnCount,
+              },
+            },
+          ],
+        },
+      });
+
+      await this.setupHeaders(
+        accountId,
+        spreadsheetId,
+        categories,
+        SHEET_TITLE,
+        sheet.properties?.sheetId ?? 0,
+      );
+      this.logger.log(`Upgraded spreadsheet columns for ${spreadsheetId}`);
+    } catch (error) {
+      this.logger.error('Failed to upgrade headers:', error);
+    }
+  }
 
-    for (const pattern of patterns) {
-      const match = subject.match(pattern);
-      if (match) return match[1];
+  private cellText(value: unknown): string {
+    if (typeof value === 'string') return value.trim();
+    if (typeof value === 'number' || typeof value === 'boolean') {
+      return String(value);
     }
+    return '';
+  }
 
-    return 'N/A';
+  private quoteTitle(title: string): string {
+    return `'${title.replace(/'/g, "''")}'`;
   }
 }
+
+function isSummaryTab(title: string): boolean {
+  return (Object.values(SUMMARY_TABS) as string[]).includes(title);
+}
+
+function columnLetter(index: number): string {
+  return String.fromCharCode(65 + index);
+}
@@ -0,0 +1,4 @@
+export { CreateVendorDto } from './create-vendor.dto';
+export { UpdateVendorDto } from './update-vendor.dto';
+export { VendorDocumentsQueryDto } from './vendor-documents-query.dto';
+export { VendorDto } from './vendor.dto';
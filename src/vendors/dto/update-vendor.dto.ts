@@ -0,0 +1,42 @@
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsEmail,
+  IsOptional,
+  IsString,
+  Matches,
+  MaxLength,
+} from 'class-validator';
+import { CATEGORY_PATTERN } from '../../rules/dto/create-rule.dto';
+
+export class UpdateVendorDto {
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  name?: string;
+
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(50)
+  @IsEmail({}, { each: true })
+  addresses?: string[];
+
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(50)
+  @IsString({ each: true })
+  @MaxLength(253, { each: true })
+  domains?: string[];
+
+  @IsOptional()
+  @Matches(CATEGORY_PATTERN, {
+    message:
+      'defaultCategory must be 1-50 letters, digits, spaces, "&", "-" or "_"',
+  })
+  defaultCategory?: string | null;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(2000)
+  notes?: string | null;
+}
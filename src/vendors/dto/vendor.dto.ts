@@ -0,0 +1,29 @@
+import { Vendor } from '../../entities';
+
+export class VendorDto {
+  id: string;
+  accountId: string;
+  name: string;
+  addresses: string[];
+  domains: string[];
+  defaultCategory: string | null;
+  notes: string | null;
+  autoCreated: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+
+  static fromEntity(vendor: Vendor): VendorDto {
+    return {
+      id: vendor.id,
+      accountId: vendor.accountId,
+      name: vendor.name,
+      addresses: vendor.addresses,
+      domains: vendor.domains,
+      defaultCategory: vendor.defaultCategory,
+      notes: vendor.notes,
+      autoCreated: vendor.autoCreated,
+      createdAt: vendor.createdAt,
+      updatedAt: vendor.updatedAt,
+    };
+  }
+}
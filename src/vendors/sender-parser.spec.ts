@@ -0,0 +1,83 @@
+import {
+  deriveVendorName,
+  organisationLabel,
+  parseSender,
+} from './sender-parser';
+
+describe('parseSender', () => {
+  it('should split a quoted display name from the address', () => {
+    expect(parseSender('"Acme Corp" <NoReply@Acme.com>')).toEqual({
+      displayName: 'Acme Corp',
+      address: 'noreply@acme.com',
+      domain: 'acme.com',
+    });
+  });
+
+  it('should unescape quoted display names', () => {
+    expect(parseSender('"Doe, \\"JD\\" Jane" <jane@example.org>')).toEqual(
+      expect.objectContaining({ displayName: 'Doe, "JD" Jane' }),
+    );
+  });
+
+  it('should read comment-style display names', () => {
+    expect(parseSender('billing@stripe.com (Stripe)')).toEqual({
+      displayName: 'Stripe',
+      address: 'billing@stripe.com',
+      domain: 'stripe.com',
+    });
+  });
+
+  it('should accept a bare address', () => {
+    expect(parseSender('billing@stripe.com')).toEqual({
+      displayName: null,
+      address: 'billing@stripe.com',
+      domain: 'stripe.com',
+    });
+  });
+});
+
+describe('deriveVendorName', () => {
+  it('should prefer a meaningful display name', () => {
+    expect(deriveVendorName(parseSender('Acme Corp <noreply@acme.com>'))).toBe(
+      'Acme Corp',
+    );
+  });
+
+  it('should drop role words and "via" suffixes', () => {
+    expect(
+      deriveVendorName(parseSender('Stripe Billing <billing@stripe.com>')),
+    ).toBe('Stripe');
+    expect(
+      deriveVendorName(
+        parseSender(
+          'Acme Corp via QuickBooks <quickbooks@notification.intuit.com>',
+        ),
+      ),
+    ).toBe('Acme Corp');
+  });
+
+  it('should fall back to the domain when the display name is generic', () => {
+    expect(deriveVendorName(parseSender('billing@stripe.com'))).toBe('Stripe');
+    expect(
+      deriveVendorName(parseSender('No Reply <no-reply@mail.acme.co.uk>')),
+    ).toBe('Acme');
+  });
+
+  it('should use the mailbox name on personal mail domains', () => {
+    expect(deriveVendorName(parseSender('jane.doe@gmail.com'))).toBe(
+      'Jane Doe',
+    );
+  });
+
+  it('should name senders without an address as unknown', () => {
+    expect(deriveVendorName(parseSender(''))).toBe('Unknown');
+    expect(deriveVendorName(parseSender('<>'))).toBe('Unknown');
+  });
+});
+
+describe('organisationLabel', () => {
+  it('should skip subdomains and two-part suffixes', () => {
+    expect(organisationLabel('invoices.eu.example.com')).toBe('example');
+    expect(organisationLabel('shop.example.com.au')).toBe('example');
+  });
+});
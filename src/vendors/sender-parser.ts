@@ -0,0 +1,144 @@
+export interface ParsedSender {
+  /** Display name with quotes and escapes removed, if the header had one. */
+  displayName: string | null;
+  address: string;
+  domain: string;
+}
+
+// Mailbox providers whose domain says nothing about the sender's business.
+const PERSONAL_MAIL_DOMAINS = new Set([
+  'gmail.com',
+  'googlemail.com',
+  'outlook.com',
+  'hotmail.com',
+  'live.com',
+  'msn.com',
+  'yahoo.com',
+  'icloud.com',
+  'me.com',
+  'aol.com',
+  'proton.me',
+  'protonmail.com',
+  'gmx.com',
+  'zoho.com',
+]);
+
+const SECOND_LEVEL_SUFFIXES = new Set([
+  'co.uk',
+  'org.uk',
+  'ac.uk',
+  'com.au',
+  'net.au',
+  'co.nz',
+  'co.in',
+  'co.jp',
+  'com.br',
+  'com.mx',
+  'co.za',
+]);
+
+// Words senders tack onto a company name ("Stripe Billing", "Acme - Invoices").
+const ROLE_WORDS =
+  'billing|invoices?|invoicing|receipts?|accounts?(?: payable| receivable)?|payments?|team|support|notifications?|no[- ]?reply|do[- ]?not[- ]?reply|customer service|finance|sales|orders?';
+const LEADING_ROLE_WORD = new RegExp(
+  `^(?:${ROLE_WORDS})(?:\\s*[-|,:–—]\\s*|\\s+|$)`,
+  'i',
+);
+const TRAILING_ROLE_WORD = new RegExp(
+  `(?:^|\\s*[-|,:–—]\\s*|\\s+)(?:${ROLE_WORDS})$`,
+  'i',
+);
+
+/**
+ * Splits a From header such as `"Doe, Jane" <jane@acme.com>`,
+ * `Acme <billing@acme.com>`, `billing@acme.com (Acme)` or a bare address.
+ */
+export function parseSender(from: string): ParsedSender {
+  const trimmed = from.trim();
+
+  let displayName: string | null = null;
+  let address = trimmed;
+
+  const angle = trimmed.match(/^(.*)<([^<>]+)>\s*$/);
+  const comment = trimmed.match(/^([^\s()]+@[^\s()]+)\s*\((.*)\)\s*$/);
+  if (angle) {
+    displayName = angle[1];
+    address = angle[2];
+  } else if (comment) {
+    address = comment[1];
+    displayName = comment[2];
+  }
+
+  address = address.trim().toLowerCase();
+  const at = address.lastIndexOf('@');
+  return {
+    displayName: cleanDisplayName(displayName),
+    address,
+    domain: at === -1 ? '' : address.substring(at + 1),
+  };
+}
+
+/** Vendor for senders that give neither a usable name nor an address. */
+export const UNKNOWN_VENDOR_NAME = 'Unknown';
+
+/**
+ * Picks a human name for the business behind a sender: the display name
+ * with role words removed when it is meaningful, otherwise the domain's
+ * organisation label (`billing@mail.stripe.com` becomes "Stripe").
+ */
+export function deriveVendorName(sender: ParsedSender): string {
+  const fromDisplayName = sender.displayName
+    ? stripRoleWords(sender.displayName.replace(/\s+via\s+.+$/i, ''))
+    : null;
+  if (fromDisplayName && !fromDisplayName.includes('@')) {
+    return fromDisplayName;
+  }
+
+  if (!sender.domain) return UNKNOWN_VENDOR_NAME;
+  if (PERSONAL_MAIL_DOMAINS.has(sender.domain)) {
+    const localPart = sender.address.split('@')[0];
+    return titleCase(localPart.replace(/[._+-]+/g, ' ')) || UNKNOWN_VENDOR_NAME;
+  }
+  return titleCase(organisationLabel(sender.domain));
+}
+
+/** `mail.acme.co.uk` -> `acme` */
+export function organisationLabel(domain: string): string {
+  const labels = domain.toLowerCase().split('.').filter(Boolean);
+  if (labels.length < 2) return labels[0] ?? '';
+
+  const lastTwo = labels.slice(-2).join('.');
+  const suffixLength = SECOND_LEVEL_SUFFIXES.has(lastTwo) ? 2 : 1;
+  return labels[labels.length - suffixLength - 1] ?? labels[0];
+}
+
+function cleanDisplayName(raw: string | null): string | null {
+  if (!raw) return null;
+  const name = raw
+    .trim()
+    .replace(/^"(.*)"$/, '$1')
+    .replace(/\\(.)/g, '$1')
+    .replace(/\s+/g, ' ')
+    .trim();
+  return name || null;
+}
+
+function stripRoleWords(name: string): string | null {
+  let stripped = name.trim();
+  for (let previous = ''; stripped && stripped !== previous; ) {
+    previous = stripped;
+    stripped = stripped
+      .replace(TRAILING_ROLE_WORD, '')
+      .replace(LEADING_ROLE_WORD, '')
+      .trim();
+  }
+  return stripped || null;
+}
+
+function titleCase(value: string): string {
+  return value
+    .trim()
+    .split(/\s+/)
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(' ');
+}
@@ -0,0 +1,71 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseUUIDPipe,
+  Patch,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { AuthGuard } from '../auth/auth.guard';
+import { AccountQueryDto } from '../common/dto/account-query.dto';
+import { DocumentDto } from '../scanner/dto';
+import { VendorsService } from './vendors.service';
+import {
+  CreateVendorDto,
+  UpdateVendorDto,
+  VendorDocumentsQueryDto,
+  VendorDto,
+} from './dto';
+
+@Controller('vendors')
+@UseGuards(AuthGuard)
+export class VendorsController {
+  constructor(private readonly vendorsService: VendorsService) {}
+
+  @Get()
+  async findAll(@Query() query: AccountQueryDto): Promise<VendorDto[]> {
+    const vendors = await this.vendorsService.findAll(query.accountId);
+    return vendors.map((vendor) => VendorDto.fromEntity(vendor));
+  }
+
+  @Get(':id')
+  async findOne(
+    @Param('id', new ParseUUIDPipe()) id: string,
+  ): Promise<VendorDto> {
+    return VendorDto.fromEntity(await this.vendorsService.findOne(id));
+  }
+
+  @Get(':id/documents')
+  async getDocuments(
+    @Param('id', new ParseUUIDPipe()) id: string,
+    @Query() query: VendorDocumentsQueryDto,
+  ): Promise<DocumentDto[]> {
+    const documents = await this.vendorsService.getDocuments(id, query.limit);
+    return documents.map((document) => DocumentDto.fromEntity(document));
+  }
+
+  @Post()
+  async create(@Body() body: CreateVendorDto): Promise<VendorDto> {
+    return VendorDto.fromEntity(await this.vendorsService.create(body));
+  }
+
+  @Patch(':id')
+  async update(
+    @Param('id', new ParseUUIDPipe()) id: string,
+    @Body() body: UpdateVendorDto,
+  ): Promise<VendorDto> {
+    return VendorDto.fromEntity(await this.vendorsService.update(id, body));
+  }
+
+  @Delete(':id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async remove(@Param('id', new ParseUUIDPipe()) id: string): Promise<void> {
+    await this.vendorsService.remove(id);
+  }
+}
@@ -0,0 +1,129 @@
+import { Repository } from 'typeorm';
+import { ProcessedDocument, Vendor } from '../entities';
+import { VendorsService } from './vendors.service';
+
+const ACCOUNT = 'me@example.com';
+
+function vendor(overrides: Partial<Vendor>): Vendor {
+  return {
+    id: 'vendor-1',
+    accountId: ACCOUNT,
+    name: 'Vendor',
+    addresses: [],
+    domains: [],
+    defaultCategory: null,
+    notes: null,
+    autoCreated: false,
+    ...overrides,
+  } as Vendor;
+}
+
+describe('VendorsService', () => {
+  const vendorRepository = {
+    find: jest.fn(),
+    findOne: jest.fn(),
+    create: jest.fn((value: Partial<Vendor>) => value),
+    save: jest.fn((value: Vendor) =>
+      Promise.resolve({ ...value, id: value.id ?? 'new' }),
+    ),
+  };
+  let vendorsService: VendorsService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    vendorsService = new VendorsService(
+      vendorRepository as unknown as Repository<Vendor>,
+      {} as Repository<ProcessedDocument>,
+    );
+  });
+
+  describe('resolveSender', () => {
+    it('should prefer an exact address over a domain match', async () => {
+      vendorRepository.find.mockResolvedValue([
+        vendor({ id: 'by-domain', domains: ['stripe.com'] }),
+        vendor({ id: 'by-address', addresses: ['billing@stripe.com'] }),
+      ]);
+
+      const { vendor: resolved, sender } = await vendorsService.resolveSender(
+        ACCOUNT,
+        'Stripe <Billing@Stripe.com>',
+      );
+
+      expect(resolved.id).toBe('by-address');
+      expect(sender.address).toBe('billing@stripe.com');
+      expect(vendorRepository.save).not.toHaveBeenCalled();
+    });
+
+    it('should match subdomains of a vendor domain', async () => {
+      vendorRepository.find.mockResolvedValue([
+        vendor({ id: 'acme', domains: ['acme.com'] }),
+      ]);
+
+      const { vendor: resolved } = await vendorsService.resolveSender(
+        ACCOUNT,
+        'noreply@mail.acme.com',
+      );
+
+      expect(resolved.id).toBe('acme');
+    });
+
+    it('should create a vendor that claims only the sender address', async () => {
+      vendorRepository.find.mockResolvedValue([]);
+
+      const { vendor: resolved } = await vendorsService.resolveSender(
+        ACCOUNT,
+        'Jane Doe <jane@acme.com>',
+      );
+
+      expect(resolved).toMatchObject({
+        name: 'Jane Doe',
+        domains: [],
+        addresses: ['jane@acme.com'],
+        autoCreated: true,
+      });
+    });
+
+    it('should file senders without an address under an unknown vendor', async () => {
+      vendorRepository.find.mockResolvedValue([
+        vendor({ id: 'unknown', name: 'Unknown' }),
+      ]);
+
+      const { vendor: resolved } = await vendorsService.resolveSender(
+        ACCOUNT,
+        '',
+      );
+
+      expect(resolved).toMatchObject({ id: 'unknown', addresses: [] });
+    });
+
+    it('should not save a new vendor when asked not to register', async () => {
+      vendorRepository.find.mockResolvedValue([]);
+
+      const { vendor: resolved } = await vendorsService.resolveSender(
+        ACCOUNT,
+        '"Acme Corp" <invoices@acme.com>',
+        false,
+      );
+
+      expect(resolved).toMatchObject({ name: 'Acme Corp' });
+      expect(vendorRepository.save).not.toHaveBeenCalled();
+    });
+
+    it('should only claim the address of a personal mailbox', async () => {
+      vendorRepository.find.mockResolvedValue([
+        vendor({ id: 'jane', name: 'Jane Doe', addresses: ['jane@work.com'] }),
+      ]);
+
+      const { vendor: resolved } = await vendorsService.resolveSender(
+        ACCOUNT,
+        'Jane Doe <jane.doe@gmail.com>',
+      );
+
+      expect(resolved).toMatchObject({
+        id: 'jane',
+        addresses: ['jane@work.com', 'jane.doe@gmail.com'],
+        domains: [],
+      });
+    });
+  });
+});
@@ -0,0 +1,193 @@
+import {
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { ProcessedDocument, Vendor } from '../entities';
+import { CreateVendorDto, UpdateVendorDto } from './dto';
+import { deriveVendorName, parseSender, ParsedSender } from './sender-parser';
+
+export interface ResolvedSender {
+  sender: ParsedSender;
+  vendor: Vendor;
+}
+
+@Injectable()
+export class VendorsService {
+  private readonly logger = new Logger(VendorsService.name);
+
+  constructor(
+    @InjectRepository(Vendor)
+    private vendorRepository: Repository<Vendor>,
+    @InjectRepository(ProcessedDocument)
+    private processedDocumentRepository: Repository<ProcessedDocument>,
+  ) {}
+
+  async findAll(accountId?: string): Promise<Vendor[]> {
+    return this.vendorRepository.find({
+      where: { accountId },
+      order: { name: 'ASC' },
+    });
+  }
+
+  async findOne(id: string): Promise<Vendor> {
+    const vendor = await this.vendorRepository.findOne({ where: { id } });
+    if (!vendor) {
+      throw new NotFoundException(`Vendor ${id} not found`);
+    }
+    return vendor;
+  }
+
+  async create(dto: CreateVendorDto): Promise<Vendor> {
+    const vendor = this.vendorRepository.create({
+      accountId: dto.accountId,
+      name: dto.name.trim(),
+      addresses: this.normalize(dto.addresses ?? []),
+      domains: this.normalizeDomains(dto.domains ?? []),
+      defaultCategory: dto.defaultCategory ?? null,
+      notes: dto.notes ?? null,
+      autoCreated: false,
+    });
+    return this.save(vendor);
+  }
+
+  async update(id: string, dto: UpdateVendorDto): Promise<Vendor> {
+    const vendor = await this.findOne(id);
+    if (dto.name !== undefined) vendor.name = dto.name.trim();
+    if (dto.addresses !== undefined) {
+      vendor.addresses = this.normalize(dto.addresses);
+    }
+    if (dto.domains !== undefined) {
+      vendor.domains = this.normalizeDomains(dto.domains);
+    }
+    if (dto.defaultCategory !== undefined) {
+      vendor.defaultCategory = dto.defaultCategory;
+    }
+    if (dto.notes !== undefined) vendor.notes = dto.notes;
+    vendor.autoCreated = false;
+    return this.save(vendor);
+  }
+
+  async remove(id: string): Promise<void> {
+    const vendor = await this.findOne(id);
+    await this.processedDocumentRepository.update(
+      { vendorId: id },
+      { vendorId: null },
+    );
+    await this.vendorRepository.remove(vendor);
+  }
+
+  async getDocuments(id: string, limit = 50): Promise<ProcessedDocument[]> {
+    await this.findOne(id);
+    return this.processedDocumentRepository.find({
+      where: { vendorId: id },
+      order: { emailDate: 'DESC' },
+      take: limit,
+    });
+  }
+
+  /**
+   * Finds the vendor behind a From header, creating one from the parsed
+   * display name or domain when no existing vendor claims the sender. With
+   * `register` false nothing is saved, and a new sender gets the vendor it
+   * would have been registered under.
+   */
+  async resolveSender(
+    accountId: string,
+    from: string,
+    register = true,
+  ): Promise<ResolvedSender> {
+    const sender = parseSender(from);
+    const vendors = await this.vendorRepository.find({ where: { accountId } });
+
+    const vendor =
+      vendors.find((candidate) =>
+        candidate.addresses.includes(sender.address),
+      ) ??
+      this.findByDomain(vendors, sender.domain) ??
+      (await this.createFromSender(accountId, sender, vendors, register));
+
+    return { sender, vendor };
+  }
+
+  private findByDomain(vendors: Vendor[], domain: string): Vendor | undefined {
+    if (!domain) return undefined;
+
+    // The longest matching domain wins, so `eu.acme.com` beats `acme.com`.
+    let best: { vendor: Vendor; length: number } | undefined;
+    for (const vendor of vendors) {
+      for (const vendorDomain of vendor.domains) {
+        const matches =
+          domain === vendorDomain || domain.endsWith(`.${vendorDomain}`);
+        if (matches && (!best || vendorDomain.length > best.length)) {
+          best = { vendor, length: vendorDomain.length };
+        }
+      }
+    }
+    return best?.vendor;
+  }
+
+  /**
+   * A new sender only claims its own address. Claiming its whole domain
+   * would hand `acme.com` to whoever wrote first, often a person rather
+   * than the company, so domains are only ever added through the API.
+   * A vendor that already has the derived name absorbs the new sender.
+   */
+  private async createFromSender(
+    accountId: string,
+    sender: ParsedSender,
+    vendors: Vendor[],
+    register: boolean,
+  ): Promise<Vendor> {
+    const name = deriveVendorName(sender);
+
+    const vendor =
+      vendors.find(
+        (candidate) => candidate.name.toLowerCase() === name.toLowerCase(),
+      ) ??
+      this.vendorRepository.create({
+        accountId,
+        name,
+        addresses: [],
+        domains: [],
+        defaultCategory: null,
+        notes: null,
+        autoCreated: true,
+      });
+
+    if (sender.domain && !vendor.addresses.includes(sender.address)) {
+      vendor.addresses = [...vendor.addresses, sender.address];
+    }
+
+    if (!register) return vendor;
+
+    const saved = await this.vendorRepository.save(vendor);
+    this.logger.log(`Registered ${sender.address} under vendor ${saved.name}`);
+    return saved;
+  }
+
+  private async save(vendor: Vendor): Promise<Vendor> {
+    const clash = await this.vendorRepository.findOne({
+      where: { accountId: vendor.accountId, name: vendor.name },
+    });
+    if (clash && clash.id !== vendor.id) {
+      throw new ConflictException(
+        `Vendor ${vendor.name} already exists for ${vendor.accountId}`,
+      );
+    }
+    return this.vendorRepository.save(vendor);
+  }
+
+  private normalize(values: string[]): string[] {
+    return Array.from(
+      new Set(values.map((value) => value.trim().toLowerCase())),
+    ).filter(Boolean);
+  }
+
+  private normalizeDomains(domains: string[]): string[] {
+    return this.normalize(domains.map((domain) => domain.replace(/^@/, '')));
+  }
+}
@@ -0,0 +1,5 @@
+// Specs run in a fixed zone that is not UTC, so code that reads dates in
+// the server's zone fails the same way on every machine.
+export default function globalSetup(): void {
+  process.env.TZ = 'America/New_York';
+}